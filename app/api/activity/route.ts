@@ -1,22 +1,38 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { fetchPositions } from "@/lib/trading/positions";
+import { getExchangeAdapter } from "@/lib/trading/exchange-adapter";
+import { getArenaExchangeAdapter, parseModelType } from "@/lib/arena/arena";
+import { getEnabledSymbols } from "@/lib/trading/symbol-registry";
+import { getPositionFunding } from "@/lib/trading/funding";
 
-export const GET = async () => {
+export const GET = async (request: NextRequest) => {
     try {
+        // ?model=Qwen 只看该模型的决策和竞技场子账户持仓
+        const model = parseModelType(request.nextUrl.searchParams.get("model"));
+
         // 获取最新的 AI 决策聊天（最近 10 条）
         const recentChats = await prisma.chat.findMany({
+            where: model ? { model } : undefined,
             take: 10,
             orderBy: { createdAt: "desc" },
             include: {
-                tradings: true,
+                tradings: {
+                    include: {
+                        // 被组合风控拦截的开仓（前端展示拦截原因）
+                        riskVerdicts: {
+                            where: { allowed: false },
+                            select: { side: true, rule: true, reason: true },
+                        },
+                    },
+                },
             },
         });
 
-        // 获取当前真实持仓（使用直接 REST API，避免 ccxt exchangeInfo）
+        // 获取当前持仓（通过交易所适配器），附带累计 / 预计资金费
         let activePositions: any[] = [];
         try {
-            activePositions = await fetchPositions();
+            const exchange = model ? await getArenaExchangeAdapter(model) : await getExchangeAdapter();
+            activePositions = await getPositionFunding(exchange, await exchange.getPositions());
         } catch (positionError) {
             console.error("Failed to fetch positions (non-critical):", positionError);
             // 持仓获取失败不影响整体响应,返回空数组
@@ -29,6 +45,7 @@ export const GET = async () => {
                 chats: recentChats.map((chat) => ({
                     id: chat.id,
                     model: chat.model,
+                    provider: chat.provider,
                     chat: chat.chat,
                     reasoning: chat.reasoning,
                     userPrompt: chat.userPrompt,
@@ -36,6 +53,7 @@ export const GET = async () => {
                     createdAt: chat.createdAt.toISOString(),
                 })),
                 positions: activePositions,
+                symbols: await getEnabledSymbols(),
             },
             timestamp: new Date().toISOString(),
         });
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPerformanceAnalytics } from "@/lib/analytics/analytics";
+import { getArenaConfig, getMetricsSeries, parseModelType } from "@/lib/arena/arena";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Query: ?model=Qwen&from=<ISO>&to=<ISO>&periodMinutes=60&riskFreeRate=0.04
+ * Without model: the single-model series plus every arena sub-account
+ */
+export const GET = async (request: NextRequest) => {
+  try {
+    const params = request.nextUrl.searchParams;
+    const model = parseModelType(params.get("model"));
+    const from = params.get("from") ? new Date(params.get("from")!) : undefined;
+    const to = params.get("to") ? new Date(params.get("to")!) : undefined;
+    const options = {
+      periodMs: params.get("periodMinutes") ? Number(params.get("periodMinutes")) * 60 * 1000 : undefined,
+      riskFreeRate: params.get("riskFreeRate") ? Number(params.get("riskFreeRate")) : undefined,
+    };
+
+    const seriesList = model
+      ? [getMetricsSeries(model)]
+      : [getMetricsSeries(null), ...getArenaConfig().models.map((m) => getMetricsSeries(m))];
+
+    const analytics = await Promise.all(
+      seriesList.map((series) => getPerformanceAnalytics({ ...series, from, to }, options))
+    );
+
+    return NextResponse.json({
+      data: { analytics },
+      success: true,
+    });
+  } catch (error) {
+    console.error("Error computing analytics:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+};
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { getArenaConfig } from "@/lib/arena/arena";
+import { getArenaLeaderboard } from "@/lib/arena/leaderboard";
+
+export const dynamic = "force-dynamic";
+
+export const GET = async () => {
+  try {
+    const { models, initialBalance } = getArenaConfig();
+    const leaderboard = await getArenaLeaderboard();
+
+    return NextResponse.json({
+      data: {
+        enabled: models.length > 0,
+        initialBalance,
+        leaderboard,
+      },
+      success: true,
+    });
+  } catch (error) {
+    console.error("Error fetching arena leaderboard:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+};
@@ -1,14 +1,13 @@
 import { NextRequest } from "next/server";
 import jwt from "jsonwebtoken";
 import { getAccountInformationAndPerformance } from "@/lib/trading/account-information-and-performance";
-import { prisma } from "@/lib/prisma";
 import { ModelType } from "@prisma/client";
-import { InputJsonValue, JsonValue } from "@prisma/client/runtime/library";
-
-// 🔧 大幅提高存储上限,保留更多历史数据
-// 10080 个点 = 7天数据 (每20秒一个点)
-// 43200 个点 = 30天数据
-const MAX_METRICS_COUNT = 10080; // 保留7天历史数据
+import { appendMetrics, DEFAULT_METRICS_NAME } from "@/lib/trading/metrics-history";
+import { isArenaEnabled, recordArenaMetrics } from "@/lib/arena/arena";
+import { runOrderMaintenance } from "@/lib/trading/order-maintenance";
+import { syncFundingRates } from "@/lib/trading/funding";
+import { getExchangeAdapter } from "@/lib/trading/exchange-adapter";
+import { getEnabledSymbols } from "@/lib/trading/symbol-registry";
 
 export const GET = async (request: NextRequest) => {
   const url = new URL(request.url);
@@ -24,6 +23,24 @@ export const GET = async (request: NextRequest) => {
     return new Response("Invalid token", { status: 401 });
   }
 
+  // 资金费率历史是行情数据，所有账户共用（每个结算周期每个币种只拉一次）
+  try {
+    await syncFundingRates(await getExchangeAdapter(), await getEnabledSymbols());
+  } catch (err) {
+    console.warn("[cron:20s] funding rate sync failed:", err);
+  }
+
+  // 🏟️ 竞技场模式：每个模型子账户记录各自的 Metrics 序列
+  if (isArenaEnabled()) {
+    const snapshotIds = await recordArenaMetrics();
+    return new Response(
+      `Process executed successfully. Arena snapshots: ${Object.keys(snapshotIds).join(", ")}`
+    );
+  }
+
+  // 限价开仓挂单成交后尽快挂上止盈止损（不计入决策周期），补齐订单账本的状态和成交，按最新价格移动追踪止损并执行退出规则
+  await runOrderMaintenance({ model: ModelType.Deepseek, series: DEFAULT_METRICS_NAME }, "[cron:20s]");
+
   let accountInformationAndPerformance;
   try {
     // 不再硬编码 START_MONEY，首次自动读取真实余额作为基准
@@ -36,50 +53,13 @@ export const GET = async (request: NextRequest) => {
     throw err; // 连接失败不写入兜底数据，让调用方知晓
   }
 
-  let existMetrics = await prisma.metrics.findFirst({
-    where: {
-      model: ModelType.Deepseek,
-    },
-  });
-
-  if (!existMetrics) {
-    existMetrics = await prisma.metrics.create({
-      data: {
-        name: "live-trading",
-        metrics: [],
-        model: ModelType.Deepseek,
-      },
-    });
-  }
-
-  // add new metrics
-  const newMetrics = [
-    ...((existMetrics?.metrics || []) as JsonValue[]),
-    {
-      accountInformationAndPerformance,
-      createdAt: new Date().toISOString(),
-    },
-  ] as JsonValue[];
-
-  // 🔧 简单截断旧数据,保留最新的 MAX_METRICS_COUNT 个点
-  // 不再使用采样,保证数据连续性
-  let finalMetrics = newMetrics;
-  if (newMetrics.length > MAX_METRICS_COUNT) {
-    // 只保留最新的数据点,删除最旧的
-    finalMetrics = newMetrics.slice(newMetrics.length - MAX_METRICS_COUNT);
-    console.log(`🗑️ Trimmed old data: ${newMetrics.length} -> ${finalMetrics.length} points`);
-  }
-
-  await prisma.metrics.update({
-    where: {
-      id: existMetrics?.id,
-    },
-    data: {
-      metrics: finalMetrics as InputJsonValue[],
-    },
-  });
+  const snapshotId = await appendMetrics(
+    ModelType.Deepseek,
+    DEFAULT_METRICS_NAME,
+    accountInformationAndPerformance
+  );
 
   return new Response(
-    `Process executed successfully. Metrics count: ${finalMetrics.length}`
+    `Process executed successfully. Snapshot: ${snapshotId}`
   );
 };
@@ -1,4 +1,5 @@
 import { run } from "@/lib/ai/run";
+import { isArenaEnabled, runArena } from "@/lib/arena/arena";
 import { NextRequest } from "next/server";
 import jwt from "jsonwebtoken";
 
@@ -46,6 +47,16 @@ export const GET = async (request: NextRequest) => {
   lastRunTime = now;
 
   try {
+    // 🏟️ 竞技场模式：所有模型在各自子账户中并行运行
+    if (isArenaEnabled()) {
+      const results = await runArena();
+      const summary = results
+        .map((r) => `${r.model}: ${r.success ? "ok" : `failed (${r.error})`}`)
+        .join(", ");
+      console.log(`✅ [Cron Job] Arena round finished: ${summary}`);
+      return new Response(`Arena round executed: ${summary}`);
+    }
+
     // Run trading bot (auto-detects initial capital from current balance)
     await run();
     console.log("✅ [Cron Job] 3-minutes trading run executed successfully.");
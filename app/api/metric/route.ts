@@ -1,43 +1,22 @@
-import { prisma } from "@/lib/prisma";
 import { ModelType } from "@prisma/client";
-import { NextResponse } from "next/server";
-import { MetricData } from "@/lib/types/metrics";
+import { NextRequest, NextResponse } from "next/server";
+import { getDownsampledMetricSnapshots } from "@/lib/trading/metrics-history";
+import { getMetricsSeries, parseModelType } from "@/lib/arena/arena";
 import { getCurrentMarketState } from "@/lib/trading/current-market-state";
 
-// 最大返回数据点数量
+// 最大返回数据点数量（按时间桶降采样）
 const MAX_DATA_POINTS = 50;
 
-/**
- * 从数组中均匀采样指定数量的元素
- * @param data - 原始数据数组
- * @param sampleSize - 需要采样的数量
- * @returns 均匀分布的采样数据
- */
-function uniformSample<T>(data: T[], sampleSize: number): T[] {
-  if (data.length <= sampleSize) {
-    return data;
-  }
-
-  const result: T[] = [];
-  const step = (data.length - 1) / (sampleSize - 1);
-
-  for (let i = 0; i < sampleSize; i++) {
-    const index = Math.round(i * step);
-    result.push(data[index]);
-  }
-
-  return result;
-}
-
-export const GET = async () => {
+export const GET = async (request: NextRequest) => {
   try {
-    const metrics = await prisma.metrics.findFirst({
-      where: {
-        model: ModelType.Deepseek,
-      },
-    });
+    // ?model=Qwen 查询竞技场子账户的序列，缺省为单模型序列
+    const series = getMetricsSeries(parseModelType(request.nextUrl.searchParams.get("model")));
+    const { metrics: sampledMetrics, totalCount } = await getDownsampledMetricSnapshots(
+      { ...series, onlyFunded: true },
+      MAX_DATA_POINTS
+    );
 
-    if (!metrics) {
+    if (totalCount === 0) {
       return NextResponse.json({
         data: {
           metrics: [],
@@ -47,35 +26,18 @@ export const GET = async () => {
 
     const btcPricing = await getCurrentMarketState("BTC/USDT");
 
-    const databaseMetrics = metrics.metrics as unknown as {
-      createdAt: string;
-      accountInformationAndPerformance: MetricData[];
-    }[];
-
-    const metricsData = databaseMetrics
-      .map((item) => {
-        return {
-          ...item.accountInformationAndPerformance,
-          createdAt: item?.createdAt || new Date().toISOString(),
-        };
-      })
-      .filter((item) => (item as unknown as MetricData).availableCash > 0);
-
-    // 均匀采样数据，最多返回 MAX_DATA_POINTS 条
-    const sampledMetrics = uniformSample(metricsData, MAX_DATA_POINTS);
-
     console.log(
-      `📊 Total metrics: ${metricsData.length}, Sampled: ${sampledMetrics.length}`
+      `📊 Total metrics: ${totalCount}, Sampled: ${sampledMetrics.length}`
     );
 
     return NextResponse.json({
       data: {
         metrics: sampledMetrics,
-        totalCount: metricsData.length, // 返回总数量供前端参考
-        model: metrics?.model || ModelType.Deepseek,
-        name: metrics?.name || "Deepseek Trading Bot",
-        createdAt: metrics?.createdAt || new Date().toISOString(),
-        updatedAt: metrics?.updatedAt || new Date().toISOString(),
+        totalCount, // 返回总数量供前端参考
+        model: series.model,
+        name: series.series,
+        createdAt: sampledMetrics[0]?.createdAt || new Date().toISOString(),
+        updatedAt: sampledMetrics[sampledMetrics.length - 1]?.createdAt || new Date().toISOString(),
         pricing: {
           btc: btcPricing,
         },
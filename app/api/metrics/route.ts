@@ -1,55 +1,43 @@
-import { prisma } from "@/lib/prisma";
 import { ModelType } from "@prisma/client";
-import { NextResponse } from "next/server";
-import { MetricData } from "@/lib/types/metrics";
+import { NextRequest, NextResponse } from "next/server";
+import { getDownsampledMetricSnapshots } from "@/lib/trading/metrics-history";
+import { getMetricsSeries, parseModelType } from "@/lib/arena/arena";
 
-// 🔧 移除数据点限制,返回所有历史数据
-// 前端通过滑动窗口控制显示,服务端返回完整数据集
+// 默认返回最近 7 天，超过 MAX_POINTS 时按时间桶降采样（每桶取最后一个快照）
+// 前端通过滑动窗口控制显示
+const DEFAULT_RANGE_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_POINTS = 10080;
 
-export const GET = async () => {
+/**
+ * Query: ?model=Qwen&from=<ISO>&to=<ISO>&buckets=<max points>
+ */
+export const GET = async (request: NextRequest) => {
   try {
-    const metrics = await prisma.metrics.findFirst({
-      where: {
-        model: ModelType.Deepseek,
-      },
-    });
-
-    if (!metrics) {
-      return NextResponse.json({
-        data: {
-          metrics: [],
-          totalCount: 0,
-        },
-        success: true,
-      });
-    }
+    const params = request.nextUrl.searchParams;
+    // ?model=Qwen 查询竞技场子账户的序列，缺省为单模型序列
+    const series = getMetricsSeries(parseModelType(params.get("model")));
+    const to = params.get("to") ? new Date(params.get("to")!) : new Date();
+    const from = params.get("from") ? new Date(params.get("from")!) : new Date(to.getTime() - DEFAULT_RANGE_MS);
+    const buckets = Math.min(Number(params.get("buckets") || MAX_POINTS), MAX_POINTS);
 
-    const databaseMetrics = metrics.metrics as unknown as {
-      createdAt: string;
-      accountInformationAndPerformance: MetricData[];
-    }[];
-
-    const metricsData = databaseMetrics.map((item) => {
-      return {
-        ...item.accountInformationAndPerformance,
-        createdAt: item?.createdAt || new Date().toISOString(),
-      } as unknown as MetricData;
-    });
+    const { metrics, totalCount, bucketMs } = await getDownsampledMetricSnapshots(
+      { ...series, from, to },
+      buckets
+    );
 
-    // 🔧 返回所有数据,不再采样
-    // 前端通过滑动窗口控制显示数量
     console.log(
-      `📊 Returning all metrics: ${metricsData.length} points`
+      `📊 Returning metrics: ${metrics.length}/${totalCount} points${bucketMs ? ` (bucket ${Math.round(bucketMs / 1000)}s)` : ""}`
     );
 
     return NextResponse.json({
       data: {
-        metrics: metricsData, // 返回完整数据集
-        totalCount: metricsData.length,
-        model: metrics?.model || ModelType.Deepseek,
-        name: metrics?.name || "Deepseek Trading Bot",
-        createdAt: metrics?.createdAt || new Date().toISOString(),
-        updatedAt: metrics?.updatedAt || new Date().toISOString(),
+        metrics,
+        totalCount,
+        bucketMs,
+        model: series.model,
+        name: series.series,
+        createdAt: metrics[0]?.createdAt || new Date().toISOString(),
+        updatedAt: metrics[metrics.length - 1]?.createdAt || new Date().toISOString(),
       },
       success: true,
     });
@@ -1,16 +1,29 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { ModelType } from "@prisma/client";
+import { parseModelType } from "@/lib/arena/arena";
 
 export const GET = async (request: NextRequest) => {
+  let model: ModelType;
+  try {
+    model = parseModelType(request.nextUrl.searchParams.get("model")) ?? ModelType.Deepseek;
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+  }
+
   const chat = await prisma.chat.findMany({
     where: {
-      model: ModelType.Deepseek,
+      model,
     },
     take: 10,
     orderBy: {
       createdAt: "desc",
     },
+    // 结构化快照体积较大，列表接口不返回
+    omit: {
+      marketStates: true,
+      accountSnapshot: true,
+    },
     include: {
       tradings: {
         take: 10,
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ModelType } from "@prisma/client";
+import { getPredictionAccuracy } from "@/lib/analytics/predictions";
+import { parseModelType } from "@/lib/arena/arena";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Query: ?model=Qwen&symbol=BTC&from=<ISO>&to=<ISO>
+ * Without model: every model plus the combined accuracy (model: null)
+ */
+export const GET = async (request: NextRequest) => {
+  try {
+    const params = request.nextUrl.searchParams;
+    const model = parseModelType(params.get("model"));
+    const symbol = params.get("symbol")?.toUpperCase().replace(/(\/?USDT)$/, "") || null;
+    const from = params.get("from") ? new Date(params.get("from")!) : undefined;
+    const to = params.get("to") ? new Date(params.get("to")!) : undefined;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return NextResponse.json(
+        { success: false, error: "from / to must be ISO dates, e.g. 2025-01-01T00:00:00Z" },
+        { status: 400 }
+      );
+    }
+
+    const models: Array<ModelType | null> = model ? [model] : [null, ...Object.values(ModelType)];
+    const accuracy = (
+      await Promise.all(models.map((m) => getPredictionAccuracy({ model: m, symbol, from, to })))
+    ).filter((result) => model || result.model === null || result.total > 0);
+
+    return NextResponse.json({
+      data: { accuracy },
+      success: true,
+    });
+  } catch (error) {
+    console.error("Error computing prediction accuracy:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+};
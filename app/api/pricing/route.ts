@@ -1,27 +1,27 @@
 import { NextResponse } from "next/server";
 import { getCurrentMarketState } from "@/lib/trading/current-market-state";
+import { listSymbols, toTradingPair } from "@/lib/trading/symbol-registry";
 
 export const GET = async () => {
   try {
-    // 并行获取所有加密货币价格（对单个失败做降级，避免整体 500）
-    const symbols = ["BTC/USDT", "ETH/USDT", "SOL/USDT", "DOGE/USDT", "BNB/USDT"] as const;
-    const results = await Promise.allSettled(symbols.map((s) => getCurrentMarketState(s)));
+    // 并行获取所有启用币种的价格（对单个失败做降级，避免整体 500）
+    const symbols = (await listSymbols()).filter((s) => s.enabled);
+    const results = await Promise.allSettled(symbols.map((s) => getCurrentMarketState(toTradingPair(s.symbol))));
 
-    const [btcPricing, ethPricing, solPricing, dogePricing, bnbPricing] = results.map((r) =>
-      r.status === "fulfilled" ? r.value : null
+    // 以小写币种为 key，如 pricing.btc
+    const pricing = Object.fromEntries(
+      symbols.map((s, i) => {
+        const result = results[i];
+        return [s.symbol.toLowerCase(), result.status === "fulfilled" ? result.value : null];
+      })
     );
 
     return NextResponse.json({
       data: {
-        pricing: {
-          btc: btcPricing,
-          eth: ethPricing,
-          sol: solPricing,
-          doge: dogePricing,
-          bnb: bnbPricing,
-        },
+        pricing,
+        symbols: symbols.map(({ symbol, name, pricePrecision }) => ({ symbol, name, pricePrecision })),
         errors: results
-          .map((r, i) => (r.status === "rejected" ? { symbol: symbols[i], reason: String(r.reason) } : null))
+          .map((r, i) => (r.status === "rejected" ? { symbol: toTradingPair(symbols[i].symbol), reason: String(r.reason) } : null))
           .filter(Boolean),
       },
       success: results.some((r) => r.status === "fulfilled"),
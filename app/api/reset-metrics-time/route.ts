@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
 import { ModelType } from "@prisma/client";
+import {
+    countMetricSnapshots,
+    DEFAULT_METRICS_NAME,
+    respaceMetricTimestamps,
+} from "@/lib/trading/metrics-history";
 
 export const POST = async (request: NextRequest) => {
     try {
@@ -16,13 +20,10 @@ export const POST = async (request: NextRequest) => {
         }
 
         // 查找现有的metrics数据
-        const existMetrics = await prisma.metrics.findFirst({
-            where: {
-                model: ModelType.Deepseek,
-            },
-        });
+        const series = { model: ModelType.Deepseek, series: DEFAULT_METRICS_NAME };
+        const existCount = await countMetricSnapshots(series);
 
-        if (!existMetrics || !existMetrics.metrics) {
+        if (existCount === 0) {
             return NextResponse.json({
                 success: false,
                 message: "No metrics found"
@@ -34,35 +35,16 @@ export const POST = async (request: NextRequest) => {
         const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
         const startTime = new Date(today.getTime() + 22 * 60 * 60 * 1000 + 25 * 60 * 1000); // 今天22:25
 
-        // 处理现有metrics数据
-        const metrics = existMetrics.metrics as any[];
-        const updatedMetrics = metrics.map((metric, index) => {
-            // 为每个数据点分配从起始时间开始的时间戳
-            // 假设数据点间隔30秒
-            const intervalMs = 30 * 1000; // 30秒间隔
-            const adjustedTime = new Date(startTime.getTime() + index * intervalMs);
-
-            return {
-                ...metric,
-                createdAt: adjustedTime.toISOString()
-            };
-        });
-
-        // 更新数据库
-        await prisma.metrics.update({
-            where: {
-                id: existMetrics.id,
-            },
-            data: {
-                metrics: updatedMetrics as any,
-            },
-        });
+        // 为每个数据点分配从起始时间开始的时间戳
+        // 假设数据点间隔30秒
+        const intervalMs = 30 * 1000; // 30秒间隔
+        const updatedCount = await respaceMetricTimestamps(series, startTime, intervalMs);
 
         return NextResponse.json({
             success: true,
-            message: `Successfully updated ${updatedMetrics.length} metrics with new timestamps`,
+            message: `Successfully updated ${updatedCount} metrics with new timestamps`,
             startTime: startTime.toISOString(),
-            updatedCount: updatedMetrics.length
+            updatedCount
         });
 
     } catch (error) {
@@ -73,4 +55,4 @@ export const POST = async (request: NextRequest) => {
             error: error instanceof Error ? error.message : "Unknown error"
         }, { status: 500 });
     }
-};
\ No newline at end of file
+};
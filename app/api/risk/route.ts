@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRiskOverview } from "@/lib/trading/risk-store";
+import { getMetricsSeries, parseModelType } from "@/lib/arena/arena";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Query: ?model=Qwen&take=50
+ * Risk state (day-start equity, peak, circuit breaker) and recent entry verdicts of one account
+ */
+export const GET = async (request: NextRequest) => {
+  try {
+    const params = request.nextUrl.searchParams;
+    const series = getMetricsSeries(parseModelType(params.get("model")));
+    const take = Math.min(Number(params.get("take") || 50), 500);
+
+    const { state, verdicts } = await getRiskOverview(series, take);
+
+    return NextResponse.json({
+      data: { ...series, state, verdicts },
+      success: true,
+    });
+  } catch (error) {
+    console.error("Error loading risk overview:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+};
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import jwt from "jsonwebtoken";
+import { listSymbols, upsertSymbol } from "@/lib/trading/symbol-registry";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Registered symbols (enabled and disabled)
+ */
+export const GET = async () => {
+  try {
+    return NextResponse.json({
+      data: { symbols: await listSymbols() },
+      success: true,
+    });
+  } catch (error) {
+    console.error("Error loading symbols:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+};
+
+/**
+ * Query: ?token=<jwt signed with CRON_SECRET_KEY>
+ * Body: { symbol: "XRP", name?: "XRP", enabled?: true, quantityPrecision?: 1, pricePrecision?: 4, minNotional?: 5, sortOrder?: 6 }
+ * Add a symbol or enable / disable an existing one (takes effect on the next run)
+ */
+export const POST = async (request: NextRequest) => {
+  const token = request.nextUrl.searchParams.get("token");
+  if (!token) {
+    return new Response("Token is required", { status: 400 });
+  }
+
+  try {
+    jwt.verify(token, process.env.CRON_SECRET_KEY || "");
+  } catch {
+    return new Response("Invalid token", { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    if (typeof body?.symbol !== "string" || !/^[A-Za-z0-9]+(\/USDT)?$/i.test(body.symbol)) {
+      return NextResponse.json({ success: false, error: "symbol is required, e.g. XRP" }, { status: 400 });
+    }
+
+    const symbol = await upsertSymbol({
+      symbol: body.symbol,
+      name: typeof body.name === "string" ? body.name : undefined,
+      enabled: typeof body.enabled === "boolean" ? body.enabled : undefined,
+      quantityPrecision: Number.isInteger(body.quantityPrecision) ? body.quantityPrecision : undefined,
+      pricePrecision: Number.isInteger(body.pricePrecision) ? body.pricePrecision : undefined,
+      minNotional: typeof body.minNotional === "number" ? body.minNotional : undefined,
+      sortOrder: Number.isInteger(body.sortOrder) ? body.sortOrder : undefined,
+    });
+
+    return NextResponse.json({ data: { symbol }, success: true });
+  } catch (error) {
+    console.error("Error updating symbol:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+};
@@ -0,0 +1,142 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import Link from "next/link";
+import { Card } from "@/components/ui/card";
+import type { ArenaLeaderboardEntry } from "@/lib/arena/leaderboard";
+
+interface ArenaResponse {
+  data: {
+    enabled: boolean;
+    initialBalance: number;
+    leaderboard: ArenaLeaderboardEntry[];
+  };
+  success: boolean;
+}
+
+const formatUsd = (value: number) =>
+  `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatPercent = (value: number) => `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+
+export default function ArenaPage() {
+  const [leaderboard, setLeaderboard] = useState<ArenaLeaderboardEntry[]>([]);
+  const [enabled, setEnabled] = useState(true);
+  const [initialBalance, setInitialBalance] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [lastUpdate, setLastUpdate] = useState<string>("");
+
+  // 获取排行榜
+  const fetchLeaderboard = useCallback(async () => {
+    try {
+      const response = await fetch("/api/arena");
+      if (!response.ok) return;
+
+      const data: ArenaResponse = await response.json();
+      if (data.success && data.data) {
+        setLeaderboard(data.data.leaderboard || []);
+        setEnabled(data.data.enabled);
+        setInitialBalance(data.data.initialBalance);
+        setLastUpdate(new Date().toLocaleTimeString());
+      }
+    } catch (err) {
+      console.error("Error fetching arena leaderboard:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchLeaderboard();
+    const interval = setInterval(fetchLeaderboard, 20000);
+    return () => clearInterval(interval);
+  }, [fetchLeaderboard]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20">
+      <div className="relative max-w-[1600px] mx-auto p-4 md:p-8 space-y-8">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="space-y-1">
+            <h1 className="text-4xl font-black tracking-tight">Arena Leaderboard</h1>
+            <p className="text-muted-foreground/90 text-sm">
+              Every model trades its own {initialBalance > 0 ? formatUsd(initialBalance) : ""} virtual sub-account on the same market data
+            </p>
+          </div>
+          {lastUpdate && (
+            <div className="text-right space-y-1.5">
+              <div className="text-xs font-semibold text-muted-foreground/80 uppercase tracking-wider">Last Sync</div>
+              <div className="text-xl font-black font-mono">{lastUpdate}</div>
+            </div>
+          )}
+        </div>
+
+        {/* Navigation */}
+        <div className="flex gap-6 border-b border-border/50">
+          <Link href="/" className="pb-3 px-2 text-sm font-bold tracking-wide text-muted-foreground hover:text-foreground">
+            LIVE
+          </Link>
+          <button className="group relative pb-3 px-2">
+            <span className="text-sm font-bold tracking-wide bg-gradient-to-r from-blue-600 to-indigo-600 bg-clip-text text-transparent">
+              ARENA
+            </span>
+            <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-gradient-to-r from-blue-500 to-indigo-600 rounded-full" />
+          </button>
+        </div>
+
+        <Card className="p-0 overflow-hidden">
+          {loading ? (
+            <div className="p-8 text-center text-muted-foreground">Loading leaderboard...</div>
+          ) : !enabled ? (
+            <div className="p-8 text-center text-muted-foreground">
+              Arena is disabled. Set <code className="font-mono">ARENA_MODELS</code> (e.g. Deepseek,Qwen,Doubao) to start a competition.
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-muted/40 text-xs uppercase tracking-wider text-muted-foreground">
+                <tr>
+                  <th className="px-4 py-3 text-left">Rank</th>
+                  <th className="px-4 py-3 text-left">Model</th>
+                  <th className="px-4 py-3 text-right">Equity</th>
+                  <th className="px-4 py-3 text-right">Return</th>
+                  <th className="px-4 py-3 text-right">Unrealized PnL</th>
+                  <th className="px-4 py-3 text-right">Max DD</th>
+                  <th className="px-4 py-3 text-right">Positions</th>
+                  <th className="px-4 py-3 text-right">Entries / Closes</th>
+                  <th className="px-4 py-3 text-right">Decisions</th>
+                  <th className="px-4 py-3 text-right">Last Decision</th>
+                </tr>
+              </thead>
+              <tbody>
+                {leaderboard.map((entry) => (
+                  <tr key={entry.model} className="border-t border-border/50">
+                    <td className="px-4 py-3 font-black">#{entry.rank}</td>
+                    <td className="px-4 py-3">
+                      <div className="font-bold">{entry.model}</div>
+                      <div className="text-xs text-muted-foreground font-mono">{entry.accountName}</div>
+                      {entry.error && <div className="text-xs text-red-500">{entry.error}</div>}
+                    </td>
+                    <td className="px-4 py-3 text-right font-mono">{formatUsd(entry.equity)}</td>
+                    <td className={`px-4 py-3 text-right font-mono font-bold ${entry.totalReturnPercent >= 0 ? "text-green-600" : "text-red-600"}`}>
+                      {formatPercent(entry.totalReturnPercent)}
+                    </td>
+                    <td className={`px-4 py-3 text-right font-mono ${entry.unrealizedPnl >= 0 ? "text-green-600" : "text-red-600"}`}>
+                      {formatUsd(entry.unrealizedPnl)}
+                    </td>
+                    <td className="px-4 py-3 text-right font-mono">{entry.maxDrawdownPercent.toFixed(2)}%</td>
+                    <td className="px-4 py-3 text-right font-mono">{entry.openPositions}</td>
+                    <td className="px-4 py-3 text-right font-mono">{entry.entries} / {entry.closes}</td>
+                    <td className="px-4 py-3 text-right font-mono">{entry.decisions}</td>
+                    <td className="px-4 py-3 text-right text-xs text-muted-foreground">
+                      {entry.lastDecisionAt ? new Date(entry.lastDecisionAt).toLocaleString() : "-"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
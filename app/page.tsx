@@ -1,6 +1,7 @@
 "use client";
 
 import { useEffect, useState, useCallback } from "react";
+import Link from "next/link";
 import { MetricsChart } from "@/components/metrics-chart";
 import { CryptoCard } from "@/components/crypto-card";
 import { ModelsView } from "@/components/models-view";
@@ -9,12 +10,13 @@ import { Card } from "@/components/ui/card";
 import { MarketState } from "@/lib/trading/current-market-state";
 import { MetricData } from "@/lib/types/metrics";
 
-interface CryptoPricing {
-  btc: MarketState;
-  eth: MarketState;
-  sol: MarketState;
-  doge: MarketState;
-  bnb: MarketState;
+// key: 小写币种，如 btc（获取失败为 null）
+type CryptoPricing = Record<string, MarketState | null>;
+
+interface PricingSymbol {
+  symbol: string;
+  name: string;
+  pricePrecision: number;
 }
 
 interface MetricsResponse {
@@ -32,6 +34,7 @@ interface MetricsResponse {
 interface PricingResponse {
   data: {
     pricing: CryptoPricing;
+    symbols: PricingSymbol[];
   };
   success: boolean;
 }
@@ -40,6 +43,7 @@ export default function Home() {
   const [metricsData, setMetricsData] = useState<MetricData[]>([]);
   const [totalCount, setTotalCount] = useState<number>(0);
   const [pricing, setPricing] = useState<CryptoPricing | null>(null);
+  const [pricingSymbols, setPricingSymbols] = useState<PricingSymbol[]>([]);
   const [loading, setLoading] = useState(true);
   const [lastUpdate, setLastUpdate] = useState<string>("");
 
@@ -71,6 +75,7 @@ export default function Home() {
       const data: PricingResponse = await response.json();
       if (data.success && data.data.pricing) {
         setPricing(data.data.pricing);
+        setPricingSymbols(data.data.symbols || []);
       }
     } catch (err) {
       console.error("Error fetching pricing:", err);
@@ -122,14 +127,14 @@ export default function Home() {
               </div>
 
               {/* Virtual Trading Badge */}
-              {process.env.NEXT_PUBLIC_TRADING_MODE === 'dry-run' && (
+              {(process.env.NEXT_PUBLIC_TRADING_MODE === 'dry-run' || process.env.NEXT_PUBLIC_TRADING_MODE === 'paper') && (
                 <div className="relative group">
                   <div className="absolute inset-0 bg-gradient-to-r from-blue-500 to-indigo-600 rounded-xl blur-md opacity-75 group-hover:opacity-100 transition" />
                   <span className="relative inline-flex items-center gap-2 px-4 py-2 text-xs font-bold rounded-xl bg-gradient-to-r from-blue-500 to-indigo-600 text-white shadow-lg">
                     <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
                       <path d="M10 3.5a1.5 1.5 0 013 0V4a1 1 0 001 1h3a1 1 0 011 1v3a1 1 0 01-1 1h-.5a1.5 1.5 0 000 3h.5a1 1 0 011 1v3a1 1 0 01-1 1h-3a1 1 0 01-1-1v-.5a1.5 1.5 0 00-3 0v.5a1 1 0 01-1 1H6a1 1 0 01-1-1v-3a1 1 0 00-1-1h-.5a1.5 1.5 0 010-3H4a1 1 0 001-1V6a1 1 0 011-1h3a1 1 0 001-1v-.5z" />
                     </svg>
-                    Virtual Mode
+                    {process.env.NEXT_PUBLIC_TRADING_MODE === 'paper' ? 'Paper Mode' : 'Virtual Mode'}
                   </span>
                 </div>
               )}
@@ -160,38 +165,27 @@ export default function Home() {
             </span>
             <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-gradient-to-r from-blue-500 to-indigo-600 rounded-full shadow-lg shadow-blue-500/50" />
           </button>
+          <Link href="/arena" className="pb-3 px-2 text-sm font-bold tracking-wide text-muted-foreground hover:text-foreground">
+            ARENA
+          </Link>
         </div>
 
         {/* Premium Crypto Ticker */}
         <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
           {pricing ? (
-            <>
-              <CryptoCard
-                symbol="BTC"
-                name="Bitcoin"
-                price={`$${pricing.btc.current_price.toLocaleString()}`}
-              />
-              <CryptoCard
-                symbol="ETH"
-                name="Ethereum"
-                price={`$${pricing.eth.current_price.toLocaleString()}`}
-              />
-              <CryptoCard
-                symbol="SOL"
-                name="Solana"
-                price={`$${pricing.sol.current_price.toLocaleString()}`}
-              />
-              <CryptoCard
-                symbol="BNB"
-                name="BNB"
-                price={`$${pricing.bnb.current_price.toLocaleString()}`}
-              />
-              <CryptoCard
-                symbol="DOGE"
-                name="Dogecoin"
-                price={`$${pricing.doge.current_price.toFixed(4)}`}
-              />
-            </>
+            pricingSymbols.map(({ symbol, name, pricePrecision }) => {
+              const state = pricing[symbol.toLowerCase()];
+              return (
+                <CryptoCard
+                  key={symbol}
+                  symbol={symbol}
+                  name={name}
+                  price={state
+                    ? `$${state.current_price.toLocaleString(undefined, { maximumFractionDigits: pricePrecision })}`
+                    : "--"}
+                />
+              );
+            })
           ) : (
             // Premium loading skeleton
             Array.from({ length: 5 }).map((_, i) => (
@@ -0,0 +1,117 @@
+/**
+ * Backtest CLI
+ *
+ *   npm run backtest -- --symbols BTC,ETH --start 2025-01-01 --end 2025-01-07 --sync
+ *   npm run backtest -- --provider llm --record recorded.json
+ *   npm run backtest -- --provider recorded --recorded recorded.json --out result.json
+ *
+ * Options:
+ *   --symbols   Comma separated base symbols (default: enabled symbols of the symbol registry)
+ *   --start     Start time (ISO date)
+ *   --end       End time (ISO date, default now)
+ *   --step      Decision interval in minutes (default 3)
+ *   --capital   Initial capital (default PAPER_INITIAL_BALANCE)
+ *   --provider  rule | recorded | llm (default rule)
+ *   --recorded  Recorded responses file for --provider recorded
+ *   --record    Save validated responses to this file (replay later with --provider recorded)
+ *   --out       Write the full result (equity curve, trades, stats) as JSON
+ *   --sync      Download missing klines into the Kline table before running
+ */
+
+import "dotenv/config";
+import { writeFile } from "fs/promises";
+import { runBacktest } from "./lib/backtest/engine";
+import { syncKlines, getIntervalMs } from "./lib/backtest/kline-store";
+import { getEnabledSymbols, toTradingPair } from "./lib/trading/symbol-registry";
+import {
+  createLLMDecisionProvider,
+  createRecordedDecisionProvider,
+  createRuleBasedDecisionProvider,
+  loadRecordedDecisions,
+  type DecisionProvider,
+} from "./lib/backtest/decision-providers";
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) continue;
+    const next = argv[i + 1];
+    if (next && !next.startsWith("--")) {
+      args[arg.slice(2)] = next;
+      i++;
+    } else {
+      args[arg.slice(2)] = "true";
+    }
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (!args.start) {
+    throw new Error("--start is required (e.g. --start 2025-01-01)");
+  }
+
+  const symbols = args.symbols
+    ? args.symbols.split(",").map((s) => toTradingPair(s.trim().toUpperCase()))
+    : (await getEnabledSymbols()).map(toTradingPair);
+  const startTime = new Date(args.start);
+  const endTime = args.end ? new Date(args.end) : new Date();
+
+  if (args.sync === "true") {
+    for (const symbol of symbols) {
+      for (const interval of ["1m", "15m", "4h"]) {
+        // 额外下载 100 根用于指标预热
+        const warmupStart = new Date(startTime.getTime() - getIntervalMs(interval) * 100);
+        await syncKlines(symbol, interval, warmupStart, endTime);
+      }
+    }
+  }
+
+  let decisionProvider: DecisionProvider;
+  switch (args.provider || "rule") {
+    case "llm":
+      decisionProvider = createLLMDecisionProvider();
+      break;
+    case "recorded":
+      if (!args.recorded) {
+        throw new Error("--recorded <file> is required for --provider recorded");
+      }
+      decisionProvider = createRecordedDecisionProvider(await loadRecordedDecisions(args.recorded));
+      break;
+    case "rule":
+      decisionProvider = createRuleBasedDecisionProvider();
+      break;
+    default:
+      throw new Error(`Unknown provider: ${args.provider}`);
+  }
+
+  const result = await runBacktest({
+    symbols,
+    startTime,
+    endTime,
+    stepMinutes: args.step ? Number(args.step) : undefined,
+    initialCapital: args.capital ? Number(args.capital) : undefined,
+    decisionProvider,
+  });
+
+  console.table(result.stats);
+
+  if (args.record) {
+    await writeFile(args.record, JSON.stringify(result.responses, null, 2));
+    console.log(`💾 Recorded ${result.responses.length} responses to ${args.record}`);
+  }
+  if (args.out) {
+    await writeFile(args.out, JSON.stringify(result, null, 2));
+    console.log(`💾 Result written to ${args.out}`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Backtest failed:", error);
+    process.exit(1);
+  });
@@ -25,16 +25,34 @@ interface Prediction {
 interface Trading {
   id: string;
   symbol: string;
-  opeartion: "Buy" | "Sell" | "Hold";
+  opeartion: "Buy" | "Sell" | "Hold" | "OpenLong" | "OpenShort" | "Close";
   leverage?: number | null;
   amount?: number | null;
   pricing?: number | null;
   stopLoss?: number | null;
   takeProfit?: number | null;
   prediction?: Prediction | null;
+  riskVerdicts?: RiskVerdict[]; // 仅包含被拦截的判定
+  requestedAmount?: number | null;
+  requestedLeverage?: number | null;
+  riskAdjustment?: RiskAdjustment | null;
   createdAt: string;
 }
 
+interface RiskAdjustment {
+  allowed: boolean;
+  positionSizeMultiplier: number;
+  leverageMultiplier: number;
+  confidenceThreshold: number;
+  reason: string | null;
+}
+
+interface RiskVerdict {
+  side: "LONG" | "SHORT";
+  rule: string | null;
+  reason: string | null;
+}
+
 interface Chat {
   id: string;
   model: string;
@@ -61,6 +79,18 @@ interface Position {
   liquidationPrice: number;
   initialMargin: number;
   maintenanceMargin: number;
+  funding?: PositionFunding; // 资金费（获取失败时为空）
+}
+
+// 成本为正表示持仓付出资金费，为负表示收到
+interface PositionFunding {
+  fundingRate: number;
+  nextFundingTime: number;
+  intervalHours: number;
+  openedAt: number | null;
+  accruedCost: number;
+  projectedCost: number;
+  estimated: boolean;
 }
 
 interface ActivityData {
@@ -76,9 +106,8 @@ export function ModelsView() {
   const [positions, setPositions] = useState<Position[]>([]);
   const [loading, setLoading] = useState(true);
   const [expandedChatId, setExpandedChatId] = useState<string | null>(null);
-
-  // 固定展示的5种代币顺序
-  const DEFAULT_FIVE_SYMBOLS = ["BTC", "ETH", "BNB", "SOL", "DOGE"] as const;
+  // 启用的币种（来自币种注册表，决定决策列表的展示顺序）
+  const [symbols, setSymbols] = useState<string[]>([]);
 
   const fetchActivity = useCallback(async () => {
     try {
@@ -89,6 +118,7 @@ export function ModelsView() {
       if (result.success && result.data) {
         setChats(result.data.chats || []);
         setPositions(result.data.positions || []);
+        setSymbols(result.data.symbols || []);
       }
       setLoading(false);
     } catch (err) {
@@ -104,18 +134,26 @@ export function ModelsView() {
     return () => clearInterval(interval);
   }, [fetchActivity]);
 
-  // 只获取 Buy 和 Sell 操作的交易
+  // 只获取开仓和平仓操作的交易（Buy / Sell 为旧记录）
+  const isEntryOperation = (operation: string) =>
+    operation === "Buy" || operation === "OpenLong" || operation === "OpenShort";
+  const isExitOperation = (operation: string) => operation === "Sell" || operation === "Close";
+
   const completedTrades = chats.flatMap((chat) =>
     chat.tradings
-      .filter((t) => t.opeartion === "Buy" || t.opeartion === "Sell")
+      .filter((t) => isEntryOperation(t.opeartion) || isExitOperation(t.opeartion))
       .map((t) => ({ ...t, chatId: chat.id, model: chat.model }))
   );
 
   const renderOperationIcon = (operation: string) => {
     switch (operation) {
       case "Buy":
+      case "OpenLong":
         return <TrendingUp className="h-4 w-4 text-green-500" />;
+      case "OpenShort":
+        return <TrendingDown className="h-4 w-4 text-orange-500" />;
       case "Sell":
+      case "Close":
         return <TrendingDown className="h-4 w-4 text-red-500" />;
       case "Hold":
         return <Minus className="h-4 w-4 text-yellow-500" />;
@@ -178,7 +216,9 @@ export function ModelsView() {
 
           return (
             <Card key={`${trade.id}-${idx}`} className="overflow-hidden border-l-4" style={{
-              borderLeftColor: trade.opeartion === "Buy" ? "#10b981" : trade.opeartion === "Sell" ? "#ef4444" : "#eab308"
+              borderLeftColor: trade.opeartion === "OpenShort"
+                ? "#f97316"
+                : isEntryOperation(trade.opeartion) ? "#10b981" : isExitOperation(trade.opeartion) ? "#ef4444" : "#eab308"
             }}>
               <CardContent className="p-4">
                 {/* Header with operation */}
@@ -213,7 +253,7 @@ export function ModelsView() {
                     {/* Entry/Exit Price */}
                     <div className="space-y-1">
                       <div className="text-xs text-muted-foreground font-medium">
-                        {trade.opeartion === "Buy" ? "Entry Price" : "Exit Price"}
+                        {isEntryOperation(trade.opeartion) ? "Entry Price" : "Exit Price"}
                       </div>
                       <div className="font-mono font-bold text-base">
                         {trade.pricing != null && !isNaN(trade.pricing) && trade.pricing !== 0 ? (
@@ -564,6 +604,45 @@ export function ModelsView() {
                     </span>
                   </div>
                 </div>
+
+                {/* Funding carry */}
+                {position.funding && (
+                  <div className="mt-3 pt-3 border-t grid grid-cols-3 gap-3 text-xs">
+                    <div>
+                      <div className="text-muted-foreground mb-1">Funding Rate</div>
+                      <div className="font-mono font-medium">
+                        {(position.funding.fundingRate * 100).toFixed(4)}%
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-muted-foreground mb-1">
+                        Funding Paid{position.funding.estimated ? " (est.)" : ""}
+                      </div>
+                      <div
+                        className={`font-mono font-medium ${position.funding.accruedCost > 0 ? "text-red-600" : "text-green-600"
+                          }`}
+                      >
+                        {position.funding.accruedCost > 0 ? "-" : "+"}$
+                        {Math.abs(position.funding.accruedCost).toFixed(2)}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-muted-foreground mb-1">
+                        Next ({new Date(position.funding.nextFundingTime).toLocaleTimeString([], {
+                          hour: "2-digit",
+                          minute: "2-digit",
+                        })})
+                      </div>
+                      <div
+                        className={`font-mono font-medium ${position.funding.projectedCost > 0 ? "text-red-600" : "text-green-600"
+                          }`}
+                      >
+                        {position.funding.projectedCost > 0 ? "-" : "+"}$
+                        {Math.abs(position.funding.projectedCost).toFixed(2)}
+                      </div>
+                    </div>
+                  </div>
+                )}
               </CardContent>
             </Card>
           );
@@ -589,13 +668,13 @@ export function ModelsView() {
       <div className="space-y-4">
         {chats.map((chat) => {
           const isExpanded = expandedChatId === chat.id;
-          // 前端补齐：总是展示5种代币的决策；若缺失则以 Hold 占位
+          // 前端补齐：总是展示所有启用币种的决策；若缺失则以 Hold 占位
           const decisions: Trading[] = (() => {
             const bySymbol = new Map<string, Trading>();
             for (const t of chat.tradings) bySymbol.set(t.symbol, t);
 
             const filled: Trading[] = [];
-            for (const sym of DEFAULT_FIVE_SYMBOLS) {
+            for (const sym of symbols) {
               const exist = bySymbol.get(sym);
               if (exist) {
                 filled.push(exist);
@@ -613,6 +692,8 @@ export function ModelsView() {
                 });
               }
             }
+            // 已停用币种的历史决策排在最后
+            filled.push(...chat.tradings.filter((t) => !symbols.includes(t.symbol)));
             return filled;
           })();
 
@@ -692,9 +773,11 @@ export function ModelsView() {
                         {decisions.map((decision, idx) => (
                           <div
                             key={idx}
-                            className={`rounded-lg p-3 border-l-4 ${decision.opeartion === "Buy"
+                            className={`rounded-lg p-3 border-l-4 ${decision.opeartion === "OpenShort"
+                              ? "bg-orange-50 dark:bg-orange-950/20 border-orange-500"
+                              : isEntryOperation(decision.opeartion)
                               ? "bg-green-50 dark:bg-green-950/20 border-green-500"
-                              : decision.opeartion === "Sell"
+                              : isExitOperation(decision.opeartion)
                                 ? "bg-red-50 dark:bg-red-950/20 border-red-500"
                                 : "bg-yellow-50 dark:bg-yellow-950/20 border-yellow-500"
                               }`}
@@ -715,9 +798,9 @@ export function ModelsView() {
                               {decision.pricing && (
                                 <div className="flex justify-between items-center">
                                   <span className="text-muted-foreground">
-                                    {decision.opeartion === "Buy"
+                                    {isEntryOperation(decision.opeartion)
                                       ? "Entry Price:"
-                                      : decision.opeartion === "Sell"
+                                      : isExitOperation(decision.opeartion)
                                         ? "Exit Price:"
                                         : "Current Price:"}
                                   </span>
@@ -784,6 +867,45 @@ export function ModelsView() {
                                 </div>
                               )}
 
+                              {/* 组合风控拦截原因 */}
+                              {decision.riskVerdicts?.map((verdict, vIdx) => (
+                                <div key={vIdx} className="pt-1.5 mt-1.5 border-t border-current/20">
+                                  <div className="font-semibold text-red-600 dark:text-red-400">
+                                    🛡️ {verdict.side === "SHORT" ? "OPEN SHORT" : "OPEN LONG"} blocked by risk control{verdict.rule ? ` (${verdict.rule})` : ""}
+                                  </div>
+                                  {verdict.reason && (
+                                    <div className="text-muted-foreground mt-0.5">{verdict.reason}</div>
+                                  )}
+                                </div>
+                              ))}
+
+                              {/* 动态风险调整：模型请求值 vs 实际执行值，低置信度拒绝原因 */}
+                              {decision.riskAdjustment && (
+                                <div className="pt-1.5 mt-1.5 border-t border-current/20 space-y-1">
+                                  {decision.riskAdjustment.allowed ? (
+                                    (decision.requestedAmount !== decision.amount || decision.requestedLeverage !== decision.leverage) && (
+                                      <div className="flex justify-between items-center">
+                                        <span className="text-muted-foreground">
+                                          ⚖️ Requested:
+                                        </span>
+                                        <span className="font-mono font-semibold text-amber-600">
+                                          {decision.requestedAmount} @ {decision.requestedLeverage}x
+                                        </span>
+                                      </div>
+                                    )
+                                  ) : (
+                                    <>
+                                      <div className="font-semibold text-red-600 dark:text-red-400">
+                                        ⚖️ Rejected by confidence gate (≥ {(decision.riskAdjustment.confidenceThreshold * 100).toFixed(0)}%)
+                                      </div>
+                                      {decision.riskAdjustment.reason && (
+                                        <div className="text-muted-foreground mt-0.5">{decision.riskAdjustment.reason}</div>
+                                      )}
+                                    </>
+                                  )}
+                                </div>
+                              )}
+
                               {/* K线趋势预测 */}
                               {decision.prediction && (
                                 <div className="pt-2 mt-2 border-t border-current/30 space-y-1.5">
@@ -0,0 +1,140 @@
+import { z } from "zod";
+import { Opeartion } from "@prisma/client";
+
+const trailingStopSchema = z
+  .object({
+    method: z
+      .enum(["percent", "atr", "structure"])
+      .describe("percent: value % below the high (above the low for shorts); atr: value × 4h ATR from the high/low; structure: beyond the recent 15m swing low/high with a value × ATR buffer"),
+    value: z.number().min(0),
+    activationPercent: z.number().min(0).optional().describe("Start trailing once unrealized profit reaches this percent"),
+  })
+  .optional()
+  .describe("Server-side trailing stop: the stop only moves in the favourable direction and take-profit orders are kept");
+
+const exitRulesSchema = z
+  .object({
+    breakEvenR: z.number().min(0).optional().describe("Move the stop to break-even after this many R of profit (0 disables)"),
+    timeStopHours: z.number().min(0).optional().describe("Close if the position is still flat after this many hours (0 disables)"),
+    closeOnAdverseFunding: z.boolean().optional().describe("Close shortly before funding when the rate is against the position"),
+    closeOnEmaCross: z.boolean().optional().describe("Close when the 4h EMA20 crosses EMA50 against the position"),
+  })
+  .optional()
+  .describe("Server-side exit rules for this position; omitted fields use the system defaults (off unless configured)");
+
+/**
+ * Trading decision schema shared by run() and the backtest engine
+ * symbols: allowed base symbols from the symbol registry (any symbol when omitted)
+ */
+function createDecisionSchema(symbols?: string[]) {
+  const symbol = symbols && symbols.length > 0 ? z.enum(symbols as [string, ...string[]]) : z.string();
+
+  return z.object({
+    opeartion: z
+      .nativeEnum(Opeartion)
+      .describe("OpenLong / OpenShort to enter, Close to exit, Hold otherwise (Buy = OpenLong and Sell = Close are legacy aliases)"),
+    symbol: symbol.describe("The cryptocurrency symbol to trade (without USDT suffix)"),
+    buy: z
+      .object({
+        pricing: z.number().describe("The entry price you want to open at (the limit price when entries are placed as limit orders; unfilled orders are canceled after a few cycles)."),
+        amount: z.number(),
+        leverage: z.number().min(1).max(30),
+        stopLossPercent: z.number().optional(),
+        takeProfitPercent: z.number().optional(),
+        takeProfitTargets: z
+          .array(
+            z.object({
+              percent: z.number().positive().describe("Distance from entry in percent"),
+              portion: z.number().min(1).max(100).describe("Percent of the position this tranche closes"),
+            })
+          )
+          .max(4)
+          .optional()
+          .describe("Tiered take-profits, e.g. 30% at TP1 and 50% at TP2; any remainder below 100% is left to the stop. Overrides takeProfitPercent. Opening on a symbol that already has a position on this side adds to it and the whole bracket is re-placed for the new size"),
+        trailingStop: trailingStopSchema,
+        exitRules: exitRulesSchema,
+      })
+      .optional()
+      .describe("If opeartion is OpenLong or OpenShort (or Buy), generate object"),
+    sell: z
+      .object({
+        percentage: z
+          .number()
+          .min(0)
+          .max(100)
+          .describe("Percentage of position to close"),
+        positionSide: z
+          .enum(["LONG", "SHORT"])
+          .optional()
+          .describe("Which position to close; required when both LONG and SHORT are open on the symbol"),
+      })
+      .optional()
+      .describe("If opeartion is Close (or Sell), generate object"),
+    adjustProfit: z
+      .object({
+        stopLoss: z.number().optional(),
+        takeProfit: z.number().optional(),
+        takeProfitTargets: z
+          .array(
+            z.object({
+              price: z.number().positive().describe("Take profit trigger price"),
+              portion: z.number().min(1).max(100).describe("Percent of the position this tranche closes"),
+            })
+          )
+          .max(4)
+          .optional()
+          .describe("Tiered take-profits replacing the current ones; overrides takeProfit"),
+        trailingStop: trailingStopSchema,
+        positionSide: z
+          .enum(["LONG", "SHORT"])
+          .optional()
+          .describe("Which position to adjust; required when both LONG and SHORT are open on the symbol"),
+      })
+      .optional()
+      .describe("If opeartion is hold and you want to adjust the profit, generate object"),
+    prediction: z.object({
+      short_term_trend: z.enum(["bullish", "bearish", "neutral"]).describe("Short-term trend prediction (1-4 hours)"),
+      confidence: z.enum(["high", "medium", "low"]).describe("Prediction confidence level"),
+      key_levels: z.object({
+        support: z.number().describe("Key support level"),
+        resistance: z.number().describe("Key resistance level"),
+      }),
+      analysis: z.string().describe("Brief analysis based on candlestick patterns (30–50 characters)"),
+    }).describe("MANDATORY: Trend prediction analysis based on candlestick (K-line) data"),
+    chat: z.string().describe("Reasoning and analysis for this decision"),
+  });
+}
+
+export const decisionSchema = createDecisionSchema();
+
+export const decisionsSchema = z.object({
+  decisions: z.array(decisionSchema).min(1).max(5),
+});
+
+/**
+ * Decisions schema restricted to the enabled symbols
+ */
+export function createDecisionsSchema(symbols: string[]) {
+  return z.object({
+    decisions: z.array(createDecisionSchema(symbols)).min(1).max(Math.max(5, symbols.length)),
+  });
+}
+
+export type TradingDecision = z.infer<typeof decisionSchema>;
+export type TradingDecisions = z.infer<typeof decisionsSchema>;
+
+/**
+ * Map an operation to the position side it opens (null if it does not open a position)
+ */
+export function getEntrySide(opeartion: Opeartion): "LONG" | "SHORT" | null {
+  if (opeartion === Opeartion.OpenLong || opeartion === Opeartion.Buy) return "LONG";
+  if (opeartion === Opeartion.OpenShort) return "SHORT";
+  return null;
+}
+
+/**
+ * Close (and the legacy Sell) reduce an existing position
+ */
+export function isCloseOperation(opeartion: Opeartion): boolean {
+  return opeartion === Opeartion.Close || opeartion === Opeartion.Sell;
+}
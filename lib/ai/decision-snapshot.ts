@@ -0,0 +1,49 @@
+/**
+ * Decision snapshots
+ * Chat 除了渲染后的 userPrompt，还保存喂给模型的结构化输入：各币种的 MarketState（marketStates，按 "BTC" 这样的
+ * Trading.symbol 索引）和账户快照（accountSnapshot），交易教训、回测和复盘按开仓决策读取当时的指标
+ */
+
+import type { Chat, Prisma } from "@prisma/client";
+import type { MarketState } from "../trading/current-market-state";
+import type { AccountInformationAndPerformance } from "../trading/account-information-and-performance";
+import { toBaseSymbol } from "../trading/exchange-adapter";
+
+export type DecisionMarketStates = Record<string, MarketState>;
+
+/**
+ * Chat.marketStates value for the market states a decision was given
+ */
+export function toDecisionMarketStates(marketStates: Array<{ symbol: string; state: MarketState }>): Prisma.InputJsonObject {
+    const bySymbol: DecisionMarketStates = {};
+    for (const { symbol, state } of marketStates) {
+        bySymbol[toBaseSymbol(symbol)] = state;
+    }
+    // JSON 往返去掉 undefined / NaN 等无法写入 Json 列的值
+    return JSON.parse(JSON.stringify(bySymbol));
+}
+
+/**
+ * Chat.accountSnapshot value for the account information a decision was given
+ */
+export function toAccountSnapshot(account: AccountInformationAndPerformance): Prisma.InputJsonObject {
+    return JSON.parse(JSON.stringify(account));
+}
+
+/**
+ * Market state of one symbol when the decision was made (null for chats saved before snapshots existed)
+ */
+export function getMarketStateAtDecision(
+    chat: Pick<Chat, "marketStates"> | null | undefined,
+    symbol: string
+): MarketState | null {
+    const states = chat?.marketStates as DecisionMarketStates | null | undefined;
+    return states?.[toBaseSymbol(symbol)] ?? null;
+}
+
+/**
+ * Account snapshot the decision was given
+ */
+export function getAccountSnapshot(chat: Pick<Chat, "accountSnapshot"> | null | undefined): AccountInformationAndPerformance | null {
+    return (chat?.accountSnapshot as AccountInformationAndPerformance | null | undefined) ?? null;
+}
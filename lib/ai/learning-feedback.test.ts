@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { applyDynamicRiskAdjustment, getDynamicRiskAdjustment, type LearningStats } from "./learning-feedback";
+
+function stats(winRate: number, totalPnl: number): LearningStats {
+    return {
+        total_trades: 10,
+        winning_trades: Math.round(winRate / 10),
+        losing_trades: 10 - Math.round(winRate / 10),
+        win_rate: winRate,
+        avg_profit: 0,
+        avg_loss: 0,
+        total_pnl: totalPnl,
+        biggest_mistake: null,
+        recent_lessons: [],
+    };
+}
+
+describe("getDynamicRiskAdjustment", () => {
+    it("reduces risk after a poor win rate and compounds it after losses", () => {
+        const poor = getDynamicRiskAdjustment(stats(30, 0));
+        assert.equal(poor.position_size_multiplier, 0.5);
+        assert.equal(poor.confidence_threshold, 0.75);
+
+        const losing = getDynamicRiskAdjustment(stats(45, -20));
+        assert.ok(Math.abs(losing.leverage_multiplier - 0.42) < 1e-9);
+        assert.equal(losing.confidence_threshold, 0.75);
+    });
+
+    it("keeps normal risk for an average record", () => {
+        const normal = getDynamicRiskAdjustment(stats(55, 5));
+        assert.equal(normal.leverage_multiplier, 1);
+        assert.equal(normal.confidence_threshold, 0.6);
+    });
+});
+
+describe("applyDynamicRiskAdjustment", () => {
+    const entry = { amount: 0.1, leverage: 10, confidence: "high" };
+
+    it("scales size and leverage down, flooring leverage to a whole number", () => {
+        const result = applyDynamicRiskAdjustment(entry, getDynamicRiskAdjustment(stats(45, 0)));
+        assert.equal(result.allowed, true);
+        assert.ok(Math.abs(result.amount - 0.07) < 1e-12);
+        assert.equal(result.leverage, 7);
+        assert.equal(result.requestedAmount, 0.1);
+        assert.equal(result.requestedLeverage, 10);
+        assert.equal(result.reason, null);
+
+        const tiny = applyDynamicRiskAdjustment({ ...entry, leverage: 1 }, getDynamicRiskAdjustment(stats(30, 0)));
+        assert.equal(tiny.leverage, 1);
+    });
+
+    it("never scales up after a strong record", () => {
+        const result = applyDynamicRiskAdjustment(entry, getDynamicRiskAdjustment(stats(70, 50)));
+        assert.equal(result.amount, 0.1);
+        assert.equal(result.leverage, 10);
+        assert.equal(result.positionSizeMultiplier, 1);
+        assert.equal(result.leverageMultiplier, 1);
+    });
+
+    it("rejects entries below the confidence threshold", () => {
+        const adjustment = getDynamicRiskAdjustment(stats(30, 0)); // 0.75
+        assert.equal(applyDynamicRiskAdjustment(entry, adjustment).allowed, true);
+
+        const medium = applyDynamicRiskAdjustment({ ...entry, confidence: "medium" }, adjustment);
+        assert.equal(medium.allowed, false);
+        assert.equal(medium.confidenceScore, 0.65);
+        assert.match(medium.reason ?? "", /medium \(65%\) is below the 75% threshold/);
+    });
+
+    it("treats a missing prediction as zero confidence", () => {
+        const result = applyDynamicRiskAdjustment({ amount: 0.1, leverage: 10 }, getDynamicRiskAdjustment(stats(55, 0)));
+        assert.equal(result.allowed, false);
+        assert.equal(result.confidence, null);
+        assert.match(result.reason ?? "", /missing/);
+    });
+});
@@ -5,7 +5,18 @@
  * that helps the AI learn from its trading mistakes and successes.
  */
 
+import type { ModelType } from "@prisma/client";
 import { prisma } from "../prisma";
+import { getExchangeAdapter } from "../trading/exchange-adapter";
+import type { MarketState } from "../trading/current-market-state";
+import { getMarketStateAtDecision } from "./decision-snapshot";
+import {
+    formatTradeReflection,
+    generateTradeReflection,
+    getTradeReflectionConfig,
+    type TradeReflection,
+} from "./trade-reflection";
+import type { RoundTrip } from "../trading/closed-trade-reconciler";
 
 export interface TradeLessson {
     id: string;
@@ -19,6 +30,7 @@ export interface TradeLessson {
     lesson_learned: string;
     market_conditions: any;
     indicators_at_entry: any;
+    reflection?: (TradeReflection & { provider: string }) | null; // LLM 复盘，模板教训时为空
 }
 
 export interface LearningStats {
@@ -35,11 +47,16 @@ export interface LearningStats {
 
 /**
  * Analyze a closed trade and extract lessons
+ * finalPnl is the net PnL (after fees and funding); pnl percentage is relative to `balance`,
+ * the current wallet balance of the exchange account when omitted.
+ * With `trip` and TRADE_REFLECTION_ENABLED the lesson is an LLM reflection, the templates are the fallback
  */
 export async function analyzeTradeOutcome(
     tradeId: string,
     finalPnl: number,
-    exitReason: string
+    exitReason: string,
+    balance?: number,
+    trip?: Pick<RoundTrip, "side" | "entryPrice" | "exitPrice" | "entryTime" | "exitTime">
 ): Promise<TradeLessson | null> {
     try {
         // Fetch the original trade decision from database
@@ -57,19 +74,35 @@ export async function analyzeTradeOutcome(
             return null;
         }
 
-        const balance = 20; // Default balance assumption, should be fetched from account
-        const pnlPercentage = (finalPnl / balance) * 100;
+        // 开仓决策时的行情快照（Chat.marketStates，旧记录没有）
+        const entryState = getMarketStateAtDecision(chat, trade.symbol);
+
+        const accountBalance = balance ?? (await (await getExchangeAdapter()).getAccountInfo()).totalWalletBalance;
+        const pnlPercentage = accountBalance > 0 ? (finalPnl / accountBalance) * 100 : 0;
         const outcome: "profit" | "loss" = finalPnl >= 0 ? "profit" : "loss";
 
         // Extract lesson based on outcome
         let lessonLearned = "";
+        let reflection: TradeLessson["reflection"] = null;
+
+        if (trip && getTradeReflectionConfig().enabled) {
+            const reflectionOutcome = { ...trip, netPnl: finalPnl, pnlPercentage, exitReason };
+            try {
+                const result = await generateTradeReflection({ trade, chat, entryState, outcome: reflectionOutcome });
+                reflection = { ...result.reflection, provider: result.provider };
+                lessonLearned = formatTradeReflection(trade.symbol, reflectionOutcome, result.reflection);
+            } catch (error) {
+                console.warn(`⚠️ Trade reflection failed for ${trade.symbol}, using template lesson:`, error instanceof Error ? error.message : error);
+            }
+        }
 
-        if (outcome === "loss") {
+        // 模板教训：未开启复盘、没有成交明细或模型不可用时
+        if (!lessonLearned && outcome === "loss") {
             // Analyze why the trade lost money
-            lessonLearned = await generateLossLesson(trade, chat, finalPnl, exitReason);
-        } else {
+            lessonLearned = await generateLossLesson(trade, chat, finalPnl, pnlPercentage, exitReason);
+        } else if (!lessonLearned) {
             // Analyze what worked well
-            lessonLearned = await generateProfitLesson(trade, chat, finalPnl, exitReason);
+            lessonLearned = await generateProfitLesson(trade, chat, finalPnl, pnlPercentage, exitReason);
         }
 
         const lesson: TradeLessson = {
@@ -82,8 +115,9 @@ export async function analyzeTradeOutcome(
             pnl: finalPnl,
             pnl_percentage: pnlPercentage,
             lesson_learned: lessonLearned,
-            market_conditions: {},
-            indicators_at_entry: extractIndicators(trade),
+            market_conditions: extractMarketConditions(entryState),
+            indicators_at_entry: extractIndicators(entryState),
+            reflection,
         };
 
         // Store lesson in database for future reference
@@ -103,6 +137,7 @@ async function generateLossLesson(
     trade: any,
     chat: any,
     pnl: number,
+    pnlPercentage: number,
     exitReason: string
 ): Promise<string> {
     const lessons: string[] = [];
@@ -137,9 +172,8 @@ async function generateLossLesson(
 
     // Default lesson if no specific pattern detected
     if (lessons.length === 0) {
-        const balance = 20;
         lessons.push(
-            `📉 Loss on ${trade.symbol}: -$${Math.abs(pnl).toFixed(2)} (${(pnl / balance * 100).toFixed(2)}%). ` +
+            `📉 Loss on ${trade.symbol}: -$${Math.abs(pnl).toFixed(2)} (${pnlPercentage.toFixed(2)}%). ` +
             `Exit reason: ${exitReason}. Review market conditions and indicators at entry.`
         );
     }
@@ -154,23 +188,20 @@ async function generateProfitLesson(
     trade: any,
     chat: any,
     pnl: number,
+    pnlPercentage: number,
     exitReason: string
 ): Promise<string> {
-    const balance = 20;
-    const pnlPercentage = ((pnl / balance) * 100).toFixed(2);
-
     return (
-        `✅ SUCCESS on ${trade.symbol}: +$${pnl.toFixed(2)} (${pnlPercentage}%). ` +
+        `✅ SUCCESS on ${trade.symbol}: +$${pnl.toFixed(2)} (${pnlPercentage.toFixed(2)}%). ` +
         `Exit reason: ${exitReason}. ` +
         `This trade worked because: The analysis was correct, timing was good, and risk management was applied. ` +
         `Key factors: "${chat?.reasoning?.substring(0, 100) || 'No reasoning'}..." ` +
         `REPLICATE this decision-making process in similar setups.`
     );
 }/**
- * Extract key indicators from trade data
+ * Extract key indicators from the market state at entry
  */
-function extractIndicators(trade: any): any {
-    const marketData = trade.chat?.marketData;
+function extractIndicators(marketData: MarketState | null): any {
     if (!marketData) return {};
 
     return {
@@ -178,7 +209,25 @@ function extractIndicators(trade: any): any {
         macd: marketData.current_macd,
         ema20: marketData.current_ema20,
         price: marketData.current_price,
-        volume_ratio: marketData.longer_term?.current_volume / marketData.longer_term?.average_volume,
+        volume_ratio: marketData.longer_term?.average_volume
+            ? marketData.longer_term.current_volume / marketData.longer_term.average_volume
+            : null,
+    };
+}
+
+/**
+ * Extract the broader market context (4h trend, volatility, derivatives data) at entry
+ */
+function extractMarketConditions(marketData: MarketState | null): any {
+    if (!marketData) return {};
+
+    const { ema_20, ema_50, atr_14 } = marketData.longer_term ?? {};
+    return {
+        trend_4h: ema_20 && ema_50 ? (ema_20 > ema_50 ? "bullish" : "bearish") : null,
+        atr_14_4h: atr_14 ?? null,
+        atr_percent: atr_14 && marketData.current_price ? (atr_14 / marketData.current_price) * 100 : null,
+        funding_rate: marketData.funding_rate,
+        open_interest: marketData.open_interest?.latest ?? null,
     };
 }
 
@@ -190,7 +239,7 @@ async function storeLessonInDatabase(lesson: TradeLessson, exitReason: string):
         await prisma.tradingLesson.create({
             data: {
                 tradeId: lesson.id,
-                symbol: lesson.symbol as any, // Cast to Prisma Symbol enum
+                symbol: lesson.symbol,
                 decision: lesson.decision,
                 outcome: lesson.outcome,
                 pnl: lesson.pnl,
@@ -198,6 +247,7 @@ async function storeLessonInDatabase(lesson: TradeLessson, exitReason: string):
                 lessonText: lesson.lesson_learned,
                 marketConditions: lesson.market_conditions as any,
                 indicatorsAtEntry: lesson.indicators_at_entry as any,
+                reflection: lesson.reflection ?? undefined,
                 exitReason: exitReason,
             },
         });
@@ -206,9 +256,11 @@ async function storeLessonInDatabase(lesson: TradeLessson, exitReason: string):
     }
 }/**
  * Get learning statistics for the AI
+ * model 限定为该模型决策（Trading.Chat.model）产生的教训，竞技场各模型互不影响
  */
 export async function getLearningStats(
-    lookbackDays: number = 7
+    lookbackDays: number = 7,
+    model?: ModelType | null
 ): Promise<LearningStats> {
     const since = new Date();
     since.setDate(since.getDate() - lookbackDays);
@@ -218,6 +270,7 @@ export async function getLearningStats(
             createdAt: {
                 gte: since,
             },
+            ...(model ? { trade: { Chat: { model } } } : {}),
         },
         orderBy: {
             createdAt: "desc",
@@ -369,15 +422,48 @@ Your goal is CONTINUOUS IMPROVEMENT - become a better trader with each decision.
     return feedback;
 }
 
-/**
- * Get dynamic risk adjustment based on recent performance
- */
-export function getDynamicRiskAdjustment(stats: LearningStats): {
+export interface DynamicRiskAdjustment {
     leverage_multiplier: number;
     position_size_multiplier: number;
     confidence_threshold: number;
     recommendation: string;
-} {
+}
+
+/**
+ * Entry after the dynamic risk adjustment was enforced (stored on Trading.riskAdjustment)
+ */
+export interface EntryRiskAdjustment {
+    allowed: boolean;
+    amount: number; // 实际下单数量
+    leverage: number; // 实际下单杠杆
+    requestedAmount: number;
+    requestedLeverage: number;
+    positionSizeMultiplier: number; // 实际生效的倍数（≤ 1）
+    leverageMultiplier: number;
+    confidence: string | null;
+    confidenceScore: number;
+    confidenceThreshold: number;
+    reason: string | null; // 被拒绝的原因
+}
+
+// prediction.confidence 对应的置信度，与 confidence_threshold（0.55-0.75）比较
+const CONFIDENCE_SCORES: Record<string, number> = {
+    high: 0.85,
+    medium: 0.65,
+    low: 0.45,
+};
+
+/**
+ * Whether run() enforces the dynamic risk adjustment (DYNAMIC_RISK_ENFORCED, default true)
+ */
+export function isDynamicRiskEnforced(): boolean {
+    return (process.env.DYNAMIC_RISK_ENFORCED || "true").toLowerCase() !== "false";
+}
+
+/**
+ * Get dynamic risk adjustment based on recent performance
+ */
+export function getDynamicRiskAdjustment(stats: LearningStats): DynamicRiskAdjustment {
     let leverageMultiplier = 1.0;
     let positionSizeMultiplier = 1.0;
     let confidenceThreshold = 0.6; // Default 60% confidence to trade
@@ -424,3 +510,37 @@ export function getDynamicRiskAdjustment(stats: LearningStats): {
         recommendation,
     };
 }
+
+/**
+ * Enforce the dynamic risk adjustment on an entry the model requested.
+ * Multipliers only scale down (an increase stays advice in the prompt); entries whose
+ * prediction confidence is below the threshold are rejected.
+ */
+export function applyDynamicRiskAdjustment(
+    entry: { amount: number; leverage: number; confidence?: string | null },
+    adjustment: DynamicRiskAdjustment
+): EntryRiskAdjustment {
+    const positionSizeMultiplier = Math.min(1, adjustment.position_size_multiplier);
+    const leverageMultiplier = Math.min(1, adjustment.leverage_multiplier);
+    const confidence = entry.confidence ?? null;
+    // 缺少预测的决策按置信度 0 处理
+    const confidenceScore = (confidence && CONFIDENCE_SCORES[confidence]) || 0;
+    const allowed = confidenceScore >= adjustment.confidence_threshold;
+
+    return {
+        allowed,
+        amount: entry.amount * positionSizeMultiplier,
+        // 交易所杠杆为整数，缩小后向下取整，最低 1x
+        leverage: leverageMultiplier < 1 ? Math.max(1, Math.floor(entry.leverage * leverageMultiplier)) : entry.leverage,
+        requestedAmount: entry.amount,
+        requestedLeverage: entry.leverage,
+        positionSizeMultiplier,
+        leverageMultiplier,
+        confidence,
+        confidenceScore,
+        confidenceThreshold: adjustment.confidence_threshold,
+        reason: allowed
+            ? null
+            : `Prediction confidence ${confidence ?? "missing"} (${(confidenceScore * 100).toFixed(0)}%) is below the ${(adjustment.confidence_threshold * 100).toFixed(0)}% threshold set by recent performance`,
+    };
+}
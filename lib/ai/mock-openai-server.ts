@@ -0,0 +1,115 @@
+/**
+ * Local OpenAI-compatible mock (chat completions only)
+ * 配合 "local" provider 使用：无需 API Key 即可跑通 run() / 回退链 / schema 重试
+ */
+
+import { createServer, type IncomingMessage, type Server } from "http";
+import type { TradingDecisions } from "./decision-schema";
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: Array<{ role: string; content: unknown }>;
+  response_format?: unknown;
+}
+
+export interface MockOpenAIServerOptions {
+  /** Response content for a request (object is serialized as JSON). Default: Hold BTC */
+  respond?: (request: ChatCompletionRequest) => TradingDecisions | string;
+  /** Return non-JSON content for the first N requests (exercises schema retry) */
+  invalidResponses?: number;
+  /** Delay before each response (exercises provider timeouts) */
+  delayMs?: number;
+  /** Return HTTP 500 for the first N requests (exercises provider fallback) */
+  errorResponses?: number;
+}
+
+export const DEFAULT_MOCK_DECISIONS: TradingDecisions = {
+  decisions: [
+    {
+      opeartion: "Hold",
+      symbol: "BTC",
+      prediction: {
+        short_term_trend: "neutral",
+        confidence: "low",
+        key_levels: { support: 0, resistance: 0 },
+        analysis: "Mock response, no analysis",
+      },
+      chat: "Mock model: hold",
+    },
+  ],
+};
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Create the mock server (call .listen(port) to start, .close() to stop)
+ */
+export function createMockOpenAIServer(options: MockOpenAIServerOptions = {}): Server {
+  const { respond = () => DEFAULT_MOCK_DECISIONS, delayMs = 0 } = options;
+  let requestCount = 0;
+
+  return createServer(async (req, res) => {
+    const sendJson = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method === "GET" && req.url?.endsWith("/models")) {
+      sendJson(200, { object: "list", data: [{ id: "mock-trader", object: "model", owned_by: "local" }] });
+      return;
+    }
+
+    if (req.method !== "POST" || !req.url?.endsWith("/chat/completions")) {
+      sendJson(404, { error: { message: `Unknown endpoint: ${req.method} ${req.url}` } });
+      return;
+    }
+
+    requestCount++;
+    let request: ChatCompletionRequest;
+    try {
+      request = JSON.parse(await readBody(req));
+    } catch {
+      sendJson(400, { error: { message: "Invalid JSON body" } });
+      return;
+    }
+
+    if (delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+
+    if (requestCount <= (options.errorResponses || 0)) {
+      sendJson(500, { error: { message: "Mock server error", type: "server_error" } });
+      return;
+    }
+
+    let content: string;
+    if (requestCount <= (options.errorResponses || 0) + (options.invalidResponses || 0)) {
+      content = "Sorry, I cannot produce JSON right now.";
+    } else {
+      const response = respond(request);
+      content = typeof response === "string" ? response : JSON.stringify(response);
+    }
+
+    sendJson(200, {
+      id: `chatcmpl-mock-${requestCount}`,
+      object: "chat.completion",
+      created: Math.floor(Date.now() / 1000),
+      model: request.model,
+      choices: [
+        {
+          index: 0,
+          message: { role: "assistant", content },
+          finish_reason: "stop",
+        },
+      ],
+      usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+    });
+  });
+}
@@ -6,26 +6,18 @@ import { HttpsProxyAgent } from "https-proxy-agent";
 const proxyUrl = process.env.HTTP_PROXY || process.env.HTTPS_PROXY || "http://127.0.0.1:7890";
 const proxyAgent = new HttpsProxyAgent(proxyUrl);
 
+// agent is valid for the Node fetch but not in RequestInit types
+export const proxyFetch: typeof fetch = (url, init) =>
+  fetch(url, { ...init, agent: proxyAgent } as RequestInit);
+
 const deepseekModel = createDeepSeek({
   apiKey: process.env.DEEPSEEK_API_KEY,
-  fetch: (url, init) => {
-    return fetch(url, {
-      ...init,
-      // @ts-ignore - agent is valid but not in types
-      agent: proxyAgent,
-    });
-  },
+  fetch: proxyFetch,
 });
 
 const openrouter = createOpenRouter({
   apiKey: process.env.OPENROUTER_API_KEY,
-  fetch: (url, init) => {
-    return fetch(url, {
-      ...init,
-      // @ts-ignore - agent is valid but not in types
-      agent: proxyAgent,
-    });
-  },
+  fetch: proxyFetch,
 });
 
 export const deepseekv31 = openrouter("deepseek/deepseek-v3.2-exp");
@@ -1,5 +1,4 @@
-﻿import { Symbol } from '@prisma/client';
-import dayjs from "dayjs";
+﻿import dayjs from "dayjs";
 import {
   AccountInformationAndPerformance,
   formatAccountPerformance,
@@ -12,9 +11,17 @@ import {
   getLearningStats,
   formatLearningFeedback,
   getDynamicRiskAdjustment,
+  isDynamicRiskEnforced,
 } from "./learning-feedback";
-
-export function getTradingPrompt(symbolList: Symbol[]) {
+import { formatSimilarTrades, getSimilarTradesK, loadSetupLessons } from "./similar-trades";
+import type { PerformanceAnalytics } from "../analytics/analytics";
+import { formatPredictionAccuracy, getPredictionAccuracy } from "../analytics/predictions";
+import type { ModelType } from "@prisma/client";
+
+/**
+ * System prompt for the enabled symbols of the symbol registry (e.g. ["BTC", "ETH"])
+ */
+export function getTradingPrompt(symbolList: string[]) {
   const symbols = symbolList.join(', ');
 
   return `You are an elite institutional crypto futures trader operating perpetual contracts on major exchanges with ruthless discipline and deep technical mastery. Your role is to identify high-conviction setups, size positions aggressively but intelligently, and execute with surgical precision.
@@ -65,15 +72,29 @@ Systematic prompts and outputs
 {
   "decisions": [
     {
-      "opeartion": "Buy" | "Sell" | "Hold",
+      "opeartion": "OpenLong" | "OpenShort" | "Close" | "Hold",
       "symbol": "<crypto_symbol_without_USDT>",  // e.g., BTC, ETH, SOL
       "chat": "<concise technical analysis and rationale>",
-      "buy": {
+      "buy": {                          // required for OpenLong / OpenShort
         "pricing": <number>,          // entry price
         "amount": <number>,             // position size (in base units)
         "leverage": <number>,           // 6–25 typically, bounded by 30
         "stopLossPercent": <number>,    // ATR-based or technical level distance in percent
-        "takeProfitPercent": <number>   // tiered target percent
+        "takeProfitPercent": <number>,  // single target percent (used when takeProfitTargets is omitted)
+        "takeProfitTargets": [          // optional tiered exits, nearest first; portions are % of the position
+          { "percent": <number>, "portion": <number> }
+        ],
+        "trailingStop": {               // optional server-side trail for the stop
+          "method": "percent" | "atr" | "structure",
+          "value": <number>,            // percent distance, ATR multiple, or ATR buffer beyond the 15m swing
+          "activationPercent": <number> // optional: start trailing after this unrealized profit %
+        },
+        "exitRules": {                  // optional per-position overrides of the server-side exit rules
+          "breakEvenR": <number>,       // move stop to break-even after +N R (0 = off)
+          "timeStopHours": <number>,    // close if still flat after N hours (0 = off)
+          "closeOnAdverseFunding": <boolean>,
+          "closeOnEmaCross": <boolean>  // close on a 4h EMA20/EMA50 cross against the position
+        }
       },
       "prediction": {
         "short_term_trend": "bullish" | "bearish" | "neutral",
@@ -84,9 +105,9 @@ Systematic prompts and outputs
         },
         "analysis": "<brief 30–60 word technical justification>"
       }
-      // If "opeartion" is "Sell", include:
-      // "sell": { "percentage": <0-100> }
-      // If "opeartion" is "Hold", include optional "adjustProfit" with "stopLoss" and "takeProfit" guidance
+      // If "opeartion" is "Close", include:
+      // "sell": { "percentage": <0-100>, "positionSide": "LONG" | "SHORT" }
+      // If "opeartion" is "Hold", include optional "adjustProfit" with "stopLoss", "takeProfit" (or "takeProfitTargets": [{ "price", "portion" }]), "trailingStop" and "positionSide"
     }
   ]
 }
@@ -97,6 +118,13 @@ Operational notes
 - Aggressive sizing guideline is reflected in the 15–25% balance per trade with up to 20x–25x leverage when confidence is high
 - Multiple positions (2–3) are encouraged when edge exists to accelerate growth but must remain within risk limits
 - EXIT DISCIPLINE: implement take-profit bands and stop-loss discipline as described
+- SHORTS: use "OpenShort" for bearish setups with the same sizing rules; stopLossPercent / takeProfitPercent stay positive distances (the system places the stop ABOVE and the target BELOW entry for shorts)
+- TIERED EXITS: "takeProfitTargets" places one reduce-only take-profit per tranche (e.g. 30% at TP1, 50% at TP2); portions summing to 100 close the rest at the last target, otherwise the remainder rides with the stop
+- TRAILING STOPS: "trailingStop" is managed by the system every 20 seconds; the stop only moves in the position's favour and existing take-profit orders stay in place
+- EXIT RULES: the system can also move the stop to break-even after a set R multiple, close a position that stays flat too long, close before adverse funding and on a 4h EMA20/EMA50 cross against the position; these rules are off unless the operator enables them by default or you enable them per entry with "exitRules"
+- FUNDING CARRY: each position lists the funding it has paid since open and the projected payment at the next settlement; when carry eats a large share of the open profit on a trade that is not moving, prefer taking profit over holding
+- SCALING: "OpenLong" / "OpenShort" on a symbol with an open position on that side adds to it; the stop is re-placed for the new average entry, take-profit tranches are re-planned for the new size when you give "takeProfitTargets" and kept as they are when you don't, and partial "Close" orders shrink the remaining tranches proportionally
+- HEDGING: when both a LONG and a SHORT are open on one symbol, "Close" and "adjustProfit" must name the "positionSide"
 
 Special reminders
 - Do not include any market data in this system prompt; market data will come from a separate user prompt
@@ -107,12 +135,12 @@ Special reminders
 CRITICAL RESPONSE REQUIREMENTS:
 1. Field name must be "opeartion" (exact spelling required by system)
 2. Symbol must be one of: ${symbols} (without USDT suffix)
-3. ALL Buy orders MUST include explicit stopLossPercent and takeProfitPercent
+3. ALL OpenLong / OpenShort orders MUST include explicit stopLossPercent and takeProfitPercent
 4. Every decision MUST include "prediction" field
 5. Return up to 5 decisions at once (one per supported symbol)
-6. Verify current positions before any Sell decisions - only sell positions listed in "Active Positions"
+6. Verify current positions before any Close decisions - only close positions listed in "Active Positions"
 
-POSITION SIZING FORMULA (for Buy orders):
+POSITION SIZING FORMULA (for OpenLong / OpenShort orders):
 - Position size = (Account Equity × Risk Fraction) / (Stop Distance × Leverage × Entry Price)
 - Stop distance = stopLossPercent / 100
 
@@ -124,7 +152,7 @@ EXAMPLE:
 {
   "decisions": [
     {
-      "opeartion": "Buy",
+      "opeartion": "OpenLong",
       "symbol": "BTC",
       "chat": "High-confidence 8/10 setup: 4H uptrend + 1m momentum surge + volume 1.8x avg. Bullish engulfing on 15m.",
       "buy": { 
@@ -132,7 +160,11 @@ EXAMPLE:
         "amount": 0.00022,
         "leverage": 18,
         "stopLossPercent": 2.5,
-        "takeProfitPercent": 8.0
+        "takeProfitPercent": 8.0,
+        "takeProfitTargets": [
+          { "percent": 4.0, "portion": 30 },
+          { "percent": 8.0, "portion": 50 }
+        ]
       },
       "prediction": {
         "short_term_trend": "bullish",
@@ -176,12 +208,21 @@ interface UserPromptOptions {
   }>;
   accountInformationAndPerformance: AccountInformationAndPerformance;
   startTime: Date;
+  currentTime?: Date; // Backtest replays pass the simulated clock
+  includeLearningFeedback?: boolean; // Default true; backtests skip the DB lookup
+  performanceAnalytics?: PerformanceAnalytics | null; // Sharpe / drawdown / expectancy for the account section
+  model?: ModelType; // Scopes the learning feedback, prediction accuracy and similar setups to the deciding model
 }
 
 export async function generateUserPrompt(options: UserPromptOptions): Promise<string> {
-  const { marketStates, accountInformationAndPerformance, startTime } = options;
+  const {
+    marketStates,
+    accountInformationAndPerformance,
+    startTime,
+    includeLearningFeedback = true,
+  } = options;
 
-  const currentTime = new Date().toISOString();
+  const currentTime = (options.currentTime ?? new Date()).toISOString();
 
   // Build market data sections for each symbol
   const marketDataSections = marketStates.map(({ symbol, state }) => {
@@ -189,14 +230,14 @@ export async function generateUserPrompt(options: UserPromptOptions): Promise<st
   }).join('\n\n');
 
   // Format account information
-  const accountInfo = formatAccountPerformance(accountInformationAndPerformance);
+  const accountInfo = formatAccountPerformance(accountInformationAndPerformance, options.performanceAnalytics);
 
   // Get learning feedback and dynamic risk adjustment
   let learningSection = "";
   let riskAdjustment = "";
   try {
-    const stats = await getLearningStats(7); // Last 7 days
-    if (stats.total_trades > 0) {
+    const stats = includeLearningFeedback ? await getLearningStats(7, options.model) : null; // Last 7 days
+    if (stats && stats.total_trades > 0) {
       learningSection = formatLearningFeedback(stats);
       const riskParams = getDynamicRiskAdjustment(stats);
       riskAdjustment = `\n## DYNAMIC RISK ADJUSTMENT
@@ -209,12 +250,39 @@ Adjusted Parameters:
 - Confidence Threshold: ${(riskParams.confidence_threshold * 100).toFixed(0)}% (only trade setups above this confidence level)
 
 IMPORTANT: These adjustments are based on your recent performance. Follow them strictly to manage risk appropriately.
-`;
+${isDynamicRiskEnforced()
+  ? `ENFORCED: The system applies them to every entry. Requested amount and leverage are scaled down by the multipliers (never up), and entries whose prediction confidence (high = 85%, medium = 65%, low = 45%) is below the threshold are rejected.\n`
+  : ""}`;
     }
   } catch (error) {
     console.error("Error fetching learning stats:", error);
   }
 
+  // 趋势预测命中率（最近 7 天，按模型），放在学习反馈之后
+  let predictionSection = "";
+  if (includeLearningFeedback) {
+    try {
+      const accuracy = await getPredictionAccuracy({
+        model: options.model,
+        from: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
+      });
+      predictionSection = formatPredictionAccuracy(accuracy);
+    } catch (error) {
+      console.error("Error fetching prediction accuracy:", error);
+    }
+  }
+
+  // 每个币种最相似的历史开仓及其结果（本地相似度检索，失败不影响决策）
+  let similarTradesSection = "";
+  const similarTradesK = getSimilarTradesK();
+  if (includeLearningFeedback && similarTradesK > 0) {
+    try {
+      similarTradesSection = formatSimilarTrades(marketStates, await loadSetupLessons(options.model), similarTradesK);
+    } catch (error) {
+      console.error("Error retrieving similar trades:", error);
+    }
+  }
+
   return `You are an exceptional trader. Current time is ${currentTime}. We urgently need you to manage our assets.
 
 Below, we provide you with various state data, price data, and predictive signals to help you discover alpha (excess returns). Further down is your current account information, value, performance, positions, and more.
@@ -228,7 +296,7 @@ ${marketDataSections}
 ## CURRENT ACCOUNT INFORMATION
 
 ${accountInfo}
-${learningSection}${riskAdjustment}
+${learningSection}${predictionSection}${similarTradesSection}${riskAdjustment}
 
 ---
 
@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import { after, afterEach, before, describe, it, mock } from "node:test";
+import type { Server } from "http";
+import { ModelType } from "@prisma/client";
+import { decisionsSchema } from "./decision-schema";
+import { createMockOpenAIServer, DEFAULT_MOCK_DECISIONS, type MockOpenAIServerOptions } from "./mock-openai-server";
+import { generateObjectWithFallback, type ProviderConfig } from "./providers";
+
+const servers: Server[] = [];
+
+/**
+ * Start a mock server on a free port and return a provider config pointing at it
+ */
+async function mockProvider(id: string, options: MockOpenAIServerOptions = {}, timeoutMs = 5000): Promise<ProviderConfig> {
+    const server = createMockOpenAIServer(options);
+    servers.push(server);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    return { id, type: "openai-compatible", model: "mock-trader", baseURL: `http://127.0.0.1:${port}/v1`, timeoutMs, proxy: false };
+}
+
+function useChain(providers: ProviderConfig[]) {
+    process.env.AI_PROVIDERS = JSON.stringify(providers);
+    process.env.AI_PROVIDER_CHAIN_DEEPSEEK = providers.map((p) => p.id).join(",");
+}
+
+function generate() {
+    return generateObjectWithFallback({
+        modelType: ModelType.Deepseek,
+        system: "You are a trader.",
+        prompt: "Decide.",
+        schema: decisionsSchema,
+        functionId: "provider-test",
+    });
+}
+
+describe("generateObjectWithFallback", () => {
+    // 每次调用都会打印 provider 日志，测试输出里不需要
+    before(() => {
+        for (const method of ["log", "warn", "error"] as const) {
+            mock.method(console, method, () => {});
+        }
+    });
+
+    afterEach(() => {
+        delete process.env.AI_PROVIDERS;
+        delete process.env.AI_PROVIDER_CHAIN_DEEPSEEK;
+    });
+
+    after(() => {
+        mock.restoreAll();
+        for (const server of servers) {
+            server.closeAllConnections();
+            server.close();
+        }
+    });
+
+    it("returns the first provider's object", async () => {
+        useChain([await mockProvider("mock-a"), await mockProvider("mock-b")]);
+        const result = await generate();
+
+        assert.deepEqual(result.object, DEFAULT_MOCK_DECISIONS);
+        assert.equal(result.provider, "mock-a");
+        assert.deepEqual(result.attempts.map((a) => [a.provider, a.attempt, a.error]), [["mock-a", 1, undefined]]);
+    });
+
+    it("falls back to the next provider on a timeout", async () => {
+        useChain([await mockProvider("slow", { delayMs: 2000 }, 200), await mockProvider("fast")]);
+        const result = await generate();
+
+        assert.equal(result.provider, "fast");
+        assert.equal(result.attempts.length, 2);
+        assert.equal(result.attempts[0].provider, "slow");
+        assert.equal(result.attempts[0].schemaError, false);
+        assert.ok(result.attempts[0].error);
+    });
+
+    it("falls back to the next provider on a server error", async () => {
+        // 500 会先被 SDK 自身重试两次（间隔 2s / 4s），三次都失败后才换 provider
+        useChain([await mockProvider("broken", { errorResponses: 3 }, 10_000), await mockProvider("healthy")]);
+        const result = await generate();
+
+        assert.equal(result.provider, "healthy");
+        assert.deepEqual(result.attempts.map((a) => [a.provider, a.attempt, a.schemaError ?? false]), [
+            ["broken", 1, false],
+            ["healthy", 1, false],
+        ]);
+        assert.match(result.attempts[0].error ?? "", /Mock server error/);
+    });
+
+    it("retries invalid output on the same provider", async () => {
+        useChain([await mockProvider("flaky", { invalidResponses: 1 }), await mockProvider("backup")]);
+        const result = await generate();
+
+        assert.equal(result.provider, "flaky");
+        assert.deepEqual(result.attempts.map((a) => [a.provider, a.attempt, a.schemaError ?? false]), [
+            ["flaky", 1, true],
+            ["flaky", 2, false],
+        ]);
+    });
+
+    it("moves on once the schema retries are used up and reports every attempt when all fail", async () => {
+        useChain([await mockProvider("invalid", { invalidResponses: 10 }), await mockProvider("down", { errorResponses: 10 }, 200)]);
+        await assert.rejects(generate(), (error: Error) => {
+            assert.match(error.message, /^All providers failed for Deepseek: invalid#1: .+; invalid#2: .+; down#1: /);
+            return true;
+        });
+    });
+});
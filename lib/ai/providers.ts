@@ -0,0 +1,293 @@
+/**
+ * Model provider registry
+ * 每个 ModelType 对应一条有序的 provider 回退链：超时 / 接口错误换下一个 provider，
+ * 输出不符合 schema 时在同一 provider 上重试
+ */
+
+import { createDeepSeek } from "@ai-sdk/deepseek";
+import { createOpenRouter } from "@openrouter/ai-sdk-provider";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import { generateObject, NoObjectGeneratedError, type LanguageModel } from "ai";
+import type { z } from "zod";
+import { ModelType } from "@prisma/client";
+import { proxyFetch } from "./model";
+import { createDecisionsSchema, decisionsSchema, type TradingDecisions } from "./decision-schema";
+
+export type ProviderType = "deepseek" | "openrouter" | "openai-compatible";
+
+export interface ProviderConfig {
+  id: string;
+  type: ProviderType;
+  model: string;
+  baseURL?: string; // openai-compatible 必填
+  apiKeyEnv?: string; // 保存 API Key 的环境变量名（不把密钥写进 AI_PROVIDERS）
+  timeoutMs: number;
+  proxy: boolean; // 是否走 HTTP_PROXY（本地服务应关闭）
+}
+
+export interface ProviderAttempt {
+  provider: string;
+  attempt: number; // 同一 provider 上的第几次调用（从 1 开始）
+  durationMs: number;
+  error?: string;
+  schemaError?: boolean;
+}
+
+export interface GenerateObjectResult<T> {
+  object: T;
+  reasoning?: string;
+  providerMetadata?: Record<string, Record<string, unknown>>;
+  provider: string; // 实际产出结果的 provider id
+  attempts: ProviderAttempt[];
+}
+
+export type GenerateDecisionsResult = GenerateObjectResult<TradingDecisions>;
+
+const DEFAULT_PROVIDERS: ProviderConfig[] = [
+  {
+    id: "deepseek-chat",
+    type: "deepseek",
+    model: "deepseek-chat",
+    apiKeyEnv: "DEEPSEEK_API_KEY",
+    timeoutMs: 120000,
+    proxy: true,
+  },
+  {
+    id: "deepseek-reasoner",
+    type: "deepseek",
+    model: "deepseek-reasoner",
+    apiKeyEnv: "DEEPSEEK_API_KEY",
+    timeoutMs: 300000,
+    proxy: true,
+  },
+  {
+    id: "openrouter-deepseek",
+    type: "openrouter",
+    model: "deepseek/deepseek-v3.2-exp",
+    apiKeyEnv: "OPENROUTER_API_KEY",
+    timeoutMs: 120000,
+    proxy: true,
+  },
+  {
+    // 通义千问（DashScope OpenAI 兼容接口）
+    id: "qwen",
+    type: "openai-compatible",
+    model: process.env.QWEN_MODEL || "qwen-plus",
+    baseURL: process.env.QWEN_BASE_URL || "https://dashscope.aliyuncs.com/compatible-mode/v1",
+    apiKeyEnv: "QWEN_API_KEY",
+    timeoutMs: 120000,
+    proxy: true,
+  },
+  {
+    // 豆包（火山方舟 OpenAI 兼容接口，模型名填推理接入点 ID 或模型 ID）
+    id: "doubao",
+    type: "openai-compatible",
+    model: process.env.DOUBAO_MODEL || "doubao-seed-1-6-250615",
+    baseURL: process.env.DOUBAO_BASE_URL || "https://ark.cn-beijing.volces.com/api/v3",
+    apiKeyEnv: "DOUBAO_API_KEY",
+    timeoutMs: 120000,
+    proxy: true,
+  },
+  {
+    // 本地 OpenAI 兼容服务（Ollama / vLLM / npm run mock-llm）
+    id: "local",
+    type: "openai-compatible",
+    model: process.env.LOCAL_LLM_MODEL || "mock-trader",
+    baseURL: process.env.LOCAL_LLM_BASE_URL || "http://127.0.0.1:8787/v1",
+    apiKeyEnv: "LOCAL_LLM_API_KEY",
+    timeoutMs: 60000,
+    proxy: false,
+  },
+];
+
+const DEFAULT_CHAINS: Record<ModelType, string[]> = {
+  [ModelType.Deepseek]: ["deepseek-chat"],
+  [ModelType.DeepseekThinking]: ["deepseek-reasoner"],
+  [ModelType.Qwen]: ["qwen"],
+  [ModelType.Doubao]: ["doubao"],
+};
+
+/**
+ * Provider configs: built-in defaults merged (by id) with the AI_PROVIDERS JSON array
+ * e.g. AI_PROVIDERS='[{"id":"local","baseURL":"http://127.0.0.1:11434/v1","model":"qwen2.5:14b"}]'
+ */
+export function getProviderConfigs(): Map<string, ProviderConfig> {
+  const configs = new Map(DEFAULT_PROVIDERS.map((config) => [config.id, config]));
+
+  if (process.env.AI_PROVIDERS) {
+    let overrides: unknown;
+    try {
+      overrides = JSON.parse(process.env.AI_PROVIDERS);
+    } catch {
+      throw new Error("AI_PROVIDERS must be a JSON array of provider configs");
+    }
+    if (!Array.isArray(overrides)) {
+      throw new Error("AI_PROVIDERS must be a JSON array of provider configs");
+    }
+
+    for (const override of overrides as Array<Partial<ProviderConfig>>) {
+      if (!override.id) {
+        throw new Error("AI_PROVIDERS entry is missing id");
+      }
+      const merged = { timeoutMs: 120000, proxy: true, ...configs.get(override.id), ...override } as ProviderConfig;
+      if (!merged.type || !merged.model) {
+        throw new Error(`AI_PROVIDERS entry "${override.id}" needs type and model`);
+      }
+      if (merged.type === "openai-compatible" && !merged.baseURL) {
+        throw new Error(`AI_PROVIDERS entry "${override.id}" needs baseURL`);
+      }
+      configs.set(merged.id, merged);
+    }
+  }
+
+  return configs;
+}
+
+/**
+ * Ordered provider ids for a model type
+ * AI_PROVIDER_CHAIN_<MODEL> overrides the default, e.g. AI_PROVIDER_CHAIN_DEEPSEEK="deepseek-chat,openrouter-deepseek,local"
+ */
+export function getProviderChain(modelType: ModelType): ProviderConfig[] {
+  const configs = getProviderConfigs();
+  const chainEnv = process.env[`AI_PROVIDER_CHAIN_${modelType.toUpperCase()}`];
+  const ids = chainEnv
+    ? chainEnv.split(",").map((id) => id.trim()).filter(Boolean)
+    : DEFAULT_CHAINS[modelType];
+
+  return ids.map((id) => {
+    const config = configs.get(id);
+    if (!config) {
+      throw new Error(`Unknown AI provider "${id}" in chain for ${modelType}`);
+    }
+    return config;
+  });
+}
+
+const modelCache = new Map<string, LanguageModel>();
+
+/**
+ * Language model instance for a provider config (cached per config)
+ */
+export function createProviderModel(config: ProviderConfig): LanguageModel {
+  const cacheKey = JSON.stringify(config);
+  const cached = modelCache.get(cacheKey);
+  if (cached) return cached;
+
+  const apiKey = config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined;
+  const fetchImpl = config.proxy ? proxyFetch : undefined;
+
+  let model: LanguageModel;
+  switch (config.type) {
+    case "deepseek":
+      model = createDeepSeek({ apiKey, baseURL: config.baseURL, fetch: fetchImpl })(config.model);
+      break;
+    case "openrouter":
+      model = createOpenRouter({ apiKey, baseURL: config.baseURL, fetch: fetchImpl })(config.model);
+      break;
+    case "openai-compatible":
+      model = createOpenAICompatible({
+        name: config.id,
+        apiKey,
+        baseURL: config.baseURL!,
+        fetch: fetchImpl,
+      })(config.model);
+      break;
+    default:
+      throw new Error(`Unknown AI provider type: ${(config as ProviderConfig).type}`);
+  }
+
+  modelCache.set(cacheKey, model);
+  return model;
+}
+
+/**
+ * Schema failures (unparseable / invalid JSON) are retried on the same provider
+ */
+function getSchemaRetries(): number {
+  return Number(process.env.AI_SCHEMA_RETRIES || 1);
+}
+
+/**
+ * Generate a structured object through the model's provider chain
+ * (decisions, post-trade reflections, ...); functionId labels the telemetry span
+ */
+export async function generateObjectWithFallback<T>(options: {
+  modelType: ModelType;
+  system: string;
+  prompt: string;
+  schema: z.ZodType<T>;
+  functionId: string;
+}): Promise<GenerateObjectResult<T>> {
+  const chain = getProviderChain(options.modelType);
+  const schemaRetries = getSchemaRetries();
+  const attempts: ProviderAttempt[] = [];
+
+  for (const config of chain) {
+    for (let attempt = 1; attempt <= schemaRetries + 1; attempt++) {
+      const startTime = Date.now();
+      console.log(`🤖 AI ${config.id} (${config.model}) attempt ${attempt}...`);
+
+      try {
+        const result = await generateObject({
+          model: createProviderModel(config),
+          system: options.system,
+          prompt: options.prompt,
+          schema: options.schema,
+          abortSignal: AbortSignal.timeout(config.timeoutMs),
+          experimental_telemetry: {
+            isEnabled: true,
+            functionId: options.functionId,
+          },
+        });
+
+        const durationMs = Date.now() - startTime;
+        console.log(`✅ Response from ${config.id}: ${durationMs}ms`);
+        attempts.push({ provider: config.id, attempt, durationMs });
+
+        return {
+          object: result.object as T,
+          reasoning: result.reasoning,
+          providerMetadata: result.providerMetadata,
+          provider: config.id,
+          attempts,
+        };
+      } catch (error) {
+        const durationMs = Date.now() - startTime;
+        const schemaError = NoObjectGeneratedError.isInstance(error);
+        const message = error instanceof Error && error.name === "TimeoutError"
+          ? `timeout after ${config.timeoutMs / 1000}s`
+          : error instanceof Error ? error.message : String(error);
+        attempts.push({ provider: config.id, attempt, durationMs, error: message, schemaError });
+
+        if (schemaError && attempt <= schemaRetries) {
+          console.warn(`⚠️ ${config.id} returned invalid output, retrying: ${message}`);
+          continue;
+        }
+        console.error(`❌ AI ${config.id} failed: ${message}`);
+        break; // 换下一个 provider
+      }
+    }
+  }
+
+  const summary = attempts.map((a) => `${a.provider}#${a.attempt}: ${a.error}`).join("; ");
+  throw new Error(`All providers failed for ${options.modelType}: ${summary}`);
+}
+
+/**
+ * Generate trading decisions through the model's provider chain
+ * symbols restricts decision symbols to the enabled symbols of the registry
+ */
+export async function generateTradingDecisions(options: {
+  modelType: ModelType;
+  system: string;
+  prompt: string;
+  symbols?: string[];
+}): Promise<GenerateDecisionsResult> {
+  return generateObjectWithFallback<TradingDecisions>({
+    modelType: options.modelType,
+    system: options.system,
+    prompt: options.prompt,
+    schema: options.symbols ? createDecisionsSchema(options.symbols) : decisionsSchema,
+    functionId: "trading-decision",
+  });
+}
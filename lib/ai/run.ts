@@ -1,32 +1,76 @@
-import { generateObject } from "ai";
 import { generateUserPrompt, getTradingPrompt } from "./prompt";
 import { getCurrentMarketState } from "../trading/current-market-state";
-import { z } from "zod";
-import { deepseekR1, deepseek, deepseekv31 } from "./model";
+import { generateTradingDecisions } from "./providers";
+import { getPerformanceAnalytics } from "../analytics/analytics";
+import { scorePendingPredictions } from "../analytics/predictions";
+import { DEFAULT_METRICS_NAME } from "../trading/metrics-history";
+import { reconcileClosedTrades } from "../trading/closed-trade-reconciler";
 import { getAccountInformationAndPerformance } from "../trading/account-information-and-performance";
 import { prisma } from "../prisma";
-import { Opeartion, Symbol } from "@prisma/client";
+import { ModelType, Opeartion } from "@prisma/client";
 import { buy } from "../trading/buy";
 import { sell } from "../trading/sell";
+import { randomUUID } from "crypto";
+import { getRiskConfig, logTrade } from "../trading/risk-control";
+import { createPortfolioRiskEngine, type RiskVerdict } from "../trading/portfolio-risk";
+import { loadRiskState, saveRiskVerdicts } from "../trading/risk-store";
 import {
-  getRiskConfig,
-  checkBuyRisk,
-  checkDailyLossLimit,
-  logTrade,
-} from "../trading/risk-control";
-import { setStopLossTakeProfit } from "../trading/stop-loss-take-profit-official";
+  getAtrStopLossTakeProfitPercent,
+  setStopLossTakeProfit,
+} from "../trading/stop-loss-take-profit-official";
+import { getExchangeAdapter } from "../trading/exchange-adapter";
+import { getEnabledSymbols, toTradingPair } from "../trading/symbol-registry";
+import { getEntryOrderConfig, syncEntryOrders } from "../trading/entry-orders";
+import { syncOrderLedger } from "../trading/order-ledger";
+import { setTrailingStop, type TrailingStopConfig } from "../trading/trailing-stop";
+import { setExitRules } from "../trading/exit-rules";
+import type { MetricsSeries } from "../trading/metrics-history";
+import { getEntrySide, isCloseOperation } from "./decision-schema";
+import { toAccountSnapshot, toDecisionMarketStates } from "./decision-snapshot";
+import {
+  applyDynamicRiskAdjustment,
+  getDynamicRiskAdjustment,
+  getLearningStats,
+  isDynamicRiskEnforced,
+  type DynamicRiskAdjustment,
+} from "./learning-feedback";
+
+/**
+ * Enable the trailing stop a decision asked for; the metrics tick moves it from then on
+ */
+async function enableTrailingStop(
+  series: MetricsSeries,
+  symbol: string,
+  positionSide: "LONG" | "SHORT",
+  config: TrailingStopConfig,
+  tradingId: string
+) {
+  try {
+    await setTrailingStop({ series, symbol, positionSide, config, tradingId });
+  } catch (error) {
+    console.warn(`⚠️ Failed to enable trailing stop for ${symbol} ${positionSide}:`, error instanceof Error ? error.message : error);
+  }
+}
 
 /**
  * you can interval trading using cron job
+ * modelType selects the model and tags the saved Chat (arena runs one call per model)
+ * metricsSeries is the MetricSnapshot series used for performance analytics in the prompt
  */
-export async function run(initialCapital?: number) {
+export async function run(
+  initialCapital?: number,
+  modelType: ModelType = ModelType.Deepseek,
+  metricsSeries: string = DEFAULT_METRICS_NAME
+) {
   const riskConfig = getRiskConfig();
 
   // 改进的模式标识
   const modeLabel = riskConfig.tradingMode === 'live'
     ? '⚠️ LIVE (REAL MONEY)'
-    : '🎮 VIRTUAL';
-  console.log(`🤖 Mode: ${modeLabel}`);
+    : riskConfig.tradingMode === 'paper'
+      ? '🧪 PAPER (LOCAL SIMULATOR)'
+      : '🎮 VIRTUAL';
+  console.log(`🤖 Mode: ${modeLabel} | Model: ${modelType}`);
 
 
   const effectiveInitialCapital = initialCapital;
@@ -42,14 +86,9 @@ export async function run(initialCapital?: number) {
     ...overrides,
   } as any); // Type assertion to work around Prisma type cache issues
 
-  // Define supported cryptocurrencies for analysis and trading
-  const supportedSymbols = [
-    "BTC/USDT",
-    "ETH/USDT",
-    "SOL/USDT",
-    "BNB/USDT",
-    "DOGE/USDT"
-  ];
+  // Supported cryptocurrencies for analysis and trading (enabled symbols of the registry)
+  const enabledSymbols = await getEnabledSymbols();
+  const supportedSymbols = enabledSymbols.map(toTradingPair);
 
   try {
     // Fetch market state for all supported cryptocurrencies
@@ -72,121 +111,92 @@ export async function run(initialCapital?: number) {
     const accountInformationAndPerformance =
       await getAccountInformationAndPerformance(effectiveInitialCapital);
 
+    // 对账已平仓交易（写入 ClosedTrade 并生成交易教训），失败不影响决策
+    try {
+      const reconciled = await reconcileClosedTrades({ model: modelType, series: metricsSeries });
+      if (reconciled.closedTrades > 0) {
+        console.log(`📒 Reconciled ${reconciled.closedTrades} closed trades (${reconciled.lessons} lessons)`);
+      }
+    } catch (error) {
+      console.warn("⚠️ Closed trade reconciliation failed:", error);
+    }
+
+    // 给到期的趋势预测评分（决策后 N 小时的实际走势），失败不影响决策
+    try {
+      await scorePendingPredictions(modelType);
+    } catch (error) {
+      console.warn("⚠️ Prediction scoring failed:", error);
+    }
+
+    // 同步限价开仓挂单：成交的挂止盈止损，超过周期数未成交的撤单
+    const riskSeries = { model: modelType, series: metricsSeries };
+    const entryConfig = getEntryOrderConfig();
+    try {
+      const synced = await syncEntryOrders(riskSeries, { advanceCycle: true });
+      if (synced.filled + synced.canceled + synced.open > 0) {
+        console.log(`📗 Entry orders: ${synced.open} open, ${synced.filled} filled, ${synced.canceled} canceled/expired`);
+      }
+    } catch (error) {
+      console.warn("⚠️ Entry order sync failed:", error);
+    }
+
+    // 订单账本：补齐挂单（止盈止损等）的状态和成交明细
+    try {
+      await syncOrderLedger(riskSeries);
+    } catch (error) {
+      console.warn("⚠️ Order ledger sync failed:", error);
+    }
+
+    // 最近 7 天的真实绩效指标（失败不影响决策）
+    let performanceAnalytics = null;
+    try {
+      performanceAnalytics = await getPerformanceAnalytics({
+        model: modelType,
+        series: metricsSeries,
+        from: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
+      });
+    } catch (error) {
+      console.warn("⚠️ Performance analytics unavailable:", error);
+    }
+
     // Generate comprehensive prompt with all market data (now async to include learning feedback)
     const userPrompt = await generateUserPrompt({
       marketStates: validMarketStates,
       accountInformationAndPerformance,
       startTime: new Date(),
+      performanceAnalytics,
+      model: modelType,
     });
 
     // Generate trading prompt with supported symbols (now supports multi-symbol decisions)
-    const supportedSymbolEnums = [Symbol.BTC, Symbol.ETH, Symbol.SOL, Symbol.BNB, Symbol.DOGE];
-    const tradingPrompt = getTradingPrompt(supportedSymbolEnums);
+    const tradingPrompt = getTradingPrompt(enabledSymbols);
 
-    // AI调用超时和多模型回退机制
-    let object, reasoning;
-    let aiCallSuccess = false;
-    const maxRetries = 3;
-
-    // Use Chat-only model (deepseek) — avoid R1/v3.1 timeouts and errors
-    const currentModel = { name: "Chat", model: deepseek, timeout: 120000 };  // Increased to 120s
+    // AI调用：按 provider 回退链依次尝试（超时/接口错误换下一个，schema 校验失败同 provider 重试）
+    let object: any, reasoning: string | undefined, provider: string;
     try {
-      const startTime = Date.now();
-      console.log(`🤖 AI ${currentModel.name} (1/1)...`);
-
-      const aiCallConfig: any = {
-        model: currentModel.model,
+      const result = await generateTradingDecisions({
+        modelType,
         system: tradingPrompt,
         prompt: userPrompt,
-        output: "object",
-        experimental_telemetry: {
-          isEnabled: true,
-          functionId: "trading-decision",
-        },
-        schema: (() => {
-          const decisionSchema = z.object({
-            opeartion: z.nativeEnum(Opeartion),
-            symbol: z.nativeEnum(Symbol).describe("The cryptocurrency symbol to trade (without USDT suffix)"),
-            buy: z
-              .object({
-                pricing: z.number().describe("The pricing of you want to buy in."),
-                amount: z.number(),
-                leverage: z.number().min(1).max(30),
-                stopLossPercent: z.number().optional(),
-                takeProfitPercent: z.number().optional(),
-              })
-              .optional()
-              .describe("If opeartion is buy, generate object"),
-            sell: z
-              .object({
-                percentage: z
-                  .number()
-                  .min(0)
-                  .max(100)
-                  .describe("Percentage of position to sell"),
-              })
-              .optional()
-              .describe("If opeartion is sell, generate object"),
-            adjustProfit: z
-              .object({
-                stopLoss: z.number().optional(),
-                takeProfit: z.number().optional(),
-              })
-              .optional()
-              .describe("If opeartion is hold and you want to adjust the profit, generate object"),
-            prediction: z.object({
-              short_term_trend: z.enum(["bullish", "bearish", "neutral"]).describe("Short-term trend prediction (1-4 hours)"),
-              confidence: z.enum(["high", "medium", "low"]).describe("Prediction confidence level"),
-              key_levels: z.object({
-                support: z.number().describe("Key support level"),
-                resistance: z.number().describe("Key resistance level"),
-              }),
-              analysis: z.string().describe("Brief analysis based on candlestick patterns (30–50 characters)"),
-            }).describe("MANDATORY: Trend prediction analysis based on candlestick (K-line) data"),
-            chat: z.string().describe("Reasoning and analysis for this decision"),
-          });
-          return z.object({
-            decisions: z.array(decisionSchema).min(1).max(5),
-          });
-        })()
-      };
-
-      // For native DeepSeek add mode=json
-      aiCallConfig.mode = "json";
-
-      
-      const aiCallPromise = generateObject(aiCallConfig);
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error(`AI call timeout after ${currentModel.timeout / 1000}s`)), currentModel.timeout);
+        symbols: enabledSymbols,
       });
-
-      const result = await Promise.race([aiCallPromise, timeoutPromise]) as {
-        object: any;
-        reasoning?: any;
-        experimental_providerMetadata?: any;
-      };
-
-      const duration = Date.now() - startTime;
-      console.log(`✅ Response: ${duration}ms`);
       object = result.object;
+      provider = result.provider;
 
+      const providerMetadata = result.providerMetadata as { deepseek?: { reasoning?: string } } | undefined;
       if (result.reasoning) {
-        reasoning = typeof result.reasoning === 'string' ? result.reasoning : JSON.stringify(result.reasoning);
-      } else if (result.experimental_providerMetadata?.deepseek?.reasoning) {
-        reasoning = result.experimental_providerMetadata.deepseek.reasoning;
-      } else if (object?.reasoning) {
-        reasoning = typeof object.reasoning === 'string' ? object.reasoning : JSON.stringify(object.reasoning);
+        reasoning = result.reasoning;
+      } else if (providerMetadata?.deepseek?.reasoning) {
+        reasoning = providerMetadata.deepseek.reasoning;
       } else {
         reasoning = object?.decisions?.map((d: any) => `[${d.symbol}] ${d.chat}`).join('\n') || "";
       }
-
-      aiCallSuccess = true;
     } catch (error: any) {
-      console.error(`❌ AI ${currentModel.name} failed:`, error?.message || error);
+      console.error(`❌ AI ${modelType} failed:`, error?.message || error);
       throw new Error(`AI failed: ${error?.message || error}`);
     }
 
-    if (!aiCallSuccess || !object) {
+    if (!object) {
       throw new Error("AI failed to generate valid response");
     }
 
@@ -202,40 +212,42 @@ export async function run(initialCapital?: number) {
 
     console.log(`📋 ${decisions.length} decision(s)`);
 
-    // Check daily loss limit before any trade
+    // 组合风控：日初权益 / 回撤熔断 / 敞口与集中度，只拦截开仓（平仓和止盈止损调整照常执行）
     const totalUnrealizedPnl = accountInformationAndPerformance.positions.reduce(
       (sum, pos) => sum + (pos.unrealizedPnl || 0),
       0
     );
-    const dailyLossCheck = checkDailyLossLimit({
-      todayPnL: totalUnrealizedPnl,
-      initialCapital: accountInformationAndPerformance.totalCashValue,
+    const equity = accountInformationAndPerformance.totalCashValue + totalUnrealizedPnl;
+    const riskEngine = createPortfolioRiskEngine({
       config: riskConfig,
+      state: await loadRiskState(riskSeries, equity, riskConfig),
+      portfolio: {
+        equity,
+        availableCash: accountInformationAndPerformance.availableCash,
+        positions: accountInformationAndPerformance.positions,
+      },
     });
-
-    if (!dailyLossCheck.allowed) {
-      console.error(`🚫 Daily loss limit: ${dailyLossCheck.reason}`);
-
-      // Still record the AI decision but mark it as blocked
-      await prisma.chat.create({
-        data: {
-          reasoning: reasoning || "<no reasoning>",
-          chat: `[BLOCKED BY RISK CONTROL] ${dailyLossCheck.reason}\n\nOriginal AI decisions: ${JSON.stringify(decisions).slice(0, 1000)}`,
-          userPrompt,
-          tradings: {
-            create: decisions.map((d: any) => createTradingData(d, { opeartion: Opeartion.Hold })),
-          },
-        },
-      });
-
-      return;
+    const riskVerdicts: Array<RiskVerdict & { tradingId: string }> = [];
+
+    // 动态风险调整（与提示词相同的本模型最近 7 天表现）：缩小开仓数量 / 杠杆，预测置信度低于阈值的开仓直接拒绝
+    let dynamicRisk: DynamicRiskAdjustment | null = null;
+    if (isDynamicRiskEnforced()) {
+      try {
+        const stats = await getLearningStats(7, modelType);
+        if (stats.total_trades > 0) {
+          dynamicRisk = getDynamicRiskAdjustment(stats);
+          console.log(`⚖️ Dynamic risk: size x${dynamicRisk.position_size_multiplier.toFixed(2)}, leverage x${dynamicRisk.leverage_multiplier.toFixed(2)}, confidence ≥ ${(dynamicRisk.confidence_threshold * 100).toFixed(0)}%`);
+        }
+      } catch (error) {
+        console.warn("⚠️ Dynamic risk adjustment unavailable:", error);
+      }
     }
-    // Track remaining available cash for multi-buy margin planning
-    let remainingAvailableCash = accountInformationAndPerformance.availableCash;
 
     // 🔧 收集所有交易记录，最后统一保存到一条 chat
     const allTradingRecords: any[] = [];
     const allChatMessages: string[] = [];
+    // 订单在 Chat 保存前就写入账本，先生成本轮 Chat id 供关联
+    const chatId = randomUUID();
 
     // Process each decision sequentially
     for (const decision of decisions) {
@@ -247,7 +259,8 @@ export async function run(initialCapital?: number) {
         allChatMessages.push(`[${object.symbol}] ${object.chat}`);
       }
 
-      if (object.opeartion === Opeartion.Buy) {
+      const entrySide = getEntrySide(object.opeartion);
+      if (entrySide) {
         if (!object.buy || object.buy.pricing == null || object.buy.amount == null || object.buy.leverage == null) {
           console.warn("⚠️ Buy: missing required fields");
           // 记录失败的决策
@@ -260,51 +273,93 @@ export async function run(initialCapital?: number) {
           continue;
         }
 
-        const requiredMargin = (object.buy.amount * object.buy.pricing) / object.buy.leverage;
-        console.log(`  Amount: ${object.buy.amount} | Price: ${object.buy.pricing} | Lev: ${object.buy.leverage}x`);
-        console.log(`  Margin: $${requiredMargin.toFixed(2)} | Available: $${remainingAvailableCash.toFixed(2)}`);
-
-        // Per-trade risk check
-        const riskCheck = checkBuyRisk({
-          amount: object.buy.amount,
-          price: object.buy.pricing,
-          leverage: object.buy.leverage,
-          currentBalance: remainingAvailableCash,
-          config: riskConfig,
-        });
-
-        if (!riskCheck.allowed) {
-          console.error(`🚫 Risk control: ${riskCheck.reason}`);
-          allChatMessages.push(`[${object.symbol} BLOCKED] ${riskCheck.reason}`);
+        // 模型请求的数量 / 杠杆记录在 requestedAmount / requestedLeverage，amount / leverage 为实际执行值
+        const requested = { requestedAmount: object.buy.amount, requestedLeverage: object.buy.leverage };
+        const adjusted = dynamicRisk
+          ? applyDynamicRiskAdjustment(
+            { amount: object.buy.amount, leverage: object.buy.leverage, confidence: object.prediction?.confidence },
+            dynamicRisk
+          )
+          : null;
+        const adjustmentRecord = adjusted ? { ...requested, riskAdjustment: adjusted } : requested;
+
+        if (adjusted && !adjusted.allowed) {
+          console.error(`🚫 Confidence gate: ${adjusted.reason}`);
+          allChatMessages.push(`[${object.symbol} REJECTED] ${adjusted.reason}`);
           allTradingRecords.push(createTradingData(object, {
+            opeartion: Opeartion.Hold,
             pricing: object.buy.pricing,
             amount: object.buy.amount,
             leverage: object.buy.leverage,
+            ...adjustmentRecord,
           }));
           continue;
         }
 
-        if (requiredMargin > remainingAvailableCash) {
-          const reason = `Insufficient remaining margin for multi-order batch: need $${requiredMargin.toFixed(2)} but have $${remainingAvailableCash.toFixed(2)}`;
-          console.warn(`🚫 ${reason}`);
-          allChatMessages.push(`[${object.symbol} BLOCKED] ${reason}`);
-          allTradingRecords.push(createTradingData(object, { opeartion: Opeartion.Hold }));
+        const amount = adjusted?.amount ?? object.buy.amount;
+        const leverage = adjusted?.leverage ?? object.buy.leverage;
+        const scaledDown = amount < object.buy.amount || leverage < object.buy.leverage;
+        if (scaledDown) {
+          console.log(`  ⚖️ Scaled down: amount ${object.buy.amount} → ${amount}, leverage ${object.buy.leverage}x → ${leverage}x`);
+        }
+
+        const requiredMargin = (amount * object.buy.pricing) / leverage;
+        console.log(`  Side: ${entrySide} | Amount: ${amount} | Price: ${object.buy.pricing} | Lev: ${leverage}x`);
+        console.log(`  Margin: $${requiredMargin.toFixed(2)}`);
+
+        // Portfolio risk check（未给出止损时按 buy() 相同的 ATR 默认止损估算单笔风险）
+        const tradingSymbol = `${object.symbol}/USDT`;
+        const marketState = validMarketStates.find((m) => m.symbol === tradingSymbol)?.state;
+        const entryOrder = {
+          symbol: object.symbol,
+          side: entrySide,
+          amount,
+          price: object.buy.pricing,
+          leverage,
+          stopLossPercent: object.buy.stopLossPercent
+            ?? (marketState ? getAtrStopLossTakeProfitPercent(marketState, object.buy.pricing).stopLossPercent : undefined),
+        };
+        const verdict = riskEngine.checkEntry(entryOrder);
+        const tradingId = randomUUID();
+        riskVerdicts.push({ ...verdict, tradingId });
+
+        if (!verdict.allowed) {
+          console.error(`🚫 Risk control [${verdict.rule}]: ${verdict.reason}`);
+          allChatMessages.push(`[${object.symbol} BLOCKED] ${verdict.reason}`);
+          allTradingRecords.push(createTradingData(object, {
+            id: tradingId,
+            opeartion: Opeartion.Hold,
+            pricing: object.buy.pricing,
+            amount,
+            leverage,
+            ...adjustmentRecord,
+          }));
           continue;
         }
 
         // Execute or simulate buy
         let buyResult;
-        const tradingSymbol = `${object.symbol}/USDT`;
 
         // 🔧 修复：dry-run模式下也要真正执行买入（在测试网）
-        console.log(`💰 Executing buy ${object.symbol} (Mode: ${riskConfig.tradingMode})...`);
+        // ENTRY_ORDER_TYPE=limit 时按模型给出的价格挂限价单
+        const isLimitEntry = entryConfig.orderType === "limit";
+        console.log(`💰 Executing open ${entrySide} ${object.symbol} (Mode: ${riskConfig.tradingMode}, ${isLimitEntry ? `${entryConfig.timeInForce} limit @ ${object.buy.pricing}` : "market"})...`);
         buyResult = await buy({
           symbol: tradingSymbol,
-          amount: object.buy.amount,
-          leverage: object.buy.leverage,
+          side: entrySide,
+          amount,
+          leverage,
           stopLossPercent: object.buy.stopLossPercent,
           takeProfitPercent: object.buy.takeProfitPercent,
+          takeProfitTargets: object.buy.takeProfitTargets,
+          ...(isLimitEntry ? { price: object.buy.pricing, timeInForce: entryConfig.timeInForce } : {}),
+          ledger: { series: riskSeries, tradingId, chatId },
+          allowAutoUpsize: !scaledDown, // 缩小后低于最小下单量时跳过，不让 buy() 放大回去
         });
+        // 实际成交的数量 / 杠杆（交易所取整、小订单自动放大后可能与请求值不同）；挂单未成交时数量为 0，
+        // 成交或撤单后由 syncEntryOrders 改为实际成交数量
+        const executedAmount = buyResult.success ? buyResult.executedAmount ?? 0 : amount;
+        const executedLeverage = buyResult.leverage ?? leverage;
 
         if (buyResult.success) {
           console.log(`✅ Buy executed successfully`);
@@ -318,27 +373,39 @@ export async function run(initialCapital?: number) {
         logTrade({
           action: riskConfig.tradingMode === "live" ? "buy" : "dry-run-buy",
           symbol: tradingSymbol,
-          amount: object.buy.amount,
+          amount: executedAmount,
           price: buyResult.executedPrice,
-          leverage: object.buy.leverage,
+          leverage: executedLeverage,
           orderId: buyResult.orderId,
           reason: buyResult.success ? "Success" : buyResult.error,
         });
 
         if (buyResult?.success) {
-          remainingAvailableCash -= requiredMargin; // deduct committed margin
+          // 后续开仓按新的敞口和剩余保证金检查
+          riskEngine.commitEntry({ ...entryOrder, amount: buyResult.orderedAmount || executedAmount, leverage: executedLeverage });
+          if (object.buy.trailingStop) {
+            await enableTrailingStop(riskSeries, object.symbol, entrySide, object.buy.trailingStop, tradingId);
+          }
+          // 退出规则只挂在决策开出的持仓上（未给出 exitRules 时用 EXIT_* 默认值，默认全部关闭）
+          try {
+            await setExitRules({ series: riskSeries, symbol: object.symbol, positionSide: entrySide, overrides: object.buy.exitRules ?? {}, tradingId });
+          } catch (error) {
+            console.warn(`⚠️ Failed to set exit rules for ${object.symbol}:`, error instanceof Error ? error.message : error);
+          }
         }
 
         // 🔧 收集交易记录，不立即保存
         allTradingRecords.push(createTradingData(object, {
+          id: tradingId,
           pricing: buyResult.executedPrice || object.buy.pricing,
-          amount: buyResult.executedAmount || object.buy.amount,
-          leverage: object.buy.leverage,
+          amount: executedAmount,
+          leverage: executedLeverage,
+          ...adjustmentRecord,
         }));
         continue;
       }
 
-      if (object.opeartion === Opeartion.Sell) {
+      if (isCloseOperation(object.opeartion)) {
         if (!object.sell || object.sell.percentage == null) {
           console.warn("⚠️ Sell: missing percentage");
           // 记录失败的决策
@@ -349,14 +416,19 @@ export async function run(initialCapital?: number) {
         // Execute or simulate sell
         let sellResult;
         const tradingSymbol = `${object.symbol}/USDT`;
+        const tradingId = randomUUID();
 
         // 🔧 在卖出前先获取持仓信息，以便记录 leverage 和当前持仓数量
         let positionInfo = null;
         try {
-          const { fetchPositions } = await import("@/lib/trading/positions");
-          const positions = await fetchPositions();
+          const exchange = await getExchangeAdapter();
+          const positions = await exchange.getPositions();
           const binanceSymbol = tradingSymbol.replace("/", "");
-          positionInfo = positions.find((p: any) => p.symbol === binanceSymbol && p.contracts !== 0);
+          positionInfo = positions.find((p) =>
+            p.symbol === binanceSymbol &&
+            p.contracts !== 0 &&
+            (!object.sell.positionSide || p.side === object.sell.positionSide.toLowerCase())
+          );
           if (positionInfo) {
             console.log(`📊 Current position: ${Math.abs(positionInfo.contracts)} contracts @ ${positionInfo.leverage}x leverage`);
           }
@@ -368,7 +440,9 @@ export async function run(initialCapital?: number) {
         console.log(`💸 Executing sell ${object.symbol} (${object.sell.percentage}%) (Mode: ${riskConfig.tradingMode})...`);
         sellResult = await sell({
           symbol: tradingSymbol,
+          positionSide: object.sell.positionSide,
           percentage: object.sell.percentage,
+          ledger: { series: riskSeries, tradingId, chatId },
         });
 
         if (sellResult.success) {
@@ -394,6 +468,7 @@ export async function run(initialCapital?: number) {
 
         // 🔧 收集交易记录，不立即保存
         allTradingRecords.push(createTradingData(object, {
+          id: tradingId,
           pricing: sellResult.executedPrice,
           amount: sellResult.executedAmount || 0,
           leverage: positionInfo?.leverage || null, // 🔧 从持仓信息中获取杠杆
@@ -405,16 +480,34 @@ export async function run(initialCapital?: number) {
         const shouldAdjustProfit =
           object.adjustProfit != null &&
           (object.adjustProfit.stopLoss != null ||
-            object.adjustProfit.takeProfit != null);
-
+            object.adjustProfit.takeProfit != null ||
+            (object.adjustProfit.takeProfitTargets?.length ?? 0) > 0);
+
+        const tradingId = randomUUID();
+        if (object.adjustProfit?.trailingStop) {
+          // 未指定方向时取该币种唯一的持仓方向
+          const held = accountInformationAndPerformance.positions.filter(
+            (p) => p.symbol === `${object.symbol}USDT` && p.contracts !== 0
+          );
+          const positionSide = object.adjustProfit.positionSide
+            ?? (held.length === 1 ? (held[0].side === "long" ? "LONG" : "SHORT") : undefined);
+          if (positionSide) {
+            await enableTrailingStop(riskSeries, object.symbol, positionSide, object.adjustProfit.trailingStop, tradingId);
+          } else {
+            console.warn(`⚠️ Trailing stop for ${object.symbol} skipped: ${held.length === 0 ? "no open position" : "specify positionSide"}`);
+          }
+        }
         if (shouldAdjustProfit) {
           // Set stop-loss and take-profit orders
           console.log(`🎯 Setting SL/TP for ${object.symbol} (Mode: ${riskConfig.tradingMode})...`);
           const tradingSymbol = `${object.symbol}/USDT`;
           const slTpResult = await setStopLossTakeProfit({
             symbol: tradingSymbol,
+            positionSide: object.adjustProfit!.positionSide,
             stopLoss: object.adjustProfit!.stopLoss,
             takeProfit: object.adjustProfit!.takeProfit,
+            takeProfitTargets: object.adjustProfit!.takeProfitTargets,
+            ledger: { series: riskSeries, tradingId, chatId },
           });
 
           if (slTpResult.success) {
@@ -422,8 +515,8 @@ export async function run(initialCapital?: number) {
             if (slTpResult.stopLossOrderId) {
               console.log(`   Stop Loss Order ID: ${slTpResult.stopLossOrderId}`);
             }
-            if (slTpResult.takeProfitOrderId) {
-              console.log(`   Take Profit Order ID: ${slTpResult.takeProfitOrderId}`);
+            if (slTpResult.takeProfitOrderIds?.length) {
+              console.log(`   Take Profit Order ID(s): ${slTpResult.takeProfitOrderIds.join(", ")}`);
             }
           } else {
             console.error(`❌ Failed to set SL/TP: ${slTpResult.error}`);
@@ -432,8 +525,9 @@ export async function run(initialCapital?: number) {
 
         // 🔧 收集 Hold 决策记录
         allTradingRecords.push(createTradingData(object, {
+          id: tradingId,
           stopLoss: object.adjustProfit?.stopLoss || null,
-          takeProfit: object.adjustProfit?.takeProfit || null,
+          takeProfit: object.adjustProfit?.takeProfit || object.adjustProfit?.takeProfitTargets?.[0]?.price || null,
         }));
         continue;
       }
@@ -446,9 +540,15 @@ export async function run(initialCapital?: number) {
 
     await prisma.chat.create({
       data: {
+        id: chatId,
+        model: modelType,
+        account: metricsSeries,
+        provider,
         reasoning: reasoning || "<no reasoning>",
         chat: combinedChat,
         userPrompt,
+        marketStates: toDecisionMarketStates(validMarketStates),
+        accountSnapshot: toAccountSnapshot(accountInformationAndPerformance),
         tradings: {
           create: allTradingRecords,
         },
@@ -457,6 +557,13 @@ export async function run(initialCapital?: number) {
 
     console.log(`✅ Saved ${allTradingRecords.length} trading decision(s) to database`);
 
+    // 风控判定与对应的 Trading 记录关联保存，供前端展示拦截原因
+    try {
+      await saveRiskVerdicts(riskSeries, riskVerdicts);
+    } catch (error) {
+      console.warn("⚠️ Failed to save risk verdicts:", error);
+    }
+
   } catch (error) {
     console.error("❌ Trading error:", error);
     throw error;
@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { TradingLesson } from "@prisma/client";
+import type { MarketState } from "../trading/current-market-state";
+import { findSimilarTrades, setupSimilarity, toLessonVector, toSetupVector } from "./similar-trades";
+
+const state = {
+    current_price: 100,
+    current_ema20: 98,
+    current_macd: 0.1,
+    current_rsi: 60,
+    funding_rate: 0.0001,
+    longer_term: { atr_14: 2, current_volume: 150, average_volume: 100 } as MarketState["longer_term"],
+} as MarketState;
+
+function lesson(id: string, symbol: string, rsi: number | null): TradingLesson {
+    return {
+        id,
+        tradeId: `trade-${id}`,
+        symbol,
+        decision: "BUY",
+        outcome: "profit",
+        pnl: 10,
+        pnlPercentage: 1,
+        lessonText: "",
+        exitReason: "take_profit",
+        indicatorsAtEntry: rsi === null ? null : { price: 100, rsi, macd: 0.1, ema20: 98, volume_ratio: 1.5 },
+        marketConditions: rsi === null ? null : { atr_percent: 2, funding_rate: 0.0001 },
+        reflection: null,
+        createdAt: new Date("2025-01-01T00:00:00Z"),
+        updatedAt: new Date("2025-01-01T00:00:00Z"),
+    };
+}
+
+describe("setup vectors", () => {
+    it("normalizes the market state into scale-free features", () => {
+        const vector = toSetupVector(state);
+        assert.equal(vector.rsi, 60);
+        assert.equal(vector.atrPercent, 2);
+        assert.equal(vector.volumeRatio, 1.5);
+        assert.ok(Math.abs(vector.macdPercent! - 0.1) < 1e-9);
+        assert.ok(Math.abs(vector.emaDistancePercent! - 2 / 98 * 100) < 1e-9);
+        assert.ok(Math.abs(vector.fundingBps! - 1) < 1e-9);
+    });
+
+    it("reads the same features from a stored lesson", () => {
+        assert.deepEqual(toLessonVector(lesson("a", "BTC", 60)), toSetupVector(state));
+    });
+
+    it("skips missing indicators", () => {
+        assert.deepEqual(toLessonVector({ indicatorsAtEntry: { rsi: 50 }, marketConditions: null }), { rsi: 50 });
+    });
+});
+
+describe("setupSimilarity", () => {
+    it("is 1 for identical setups and falls with the scaled distance", () => {
+        const a = { rsi: 50, atrPercent: 2, volumeRatio: 1 };
+        assert.equal(setupSimilarity(a, a), 1);
+        // 每个维度差一个缩放单位：距离 1
+        assert.equal(setupSimilarity(a, { rsi: 60, atrPercent: 3, volumeRatio: 1.5 }), 0.5);
+    });
+
+    it("only compares shared features, normalized by their count", () => {
+        const a = { rsi: 50, atrPercent: 2, volumeRatio: 1, fundingBps: 5 };
+        const b = { rsi: 60, atrPercent: 3, volumeRatio: 1.5 };
+        assert.equal(setupSimilarity(a, b), 0.5);
+    });
+
+    it("returns null when too few features are shared", () => {
+        assert.equal(setupSimilarity({ rsi: 50, atrPercent: 2 }, { rsi: 50, atrPercent: 2, volumeRatio: 1 }), null);
+    });
+});
+
+describe("findSimilarTrades", () => {
+    it("returns the closest setups of the same symbol", () => {
+        const lessons = [lesson("far", "BTC", 80), lesson("near", "BTC/USDT", 61), lesson("mid", "BTCUSDT", 65), lesson("eth", "ETH", 60)];
+        const matches = findSimilarTrades(state, "BTC/USDT", lessons, 2);
+        assert.deepEqual(matches.map((m) => [m.lesson.id, m.crossSymbol]), [["near", false], ["mid", false]]);
+    });
+
+    it("tops up with other symbols only when the symbol has fewer than k", () => {
+        const lessons = [lesson("btc", "BTC", 80), lesson("eth", "ETH", 60), lesson("sol", "SOL", 62)];
+        const matches = findSimilarTrades(state, "BTC", lessons, 3);
+        assert.deepEqual(matches.map((m) => [m.lesson.id, m.crossSymbol]), [["btc", false], ["eth", true], ["sol", true]]);
+    });
+
+    it("ignores lessons without comparable indicators", () => {
+        assert.deepEqual(findSimilarTrades(state, "BTC", [lesson("bare", "BTC", null)], 3), []);
+    });
+});
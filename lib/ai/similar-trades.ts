@@ -0,0 +1,209 @@
+/**
+ * Similar past setups
+ * 把交易教训开仓时的指标（RSI、MACD、EMA20 偏离、ATR%、量比、资金费率）转成向量，
+ * 对本轮每个币种的当前 MarketState 找出最相似的 k 笔历史交易及其结果，写进提示词。
+ * 只检索决策模型自己的交易；优先同币种，不足 k 笔时才用其他币种补齐并标注。
+ * 相似度是本地计算的加权欧氏距离（各维度按典型波动幅度缩放），不依赖向量数据库
+ */
+
+import type { ModelType, TradingLesson } from "@prisma/client";
+import { prisma } from "../prisma";
+import type { MarketState } from "../trading/current-market-state";
+import { toBaseSymbol } from "../trading/exchange-adapter";
+
+const DEFAULT_K = 3;
+const LOOKBACK_DAYS = 90;
+const MAX_CANDIDATES = 500;
+const MIN_SHARED_FEATURES = 3; // 共同维度太少时不比较（旧教训缺少部分指标）
+
+type FeatureName = "rsi" | "macdPercent" | "emaDistancePercent" | "atrPercent" | "volumeRatio" | "fundingBps";
+
+export type SetupVector = Partial<Record<FeatureName, number>>;
+
+// 各维度的缩放幅度：差值等于该幅度时记为 1 个单位距离
+const FEATURE_SCALES: Record<FeatureName, number> = {
+    rsi: 10,
+    macdPercent: 0.2, // MACD / 价格 × 100
+    emaDistancePercent: 1, // (价格 - EMA20) / EMA20 × 100
+    atrPercent: 1, // 4h ATR(14) / 价格 × 100
+    volumeRatio: 0.5, // 4h 当前成交量 / 平均成交量
+    fundingBps: 1, // 资金费率（基点）
+};
+
+export interface SimilarTrade {
+    lesson: TradingLesson;
+    similarity: number; // 0-1，1 为完全相同
+    vector: SetupVector;
+    crossSymbol: boolean; // 同币种不足 k 笔时补充的其他币种交易
+}
+
+/**
+ * Number of similar setups per symbol (SIMILAR_TRADES_K, 0 disables the section)
+ */
+export function getSimilarTradesK(): number {
+    const k = Number(process.env.SIMILAR_TRADES_K ?? DEFAULT_K);
+    return Number.isFinite(k) ? Math.max(0, Math.floor(k)) : DEFAULT_K;
+}
+
+function finite(value: unknown): number | undefined {
+    return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+function buildVector(input: {
+    price?: number;
+    rsi?: number;
+    macd?: number;
+    ema20?: number;
+    atrPercent?: number;
+    volumeRatio?: number;
+    fundingRate?: number;
+}): SetupVector {
+    const vector: SetupVector = {};
+    const { price, rsi, macd, ema20, atrPercent, volumeRatio, fundingRate } = input;
+    if (rsi !== undefined) vector.rsi = rsi;
+    if (price && macd !== undefined) vector.macdPercent = (macd / price) * 100;
+    if (price && ema20) vector.emaDistancePercent = ((price - ema20) / ema20) * 100;
+    if (atrPercent !== undefined) vector.atrPercent = atrPercent;
+    if (volumeRatio !== undefined) vector.volumeRatio = volumeRatio;
+    if (fundingRate !== undefined) vector.fundingBps = fundingRate * 10_000;
+    return vector;
+}
+
+/**
+ * Setup vector of the current market state
+ */
+export function toSetupVector(state: MarketState): SetupVector {
+    const price = finite(state.current_price);
+    const atr = finite(state.longer_term?.atr_14);
+    const averageVolume = finite(state.longer_term?.average_volume);
+    return buildVector({
+        price,
+        rsi: finite(state.current_rsi),
+        macd: finite(state.current_macd),
+        ema20: finite(state.current_ema20),
+        atrPercent: atr !== undefined && price ? (atr / price) * 100 : undefined,
+        volumeRatio: averageVolume ? finite(state.longer_term.current_volume / averageVolume) : undefined,
+        fundingRate: finite(state.funding_rate),
+    });
+}
+
+/**
+ * Setup vector of a stored lesson (indicatorsAtEntry / marketConditions written by learning-feedback)
+ */
+export function toLessonVector(lesson: Pick<TradingLesson, "indicatorsAtEntry" | "marketConditions">): SetupVector {
+    const indicators = (lesson.indicatorsAtEntry ?? {}) as Record<string, unknown>;
+    const conditions = (lesson.marketConditions ?? {}) as Record<string, unknown>;
+    return buildVector({
+        price: finite(indicators.price),
+        rsi: finite(indicators.rsi),
+        macd: finite(indicators.macd),
+        ema20: finite(indicators.ema20),
+        atrPercent: finite(conditions.atr_percent),
+        volumeRatio: finite(indicators.volume_ratio),
+        fundingRate: finite(conditions.funding_rate),
+    });
+}
+
+/**
+ * Similarity of two setups over their shared features (null when too few are shared)
+ */
+export function setupSimilarity(a: SetupVector, b: SetupVector): number | null {
+    const shared = (Object.keys(FEATURE_SCALES) as FeatureName[]).filter(
+        (name) => a[name] !== undefined && b[name] !== undefined
+    );
+    if (shared.length < MIN_SHARED_FEATURES) return null;
+
+    // 按维度数归一化，缺少部分指标的教训不会因此显得更相似
+    const squared = shared.reduce((sum, name) => sum + ((a[name]! - b[name]!) / FEATURE_SCALES[name]) ** 2, 0);
+    return 1 / (1 + Math.sqrt(squared / shared.length));
+}
+
+/**
+ * Closed-trade lessons of the lookback window, newest first (lessons without entry indicators never match)
+ * model 限定为该模型决策（Trading.Chat.model）产生的教训
+ */
+export async function loadSetupLessons(model?: ModelType | null, lookbackDays = LOOKBACK_DAYS): Promise<TradingLesson[]> {
+    return prisma.tradingLesson.findMany({
+        where: {
+            createdAt: { gte: new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000) },
+            outcome: { in: ["profit", "loss"] },
+            ...(model ? { trade: { Chat: { model } } } : {}),
+        },
+        orderBy: { createdAt: "desc" },
+        take: MAX_CANDIDATES,
+    });
+}
+
+/**
+ * The k lessons of `symbol` whose entry setup is closest to `state`, topped up with the
+ * closest setups of other symbols only when fewer than k of the symbol's own match
+ */
+export function findSimilarTrades(state: MarketState, symbol: string, lessons: TradingLesson[], k = DEFAULT_K): SimilarTrade[] {
+    const target = toSetupVector(state);
+    const base = toBaseSymbol(symbol);
+    const matches = lessons
+        .map((lesson) => {
+            const vector = toLessonVector(lesson);
+            return { lesson, vector, similarity: setupSimilarity(target, vector), crossSymbol: toBaseSymbol(lesson.symbol) !== base };
+        })
+        .filter((match): match is SimilarTrade => match.similarity !== null)
+        .sort((a, b) => b.similarity - a.similarity);
+
+    const sameSymbol = matches.filter((match) => !match.crossSymbol).slice(0, k);
+    return sameSymbol.length >= k
+        ? sameSymbol
+        : [...sameSymbol, ...matches.filter((match) => match.crossSymbol).slice(0, k - sameSymbol.length)];
+}
+
+function formatVector(vector: SetupVector): string {
+    const parts: string[] = [];
+    if (vector.rsi !== undefined) parts.push(`RSI ${vector.rsi.toFixed(1)}`);
+    if (vector.emaDistancePercent !== undefined) parts.push(`EMA20 dist ${vector.emaDistancePercent >= 0 ? "+" : ""}${vector.emaDistancePercent.toFixed(2)}%`);
+    if (vector.macdPercent !== undefined) parts.push(`MACD ${vector.macdPercent.toFixed(3)}%`);
+    if (vector.atrPercent !== undefined) parts.push(`ATR ${vector.atrPercent.toFixed(2)}%`);
+    if (vector.volumeRatio !== undefined) parts.push(`vol x${vector.volumeRatio.toFixed(2)}`);
+    if (vector.fundingBps !== undefined) parts.push(`funding ${vector.fundingBps.toFixed(2)}bp`);
+    return parts.join(", ");
+}
+
+/**
+ * Lesson summary line: the reflection rule when there is one, else the start of the lesson text
+ */
+function summarizeLesson(lesson: TradingLesson): string {
+    const rule = (lesson.reflection as { ruleForNextTime?: string } | null)?.ruleForNextTime;
+    const text = rule ?? lesson.lessonText.replace(/\s+/g, " ");
+    return text.length > 200 ? `${text.slice(0, 200)}...` : text;
+}
+
+/**
+ * Prompt section with the most similar past setups for each symbol of the cycle
+ */
+export function formatSimilarTrades(
+    marketStates: Array<{ symbol: string; state: MarketState }>,
+    lessons: TradingLesson[],
+    k = DEFAULT_K
+): string {
+    if (lessons.length === 0 || k <= 0) return "";
+
+    const sections = marketStates.flatMap(({ symbol, state }) => {
+        const matches = findSimilarTrades(state, symbol, lessons, k);
+        if (matches.length === 0) return [];
+
+        const lines = matches.map(({ lesson, similarity, vector, crossSymbol }, index) => {
+            const pnl = `${lesson.pnl >= 0 ? "+" : "-"}$${Math.abs(lesson.pnl).toFixed(2)} (${lesson.pnlPercentage.toFixed(2)}%)`;
+            return `${index + 1}. ${lesson.symbol} ${lesson.decision} on ${lesson.createdAt.toISOString().slice(0, 10)} → ${lesson.outcome} ${pnl}, exit: ${lesson.exitReason} [similarity ${similarity.toFixed(2)}${crossSymbol ? ", other symbol" : ""}]
+   setup: ${formatVector(vector)}
+   lesson: ${summarizeLesson(lesson)}`;
+        });
+        return [`### ${symbol} (now: ${formatVector(toSetupVector(state))})\n${lines.join("\n")}`];
+    });
+    if (sections.length === 0) return "";
+
+    return `
+## SIMILAR PAST SETUPS
+
+Your closed trades on the same symbol whose entry indicators were closest to its current setup (RSI, MACD, EMA20 distance, ATR%, volume ratio, funding). When a symbol has too few of its own, the closest setups on other symbols fill in and are marked "other symbol". Weigh how those setups resolved before repeating them.
+
+${sections.join("\n\n")}
+`;
+}
@@ -0,0 +1,191 @@
+/**
+ * Post-trade reflections
+ * 已平仓交易对账后（TRADE_REFLECTION_ENABLED=true），把开仓时的行情快照、原决策推理、持仓期间的价格路径和结果
+ * 交给模型做结构化复盘（做对了什么、做错了什么、哪个信号误导了判断、下次执行的规则），写入 TradingLesson。
+ * 模型不可用或输出无效时由 learning-feedback 退回模板教训
+ */
+
+import { z } from "zod";
+import { ModelType, type Chat, type Trading } from "@prisma/client";
+import { getExchangeAdapter, toExchangeSymbol } from "../trading/exchange-adapter";
+import type { MarketState } from "../trading/current-market-state";
+import { toTradingPair } from "../trading/symbol-registry";
+import { generateObjectWithFallback } from "./providers";
+
+const MAX_CANDLES = 120; // 价格路径最多取 120 根 K 线
+const PATH_POINTS = 16; // 提示词里的收盘价路径点数
+const INTERVALS: Array<[string, number]> = [
+    ["1m", 60_000],
+    ["5m", 5 * 60_000],
+    ["15m", 15 * 60_000],
+    ["1h", 60 * 60_000],
+    ["4h", 4 * 60 * 60_000],
+    ["1d", 24 * 60 * 60_000],
+];
+
+export const tradeReflectionSchema = z.object({
+    whatWentRight: z.string().describe("What the original analysis or execution got right (1-3 sentences)"),
+    whatWentWrong: z.string().describe("What the original analysis or execution got wrong (1-3 sentences)"),
+    misleadingSignal: z
+        .string()
+        .nullable()
+        .describe("The indicator or read that misled the decision, null if nothing misled it"),
+    ruleForNextTime: z.string().describe("One concrete, checkable rule to apply in similar setups next time"),
+});
+
+export type TradeReflection = z.infer<typeof tradeReflectionSchema>;
+
+export interface TradeReflectionConfig {
+    enabled: boolean;
+    modelType: ModelType | null; // null: 使用开仓决策所属模型
+}
+
+/**
+ * Closed trade being reflected on
+ */
+export interface ReflectionOutcome {
+    side: "LONG" | "SHORT";
+    entryPrice: number;
+    exitPrice: number;
+    entryTime: number; // ms
+    exitTime: number; // ms
+    netPnl: number;
+    pnlPercentage: number;
+    exitReason: string;
+}
+
+export interface PricePath {
+    interval: string;
+    high: number;
+    low: number;
+    maxFavorablePercent: number; // 持仓期间最大浮盈（相对开仓价）
+    maxAdversePercent: number; // 持仓期间最大浮亏（正数）
+    closes: Array<{ minutes: number; close: number }>; // 开仓后第 N 分钟的收盘价
+}
+
+/**
+ * Get reflection configuration from environment variables
+ */
+export function getTradeReflectionConfig(): TradeReflectionConfig {
+    const model = process.env.TRADE_REFLECTION_MODEL;
+    return {
+        enabled: (process.env.TRADE_REFLECTION_ENABLED || "false").toLowerCase() === "true",
+        modelType: model && (Object.values(ModelType) as string[]).includes(model) ? (model as ModelType) : null,
+    };
+}
+
+/**
+ * Candles between entry and exit summarized as excursions and a sampled close path
+ */
+export async function getPricePath(symbol: string, outcome: ReflectionOutcome): Promise<PricePath | null> {
+    const duration = Math.max(outcome.exitTime - outcome.entryTime, 60_000);
+    const [interval, intervalMs] = INTERVALS.find(([, ms]) => duration / ms <= MAX_CANDLES) ?? INTERVALS[INTERVALS.length - 1];
+
+    const exchange = await getExchangeAdapter();
+    const rows = await exchange.getKlines(
+        toExchangeSymbol(toTradingPair(symbol)),
+        interval,
+        MAX_CANDLES,
+        { startTime: outcome.entryTime - intervalMs, endTime: outcome.exitTime }
+    );
+    if (rows.length === 0) return null;
+
+    const high = Math.max(...rows.map((row) => row[2]));
+    const low = Math.min(...rows.map((row) => row[3]));
+    const isLong = outcome.side === "LONG";
+    const toPercent = (price: number) => ((price - outcome.entryPrice) / outcome.entryPrice) * 100 * (isLong ? 1 : -1);
+    const step = Math.max(1, Math.ceil(rows.length / PATH_POINTS));
+
+    return {
+        interval,
+        high,
+        low,
+        maxFavorablePercent: Math.max(0, toPercent(isLong ? high : low)),
+        maxAdversePercent: Math.max(0, -toPercent(isLong ? low : high)),
+        closes: rows
+            .filter((_, index) => index % step === 0 || index === rows.length - 1)
+            .map((row) => ({ minutes: Math.round((row[0] - outcome.entryTime) / 60_000), close: row[4] })),
+    };
+}
+
+function formatEntrySnapshot(state: MarketState | null): string {
+    if (!state) return "Not recorded for this decision.";
+    const { longer_term: h4 } = state;
+    return `price ${state.current_price}, EMA20 ${state.current_ema20.toFixed(4)}, MACD ${state.current_macd.toFixed(4)}, RSI(7) ${state.current_rsi.toFixed(1)}
+4h: EMA20 ${h4.ema_20.toFixed(4)} vs EMA50 ${h4.ema_50.toFixed(4)}, ATR(14) ${h4.atr_14.toFixed(4)}, volume ${h4.current_volume.toFixed(2)} vs avg ${h4.average_volume.toFixed(2)}
+funding rate ${(state.funding_rate * 100).toFixed(4)}%, open interest ${state.open_interest.latest.toFixed(2)} (avg ${state.open_interest.average.toFixed(2)})`;
+}
+
+function formatPricePath(path: PricePath | null): string {
+    if (!path) return "Unavailable.";
+    return `${path.interval} candles, high ${path.high}, low ${path.low}
+max favorable excursion: +${path.maxFavorablePercent.toFixed(2)}%, max adverse excursion: -${path.maxAdversePercent.toFixed(2)}%
+closes (minutes after entry: price): ${path.closes.map((c) => `${c.minutes}m: ${c.close}`).join(", ")}`;
+}
+
+/**
+ * Ask the model for a structured reflection on one closed trade
+ */
+export async function generateTradeReflection(params: {
+    trade: Trading;
+    chat: Chat | null;
+    entryState: MarketState | null;
+    outcome: ReflectionOutcome;
+    modelType?: ModelType;
+}): Promise<{ reflection: TradeReflection; provider: string }> {
+    const { trade, chat, entryState, outcome } = params;
+    const config = getTradeReflectionConfig();
+    const modelType = params.modelType ?? config.modelType ?? chat?.model ?? ModelType.Deepseek;
+
+    let pricePath: PricePath | null = null;
+    try {
+        pricePath = await getPricePath(trade.symbol, outcome);
+    } catch (error) {
+        console.warn(`⚠️ Price path unavailable for ${trade.symbol} reflection:`, error instanceof Error ? error.message : error);
+    }
+
+    const holdHours = (outcome.exitTime - outcome.entryTime) / (60 * 60 * 1000);
+    const prompt = `## TRADE
+${outcome.side} ${trade.symbol} (${trade.opeartion}), leverage ${trade.leverage ?? "N/A"}x
+entry ${outcome.entryPrice} at ${new Date(outcome.entryTime).toISOString()}, exit ${outcome.exitPrice} after ${holdHours.toFixed(1)}h
+planned stop loss ${trade.stopLoss ?? "N/A"}, planned take profit ${trade.takeProfit ?? "N/A"}
+exit reason: ${outcome.exitReason}
+net PnL: $${outcome.netPnl.toFixed(4)} (${outcome.pnlPercentage.toFixed(2)}% of the account, after fees and funding)
+
+## MARKET AT ENTRY
+${formatEntrySnapshot(entryState)}
+
+## PRICE PATH DURING THE TRADE
+${formatPricePath(pricePath)}
+
+## ORIGINAL REASONING
+${chat?.chat || "<no chat>"}
+
+${(chat?.reasoning || "").slice(0, 4000)}`;
+
+    const result = await generateObjectWithFallback({
+        modelType,
+        system: `You are reviewing one of your own closed crypto perpetual futures trades.
+Judge the decision process separately from the outcome: a losing trade can be well reasoned and a winning trade can be lucky.
+Use the price path to tell entry timing, stop placement and exit management apart. Be specific and brief; the rule must be something that can be checked against indicators at the next entry.`,
+        prompt,
+        schema: tradeReflectionSchema,
+        functionId: "trade-reflection",
+    });
+    return { reflection: result.object, provider: result.provider };
+}
+
+/**
+ * Lesson text stored in TradingLesson.lessonText (shown in the learning feedback section of the prompt)
+ */
+export function formatTradeReflection(symbol: string, outcome: ReflectionOutcome, reflection: TradeReflection): string {
+    const icon = outcome.netPnl >= 0 ? "✅" : "📉";
+    const pnl = `${outcome.netPnl >= 0 ? "+" : "-"}$${Math.abs(outcome.netPnl).toFixed(2)} (${outcome.pnlPercentage.toFixed(2)}%)`;
+    return [
+        `${icon} ${outcome.side} ${symbol}: ${pnl}, exit: ${outcome.exitReason}.`,
+        `RIGHT: ${reflection.whatWentRight}`,
+        `WRONG: ${reflection.whatWentWrong}`,
+        ...(reflection.misleadingSignal ? [`MISLEADING SIGNAL: ${reflection.misleadingSignal}`] : []),
+        `RULE: ${reflection.ruleForNextTime}`,
+    ].join("\n");
+}
@@ -0,0 +1,143 @@
+/**
+ * Performance analytics per model / per symbol
+ * 权益序列来自 MetricSnapshot，已平仓交易来自 ClosedTrade（交易所成交对账结果）
+ */
+
+import { ModelType } from "@prisma/client";
+import { prisma } from "../prisma";
+import {
+    computeEquityAnalytics,
+    computeSymbolAnalytics,
+    computeTradeAnalytics,
+    type ClosedTradeSample,
+    type EquityAnalytics,
+    type EquityAnalyticsOptions,
+    type EquitySample,
+    type SymbolAnalytics,
+    type TradeAnalytics,
+} from "./performance";
+
+export interface AnalyticsQuery {
+    model: ModelType;
+    series: string; // MetricSnapshot 序列名
+    from?: Date;
+    to?: Date;
+}
+
+export interface PerformanceAnalytics {
+    model: ModelType;
+    series: string;
+    from: string | null;
+    to: string | null;
+    equity: EquityAnalytics | null; // 快照少于 2 个时为 null
+    trades: TradeAnalytics;
+    bySymbol: SymbolAnalytics[];
+}
+
+/**
+ * Equity series (with held symbols) of one MetricSnapshot series
+ */
+export async function loadEquitySamples(query: AnalyticsQuery): Promise<EquitySample[]> {
+    const snapshots = await prisma.metricSnapshot.findMany({
+        where: {
+            model: query.model,
+            series: query.series,
+            timestamp: { gte: query.from, lte: query.to },
+        },
+        select: {
+            timestamp: true,
+            equity: true,
+            positions: { select: { symbol: true } },
+        },
+        orderBy: { timestamp: "asc" },
+    });
+
+    return snapshots.map((snapshot) => ({
+        time: snapshot.timestamp.getTime(),
+        equity: snapshot.equity,
+        symbols: snapshot.positions.map((p) => p.symbol),
+    }));
+}
+
+/**
+ * Closed trades of a model's account, exit time within the range (PnL net of fees and funding)
+ */
+export async function loadClosedTrades(query: AnalyticsQuery): Promise<ClosedTradeSample[]> {
+    const trades = await prisma.closedTrade.findMany({
+        where: {
+            model: query.model,
+            account: query.series,
+            exitTime: { gte: query.from, lte: query.to },
+        },
+        orderBy: { exitTime: "asc" },
+    });
+
+    return trades.map((trade) => ({
+        symbol: trade.symbol,
+        side: trade.side === "SHORT" ? "SHORT" : "LONG",
+        entryTime: trade.entryTime.getTime(),
+        exitTime: trade.exitTime.getTime(),
+        pnl: trade.netPnl,
+    }));
+}
+
+export async function getPerformanceAnalytics(
+    query: AnalyticsQuery,
+    options: EquityAnalyticsOptions = {}
+): Promise<PerformanceAnalytics> {
+    const [samples, trades] = await Promise.all([
+        loadEquitySamples(query),
+        loadClosedTrades(query),
+    ]);
+
+    return {
+        model: query.model,
+        series: query.series,
+        from: samples.length > 0 ? new Date(samples[0].time).toISOString() : null,
+        to: samples.length > 0 ? new Date(samples[samples.length - 1].time).toISOString() : null,
+        equity: samples.length >= 2 ? computeEquityAnalytics(samples, options) : null,
+        trades: computeTradeAnalytics(trades),
+        bySymbol: computeSymbolAnalytics(trades, samples),
+    };
+}
+
+const formatRatio = (value: number | null) => (value === null ? "N/A" : value.toFixed(2));
+
+function formatDuration(ms: number): string {
+    const hours = ms / (60 * 60 * 1000);
+    return hours >= 48 ? `${(hours / 24).toFixed(1)}d` : `${hours.toFixed(1)}h`;
+}
+
+/**
+ * Prompt section for formatAccountPerformance
+ */
+export function formatPerformanceAnalytics(analytics: PerformanceAnalytics): string {
+    const { equity, trades } = analytics;
+
+    let output = equity
+        ? `Sharpe Ratio (annualized): ${formatRatio(equity.sharpeRatio)}
+Sortino Ratio (annualized): ${formatRatio(equity.sortinoRatio)}
+Calmar Ratio: ${formatRatio(equity.calmarRatio)}
+Max Drawdown: ${equity.maxDrawdownPercent.toFixed(2)}% (longest underwater ${formatDuration(equity.maxDrawdownDurationMs)})
+Current Drawdown: ${equity.currentDrawdownPercent.toFixed(2)}%
+Exposure (time in market): ${equity.exposurePercent.toFixed(1)}%
+`
+        : "Sharpe Ratio (annualized): N/A (not enough equity history)\n";
+
+    if (trades.trades > 0) {
+        output += `Closed Trades: ${trades.trades} (win rate ${trades.winRatePercent.toFixed(1)}%)
+Expectancy per Trade: $${trades.expectancy.toFixed(4)}
+Profit Factor: ${trades.profitFactor === null ? "∞ (no losing trades)" : trades.profitFactor.toFixed(2)}
+`;
+    }
+
+    const tradedSymbols = analytics.bySymbol.filter((s) => s.trades > 0);
+    if (tradedSymbols.length > 0) {
+        output += `Per Symbol: ${tradedSymbols
+            .map((s) => `${s.symbol} ${s.trades} trades, win ${s.winRatePercent.toFixed(0)}%, net $${s.netPnl.toFixed(2)}`)
+            .join("; ")}
+`;
+    }
+
+    return output;
+}
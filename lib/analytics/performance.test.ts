@@ -0,0 +1,157 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+    computeDrawdown,
+    computeEquityAnalytics,
+    computePeriodicReturns,
+    computeTradeAnalytics,
+    type ClosedTradeSample,
+    type EquitySample,
+} from "./performance";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const T0 = Date.parse("2025-01-01T00:00:00Z");
+
+function close(actual: number | null, expected: number, tolerance = 1e-9) {
+    assert.ok(actual !== null && Math.abs(actual - expected) < tolerance, `expected ${expected}, got ${actual}`);
+}
+
+function daily(equities: number[]): EquitySample[] {
+    return equities.map((equity, day) => ({ time: T0 + day * DAY_MS, equity }));
+}
+
+function trade(pnl: number, holdingDays = 1): ClosedTradeSample {
+    return { symbol: "BTCUSDT", side: "LONG", entryTime: T0, exitTime: T0 + holdingDays * DAY_MS, pnl };
+}
+
+describe("computePeriodicReturns", () => {
+    it("samples the last equity at or before each boundary and keeps the partial last period", () => {
+        const samples = [
+            { time: T0, equity: 100 },
+            { time: T0 + DAY_MS / 2, equity: 105 },
+            { time: T0 + DAY_MS, equity: 110 },
+            { time: T0 + 1.5 * DAY_MS, equity: 99 },
+        ];
+        const returns = computePeriodicReturns(samples, DAY_MS);
+        assert.equal(returns.length, 2);
+        close(returns[0], 0.1);
+        close(returns[1], -0.1);
+    });
+});
+
+describe("computeEquityAnalytics", () => {
+    // 日收益 +10% / -10% / +10% / +10%：均值 5%，样本标准差 10%，下行偏差 5%
+    const samples = daily([100, 110, 99, 108.9, 119.79]);
+    const analytics = computeEquityAnalytics(samples, { periodMs: DAY_MS, minAnnualizationMs: 0 });
+
+    it("annualizes Sharpe and Sortino from the periodic returns", () => {
+        assert.equal(analytics.periods, 4);
+        close(analytics.totalReturnPercent, 19.79);
+        close(analytics.sharpeRatio, 0.5 * Math.sqrt(365));
+        close(analytics.sortinoRatio, Math.sqrt(365));
+        close(analytics.annualizedVolatilityPercent, 10 * Math.sqrt(365));
+    });
+
+    it("divides the annualized return by the max drawdown for Calmar", () => {
+        const annualized = Math.pow(1.1979, 365 / 4) - 1;
+        close(analytics.annualizedReturnPercent, annualized * 100, 1e-6 * annualized * 100);
+        close(analytics.calmarRatio, annualized / 0.1, 1e-6 * annualized / 0.1);
+    });
+
+    it("subtracts the risk-free rate per period", () => {
+        const withRate = computeEquityAnalytics(samples, { periodMs: DAY_MS, riskFreeRate: 0.365 });
+        close(withRate.sharpeRatio, (0.049 / 0.1) * Math.sqrt(365));
+    });
+
+    it("leaves the ratios empty when the returns have no variance", () => {
+        const flat = computeEquityAnalytics(daily([100, 200, 400]), { periodMs: DAY_MS, minAnnualizationMs: 0 });
+        assert.equal(flat.sharpeRatio, null);
+        assert.equal(flat.sortinoRatio, null);
+        assert.equal(flat.calmarRatio, null);
+        assert.equal(flat.maxDrawdownPercent, 0);
+        assert.equal(flat.annualizedVolatilityPercent, 0);
+    });
+
+    it("skips annualized figures for short ranges", () => {
+        assert.equal(computeEquityAnalytics(samples, { periodMs: DAY_MS }).annualizedReturnPercent, null);
+        assert.equal(computeEquityAnalytics(samples, { periodMs: DAY_MS, minRatioRangeMs: 5 * DAY_MS }).sharpeRatio, null);
+    });
+
+    it("handles an empty series", () => {
+        const empty = computeEquityAnalytics([]);
+        assert.equal(empty.startEquity, 0);
+        assert.equal(empty.totalReturnPercent, 0);
+        assert.equal(empty.periods, 0);
+        assert.equal(empty.sharpeRatio, null);
+        assert.equal(empty.sortinoRatio, null);
+        assert.equal(empty.calmarRatio, null);
+        assert.equal(empty.maxDrawdownPercent, 0);
+        assert.equal(empty.exposurePercent, 0);
+    });
+});
+
+describe("computeDrawdown", () => {
+    it("measures the deepest drop and the time from the peak to its recovery", () => {
+        const drawdown = computeDrawdown(daily([100, 110, 99, 108.9, 119.79]));
+        close(drawdown.maxDrawdownPercent, 10);
+        assert.equal(drawdown.maxDrawdownDurationMs, 3 * DAY_MS);
+        assert.equal(drawdown.currentDrawdownPercent, 0);
+    });
+
+    it("runs an unrecovered drawdown to the last sample", () => {
+        const drawdown = computeDrawdown(daily([100, 120, 90, 100]));
+        close(drawdown.maxDrawdownPercent, 25);
+        assert.equal(drawdown.maxDrawdownDurationMs, 2 * DAY_MS);
+        close(drawdown.currentDrawdownPercent, 100 / 6);
+    });
+
+    it("keeps the longest underwater period, not the deepest", () => {
+        const drawdown = computeDrawdown(daily([100, 80, 100, 95, 96, 97, 101]));
+        close(drawdown.maxDrawdownPercent, 20);
+        assert.equal(drawdown.maxDrawdownDurationMs, 4 * DAY_MS);
+    });
+
+    it("is zero for an empty series", () => {
+        assert.deepEqual(computeDrawdown([]), { maxDrawdownPercent: 0, maxDrawdownDurationMs: 0, currentDrawdownPercent: 0 });
+    });
+});
+
+describe("computeTradeAnalytics", () => {
+    it("computes expectancy and profit factor from wins and losses", () => {
+        const analytics = computeTradeAnalytics([trade(30), trade(-10, 3), trade(20), trade(-20, 3)]);
+        assert.equal(analytics.wins, 2);
+        assert.equal(analytics.losses, 2);
+        assert.equal(analytics.winRatePercent, 50);
+        assert.equal(analytics.grossProfit, 50);
+        assert.equal(analytics.grossLoss, 30);
+        assert.equal(analytics.netPnl, 20);
+        assert.equal(analytics.averageWin, 25);
+        assert.equal(analytics.averageLoss, -15);
+        assert.equal(analytics.expectancy, 5);
+        close(analytics.profitFactor, 5 / 3);
+        assert.equal(analytics.averageHoldingMs, 2 * DAY_MS);
+    });
+
+    it("reports an unbounded profit factor without losing trades", () => {
+        const analytics = computeTradeAnalytics([trade(10), trade(20)]);
+        assert.equal(analytics.profitFactor, null);
+        assert.equal(analytics.averageLoss, 0);
+        assert.equal(analytics.expectancy, 15);
+    });
+
+    it("counts break-even trades as losses", () => {
+        const analytics = computeTradeAnalytics([trade(10), trade(0)]);
+        assert.equal(analytics.losses, 1);
+        assert.equal(analytics.profitFactor, null);
+        assert.equal(analytics.expectancy, 5);
+    });
+
+    it("is zero without trades", () => {
+        const analytics = computeTradeAnalytics([]);
+        assert.equal(analytics.trades, 0);
+        assert.equal(analytics.winRatePercent, 0);
+        assert.equal(analytics.expectancy, 0);
+        assert.equal(analytics.profitFactor, 0);
+        assert.equal(analytics.averageHoldingMs, 0);
+    });
+});
@@ -0,0 +1,272 @@
+/**
+ * Performance analytics (pure functions)
+ * 基于权益序列计算风险调整收益，基于已平仓交易计算胜率 / 期望 / 盈亏比
+ */
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000; // 加密市场 7×24 交易
+
+export interface EquitySample {
+    time: number; // ms
+    equity: number;
+    symbols?: string[]; // 该时刻持仓的币种（用于计算持仓时间占比）
+}
+
+export interface ClosedTradeSample {
+    symbol: string;
+    side: "LONG" | "SHORT";
+    entryTime: number; // ms
+    exitTime: number; // ms
+    pnl: number;
+}
+
+export interface EquityAnalytics {
+    startEquity: number;
+    endEquity: number;
+    totalReturnPercent: number;
+    annualizedReturnPercent: number | null; // 区间短于 minAnnualizationMs 时为 null
+    annualizedVolatilityPercent: number | null;
+    sharpeRatio: number | null; // 年化，无风险利率 riskFreeRate
+    sortinoRatio: number | null;
+    calmarRatio: number | null; // 年化收益 / 最大回撤
+    maxDrawdownPercent: number;
+    maxDrawdownDurationMs: number; // 最长水下时间（从前高到收复，未收复则到最后一个点）
+    currentDrawdownPercent: number;
+    exposurePercent: number; // 有持仓的时间占比
+    periods: number; // 参与计算的收益率个数
+    periodMs: number;
+}
+
+export interface TradeAnalytics {
+    trades: number;
+    wins: number;
+    losses: number;
+    winRatePercent: number;
+    grossProfit: number;
+    grossLoss: number; // 正数
+    netPnl: number;
+    averageWin: number;
+    averageLoss: number; // 负数
+    expectancy: number; // 每笔期望盈亏 = 胜率 × 平均盈利 + 败率 × 平均亏损
+    profitFactor: number | null; // null 表示没有亏损交易（无穷大）
+    averageHoldingMs: number;
+}
+
+export interface SymbolAnalytics extends TradeAnalytics {
+    symbol: string;
+    exposurePercent: number;
+}
+
+export interface EquityAnalyticsOptions {
+    periodMs?: number; // 收益率采样周期，默认 1 小时
+    riskFreeRate?: number; // 年化无风险利率（小数），默认 0
+    minRatioRangeMs?: number; // 区间短于该值时不计算 Sharpe / Sortino，默认 1 天
+    minAnnualizationMs?: number; // 区间短于该值时不计算年化收益 / Calmar（复利外推失真），默认 7 天
+}
+
+function mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function standardDeviation(values: number[]): number {
+    if (values.length < 2) return 0;
+    const avg = mean(values);
+    const variance = values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1);
+    return Math.sqrt(variance);
+}
+
+/**
+ * Periodic returns: equity at each period boundary (last sample at or before it)
+ */
+export function computePeriodicReturns(samples: EquitySample[], periodMs: number): number[] {
+    if (samples.length < 2) return [];
+
+    const sorted = [...samples].sort((a, b) => a.time - b.time);
+    const start = sorted[0].time;
+    const end = sorted[sorted.length - 1].time;
+
+    const values: number[] = [sorted[0].equity];
+    let cursor = 0;
+    let lastBoundary = start;
+    for (let boundary = start + periodMs; boundary <= end; boundary += periodMs) {
+        while (cursor + 1 < sorted.length && sorted[cursor + 1].time <= boundary) {
+            cursor++;
+        }
+        values.push(sorted[cursor].equity);
+        lastBoundary = boundary;
+    }
+    // 最后一个不完整周期也计入，避免丢掉最新的权益变化
+    if (lastBoundary < end) {
+        values.push(sorted[sorted.length - 1].equity);
+    }
+
+    const returns: number[] = [];
+    for (let i = 1; i < values.length; i++) {
+        if (values[i - 1] > 0) {
+            returns.push(values[i] / values[i - 1] - 1);
+        }
+    }
+    return returns;
+}
+
+/**
+ * Max drawdown, longest underwater duration and current drawdown
+ */
+export function computeDrawdown(samples: EquitySample[]): {
+    maxDrawdownPercent: number;
+    maxDrawdownDurationMs: number;
+    currentDrawdownPercent: number;
+} {
+    if (samples.length === 0) {
+        return { maxDrawdownPercent: 0, maxDrawdownDurationMs: 0, currentDrawdownPercent: 0 };
+    }
+
+    let peak = samples[0].equity;
+    let peakTime = samples[0].time;
+    let maxDrawdown = 0;
+    let maxDuration = 0;
+    let current = 0;
+
+    for (const { time, equity } of samples) {
+        if (equity >= peak) {
+            // 收复前高：结束一段水下区间
+            if (current > 0) {
+                maxDuration = Math.max(maxDuration, time - peakTime);
+            }
+            peak = equity;
+            peakTime = time;
+            current = 0;
+            continue;
+        }
+        current = peak > 0 ? (peak - equity) / peak : 0;
+        maxDrawdown = Math.max(maxDrawdown, current);
+    }
+
+    // 仍在水下：持续时间算到最后一个点
+    if (current > 0) {
+        maxDuration = Math.max(maxDuration, samples[samples.length - 1].time - peakTime);
+    }
+
+    return {
+        maxDrawdownPercent: maxDrawdown * 100,
+        maxDrawdownDurationMs: maxDuration,
+        currentDrawdownPercent: current * 100,
+    };
+}
+
+/**
+ * Time-weighted share of the range with an open position (optionally in one symbol)
+ */
+export function computeExposurePercent(samples: EquitySample[], symbol?: string): number {
+    if (samples.length < 2) return 0;
+
+    let exposed = 0;
+    for (let i = 0; i < samples.length - 1; i++) {
+        const symbols = samples[i].symbols || [];
+        const isExposed = symbol ? symbols.includes(symbol) : symbols.length > 0;
+        if (isExposed) {
+            exposed += samples[i + 1].time - samples[i].time;
+        }
+    }
+    const total = samples[samples.length - 1].time - samples[0].time;
+    return total > 0 ? (exposed / total) * 100 : 0;
+}
+
+export function computeEquityAnalytics(
+    samples: EquitySample[],
+    options: EquityAnalyticsOptions = {}
+): EquityAnalytics {
+    const {
+        periodMs = 60 * 60 * 1000,
+        riskFreeRate = 0,
+        minRatioRangeMs = 24 * 60 * 60 * 1000,
+        minAnnualizationMs = 7 * 24 * 60 * 60 * 1000,
+    } = options;
+    const sorted = [...samples].sort((a, b) => a.time - b.time);
+
+    const startEquity = sorted[0]?.equity ?? 0;
+    const endEquity = sorted[sorted.length - 1]?.equity ?? 0;
+    const elapsedMs = sorted.length > 1 ? sorted[sorted.length - 1].time - sorted[0].time : 0;
+    const totalReturn = startEquity > 0 ? endEquity / startEquity - 1 : 0;
+
+    const returns = computePeriodicReturns(sorted, periodMs);
+    const periodsPerYear = YEAR_MS / periodMs;
+    const riskFreePerPeriod = riskFreeRate / periodsPerYear;
+    const excess = returns.map((r) => r - riskFreePerPeriod);
+
+    const volatility = standardDeviation(returns);
+    const downsideDeviation = Math.sqrt(mean(excess.map((r) => Math.min(r, 0) ** 2)));
+    const canAnnualize = elapsedMs >= minRatioRangeMs && returns.length >= 2;
+
+    const annualizedReturn = elapsedMs >= minAnnualizationMs && startEquity > 0 && endEquity > 0
+        ? Math.pow(endEquity / startEquity, YEAR_MS / elapsedMs) - 1
+        : null;
+    const drawdown = computeDrawdown(sorted);
+
+    return {
+        startEquity,
+        endEquity,
+        totalReturnPercent: totalReturn * 100,
+        annualizedReturnPercent: annualizedReturn !== null ? annualizedReturn * 100 : null,
+        annualizedVolatilityPercent: canAnnualize ? volatility * Math.sqrt(periodsPerYear) * 100 : null,
+        sharpeRatio: canAnnualize && volatility > 0
+            ? (mean(excess) / volatility) * Math.sqrt(periodsPerYear)
+            : null,
+        sortinoRatio: canAnnualize && downsideDeviation > 0
+            ? (mean(excess) / downsideDeviation) * Math.sqrt(periodsPerYear)
+            : null,
+        calmarRatio: annualizedReturn !== null && drawdown.maxDrawdownPercent > 0
+            ? annualizedReturn / (drawdown.maxDrawdownPercent / 100)
+            : null,
+        ...drawdown,
+        exposurePercent: computeExposurePercent(sorted),
+        periods: returns.length,
+        periodMs,
+    };
+}
+
+export function computeTradeAnalytics(trades: ClosedTradeSample[]): TradeAnalytics {
+    const winning = trades.filter((t) => t.pnl > 0);
+    const losing = trades.filter((t) => t.pnl <= 0);
+    const grossProfit = winning.reduce((sum, t) => sum + t.pnl, 0);
+    const grossLoss = Math.abs(losing.reduce((sum, t) => sum + t.pnl, 0));
+    const averageWin = winning.length > 0 ? grossProfit / winning.length : 0;
+    const averageLoss = losing.length > 0 ? -grossLoss / losing.length : 0;
+    const winRate = trades.length > 0 ? winning.length / trades.length : 0;
+
+    return {
+        trades: trades.length,
+        wins: winning.length,
+        losses: losing.length,
+        winRatePercent: winRate * 100,
+        grossProfit,
+        grossLoss,
+        netPnl: grossProfit - grossLoss,
+        averageWin,
+        averageLoss,
+        expectancy: trades.length > 0 ? winRate * averageWin + (1 - winRate) * averageLoss : 0,
+        profitFactor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? null : 0,
+        averageHoldingMs: mean(trades.map((t) => Math.max(0, t.exitTime - t.entryTime))),
+    };
+}
+
+/**
+ * Trade statistics and exposure for each traded or held symbol
+ */
+export function computeSymbolAnalytics(
+    trades: ClosedTradeSample[],
+    samples: EquitySample[]
+): SymbolAnalytics[] {
+    const symbols = new Set<string>(trades.map((t) => t.symbol));
+    for (const sample of samples) {
+        (sample.symbols || []).forEach((symbol) => symbols.add(symbol));
+    }
+    const sorted = [...samples].sort((a, b) => a.time - b.time);
+
+    return Array.from(symbols)
+        .sort()
+        .map((symbol) => ({
+            symbol,
+            ...computeTradeAnalytics(trades.filter((t) => t.symbol === symbol)),
+            exposurePercent: computeExposurePercent(sorted, symbol),
+        }));
+}
@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ModelType, type PredictionScore } from "@prisma/client";
+import type { OhlcvRow } from "../trading/exchange-adapter";
+import { computePredictionAccuracy, scorePrediction, type PredictionConfig } from "./predictions";
+
+const MINUTE_MS = 60 * 1000;
+const T0 = Date.parse("2025-01-01T00:00:00Z");
+const config: PredictionConfig = { horizonHours: 1, neutralBandPercent: 0.5 };
+
+/**
+ * 5m klines starting at `start`: each candle opens at the previous close and trades 0.5 around it
+ */
+function klines(start: number, closes: number[], open = 100): OhlcvRow[] {
+    return closes.map((close, index) => {
+        const previous = index === 0 ? open : closes[index - 1];
+        return [start + index * 5 * MINUTE_MS, previous, Math.max(previous, close) + 0.5, Math.min(previous, close) - 0.5, close, 1];
+    });
+}
+
+describe("scorePrediction", () => {
+    // 预测在 00:00:30 做出：00:00 这根 K 线不计入
+    const predictedAt = T0 + 30 * 1000;
+    const rising = klines(T0, [99, ...Array.from({ length: 12 }, (_, i) => 100 + (i + 1) * 0.1)]);
+
+    it("scores the direction from the first candle after the prediction to the horizon end", () => {
+        const outcome = scorePrediction({ short_term_trend: "bullish", confidence: "high" }, rising, predictedAt, config);
+        assert.ok(outcome);
+        assert.equal(outcome.startPrice, 99);
+        assert.ok(Math.abs(outcome.endPrice - 101.2) < 1e-9);
+        assert.equal(outcome.realizedTrend, "bullish");
+        assert.equal(outcome.hit, true);
+        assert.equal(outcome.return1hPercent, null);
+    });
+
+    it("treats moves inside the neutral band as neutral", () => {
+        const flat = klines(T0 + 5 * MINUTE_MS, Array.from({ length: 12 }, () => 100.2));
+        const outcome = scorePrediction({ short_term_trend: "bearish", confidence: "low" }, flat, predictedAt, config);
+        assert.equal(outcome?.realizedTrend, "neutral");
+        assert.equal(outcome?.hit, false);
+    });
+
+    it("returns null until the klines cover the horizon", () => {
+        assert.equal(scorePrediction({ short_term_trend: "bullish", confidence: "high" }, rising.slice(0, 12), predictedAt, config), null);
+        assert.equal(scorePrediction({ short_term_trend: "bullish", confidence: "high" }, [], predictedAt, config), null);
+    });
+
+    it("judges key levels only on the correct side of the start price", () => {
+        const prediction = { short_term_trend: "bullish" as const, confidence: "high" as const };
+        const held = scorePrediction({ ...prediction, key_levels: { support: 98, resistance: 101 } }, rising, predictedAt, config);
+        assert.equal(held?.supportHeld, true);
+        assert.equal(held?.resistanceHeld, false);
+
+        const wrongSide = scorePrediction({ ...prediction, key_levels: { support: 105, resistance: 90 } }, rising, predictedAt, config);
+        assert.equal(wrongSide?.supportHeld, null);
+        assert.equal(wrongSide?.resistanceHeld, null);
+    });
+
+    it("adds the 1h return for longer horizons", () => {
+        const rows = klines(T0 + 5 * MINUTE_MS, Array.from({ length: 24 }, (_, i) => (i < 12 ? 101 : 99)));
+        const outcome = scorePrediction({ short_term_trend: "bearish", confidence: "medium" }, rows, predictedAt, { ...config, horizonHours: 2 });
+        assert.ok(outcome);
+        assert.equal(outcome.startPrice, 100);
+        assert.ok(Math.abs(outcome.return1hPercent! - 1) < 1e-9);
+        assert.ok(Math.abs(outcome.returnPercent + 1) < 1e-9);
+        assert.equal(outcome.hit, true);
+    });
+});
+
+describe("computePredictionAccuracy", () => {
+    let nextId = 1;
+    function score(confidence: string, hit: boolean, symbol = "BTC"): PredictionScore {
+        const id = String(nextId++);
+        return {
+            id,
+            tradingId: `trade-${id}`,
+            model: ModelType.Deepseek,
+            symbol,
+            trend: "bullish",
+            confidence,
+            horizonHours: 4,
+            predictedAt: new Date(T0),
+            startPrice: 100,
+            endPrice: 101,
+            high: 102,
+            low: 99,
+            return1hPercent: null,
+            returnPercent: 1,
+            realizedTrend: hit ? "bullish" : "bearish",
+            hit,
+            support: null,
+            resistance: null,
+            supportHeld: hit,
+            resistanceHeld: null,
+            createdAt: new Date(T0),
+        };
+    }
+
+    const repeat = (count: number, confidence: string, hits: number) =>
+        Array.from({ length: count }, (_, i) => score(confidence, i < hits));
+
+    it("reports hit rates by confidence, trend and symbol", () => {
+        const accuracy = computePredictionAccuracy([...repeat(4, "high", 3), score("low", false, "ETH")]);
+        assert.equal(accuracy.total, 5);
+        assert.equal(accuracy.hits, 3);
+        assert.equal(accuracy.hitRatePercent, 60);
+        assert.deepEqual(accuracy.byConfidence.map((b) => [b.confidence, b.total, b.hits]), [["high", 4, 3], ["medium", 0, 0], ["low", 1, 0]]);
+        assert.deepEqual(accuracy.bySymbol.map((b) => [b.symbol, b.total]), [["BTC", 4], ["ETH", 1]]);
+        assert.equal(accuracy.supportHeldPercent, 60);
+        assert.equal(accuracy.resistanceHeldPercent, null);
+    });
+
+    it("checks calibration only with enough samples per level", () => {
+        assert.equal(computePredictionAccuracy(repeat(4, "high", 4)).calibrated, null);
+        assert.equal(computePredictionAccuracy([...repeat(5, "high", 4), ...repeat(5, "low", 2)]).calibrated, true);
+        assert.equal(computePredictionAccuracy([...repeat(5, "high", 2), ...repeat(5, "medium", 4)]).calibrated, false);
+    });
+});
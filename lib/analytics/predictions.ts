@@ -0,0 +1,318 @@
+/**
+ * Prediction accuracy
+ * 每条决策都带 1-4 小时趋势预测（Trading.prediction）。决策 PREDICTION_HORIZON_HOURS 小时后用实际 K 线评分：
+ * 方向是否命中、支撑 / 阻力是否守住，写入 PredictionScore；按模型 / 币种 / 置信度汇总命中率（置信度校准），
+ * 供 /api/predictions 和提示词的学习反馈使用
+ */
+
+import { ModelType, Prisma, type PredictionScore } from "@prisma/client";
+import { prisma } from "../prisma";
+import { getExchangeAdapter, toExchangeSymbol, type OhlcvRow } from "../trading/exchange-adapter";
+import { toTradingPair } from "../trading/symbol-registry";
+
+const KLINE_INTERVAL = "5m";
+const KLINE_INTERVAL_MS = 5 * 60 * 1000;
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // 更早的决策不再补评分
+const BATCH_SIZE = 50; // 每次最多评分的决策数
+const SKIP_AFTER_MS = 6 * 60 * 60 * 1000; // horizon 结束 6 小时后仍取不到 K 线则标记为无法评分
+const RETRY_DELAY_MS = 30 * 60 * 1000; // 失败的决策 30 分钟内不再重试，避免挤占后面的决策
+const CONFIDENCE_LEVELS = ["high", "medium", "low"] as const;
+const MIN_CALIBRATION_SAMPLES = 5; // 每个置信度至少 5 条才判断校准
+
+export interface PredictionConfig {
+    horizonHours: number; // 1-4
+    neutralBandPercent: number; // 涨跌幅绝对值不超过该值记为 neutral
+}
+
+export interface TrendPrediction {
+    short_term_trend: "bullish" | "bearish" | "neutral";
+    confidence: "high" | "medium" | "low";
+    key_levels?: { support?: number; resistance?: number };
+}
+
+export type PredictionOutcome = Pick<
+    PredictionScore,
+    | "startPrice"
+    | "endPrice"
+    | "high"
+    | "low"
+    | "return1hPercent"
+    | "returnPercent"
+    | "realizedTrend"
+    | "hit"
+    | "supportHeld"
+    | "resistanceHeld"
+>;
+
+export interface AccuracyBucket {
+    total: number;
+    hits: number;
+    hitRatePercent: number;
+}
+
+export interface PredictionAccuracy extends AccuracyBucket {
+    model: ModelType | null; // null: 所有模型
+    symbol: string | null;
+    byConfidence: Array<AccuracyBucket & { confidence: string }>;
+    byTrend: Array<AccuracyBucket & { trend: string }>;
+    bySymbol: Array<AccuracyBucket & { symbol: string }>;
+    supportHeldPercent: number | null;
+    resistanceHeldPercent: number | null;
+    calibrated: boolean | null; // 高置信度命中率 ≥ 中 ≥ 低；样本不足时为 null
+}
+
+// 本进程内评分失败的决策 → 可以重试的时间
+const retryAfter = new Map<string, number>();
+
+/**
+ * Get prediction scoring configuration from environment variables
+ */
+export function getPredictionConfig(): PredictionConfig {
+    const horizon = Number(process.env.PREDICTION_HORIZON_HOURS || 4);
+    const band = Number(process.env.PREDICTION_NEUTRAL_BAND_PERCENT || 0.5);
+    return {
+        horizonHours: Number.isFinite(horizon) ? Math.min(4, Math.max(1, horizon)) : 4,
+        neutralBandPercent: Number.isFinite(band) && band >= 0 ? band : 0.5,
+    };
+}
+
+function isTrendPrediction(value: unknown): value is TrendPrediction {
+    const prediction = value as TrendPrediction | null;
+    return !!prediction
+        && ["bullish", "bearish", "neutral"].includes(prediction.short_term_trend)
+        && ["high", "medium", "low"].includes(prediction.confidence);
+}
+
+/**
+ * Score a prediction against the klines of its horizon (null when the klines do not cover it)
+ * 支撑 / 阻力只在位于预测时价格正确一侧时判定：守住 = 期间最低价不破支撑 / 最高价不破阻力
+ */
+export function scorePrediction(
+    prediction: TrendPrediction,
+    klines: OhlcvRow[],
+    predictedAt: number,
+    config: PredictionConfig = getPredictionConfig()
+): PredictionOutcome | null {
+    const horizonEnd = predictedAt + config.horizonHours * 60 * 60 * 1000;
+    // 从预测后开盘的第一根 K 线算起，最后一根必须覆盖到 horizon 结束
+    const rows = klines.filter((row) => row[0] >= predictedAt && row[0] < horizonEnd);
+    if (rows.length === 0 || rows[rows.length - 1][0] + KLINE_INTERVAL_MS < horizonEnd) return null;
+
+    const startPrice = rows[0][1];
+    const endPrice = rows[rows.length - 1][4];
+    const high = Math.max(...rows.map((row) => row[2]));
+    const low = Math.min(...rows.map((row) => row[3]));
+    const toPercent = (price: number) => ((price - startPrice) / startPrice) * 100;
+    const returnPercent = toPercent(endPrice);
+
+    const oneHour = rows.filter((row) => row[0] < predictedAt + 60 * 60 * 1000);
+    const return1hPercent = config.horizonHours > 1 && oneHour.length > 0 ? toPercent(oneHour[oneHour.length - 1][4]) : null;
+
+    const realizedTrend = Math.abs(returnPercent) <= config.neutralBandPercent
+        ? "neutral"
+        : returnPercent > 0 ? "bullish" : "bearish";
+
+    const support = prediction.key_levels?.support;
+    const resistance = prediction.key_levels?.resistance;
+    return {
+        startPrice,
+        endPrice,
+        high,
+        low,
+        return1hPercent,
+        returnPercent,
+        realizedTrend,
+        hit: realizedTrend === prediction.short_term_trend,
+        supportHeld: support && support < startPrice ? low >= support : null,
+        resistanceHeld: resistance && resistance > startPrice ? high <= resistance : null,
+    };
+}
+
+async function markUnscorable(tradingId: string, reason: string): Promise<void> {
+    await prisma.trading.update({ where: { id: tradingId }, data: { predictionSkipReason: reason } });
+    retryAfter.delete(tradingId);
+}
+
+/**
+ * Score the predictions whose horizon has passed (called once per decision cycle)
+ * 预测格式无效的决策直接标记为无法评分；取不到 K 线的决策稍后重试，超过 SKIP_AFTER_MS 仍失败再标记
+ * @returns number of predictions scored
+ */
+export async function scorePendingPredictions(model?: ModelType): Promise<number> {
+    const config = getPredictionConfig();
+    const horizonMs = config.horizonHours * 60 * 60 * 1000;
+    const now = Date.now();
+    const waiting = [...retryAfter].filter(([, time]) => time > now).map(([id]) => id);
+
+    const tradings = await prisma.trading.findMany({
+        where: {
+            prediction: { not: Prisma.DbNull },
+            predictionScore: null,
+            predictionSkipReason: null,
+            createdAt: { gte: new Date(now - MAX_AGE_MS), lte: new Date(now - horizonMs - KLINE_INTERVAL_MS) },
+            // 没有所属决策的记录无法归属模型，不评分
+            Chat: model ? { model } : { isNot: null },
+            ...(waiting.length > 0 ? { id: { notIn: waiting } } : {}),
+        },
+        include: { Chat: { select: { model: true } } },
+        orderBy: { createdAt: "asc" },
+        take: BATCH_SIZE,
+    });
+    if (tradings.length === 0) return 0;
+
+    const exchange = await getExchangeAdapter();
+    let scored = 0;
+
+    for (const trading of tradings) {
+        if (!trading.Chat) continue;
+        const predictedAt = trading.createdAt.getTime();
+
+        try {
+            if (!isTrendPrediction(trading.prediction)) {
+                await markUnscorable(trading.id, "invalid prediction");
+                continue;
+            }
+            const klines = await exchange.getKlines(
+                toExchangeSymbol(toTradingPair(trading.symbol)),
+                KLINE_INTERVAL,
+                Math.ceil(horizonMs / KLINE_INTERVAL_MS) + 1,
+                { startTime: predictedAt, endTime: predictedAt + horizonMs }
+            );
+            const outcome = scorePrediction(trading.prediction, klines, predictedAt, config);
+            if (!outcome) {
+                throw new Error(`klines do not cover the ${config.horizonHours}h horizon`);
+            }
+
+            await prisma.predictionScore.create({
+                data: {
+                    model: trading.Chat.model,
+                    symbol: trading.symbol,
+                    trend: trading.prediction.short_term_trend,
+                    confidence: trading.prediction.confidence,
+                    support: trading.prediction.key_levels?.support ?? null,
+                    resistance: trading.prediction.key_levels?.resistance ?? null,
+                    predictedAt: trading.createdAt,
+                    horizonHours: config.horizonHours,
+                    ...outcome,
+                    tradingId: trading.id,
+                },
+            });
+            scored++;
+            retryAfter.delete(trading.id);
+        } catch (error) {
+            // 并发评分时另一次已写入
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") continue;
+            const message = error instanceof Error ? error.message : String(error);
+            try {
+                if (now - predictedAt - horizonMs > SKIP_AFTER_MS) {
+                    await markUnscorable(trading.id, message.slice(0, 200));
+                    console.warn(`⚠️ Prediction ${trading.symbol} ${trading.id} marked unscorable: ${message}`);
+                } else {
+                    retryAfter.set(trading.id, now + RETRY_DELAY_MS);
+                    console.warn(`⚠️ Failed to score prediction ${trading.symbol} ${trading.id}, retrying later:`, message);
+                }
+            } catch (markError) {
+                console.warn(`⚠️ Failed to mark prediction ${trading.id}:`, markError instanceof Error ? markError.message : markError);
+            }
+        }
+    }
+
+    if (scored > 0) {
+        console.log(`🎯 Scored ${scored} trend predictions (${config.horizonHours}h horizon)`);
+    }
+    return scored;
+}
+
+function toBucket(scores: Pick<PredictionScore, "hit">[]): AccuracyBucket {
+    const hits = scores.filter((score) => score.hit).length;
+    return { total: scores.length, hits, hitRatePercent: scores.length > 0 ? (hits / scores.length) * 100 : 0 };
+}
+
+function heldPercent(values: Array<boolean | null>): number | null {
+    const judged = values.filter((value): value is boolean => value !== null);
+    return judged.length > 0 ? (judged.filter(Boolean).length / judged.length) * 100 : null;
+}
+
+/**
+ * Hit rates overall, by confidence (calibration), by forecast trend and by symbol
+ */
+export function computePredictionAccuracy(
+    scores: PredictionScore[],
+    filter: { model?: ModelType | null; symbol?: string | null } = {}
+): PredictionAccuracy {
+    const byConfidence = CONFIDENCE_LEVELS.map((confidence) => ({
+        confidence,
+        ...toBucket(scores.filter((score) => score.confidence === confidence)),
+    }));
+
+    const levels = byConfidence.filter((bucket) => bucket.total >= MIN_CALIBRATION_SAMPLES);
+    const calibrated = levels.length >= 2
+        ? levels.every((bucket, index) => index === 0 || levels[index - 1].hitRatePercent >= bucket.hitRatePercent)
+        : null;
+
+    const symbols = [...new Set(scores.map((score) => score.symbol))].sort();
+
+    return {
+        model: filter.model ?? null,
+        symbol: filter.symbol ?? null,
+        ...toBucket(scores),
+        byConfidence,
+        byTrend: ["bullish", "bearish", "neutral"].map((trend) => ({
+            trend,
+            ...toBucket(scores.filter((score) => score.trend === trend)),
+        })),
+        bySymbol: symbols.map((symbol) => ({ symbol, ...toBucket(scores.filter((score) => score.symbol === symbol)) })),
+        supportHeldPercent: heldPercent(scores.map((score) => score.supportHeld)),
+        resistanceHeldPercent: heldPercent(scores.map((score) => score.resistanceHeld)),
+        calibrated,
+    };
+}
+
+/**
+ * Prediction accuracy of a model / symbol over the predictions made since `from`
+ */
+export async function getPredictionAccuracy(query: {
+    model?: ModelType | null;
+    symbol?: string | null;
+    from?: Date;
+    to?: Date;
+}): Promise<PredictionAccuracy> {
+    const scores = await prisma.predictionScore.findMany({
+        where: {
+            ...(query.model ? { model: query.model } : {}),
+            ...(query.symbol ? { symbol: query.symbol } : {}),
+            predictedAt: { gte: query.from, lte: query.to },
+        },
+        orderBy: { predictedAt: "asc" },
+    });
+    return computePredictionAccuracy(scores, query);
+}
+
+/**
+ * Prompt section for the learning feedback
+ */
+export function formatPredictionAccuracy(accuracy: PredictionAccuracy): string {
+    if (accuracy.total === 0) return "";
+    const { horizonHours } = getPredictionConfig();
+    const rate = (bucket: AccuracyBucket) => `${bucket.hitRatePercent.toFixed(0)}% (${bucket.hits}/${bucket.total})`;
+
+    let output = `
+## YOUR TREND PREDICTION ACCURACY
+
+Your "prediction" field is scored ${horizonHours}h after each decision against the realized price path.
+- Direction hit rate: ${rate(accuracy)}
+- By confidence: ${accuracy.byConfidence.filter((b) => b.total > 0).map((b) => `${b.confidence} ${rate(b)}`).join(", ")}
+- By forecast: ${accuracy.byTrend.filter((b) => b.total > 0).map((b) => `${b.trend} ${rate(b)}`).join(", ")}
+- By symbol: ${accuracy.bySymbol.map((b) => `${b.symbol} ${rate(b)}`).join(", ")}
+`;
+    if (accuracy.supportHeldPercent !== null || accuracy.resistanceHeldPercent !== null) {
+        const held = (value: number | null) => (value === null ? "N/A" : `${value.toFixed(0)}%`);
+        output += `- Key levels held: support ${held(accuracy.supportHeldPercent)}, resistance ${held(accuracy.resistanceHeldPercent)}\n`;
+    }
+    if (accuracy.calibrated === false) {
+        output += `⚠️ Your confidence is NOT calibrated: higher-confidence forecasts are not hitting more often. Do not size up on "high" confidence until it does.\n`;
+    } else if (accuracy.calibrated) {
+        output += `✅ Confidence is calibrated: higher-confidence forecasts hit more often.\n`;
+    }
+    return output;
+}
@@ -0,0 +1,163 @@
+/**
+ * Multi-model arena
+ * 同一轮中多个模型并行决策，每个模型使用独立的模拟子账户（PaperAccount "arena-<Model>"），
+ * Chat/Trading 按 Chat.model 区分，Metrics 按子账户名区分
+ */
+
+import { ModelType } from "@prisma/client";
+import { run } from "../ai/run";
+import {
+  runWithExchangeAdapter,
+  type ExchangeAdapter,
+} from "../trading/exchange-adapter";
+import { getAccountInformationAndPerformance } from "../trading/account-information-and-performance";
+import { appendMetrics, DEFAULT_METRICS_NAME, type MetricsSeries } from "../trading/metrics-history";
+import { runOrderMaintenance } from "../trading/order-maintenance";
+
+export interface ArenaConfig {
+  models: ModelType[];
+  initialBalance: number; // 每个模型子账户的初始资金
+}
+
+export interface ArenaRunResult {
+  model: ModelType;
+  success: boolean;
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * Get arena configuration from environment variables
+ * ARENA_MODELS="Deepseek,Qwen,Doubao" enables the arena (empty = single-model run())
+ */
+export function getArenaConfig(): ArenaConfig {
+  const validModels = Object.values(ModelType) as string[];
+  const models = (process.env.ARENA_MODELS || "")
+    .split(",")
+    .map((model) => model.trim())
+    .filter(Boolean)
+    .map((model) => {
+      if (!validModels.includes(model)) {
+        throw new Error(`Unknown model in ARENA_MODELS: ${model} (expected one of ${validModels.join(", ")})`);
+      }
+      return model as ModelType;
+    });
+
+  return {
+    models: Array.from(new Set(models)),
+    initialBalance: Number(process.env.ARENA_INITIAL_BALANCE || process.env.PAPER_INITIAL_BALANCE || 1000),
+  };
+}
+
+export function isArenaEnabled(): boolean {
+  return getArenaConfig().models.length > 0;
+}
+
+/**
+ * Paper account (and Metrics series) name of a model's sub-account
+ */
+export function getArenaAccountName(model: ModelType): string {
+  return `arena-${model}`;
+}
+
+/**
+ * Parse a `?model=` query value (null when absent, throws on unknown models)
+ */
+export function parseModelType(value: string | null): ModelType | null {
+  if (!value) return null;
+  if (!(Object.values(ModelType) as string[]).includes(value)) {
+    throw new Error(`Unknown model: ${value}`);
+  }
+  return value as ModelType;
+}
+
+/**
+ * Metrics series for a route: the model's arena sub-account, or the single-model series
+ */
+export function getMetricsSeries(model: ModelType | null): MetricsSeries {
+  return model
+    ? { model, series: getArenaAccountName(model) }
+    : { model: ModelType.Deepseek, series: DEFAULT_METRICS_NAME };
+}
+
+let marketDataPromise: Promise<ExchangeAdapter> | null = null;
+const arenaAdapters = new Map<ModelType, Promise<ExchangeAdapter>>();
+
+/**
+ * Paper exchange adapter bound to the model's sub-account (market data shared across models)
+ */
+export function getArenaExchangeAdapter(model: ModelType): Promise<ExchangeAdapter> {
+  let adapterPromise = arenaAdapters.get(model);
+  if (!adapterPromise) {
+    adapterPromise = (async () => {
+      if (!marketDataPromise) {
+        marketDataPromise = import("../trading/binance-adapter").then(({ createBinanceFuturesAdapter }) =>
+          createBinanceFuturesAdapter()
+        );
+      }
+      const marketData = await marketDataPromise;
+      const { createPaperExchangeAdapter, getPaperExchangeConfig } = await import("../trading/paper-exchange");
+      return createPaperExchangeAdapter(marketData, {
+        ...getPaperExchangeConfig(),
+        accountName: getArenaAccountName(model),
+        initialBalance: getArenaConfig().initialBalance,
+      });
+    })();
+    arenaAdapters.set(model, adapterPromise);
+  }
+  return adapterPromise;
+}
+
+/**
+ * Run `fn` against the model's sub-account
+ */
+export async function runInArenaAccount<T>(model: ModelType, fn: () => Promise<T>): Promise<T> {
+  const adapter = await getArenaExchangeAdapter(model);
+  return runWithExchangeAdapter(adapter, fn);
+}
+
+/**
+ * One arena round: every configured model decides and trades on its own sub-account.
+ * A failing model does not stop the others.
+ */
+export async function runArena(): Promise<ArenaRunResult[]> {
+  const { models, initialBalance } = getArenaConfig();
+  if (models.length === 0) {
+    throw new Error("Arena is disabled: set ARENA_MODELS");
+  }
+
+  console.log(`🏟️ Arena round: ${models.join(", ")}`);
+
+  return Promise.all(
+    models.map(async (model): Promise<ArenaRunResult> => {
+      const startTime = Date.now();
+      try {
+        await runInArenaAccount(model, () => run(initialBalance, model, getArenaAccountName(model)));
+        return { model, success: true, durationMs: Date.now() - startTime };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`❌ [Arena] ${model} failed: ${message}`);
+        return { model, success: false, durationMs: Date.now() - startTime, error: message };
+      }
+    })
+  );
+}
+
+/**
+ * Append one metric snapshot per model sub-account (open limit entries, the order ledger, trailing stops and exit rules are processed first)
+ * @returns snapshot id per model
+ */
+export async function recordArenaMetrics(): Promise<Record<string, string>> {
+  const { models, initialBalance } = getArenaConfig();
+  const snapshotIds: Record<string, string> = {};
+
+  for (const model of models) {
+    const accountInformationAndPerformance = await runInArenaAccount(model, async () => {
+      await runOrderMaintenance({ model, series: getArenaAccountName(model) }, `[Arena] ${model}`);
+      return getAccountInformationAndPerformance(initialBalance);
+    });
+    snapshotIds[model] = await appendMetrics(model, getArenaAccountName(model), accountInformationAndPerformance);
+  }
+
+  return snapshotIds;
+}
@@ -0,0 +1,109 @@
+/**
+ * Arena leaderboard: rank model sub-accounts by equity
+ */
+
+import { ModelType, Opeartion } from "@prisma/client";
+import { prisma } from "../prisma";
+import { getAccountInformationAndPerformance } from "../trading/account-information-and-performance";
+import { getEquitySeries } from "../trading/metrics-history";
+import { getArenaAccountName, getArenaConfig, runInArenaAccount } from "./arena";
+
+export interface ArenaLeaderboardEntry {
+  rank: number;
+  model: ModelType;
+  accountName: string;
+  equity: number; // 钱包余额 + 未实现盈亏
+  walletBalance: number;
+  availableCash: number;
+  unrealizedPnl: number;
+  totalReturnPercent: number;
+  maxDrawdownPercent: number; // 基于指标快照序列
+  openPositions: number;
+  decisions: number; // 该子账户的 Chat 条数
+  entries: number;
+  closes: number;
+  lastDecisionAt: string | null;
+  error?: string; // 子账户查询失败时的错误信息
+}
+
+const ENTRY_OPERATIONS = [Opeartion.Buy, Opeartion.OpenLong, Opeartion.OpenShort];
+const CLOSE_OPERATIONS = [Opeartion.Sell, Opeartion.Close];
+
+/**
+ * Max drawdown (%) of a metric snapshot series
+ */
+function getSeriesMaxDrawdownPercent(points: Array<{ equity: number }>): number {
+  let peak = 0;
+  let maxDrawdown = 0;
+  for (const { equity } of points) {
+    peak = Math.max(peak, equity);
+    if (peak > 0) {
+      maxDrawdown = Math.max(maxDrawdown, (peak - equity) / peak);
+    }
+  }
+  return maxDrawdown * 100;
+}
+
+export async function getArenaLeaderboard(): Promise<ArenaLeaderboardEntry[]> {
+  const { models, initialBalance } = getArenaConfig();
+
+  const entries = await Promise.all(
+    models.map(async (model): Promise<Omit<ArenaLeaderboardEntry, "rank">> => {
+      const accountName = getArenaAccountName(model);
+
+      // 与盈亏一样只统计竞技场子账户：同一模型的单模型运行记在 live-trading 账户下
+      const chatWhere = { model, account: accountName };
+      const [decisions, entryCount, closeCount, lastChat, equitySeries] = await Promise.all([
+        prisma.chat.count({ where: chatWhere }),
+        prisma.trading.count({ where: { Chat: chatWhere, opeartion: { in: ENTRY_OPERATIONS } } }),
+        prisma.trading.count({ where: { Chat: chatWhere, opeartion: { in: CLOSE_OPERATIONS } } }),
+        prisma.chat.findFirst({ where: chatWhere, orderBy: { createdAt: "desc" }, select: { createdAt: true } }),
+        getEquitySeries({ model, series: accountName }),
+      ]);
+
+      const base = {
+        model,
+        accountName,
+        decisions,
+        entries: entryCount,
+        closes: closeCount,
+        lastDecisionAt: lastChat?.createdAt.toISOString() || null,
+        maxDrawdownPercent: getSeriesMaxDrawdownPercent(equitySeries),
+      };
+
+      try {
+        const account = await runInArenaAccount(model, () => getAccountInformationAndPerformance(initialBalance));
+        const unrealizedPnl = account.positions.reduce(
+          (sum: number, p: { unrealizedPnl?: number }) => sum + (p.unrealizedPnl || 0),
+          0
+        );
+        const equity = account.totalCashValue + unrealizedPnl;
+        return {
+          ...base,
+          equity,
+          walletBalance: account.totalCashValue,
+          availableCash: account.availableCash,
+          unrealizedPnl,
+          totalReturnPercent: initialBalance > 0 ? ((equity - initialBalance) / initialBalance) * 100 : 0,
+          openPositions: account.positions.length,
+        };
+      } catch (error) {
+        console.error(`❌ [Arena] Failed to load ${accountName}:`, error);
+        return {
+          ...base,
+          equity: 0,
+          walletBalance: 0,
+          availableCash: 0,
+          unrealizedPnl: 0,
+          totalReturnPercent: 0,
+          openPositions: 0,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    })
+  );
+
+  return entries
+    .sort((a, b) => b.equity - a.equity)
+    .map((entry, index) => ({ rank: index + 1, ...entry }));
+}
@@ -0,0 +1,183 @@
+/**
+ * Decision providers for backtesting
+ * 回测中替代 run() 的 LLM 调用：真实模型 / 录制回放 / 确定性规则
+ */
+
+import { readFile } from "fs/promises";
+import { generateObject, type LanguageModel } from "ai";
+import { Opeartion } from "@prisma/client";
+import { deepseek } from "../ai/model";
+import { createDecisionsSchema, type TradingDecision } from "../ai/decision-schema";
+import type { MarketState } from "../trading/current-market-state";
+import type { AccountInformationAndPerformance } from "../trading/account-information-and-performance";
+import { getAtrStopLossTakeProfitPercent } from "../trading/stop-loss-take-profit-official";
+
+export interface DecisionContext {
+    time: Date;
+    systemPrompt: string;
+    userPrompt: string;
+    symbols: string[]; // 可交易币种（不带 USDT）
+    marketStates: Array<{ symbol: string; state: MarketState }>;
+    account: AccountInformationAndPerformance;
+}
+
+export interface DecisionProvider {
+    name: string;
+    /**
+     * Raw response, validated by the engine with createDecisionsSchema(symbols).
+     * Return null to skip this step (no decision recorded).
+     */
+    decide(context: DecisionContext): Promise<unknown | null>;
+}
+
+export interface RecordedDecision {
+    time: string; // ISO timestamp of the decision step
+    response: unknown;
+}
+
+/**
+ * Real model (deepseek-chat by default) with the same prompts and schema as run()
+ */
+export function createLLMDecisionProvider(
+    model: LanguageModel = deepseek,
+    timeoutMs = 120000
+): DecisionProvider {
+    return {
+        name: "llm",
+        async decide({ systemPrompt, userPrompt, symbols }) {
+            const result = await generateObject({
+                model,
+                system: systemPrompt,
+                prompt: userPrompt,
+                schema: createDecisionsSchema(symbols),
+                abortSignal: AbortSignal.timeout(timeoutMs),
+            });
+            return result.object;
+        },
+    };
+}
+
+/**
+ * Replay recorded responses (e.g. saved from a previous LLM backtest with --record).
+ * 每个回测步使用时间不晚于当前步、且尚未使用过的最新一条记录
+ */
+export function createRecordedDecisionProvider(records: RecordedDecision[]): DecisionProvider {
+    const sorted = records
+        .map((record) => ({ ...record, timestamp: new Date(record.time).getTime() }))
+        .sort((a, b) => a.timestamp - b.timestamp);
+    let cursor = 0;
+
+    return {
+        name: "recorded",
+        async decide({ time }) {
+            let match: (typeof sorted)[number] | null = null;
+            while (cursor < sorted.length && sorted[cursor].timestamp <= time.getTime()) {
+                match = sorted[cursor];
+                cursor++;
+            }
+            return match ? match.response : null;
+        },
+    };
+}
+
+export async function loadRecordedDecisions(path: string): Promise<RecordedDecision[]> {
+    const content = await readFile(path, "utf-8");
+    const records = JSON.parse(content);
+    if (!Array.isArray(records)) {
+        throw new Error(`Recorded decisions file must contain a JSON array: ${path}`);
+    }
+    return records as RecordedDecision[];
+}
+
+export interface RuleBasedOptions {
+    riskPercent: number; // 每笔风险占权益百分比
+    leverage: number;
+    maxMarginPercent: number; // 单笔最多占用可用资金百分比
+}
+
+/**
+ * Deterministic trend-following stand-in (shorts mirror longs):
+ * - Long entry: price > 4h EMA20 > 4h EMA50, 1m MACD > 0, 1m RSI(7) < 70
+ * - Long exit: price < 4h EMA20 or 4h RSI(14) > 75
+ * - Size: risk-based, stop = 1.5×ATR (same default as setStopLossTakeProfit)
+ */
+export function createRuleBasedDecisionProvider(
+    options: Partial<RuleBasedOptions> = {}
+): DecisionProvider {
+    const { riskPercent = 1, leverage = 10, maxMarginPercent = 20 } = options;
+
+    return {
+        name: "rule-based",
+        async decide({ marketStates, account }) {
+            const equity = account.totalCashValue + account.positions.reduce(
+                (sum: number, p: { unrealizedPnl?: number }) => sum + (p.unrealizedPnl || 0),
+                0
+            );
+
+            const decisions: TradingDecision[] = marketStates.slice(0, 5).map(({ symbol, state }) => {
+                const baseSymbol = symbol.split("/")[0];
+                const price = state.current_price;
+                const { ema_20, ema_50 } = state.longer_term;
+                const rsi4h = state.longer_term.rsi_14[state.longer_term.rsi_14.length - 1] ?? 50;
+                const candles15m = state.kline_data.minute_15;
+
+                const trend = price > ema_20 && ema_20 > ema_50
+                    ? "bullish"
+                    : price < ema_20 && ema_20 < ema_50
+                        ? "bearish"
+                        : "neutral";
+
+                const prediction: TradingDecision["prediction"] = {
+                    short_term_trend: trend,
+                    confidence: "medium",
+                    key_levels: {
+                        support: candles15m.length > 0 ? Math.min(...candles15m.map((k) => k.low)) : price,
+                        resistance: candles15m.length > 0 ? Math.max(...candles15m.map((k) => k.high)) : price,
+                    },
+                    analysis: `4h EMA20 ${ema_20.toFixed(2)} / EMA50 ${ema_50.toFixed(2)}, RSI ${rsi4h.toFixed(1)}`,
+                };
+
+                const position = account.positions.find(
+                    (p: { symbol: string; side: string }) => p.symbol === symbol.replace("/", "")
+                );
+
+                if (position) {
+                    const isLong = position.side === "long";
+                    const trendBroken = isLong ? price < ema_20 : price > ema_20;
+                    const exhausted = isLong ? rsi4h > 75 : rsi4h < 25;
+                    if (trendBroken || exhausted) {
+                        return {
+                            opeartion: Opeartion.Close,
+                            symbol: baseSymbol,
+                            sell: { percentage: 100, positionSide: isLong ? "LONG" : "SHORT" },
+                            prediction,
+                            chat: trendBroken ? "Price crossed 4h EMA20 against the position, exit" : "4h RSI stretched, take profit",
+                        };
+                    }
+                    return { opeartion: Opeartion.Hold, symbol: baseSymbol, prediction, chat: "Trend intact, hold" };
+                }
+
+                const longEntry = trend === "bullish" && state.current_macd > 0 && state.current_rsi < 70;
+                const shortEntry = trend === "bearish" && state.current_macd < 0 && state.current_rsi > 30;
+                if ((!longEntry && !shortEntry) || price <= 0) {
+                    return { opeartion: Opeartion.Hold, symbol: baseSymbol, prediction, chat: "No setup" };
+                }
+
+                const { stopLossPercent, takeProfitPercent } = getAtrStopLossTakeProfitPercent(state, price);
+                const riskNotional = (equity * riskPercent / 100) / (stopLossPercent / 100);
+                const maxNotional = account.availableCash * (maxMarginPercent / 100) * leverage;
+                const amount = Math.min(riskNotional, maxNotional) / price;
+
+                return {
+                    opeartion: longEntry ? Opeartion.OpenLong : Opeartion.OpenShort,
+                    symbol: baseSymbol,
+                    buy: { pricing: price, amount, leverage, stopLossPercent, takeProfitPercent },
+                    prediction: { ...prediction, confidence: "high" },
+                    chat: `Trend entry: price ${longEntry ? "above rising" : "below falling"} 4h EMAs, SL ${stopLossPercent.toFixed(2)}% / TP ${takeProfitPercent.toFixed(2)}%`,
+                };
+            });
+
+            return { decisions };
+        },
+    };
+}
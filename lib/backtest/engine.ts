@@ -0,0 +1,344 @@
+/**
+ * Historical backtesting engine
+ * 按 run() 的同一条流水线回放存储的K线：指标 → 用户提示词 → 决策 schema 校验 → 风控 → 下单 → 止盈止损
+ * 账户为内存模拟账户，LLM 可替换为录制回放或规则策略（见 decision-providers）
+ */
+
+import { Opeartion } from "@prisma/client";
+import { generateUserPrompt, getTradingPrompt } from "../ai/prompt";
+import { createDecisionsSchema, getEntrySide, isCloseOperation } from "../ai/decision-schema";
+import { buildMarketState, type MarketState } from "../trading/current-market-state";
+import { getRiskConfig, type RiskConfig } from "../trading/risk-control";
+import { createPortfolioRiskEngine, updateRiskState, type RiskRule, type RiskState } from "../trading/portfolio-risk";
+import {
+    getAtrStopLossTakeProfitPercent,
+    getStopLossTakeProfitPrices,
+} from "../trading/stop-loss-take-profit-official";
+import { getPaperExchangeConfig } from "../trading/paper-exchange";
+import { toExchangeSymbol, type OhlcvRow } from "../trading/exchange-adapter";
+import { getIntervalMs, loadKlines } from "./kline-store";
+import { createSimulatedAccount, type BacktestTrade, type SimulatedAccountConfig } from "./simulated-account";
+import { computeBacktestStats, type BacktestStats, type EquityPoint } from "./stats";
+import type { DecisionProvider, RecordedDecision } from "./decision-providers";
+
+const CANDLES_PER_INTERVAL = 100; // 与 getCurrentMarketState 一致
+const STATE_INTERVALS = ["1m", "15m", "4h"] as const;
+
+export interface BacktestConfig {
+    symbols: string[]; // e.g. ["BTC/USDT", "ETH/USDT"]
+    startTime: Date;
+    endTime: Date;
+    stepMinutes?: number; // 决策间隔，默认 3 分钟（与 cron 一致）
+    initialCapital?: number;
+    decisionProvider: DecisionProvider;
+    account?: Partial<Omit<SimulatedAccountConfig, "initialCapital">>;
+    riskConfig?: RiskConfig;
+}
+
+export interface BacktestResult {
+    provider: string;
+    symbols: string[];
+    startTime: string;
+    endTime: string;
+    stepMinutes: number;
+    steps: number;
+    skippedSteps: number; // 决策源未返回结果（如录制数据缺失）
+    invalidResponses: number; // 未通过 decisionsSchema 校验或调用失败
+    blockedEntries: Partial<Record<RiskRule, number>>; // 被组合风控拦截的开仓，按规则计数
+    stats: BacktestStats;
+    equityCurve: EquityPoint[];
+    trades: BacktestTrade[];
+    responses: RecordedDecision[]; // 可直接作为录制回放的输入
+}
+
+/**
+ * Index of the first row whose openTime is greater than `time`
+ */
+function upperBound(rows: OhlcvRow[], time: number): number {
+    let lo = 0;
+    let hi = rows.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (rows[mid][0] <= time) {
+            lo = mid + 1;
+        } else {
+            hi = mid;
+        }
+    }
+    return lo;
+}
+
+/**
+ * Last `count` candles that had fully closed at `time` (no look-ahead)
+ */
+function closedCandles(rows: OhlcvRow[], intervalMs: number, time: number, count: number): OhlcvRow[] {
+    const end = upperBound(rows, time - intervalMs);
+    return rows.slice(Math.max(0, end - count), end);
+}
+
+export async function runBacktest(config: BacktestConfig): Promise<BacktestResult> {
+    const paperConfig = getPaperExchangeConfig();
+    const riskConfig = config.riskConfig ?? getRiskConfig();
+    const initialCapital = config.initialCapital ?? paperConfig.initialBalance;
+    const stepMinutes = config.stepMinutes ?? 3;
+    const stepMs = stepMinutes * 60_000;
+    const startMs = config.startTime.getTime();
+    const endMs = config.endTime.getTime();
+
+    if (endMs <= startMs) {
+        throw new Error("Backtest endTime must be after startTime");
+    }
+
+    const account = createSimulatedAccount({
+        initialCapital,
+        takerFeeRate: config.account?.takerFeeRate ?? paperConfig.takerFeeRate,
+        slippageBps: config.account?.slippageBps ?? paperConfig.slippageBps,
+        maintenanceMarginRate: config.account?.maintenanceMarginRate ?? paperConfig.maintenanceMarginRate,
+        positionMode: config.account?.positionMode ?? paperConfig.positionMode,
+    });
+
+    // 加载K线（含指标预热区间）
+    const candles: Record<string, Record<string, OhlcvRow[]>> = {};
+    for (const symbol of config.symbols) {
+        candles[symbol] = {};
+        for (const interval of STATE_INTERVALS) {
+            const warmupMs = getIntervalMs(interval) * CANDLES_PER_INTERVAL;
+            const rows = await loadKlines(symbol, interval, new Date(startMs - warmupMs), config.endTime);
+            if (rows.length === 0) {
+                throw new Error(`No stored ${interval} klines for ${symbol}; run the kline sync first`);
+            }
+            candles[symbol][interval] = rows;
+        }
+    }
+
+    const oneMinuteMs = getIntervalMs("1m");
+    const baseSymbols = config.symbols.map((s) => s.split("/")[0]);
+    const tradingPrompt = getTradingPrompt(baseSymbols);
+    const decisionsSchema = createDecisionsSchema(baseSymbols);
+
+    // 每个币种下一根待检查止盈止损的1分钟K线
+    const nextCandleIndex: Record<string, number> = {};
+    for (const symbol of config.symbols) {
+        nextCandleIndex[symbol] = upperBound(candles[symbol]["1m"], startMs - oneMinuteMs);
+    }
+
+    const equityCurve: EquityPoint[] = [];
+    const responses: RecordedDecision[] = [];
+    let steps = 0;
+    let skippedSteps = 0;
+    let invalidResponses = 0;
+    const blockedEntries: Partial<Record<RiskRule, number>> = {};
+    let riskState: RiskState | null = null;
+    let prices: Record<string, number> = {};
+
+    console.log(`🔁 Backtest ${config.symbols.join(", ")} ${config.startTime.toISOString()} → ${config.endTime.toISOString()} (${config.decisionProvider.name}, every ${stepMinutes}m)`);
+
+    for (let time = startMs; time <= endMs; time += stepMs) {
+        steps++;
+        const now = new Date(time);
+
+        // 1) 回放上一步到当前时刻之间已收盘的1分钟K线：强平 / 止损 / 止盈
+        for (const symbol of config.symbols) {
+            const rows = candles[symbol]["1m"];
+            const exchangeSymbol = toExchangeSymbol(symbol);
+            while (nextCandleIndex[symbol] < rows.length && rows[nextCandleIndex[symbol]][0] + oneMinuteMs <= time) {
+                account.processCandle(exchangeSymbol, rows[nextCandleIndex[symbol]]);
+                nextCandleIndex[symbol]++;
+            }
+        }
+
+        // 2) 构建市场状态（只使用已收盘K线）
+        const marketStates: Array<{ symbol: string; state: MarketState }> = [];
+        for (const symbol of config.symbols) {
+            const [ohlcv1m, ohlcv15m, ohlcv4h] = STATE_INTERVALS.map((interval) =>
+                closedCandles(candles[symbol][interval], getIntervalMs(interval), time, CANDLES_PER_INTERVAL)
+            );
+            if (ohlcv1m.length === 0 || ohlcv15m.length === 0 || ohlcv4h.length === 0) {
+                continue;
+            }
+            const state = buildMarketState({ ohlcv1m, ohlcv15m, ohlcv4h });
+            marketStates.push({ symbol, state });
+            prices = { ...prices, [toExchangeSymbol(symbol)]: state.current_price };
+        }
+
+        const recordEquity = () => {
+            equityCurve.push({
+                time: now.toISOString(),
+                equity: account.getEquity(prices),
+                walletBalance: account.getWalletBalance(),
+                openPositions: account.getPositionCount(),
+            });
+        };
+
+        if (marketStates.length === 0) {
+            skippedSteps++;
+            recordEquity();
+            continue;
+        }
+
+        // 3) 与 run() 相同的提示词和决策校验
+        const accountInformationAndPerformance = account.getAccountInformation(prices, initialCapital);
+        const userPrompt = await generateUserPrompt({
+            marketStates,
+            accountInformationAndPerformance,
+            startTime: now,
+            currentTime: now,
+            includeLearningFeedback: false,
+        });
+
+        let response: unknown | null;
+        try {
+            response = await config.decisionProvider.decide({
+                time: now,
+                systemPrompt: tradingPrompt,
+                userPrompt,
+                symbols: baseSymbols,
+                marketStates,
+                account: accountInformationAndPerformance,
+            });
+        } catch (error) {
+            console.warn(`⚠️ ${now.toISOString()} decision failed:`, error instanceof Error ? error.message : error);
+            invalidResponses++;
+            recordEquity();
+            continue;
+        }
+
+        if (response == null) {
+            skippedSteps++;
+            recordEquity();
+            continue;
+        }
+
+        const parsed = decisionsSchema.safeParse(response);
+        if (!parsed.success) {
+            console.warn(`⚠️ ${now.toISOString()} response failed schema validation`);
+            invalidResponses++;
+            recordEquity();
+            continue;
+        }
+        responses.push({ time: now.toISOString(), response });
+
+        // 4) 风控：与 run() 相同的组合风控（日初权益 / 回撤熔断按回放时间推进）
+        const equity = account.getEquity(prices);
+        riskState = updateRiskState(riskState, equity, time, riskConfig);
+        const riskEngine = createPortfolioRiskEngine({
+            config: riskConfig,
+            state: riskState,
+            portfolio: {
+                equity,
+                availableCash: accountInformationAndPerformance.availableCash,
+                positions: accountInformationAndPerformance.positions,
+            },
+            now: time,
+        });
+
+        // 5) 执行决策
+        for (const decision of parsed.data.decisions) {
+            const tradingSymbol = `${decision.symbol}/USDT`;
+            const exchangeSymbol = toExchangeSymbol(tradingSymbol);
+            const stateEntry = marketStates.find((m) => m.symbol === tradingSymbol);
+            if (!stateEntry) {
+                continue;
+            }
+            const price = stateEntry.state.current_price;
+
+            const entrySide = getEntrySide(decision.opeartion);
+            if (entrySide) {
+                if (!decision.buy) {
+                    continue;
+                }
+                const { amount, pricing, leverage, stopLossPercent, takeProfitTargets } = decision.buy;
+                // 模拟账户只有一个止盈价：分批止盈按最远一档回测
+                const takeProfitPercent = decision.buy.takeProfitPercent
+                    ?? (takeProfitTargets?.length ? Math.max(...takeProfitTargets.map((t) => t.percent)) : undefined);
+                // 与 buy() 相同：未给出百分比时使用 ATR 推导的默认止盈止损
+                const percents = stopLossPercent == null && takeProfitPercent == null
+                    ? getAtrStopLossTakeProfitPercent(stateEntry.state, price)
+                    : { stopLossPercent, takeProfitPercent };
+                const entryOrder = {
+                    symbol: decision.symbol,
+                    side: entrySide,
+                    amount,
+                    price: pricing,
+                    leverage,
+                    stopLossPercent: percents.stopLossPercent,
+                };
+                const verdict = riskEngine.checkEntry(entryOrder);
+                if (!verdict.allowed) {
+                    blockedEntries[verdict.rule!] = (blockedEntries[verdict.rule!] || 0) + 1;
+                    continue;
+                }
+
+                const fill = account.open({
+                    symbol: exchangeSymbol,
+                    side: entrySide,
+                    quantity: amount,
+                    price,
+                    leverage,
+                    time,
+                });
+                if (!fill.success) {
+                    continue;
+                }
+                riskEngine.commitEntry(entryOrder);
+
+                const position = account.getPositionInfo(exchangeSymbol, entrySide);
+                if (position) {
+                    const { stopLoss, takeProfit } = getStopLossTakeProfitPrices({
+                        entryPrice: position.entryPrice,
+                        isLong: position.side === "LONG",
+                        ...percents,
+                    });
+                    account.setStopLossTakeProfit(exchangeSymbol, stopLoss, takeProfit, entrySide);
+                }
+                continue;
+            }
+
+            if (isCloseOperation(decision.opeartion)) {
+                if (decision.sell?.percentage != null) {
+                    account.reduce(exchangeSymbol, decision.sell.percentage, price, time, decision.sell.positionSide);
+                }
+                continue;
+            }
+
+            if (decision.opeartion === Opeartion.Hold && decision.adjustProfit) {
+                const { stopLoss, takeProfit, positionSide } = decision.adjustProfit;
+                if (stopLoss != null || takeProfit != null) {
+                    account.setStopLossTakeProfit(exchangeSymbol, stopLoss, takeProfit, positionSide);
+                }
+            }
+        }
+
+        recordEquity();
+    }
+
+    // 回测结束：按最后价格平掉剩余持仓
+    account.closeAll(prices, endMs);
+    equityCurve.push({
+        time: config.endTime.toISOString(),
+        equity: account.getWalletBalance(),
+        walletBalance: account.getWalletBalance(),
+        openPositions: 0,
+    });
+
+    const trades = account.getTrades();
+    const stats = computeBacktestStats(initialCapital, equityCurve, trades);
+
+    console.log(`✅ Backtest done: ${steps} steps, ${trades.length} trades, return ${stats.totalReturnPercent.toFixed(2)}%, max DD ${stats.maxDrawdownPercent.toFixed(2)}%`);
+
+    return {
+        provider: config.decisionProvider.name,
+        symbols: config.symbols,
+        startTime: config.startTime.toISOString(),
+        endTime: config.endTime.toISOString(),
+        stepMinutes,
+        steps,
+        skippedSteps,
+        invalidResponses,
+        blockedEntries,
+        stats,
+        equityCurve,
+        trades,
+        responses,
+    };
+}
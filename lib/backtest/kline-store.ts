@@ -0,0 +1,107 @@
+/**
+ * Historical kline storage for backtesting
+ * 从交易所公共接口分页下载K线写入 Kline 表，回测时按时间区间读取
+ */
+
+import { prisma } from "../prisma";
+import { getExchangeAdapter, toExchangeSymbol, type OhlcvRow } from "../trading/exchange-adapter";
+
+const PAGE_LIMIT = 1500; // Binance /fapi/v1/klines 单次最大条数
+
+export const INTERVAL_MS: Record<string, number> = {
+    "1m": 60_000,
+    "3m": 3 * 60_000,
+    "5m": 5 * 60_000,
+    "15m": 15 * 60_000,
+    "30m": 30 * 60_000,
+    "1h": 60 * 60_000,
+    "4h": 4 * 60 * 60_000,
+    "1d": 24 * 60 * 60_000,
+};
+
+export function getIntervalMs(interval: string): number {
+    const ms = INTERVAL_MS[interval];
+    if (!ms) {
+        throw new Error(`Unsupported kline interval: ${interval}`);
+    }
+    return ms;
+}
+
+/**
+ * Download klines for [startTime, endTime] and store them (existing rows are skipped)
+ * @returns Number of newly inserted rows
+ */
+export async function syncKlines(
+    symbol: string,
+    interval: string,
+    startTime: Date,
+    endTime: Date
+): Promise<number> {
+    const exchange = await getExchangeAdapter();
+    const exchangeSymbol = toExchangeSymbol(symbol);
+    const intervalMs = getIntervalMs(interval);
+
+    let cursor = startTime.getTime();
+    let inserted = 0;
+
+    while (cursor <= endTime.getTime()) {
+        const rows = await exchange.getKlines(exchangeSymbol, interval, PAGE_LIMIT, {
+            startTime: cursor,
+            endTime: endTime.getTime(),
+        });
+        if (rows.length === 0) {
+            break;
+        }
+
+        const result = await prisma.kline.createMany({
+            data: rows.map(([openTime, open, high, low, close, volume]) => ({
+                symbol: exchangeSymbol,
+                interval,
+                openTime: new Date(openTime),
+                open,
+                high,
+                low,
+                close,
+                volume,
+            })),
+            skipDuplicates: true,
+        });
+        inserted += result.count;
+
+        cursor = rows[rows.length - 1][0] + intervalMs;
+        if (rows.length < PAGE_LIMIT) {
+            break;
+        }
+    }
+
+    console.log(`📥 ${exchangeSymbol} ${interval}: stored ${inserted} new klines`);
+    return inserted;
+}
+
+/**
+ * Load stored klines for [startTime, endTime] ordered by open time
+ */
+export async function loadKlines(
+    symbol: string,
+    interval: string,
+    startTime: Date,
+    endTime: Date
+): Promise<OhlcvRow[]> {
+    const rows = await prisma.kline.findMany({
+        where: {
+            symbol: toExchangeSymbol(symbol),
+            interval,
+            openTime: { gte: startTime, lte: endTime },
+        },
+        orderBy: { openTime: "asc" },
+    });
+
+    return rows.map((row) => [
+        row.openTime.getTime(),
+        row.open,
+        row.high,
+        row.low,
+        row.close,
+        row.volume,
+    ]);
+}
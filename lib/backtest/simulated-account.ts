@@ -0,0 +1,346 @@
+/**
+ * In-memory futures account for backtesting
+ * 与 paper-exchange 相同的撮合假设（市价滑点、taker 手续费、逐仓强平估算），但不落库
+ */
+
+import type { Position } from "../trading/positions";
+import type { AccountInformationAndPerformance } from "../trading/account-information-and-performance";
+import type { OhlcvRow, PositionMode } from "../trading/exchange-adapter";
+
+export type SimulatedPositionSide = "LONG" | "SHORT";
+
+export type ExitReason = "signal" | "stop_loss" | "take_profit" | "liquidation" | "end_of_test";
+
+export interface SimulatedAccountConfig {
+    initialCapital: number;
+    takerFeeRate: number;
+    slippageBps: number;
+    maintenanceMarginRate: number;
+    positionMode: PositionMode; // DUAL_SIDE 允许同一币种同时持有多空
+}
+
+interface SimulatedPosition {
+    symbol: string; // Exchange format, e.g. BTCUSDT
+    side: SimulatedPositionSide;
+    quantity: number;
+    entryPrice: number;
+    leverage: number;
+    margin: number;
+    entryFees: number; // 尚未分摊到已平仓部分的开仓手续费
+    openedAt: number;
+    stopLoss?: number;
+    takeProfit?: number;
+}
+
+export interface BacktestTrade {
+    symbol: string;
+    side: SimulatedPositionSide;
+    quantity: number;
+    entryPrice: number;
+    exitPrice: number;
+    leverage: number;
+    openedAt: string;
+    closedAt: string;
+    pnl: number; // 扣除开平仓手续费后的净盈亏
+    pnlPercent: number; // 相对占用保证金
+    fees: number;
+    exitReason: ExitReason;
+}
+
+// formatAccountPerformance() 会读取 stopLossPrice / takeProfitPrice
+export type SimulatedPositionSnapshot = Position & {
+    stopLossPrice?: number;
+    takeProfitPrice?: number;
+};
+
+export interface FillResult {
+    success: boolean;
+    executedPrice?: number;
+    executedQty?: number;
+    error?: string;
+}
+
+/**
+ * Create an in-memory account. All prices are supplied by the caller (replayed candles).
+ */
+export function createSimulatedAccount(config: SimulatedAccountConfig) {
+    let walletBalance = config.initialCapital;
+    const positions = new Map<string, SimulatedPosition>(); // key: `${symbol}:${side}`
+    const positionKey = (symbol: string, side: SimulatedPositionSide) => `${symbol}:${side}`;
+
+    /**
+     * 按币种（和可选方向）查找持仓；同时持有多空且未指定方向时返回错误
+     */
+    const findPosition = (
+        symbol: string,
+        side?: SimulatedPositionSide
+    ): { position?: SimulatedPosition; error?: string } => {
+        const matches = Array.from(positions.values()).filter(
+            (p) => p.symbol === symbol && (!side || p.side === side)
+        );
+        if (matches.length === 0) {
+            return { error: `No open ${side ? `${side} ` : ""}position for ${symbol}` };
+        }
+        if (matches.length > 1) {
+            return { error: `Both LONG and SHORT positions are open for ${symbol}; specify positionSide` };
+        }
+        return { position: matches[0] };
+    };
+    const trades: BacktestTrade[] = [];
+
+    const withSlippage = (price: number, isBuy: boolean) =>
+        price * (1 + ((isBuy ? 1 : -1) * config.slippageBps) / 10000);
+
+    const unrealizedPnl = (position: SimulatedPosition, price: number) =>
+        (price - position.entryPrice) * position.quantity * (position.side === "LONG" ? 1 : -1);
+
+    const liquidationPrice = (position: SimulatedPosition) => {
+        const marginPerUnit = position.margin / position.quantity;
+        return position.side === "LONG"
+            ? Math.max(0, (position.entryPrice - marginPerUnit) / (1 - config.maintenanceMarginRate))
+            : (position.entryPrice + marginPerUnit) / (1 + config.maintenanceMarginRate);
+    };
+
+    const usedMargin = () =>
+        Array.from(positions.values()).reduce((sum, p) => sum + p.margin, 0);
+
+    const getEquity = (prices: Record<string, number>) =>
+        walletBalance +
+        Array.from(positions.values()).reduce(
+            (sum, p) => sum + unrealizedPnl(p, prices[p.symbol] ?? p.entryPrice),
+            0
+        );
+
+    /**
+     * 平掉 quantity 数量（成交价已含滑点），记录一笔 BacktestTrade
+     */
+    const closeQuantity = (
+        position: SimulatedPosition,
+        quantity: number,
+        exitPrice: number,
+        time: number,
+        exitReason: ExitReason
+    ) => {
+        const qty = Math.min(quantity, position.quantity);
+        const ratio = qty / position.quantity;
+        const grossPnl = (exitPrice - position.entryPrice) * qty * (position.side === "LONG" ? 1 : -1);
+        const exitFee = exitReason === "liquidation" ? 0 : qty * exitPrice * config.takerFeeRate;
+        const entryFee = position.entryFees * ratio;
+        const releasedMargin = position.margin * ratio;
+
+        // 强平时最多亏掉该部分保证金
+        const realized = exitReason === "liquidation" ? Math.max(grossPnl, -releasedMargin) : grossPnl;
+
+        walletBalance += realized - exitFee;
+
+        const pnl = realized - exitFee - entryFee;
+        trades.push({
+            symbol: position.symbol,
+            side: position.side,
+            quantity: qty,
+            entryPrice: position.entryPrice,
+            exitPrice,
+            leverage: position.leverage,
+            openedAt: new Date(position.openedAt).toISOString(),
+            closedAt: new Date(time).toISOString(),
+            pnl,
+            pnlPercent: releasedMargin > 0 ? (pnl / releasedMargin) * 100 : 0,
+            fees: exitFee + entryFee,
+            exitReason,
+        });
+
+        position.quantity -= qty;
+        position.margin -= releasedMargin;
+        position.entryFees -= entryFee;
+        if (position.quantity <= 1e-12) {
+            positions.delete(positionKey(position.symbol, position.side));
+        }
+    };
+
+    return {
+        getTrades: () => trades,
+        getWalletBalance: () => walletBalance,
+        getEquity,
+        getPositionCount: () => positions.size,
+
+        /**
+         * Market order that opens or increases a position.
+         * ONE_WAY 模式下存在反向持仓时拒绝（与 buy() 一致）
+         */
+        open(params: {
+            symbol: string;
+            side: SimulatedPositionSide;
+            quantity: number;
+            price: number;
+            leverage: number;
+            time: number;
+        }): FillResult {
+            const { symbol, side, quantity, price, leverage, time } = params;
+            const existing = positions.get(positionKey(symbol, side));
+            const opposite = positions.get(positionKey(symbol, side === "LONG" ? "SHORT" : "LONG"));
+            if (opposite && config.positionMode === "ONE_WAY") {
+                return { success: false, error: `Opposite ${opposite.side} position open for ${symbol} in ONE_WAY mode` };
+            }
+
+            const fillPrice = withSlippage(price, side === "LONG");
+            const margin = (quantity * fillPrice) / leverage;
+            const fee = quantity * fillPrice * config.takerFeeRate;
+            const available = walletBalance - usedMargin();
+            if (margin + fee > available) {
+                return {
+                    success: false,
+                    error: `Margin is insufficient: need $${(margin + fee).toFixed(2)}, available $${available.toFixed(2)}`,
+                };
+            }
+
+            walletBalance -= fee;
+            if (existing) {
+                const totalQty = existing.quantity + quantity;
+                existing.entryPrice = (existing.entryPrice * existing.quantity + fillPrice * quantity) / totalQty;
+                existing.quantity = totalQty;
+                existing.leverage = leverage;
+                existing.margin += margin;
+                existing.entryFees += fee;
+            } else {
+                positions.set(positionKey(symbol, side), {
+                    symbol,
+                    side,
+                    quantity,
+                    entryPrice: fillPrice,
+                    leverage,
+                    margin,
+                    entryFees: fee,
+                    openedAt: time,
+                });
+            }
+
+            return { success: true, executedPrice: fillPrice, executedQty: quantity };
+        },
+
+        /**
+         * Market order that reduces a position by percentage (reduce-only)
+         */
+        reduce(
+            symbol: string,
+            percentage: number,
+            price: number,
+            time: number,
+            side?: SimulatedPositionSide
+        ): FillResult {
+            const { position, error } = findPosition(symbol, side);
+            if (!position) {
+                return { success: false, error };
+            }
+            const quantity = position.quantity * Math.min(percentage, 100) / 100;
+            const fillPrice = withSlippage(price, position.side === "SHORT");
+            closeQuantity(position, quantity, fillPrice, time, "signal");
+            return { success: true, executedPrice: fillPrice, executedQty: quantity };
+        },
+
+        /**
+         * Replace SL/TP for a position (same semantics as setStopLossTakeProfit: old orders are cancelled)
+         */
+        setStopLossTakeProfit(
+            symbol: string,
+            stopLoss?: number,
+            takeProfit?: number,
+            side?: SimulatedPositionSide
+        ): boolean {
+            const { position } = findPosition(symbol, side);
+            if (!position) {
+                return false;
+            }
+            position.stopLoss = stopLoss;
+            position.takeProfit = takeProfit;
+            return true;
+        },
+
+        getPositionInfo(symbol: string, side: SimulatedPositionSide) {
+            const position = positions.get(positionKey(symbol, side));
+            return position ? { side: position.side, entryPrice: position.entryPrice, leverage: position.leverage } : null;
+        },
+
+        /**
+         * Check liquidation and SL/TP against one candle.
+         * 同一根K线内同时触及止损和止盈时按止损处理（保守假设）
+         */
+        processCandle(symbol: string, candle: OhlcvRow) {
+            const [openTime, , high, low] = candle;
+            for (const position of Array.from(positions.values())) {
+                if (position.symbol !== symbol) {
+                    continue;
+                }
+                const isLong = position.side === "LONG";
+
+                const liqPrice = liquidationPrice(position);
+                if (isLong ? low <= liqPrice : high >= liqPrice) {
+                    closeQuantity(position, position.quantity, liqPrice, openTime, "liquidation");
+                    continue;
+                }
+
+                // 多单止损在下方、止盈在上方；空单相反
+                if (position.stopLoss && (isLong ? low <= position.stopLoss : high >= position.stopLoss)) {
+                    const fillPrice = withSlippage(position.stopLoss, !isLong);
+                    closeQuantity(position, position.quantity, fillPrice, openTime, "stop_loss");
+                    continue;
+                }
+
+                if (position.takeProfit && (isLong ? high >= position.takeProfit : low <= position.takeProfit)) {
+                    const fillPrice = withSlippage(position.takeProfit, !isLong);
+                    closeQuantity(position, position.quantity, fillPrice, openTime, "take_profit");
+                }
+            }
+        },
+
+        closeAll(prices: Record<string, number>, time: number) {
+            for (const position of Array.from(positions.values())) {
+                const price = prices[position.symbol] ?? position.entryPrice;
+                closeQuantity(position, position.quantity, withSlippage(price, position.side === "SHORT"), time, "end_of_test");
+            }
+        },
+
+        /**
+         * Snapshot in the same shape as getAccountInformationAndPerformance()
+         */
+        getAccountInformation(prices: Record<string, number>, initialCapital: number): AccountInformationAndPerformance {
+            const activePositions: SimulatedPositionSnapshot[] = Array.from(positions.values()).map((p) => {
+                const markPrice = prices[p.symbol] ?? p.entryPrice;
+                const notional = p.quantity * markPrice;
+                return {
+                    symbol: p.symbol,
+                    side: p.side === "LONG" ? "long" : "short",
+                    contracts: p.quantity,
+                    contractSize: 1,
+                    entryPrice: p.entryPrice,
+                    markPrice,
+                    notional,
+                    leverage: p.leverage,
+                    unrealizedPnl: unrealizedPnl(p, markPrice),
+                    percentage: ((markPrice - p.entryPrice) / p.entryPrice) * 100 * (p.side === "LONG" ? 1 : -1),
+                    marginType: "isolated",
+                    liquidationPrice: liquidationPrice(p),
+                    initialMargin: p.margin,
+                    maintenanceMargin: notional * config.maintenanceMarginRate,
+                    stopLossPrice: p.stopLoss,
+                    takeProfitPrice: p.takeProfit,
+                };
+            });
+
+            const totalUnrealizedPnl = activePositions.reduce((sum, p) => sum + p.unrealizedPnl, 0);
+            const equity = walletBalance + totalUnrealizedPnl;
+            const currentTotalReturn = initialCapital > 0 ? (equity - initialCapital) / initialCapital : 0;
+
+            return {
+                currentPositionsValue: activePositions.reduce((sum, p) => sum + p.initialMargin + p.unrealizedPnl, 0),
+                contractValue: activePositions.reduce((sum, p) => sum + p.contracts, 0),
+                totalCashValue: walletBalance,
+                availableCash: Math.max(0, equity - usedMargin()),
+                currentTotalReturn,
+                positions: activePositions,
+                sharpeRatio: 0,
+            };
+        },
+    };
+}
+
+export type SimulatedAccount = ReturnType<typeof createSimulatedAccount>;
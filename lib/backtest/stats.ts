@@ -0,0 +1,65 @@
+/**
+ * Backtest summary statistics
+ */
+
+import type { BacktestTrade } from "./simulated-account";
+
+export interface EquityPoint {
+    time: string;
+    equity: number;
+    walletBalance: number;
+    openPositions: number;
+}
+
+export interface BacktestStats {
+    initialCapital: number;
+    finalEquity: number;
+    totalReturnPercent: number;
+    maxDrawdownPercent: number;
+    totalTrades: number;
+    wins: number;
+    losses: number;
+    winRatePercent: number;
+    profitFactor: number | null; // null 表示没有亏损交易（无穷大）
+    averageWin: number;
+    averageLoss: number;
+    totalFees: number;
+}
+
+export function computeBacktestStats(
+    initialCapital: number,
+    equityCurve: EquityPoint[],
+    trades: BacktestTrade[]
+): BacktestStats {
+    const finalEquity = equityCurve.length > 0 ? equityCurve[equityCurve.length - 1].equity : initialCapital;
+
+    // 最大回撤：相对历史最高权益的最大跌幅
+    let peak = initialCapital;
+    let maxDrawdown = 0;
+    for (const point of equityCurve) {
+        peak = Math.max(peak, point.equity);
+        if (peak > 0) {
+            maxDrawdown = Math.max(maxDrawdown, (peak - point.equity) / peak);
+        }
+    }
+
+    const winning = trades.filter((t) => t.pnl > 0);
+    const losing = trades.filter((t) => t.pnl <= 0);
+    const grossProfit = winning.reduce((sum, t) => sum + t.pnl, 0);
+    const grossLoss = Math.abs(losing.reduce((sum, t) => sum + t.pnl, 0));
+
+    return {
+        initialCapital,
+        finalEquity,
+        totalReturnPercent: initialCapital > 0 ? ((finalEquity - initialCapital) / initialCapital) * 100 : 0,
+        maxDrawdownPercent: maxDrawdown * 100,
+        totalTrades: trades.length,
+        wins: winning.length,
+        losses: losing.length,
+        winRatePercent: trades.length > 0 ? (winning.length / trades.length) * 100 : 0,
+        profitFactor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? null : 0,
+        averageWin: winning.length > 0 ? grossProfit / winning.length : 0,
+        averageLoss: losing.length > 0 ? -grossLoss / losing.length : 0,
+        totalFees: trades.reduce((sum, t) => sum + t.fees, 0),
+    };
+}
@@ -0,0 +1,192 @@
+/**
+ * Binance USDⓈ-M futures market stream client
+ * 组合流 /stream?streams=... 订阅 kline 与 markPrice，断线指数退避重连；订阅变化时重建连接
+ */
+
+import { WebSocket } from "undici";
+import { getProxyDispatcher } from "../trading/binance-adapter";
+import { getBinanceStreamUrl } from "../trading/binance-official";
+import type { OhlcvRow } from "../trading/exchange-adapter";
+
+const MIN_RECONNECT_DELAY_MS = 1_000;
+const MAX_RECONNECT_DELAY_MS = 30_000;
+const SUBSCRIBE_DEBOUNCE_MS = 50; // 合并同一时刻多个币种的订阅请求
+
+export interface StreamKline {
+    symbol: string; // BTCUSDT
+    interval: string;
+    row: OhlcvRow;
+    closed: boolean;
+    eventTime: number;
+}
+
+export interface StreamMarkPrice {
+    symbol: string;
+    markPrice: number;
+    fundingRate: number;
+    nextFundingTime: number;
+    eventTime: number;
+}
+
+export interface MarketStreamHandlers {
+    onKline(kline: StreamKline): void;
+    onMarkPrice(markPrice: StreamMarkPrice): void;
+    onOpen?(): void;
+    onClose?(): void;
+}
+
+export interface MarketStream {
+    /** Set the subscribed streams (reconnects when the set changes) */
+    subscribe(streams: string[]): void;
+    isConnected(): boolean;
+    close(): void;
+}
+
+interface CombinedMessage {
+    stream?: string;
+    data?: {
+        e?: string;
+        E?: number;
+        s?: string;
+        // markPriceUpdate
+        p?: string;
+        r?: string;
+        T?: number;
+        // kline
+        k?: { t: number; i: string; o: string; h: string; l: string; c: string; v: string; x: boolean };
+    };
+}
+
+export function getKlineStreamName(symbol: string, interval: string): string {
+    return `${symbol.toLowerCase()}@kline_${interval}`;
+}
+
+export function getMarkPriceStreamName(symbol: string): string {
+    return `${symbol.toLowerCase()}@markPrice@1s`;
+}
+
+/**
+ * Parse one combined-stream message into handler calls (unknown events are ignored)
+ */
+export function dispatchStreamMessage(raw: string, handlers: MarketStreamHandlers): void {
+    let message: CombinedMessage;
+    try {
+        message = JSON.parse(raw) as CombinedMessage;
+    } catch {
+        return;
+    }
+    const data = message.data;
+    if (!data?.s) return;
+
+    if (data.e === "kline" && data.k) {
+        const k = data.k;
+        handlers.onKline({
+            symbol: data.s,
+            interval: k.i,
+            row: [k.t, Number(k.o), Number(k.h), Number(k.l), Number(k.c), Number(k.v)],
+            closed: k.x,
+            eventTime: data.E ?? Date.now(),
+        });
+    } else if (data.e === "markPriceUpdate") {
+        handlers.onMarkPrice({
+            symbol: data.s,
+            markPrice: Number(data.p),
+            fundingRate: Number(data.r),
+            nextFundingTime: data.T ?? 0,
+            eventTime: data.E ?? Date.now(),
+        });
+    }
+}
+
+export function createMarketStream(
+    handlers: MarketStreamHandlers,
+    baseUrl: string = getBinanceStreamUrl()
+): MarketStream {
+    let streams: string[] = [];
+    let socket: WebSocket | null = null;
+    let connected = false;
+    let closed = false;
+    let reconnectDelay = MIN_RECONNECT_DELAY_MS;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let subscribeTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const scheduleReconnect = () => {
+        if (closed || reconnectTimer) return;
+        reconnectTimer = setTimeout(() => {
+            reconnectTimer = null;
+            connect();
+        }, reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+    };
+
+    const disconnect = () => {
+        if (!socket) return;
+        const current = socket;
+        socket = null;
+        connected = false;
+        current.close();
+    };
+
+    const connect = () => {
+        disconnect();
+        if (closed || streams.length === 0) return;
+
+        const url = `${baseUrl.replace(/\/$/, "")}/stream?streams=${streams.join("/")}`;
+        const dispatcher = getProxyDispatcher();
+        const ws = new WebSocket(url, dispatcher ? { dispatcher } : undefined);
+        socket = ws;
+
+        ws.addEventListener("open", () => {
+            if (socket !== ws) return;
+            connected = true;
+            reconnectDelay = MIN_RECONNECT_DELAY_MS;
+            console.log(`📡 Market stream connected (${streams.length} streams)`);
+            handlers.onOpen?.();
+        });
+
+        ws.addEventListener("message", (event) => {
+            if (socket !== ws || typeof event.data !== "string") return;
+            dispatchStreamMessage(event.data, handlers);
+        });
+
+        ws.addEventListener("error", (event) => {
+            if (socket !== ws) return;
+            console.warn("⚠️ Market stream error:", event.error instanceof Error ? event.error.message : event.type);
+        });
+
+        ws.addEventListener("close", () => {
+            // 主动重建连接时旧 socket 的 close 事件直接忽略
+            if (socket !== ws) return;
+            socket = null;
+            connected = false;
+            console.warn(`⚠️ Market stream closed, reconnecting in ${reconnectDelay}ms`);
+            handlers.onClose?.();
+            scheduleReconnect();
+        });
+    };
+
+    return {
+        subscribe(next) {
+            const sorted = Array.from(new Set(next)).sort();
+            if (sorted.join("/") === streams.join("/")) return;
+            streams = sorted;
+
+            if (subscribeTimer) clearTimeout(subscribeTimer);
+            subscribeTimer = setTimeout(() => {
+                subscribeTimer = null;
+                connect();
+            }, SUBSCRIBE_DEBOUNCE_MS);
+        },
+
+        isConnected() {
+            return connected;
+        },
+
+        close() {
+            closed = true;
+            if (reconnectTimer) clearTimeout(reconnectTimer);
+            if (subscribeTimer) clearTimeout(subscribeTimer);
+            disconnect();
+        },
+    };
+}
@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { OhlcvRow } from "../trading/exchange-adapter";
+import { createKlineCache, isContiguous } from "./kline-cache";
+
+const MINUTE_MS = 60_000;
+const T0 = Date.parse("2025-01-01T00:00:00Z");
+
+function candle(minute: number, close = 100 + minute): OhlcvRow {
+    return [T0 + minute * MINUTE_MS, close, close + 1, close - 1, close, 1];
+}
+
+function minutes(from: number, to: number): OhlcvRow[] {
+    return Array.from({ length: to - from + 1 }, (_, i) => candle(from + i));
+}
+
+// 第 minute 分钟 K 线内的某个时刻
+const during = (minute: number, offsetMs = 30_000) => T0 + minute * MINUTE_MS + offsetMs;
+
+describe("isContiguous", () => {
+    it("accepts consecutive candles ending with the open candle", () => {
+        assert.equal(isContiguous(minutes(0, 4), MINUTE_MS, during(4)), true);
+    });
+
+    it("detects a missing candle", () => {
+        const rows = [...minutes(0, 1), ...minutes(3, 4)];
+        assert.equal(isContiguous(rows, MINUTE_MS, during(4)), false);
+        assert.equal(isContiguous([], MINUTE_MS, during(4)), false);
+    });
+
+    it("allows the previous candle only during the rollover grace", () => {
+        assert.equal(isContiguous(minutes(0, 4), MINUTE_MS, during(5, 4_999)), true);
+        assert.equal(isContiguous(minutes(0, 4), MINUTE_MS, during(5, 5_000)), false);
+        assert.equal(isContiguous(minutes(0, 3), MINUTE_MS, during(5, 0)), false);
+    });
+});
+
+describe("createKlineCache", () => {
+    it("rolls forward as new candles are streamed", () => {
+        const cache = createKlineCache(5);
+        cache.seed("BTCUSDT", "1m", minutes(0, 4));
+
+        cache.apply("BTCUSDT", "1m", candle(4, 200)); // 同一根更新
+        cache.apply("BTCUSDT", "1m", candle(5));
+        cache.apply("BTCUSDT", "1m", candle(6));
+        cache.apply("BTCUSDT", "1m", candle(2, 300)); // 过期推送忽略
+
+        const rows = cache.get("BTCUSDT", "1m", 5, during(6));
+        assert.deepEqual(rows?.map((row) => row[0]), minutes(2, 6).map((row) => row[0]));
+        assert.equal(rows?.[2][4], 200);
+        assert.equal(rows?.[0][4], 102);
+        // 保留上限：最老的两根已被移出
+        assert.equal(cache.get("BTCUSDT", "1m", 6, during(6)), null);
+    });
+
+    it("stops serving a buffer that fell behind the clock", () => {
+        const cache = createKlineCache();
+        cache.seed("BTCUSDT", "1m", minutes(0, 4));
+        assert.ok(cache.get("BTCUSDT", "1m", 5, during(4)));
+        assert.equal(cache.get("BTCUSDT", "1m", 5, during(6)), null);
+    });
+
+    it("returns null after a skipped candle until reseeded", () => {
+        const cache = createKlineCache();
+        cache.seed("BTCUSDT", "1m", minutes(0, 4));
+        cache.apply("BTCUSDT", "1m", candle(6));
+        assert.equal(cache.get("BTCUSDT", "1m", 5, during(6)), null);
+
+        cache.seed("BTCUSDT", "1m", minutes(2, 6));
+        assert.deepEqual(cache.get("BTCUSDT", "1m", 5, during(6)), minutes(2, 6));
+    });
+
+    it("keeps streamed candles newer than the REST snapshot when seeding", () => {
+        const cache = createKlineCache();
+        cache.apply("BTCUSDT", "1m", candle(4, 400));
+        cache.apply("BTCUSDT", "1m", candle(5, 500));
+        cache.seed("BTCUSDT", "1m", minutes(0, 4));
+
+        const rows = cache.get("BTCUSDT", "1m", 6, during(5));
+        assert.deepEqual(rows?.map((row) => row[4]), [100, 101, 102, 103, 400, 500]);
+    });
+
+    it("keeps symbols and intervals apart and clears per symbol", () => {
+        const cache = createKlineCache();
+        cache.seed("BTCUSDT", "1m", minutes(0, 4));
+        cache.seed("ETHUSDT", "1m", minutes(0, 4));
+        assert.equal(cache.get("BTCUSDT", "15m", 1, during(4)), null);
+
+        cache.clear("BTCUSDT");
+        assert.equal(cache.get("BTCUSDT", "1m", 5, during(4)), null);
+        assert.ok(cache.get("ETHUSDT", "1m", 5, during(4)));
+    });
+});
@@ -0,0 +1,97 @@
+/**
+ * In-memory rolling kline buffers
+ * 每个 symbol + interval 一个按 openTime 升序的环形缓冲区，由 WebSocket 推送更新，REST 补齐缺口
+ */
+
+import { getIntervalMs } from "../backtest/kline-store";
+import type { OhlcvRow } from "../trading/exchange-adapter";
+
+// 新周期开始后，允许最新一根仍是上一周期 K 线的时间（等待第一条推送）
+const ROLLOVER_GRACE_MS = 5_000;
+
+export interface KlineCache {
+    /** Replace the buffer with REST candles (streamed candles from the last REST candle on are kept) */
+    seed(symbol: string, interval: string, rows: OhlcvRow[]): void;
+    /** Upsert one streamed candle (same openTime replaces, older than the last candle is ignored) */
+    apply(symbol: string, interval: string, row: OhlcvRow): void;
+    /**
+     * Latest `limit` candles, or null when the buffer is short, has a gap
+     * or does not contain the candle that is open at `now`
+     */
+    get(symbol: string, interval: string, limit: number, now: number): OhlcvRow[] | null;
+    clear(symbol?: string): void;
+}
+
+/**
+ * Check that `rows` are consecutive candles ending with the candle open at `now`
+ */
+export function isContiguous(rows: OhlcvRow[], intervalMs: number, now: number): boolean {
+    if (rows.length === 0) return false;
+
+    for (let i = 1; i < rows.length; i++) {
+        if (rows[i][0] - rows[i - 1][0] !== intervalMs) {
+            return false;
+        }
+    }
+
+    const currentOpen = Math.floor(now / intervalMs) * intervalMs;
+    const lastOpen = rows[rows.length - 1][0];
+    if (lastOpen === currentOpen) return true;
+    return lastOpen === currentOpen - intervalMs && now - currentOpen < ROLLOVER_GRACE_MS;
+}
+
+export function createKlineCache(maxCandles = 150): KlineCache {
+    const buffers = new Map<string, OhlcvRow[]>();
+    const keyOf = (symbol: string, interval: string) => `${symbol}:${interval}`;
+
+    return {
+        seed(symbol, interval, rows) {
+            const key = keyOf(symbol, interval);
+            const sorted = [...rows].sort((a, b) => a[0] - b[0]);
+            const lastOpen = sorted[sorted.length - 1]?.[0] ?? 0;
+            // REST 请求期间推送可能已经更新了最新一根或更新的 K线
+            const streamed = (buffers.get(key) ?? []).filter((row) => row[0] >= lastOpen);
+            const merged = [...sorted.filter((row) => row[0] < (streamed[0]?.[0] ?? Infinity)), ...streamed];
+            buffers.set(key, merged.slice(-maxCandles));
+        },
+
+        apply(symbol, interval, row) {
+            const key = keyOf(symbol, interval);
+            const buffer = buffers.get(key) ?? [];
+            const last = buffer[buffer.length - 1];
+
+            if (!last || row[0] > last[0]) {
+                // 跳过的周期不补，get() 会检测到缺口并回退 REST
+                buffer.push(row);
+                if (buffer.length > maxCandles) {
+                    buffer.splice(0, buffer.length - maxCandles);
+                }
+            } else if (row[0] === last[0]) {
+                buffer[buffer.length - 1] = row;
+            } else {
+                return;
+            }
+            buffers.set(key, buffer);
+        },
+
+        get(symbol, interval, limit, now) {
+            const buffer = buffers.get(keyOf(symbol, interval));
+            if (!buffer || buffer.length < limit) return null;
+
+            const rows = buffer.slice(-limit);
+            return isContiguous(rows, getIntervalMs(interval), now) ? rows : null;
+        },
+
+        clear(symbol) {
+            if (!symbol) {
+                buffers.clear();
+                return;
+            }
+            for (const key of Array.from(buffers.keys())) {
+                if (key.startsWith(`${symbol}:`)) {
+                    buffers.delete(key);
+                }
+            }
+        },
+    };
+}
@@ -0,0 +1,132 @@
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, it, mock } from "node:test";
+import type { Server } from "http";
+import { getIntervalMs } from "../backtest/kline-store";
+import type { MarketState } from "../trading/current-market-state";
+import type { OhlcvRow } from "../trading/exchange-adapter";
+import { createMarketDataService, type MarketDataService } from "./market-data-service";
+import { buildKlineReplayEvents, createReplayServer } from "./replay-server";
+
+// 本地回放服务不走代理
+process.env.BINANCE_DISABLE_PROXY = "true";
+
+const MINUTE_MS = 60_000;
+const T0 = Date.parse("2025-01-01T00:00:00Z");
+
+function minuteCandle(minute: number): OhlcvRow {
+    const price = 100 + minute * 0.1;
+    return [T0 + minute * MINUTE_MS, price, price + 0.5, price - 0.5, price, 10];
+}
+
+/**
+ * REST source returning `limit` candles that end with the candle open at `restNow`
+ */
+function fakeRest() {
+    const rest = {
+        restNow: T0,
+        klineCalls: [] as string[],
+        async getKlines(_symbol: string, interval: string, limit = 100): Promise<OhlcvRow[]> {
+            rest.klineCalls.push(interval);
+            const intervalMs = getIntervalMs(interval);
+            const lastOpen = Math.floor(rest.restNow / intervalMs) * intervalMs;
+            return Array.from({ length: limit }, (_, i) => {
+                const openTime = lastOpen - (limit - 1 - i) * intervalMs;
+                return [openTime, 100, 101, 99, 100, 10];
+            });
+        },
+        async getOpenInterest() {
+            return 1000;
+        },
+        async getFundingRate() {
+            return 0.0001;
+        },
+    };
+    return rest;
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 3000) {
+    const start = Date.now();
+    while (!condition()) {
+        if (Date.now() - start > timeoutMs) throw new Error("Timed out waiting for the replay stream");
+        await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+}
+
+/**
+ * Replay server delivering all 1m candles of `minutes` at once, plus a service reading from it
+ */
+async function startReplay(minutes: number[]) {
+    const events = buildKlineReplayEvents("BTCUSDT", minutes.map(minuteCandle));
+    const server = createReplayServer({ events, warmup: events.length, delayMs: 60_000 });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    const rest = fakeRest();
+    const service = createMarketDataService({ streamUrl: `ws://127.0.0.1:${port}`, rest: async () => rest, clock: "stream" });
+    return { server, rest, service };
+}
+
+const lastMinuteCandle = (state: MarketState) => state.kline_data.minute_1[state.kline_data.minute_1.length - 1];
+
+describe("market data service over the replay stream", () => {
+    const running: Array<{ server: Server; service: MarketDataService }> = [];
+
+    // 连接 / 断开日志不需要出现在测试输出里
+    before(() => {
+        for (const method of ["log", "warn"] as const) {
+            mock.method(console, method, () => {});
+        }
+    });
+
+    after(() => {
+        mock.restoreAll();
+        for (const { server, service } of running) {
+            service.close();
+            server.close();
+        }
+    });
+
+    it("seeds from REST, then rolls the cache forward from the stream", async () => {
+        const replay = await startReplay(Array.from({ length: 13 }, (_, i) => i));
+        running.push(replay);
+        replay.rest.restNow = T0 + 9 * MINUTE_MS;
+
+        await replay.service.getMarketState("BTC/USDT");
+        assert.equal(replay.service.getStatus().restFallbacks, 1);
+        assert.deepEqual(replay.rest.klineCalls, ["1m", "15m", "4h"]);
+
+        // 推送补上第 10-12 分钟的 K 线，第 9 分钟被推送版本替换
+        await waitFor(() => replay.service.getStatus().connected);
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        const state = await replay.service.getMarketState("BTC/USDT");
+
+        assert.equal(replay.service.getStatus().streamHits, 1);
+        assert.equal(replay.rest.klineCalls.length, 3);
+        assert.equal(lastMinuteCandle(state).timestamp, T0 + 12 * MINUTE_MS);
+        assert.equal(lastMinuteCandle(state).close, minuteCandle(12)[4]);
+    });
+
+    it("falls back to REST when the stream skipped a candle", async () => {
+        const replay = await startReplay([0, 1, 2, 3, 4, 5, 7, 8]);
+        running.push(replay);
+        replay.rest.restNow = T0 + 4 * MINUTE_MS;
+
+        await replay.service.getMarketState("BTC/USDT");
+        await waitFor(() => replay.service.getStatus().connected);
+        await new Promise((resolve) => setTimeout(resolve, 100));
+
+        // 第 6 分钟缺失：缓冲区不连续，重新从 REST 播种
+        replay.rest.restNow = T0 + 8 * MINUTE_MS;
+        const state = await replay.service.getMarketState("BTC/USDT");
+
+        assert.equal(replay.service.getStatus().streamHits, 0);
+        assert.equal(replay.service.getStatus().restFallbacks, 2);
+        assert.deepEqual(replay.rest.klineCalls, ["1m", "15m", "4h", "1m", "15m", "4h"]);
+        assert.equal(lastMinuteCandle(state).timestamp, T0 + 8 * MINUTE_MS);
+
+        // 重新播种后缓冲区连续，下一次直接走推送数据
+        await replay.service.getMarketState("BTC/USDT");
+        assert.equal(replay.service.getStatus().streamHits, 1);
+    });
+});
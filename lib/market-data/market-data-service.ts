@@ -0,0 +1,214 @@
+/**
+ * Long-lived market data service
+ * WebSocket 推送维护 1m / 15m / 4h K线缓冲区和资金费率，getCurrentMarketState 直接从内存构建 MarketState；
+ * 缓冲区不足、出现缺口或推送中断时回退 REST 并重新播种。持仓量没有推送流，按 TTL 缓存 REST 结果
+ */
+
+import { buildMarketState, type MarketState } from "../trading/current-market-state";
+import { getExchangeAdapter, toExchangeSymbol, type ExchangeAdapter, type OhlcvRow } from "../trading/exchange-adapter";
+import {
+    createMarketStream,
+    getKlineStreamName,
+    getMarkPriceStreamName,
+    type MarketStream,
+} from "./binance-stream";
+import { createKlineCache } from "./kline-cache";
+
+export const MARKET_STATE_INTERVALS = ["1m", "15m", "4h"] as const;
+const CANDLE_LIMIT = 100;
+const OPEN_INTEREST_TTL_MS = 60_000;
+const MARK_PRICE_STALE_MS = 10_000; // markPrice@1s 超过该时间未更新则视为过期
+
+export interface MarketDataServiceOptions {
+    /** WebSocket base URL (default getBinanceStreamUrl()) */
+    streamUrl?: string;
+    /** REST source for seeding / fallback (default getExchangeAdapter()) */
+    rest?: () => Promise<Pick<ExchangeAdapter, "getKlines" | "getOpenInterest" | "getFundingRate">>;
+    /**
+     * "stream": freshness is judged against the latest event time instead of the wall clock
+     * (replaying recorded data through the replay server)
+     */
+    clock?: "system" | "stream";
+}
+
+export interface MarketDataStatus {
+    connected: boolean;
+    symbols: string[];
+    streamHits: number;
+    restFallbacks: number;
+}
+
+export interface MarketDataService {
+    getMarketState(symbol: string): Promise<MarketState>;
+    getStatus(): MarketDataStatus;
+    close(): void;
+}
+
+export function isMarketDataStreamEnabled(): boolean {
+    return String(process.env.MARKET_DATA_STREAM || "true").toLowerCase() !== "false";
+}
+
+// 简单重试，处理 REST 瞬时网络错误
+async function withRetry<T>(fn: () => Promise<T>, retries = 2, delayMs = 500): Promise<T> {
+    try {
+        return await fn();
+    } catch (err) {
+        if (retries <= 0) throw err;
+        await new Promise((r) => setTimeout(r, delayMs));
+        return withRetry(fn, retries - 1, delayMs * 2);
+    }
+}
+
+export function createMarketDataService(options: MarketDataServiceOptions = {}): MarketDataService {
+    const rest = options.rest ?? getExchangeAdapter;
+    const useStreamClock = options.clock === "stream";
+    const cache = createKlineCache();
+    const symbols = new Set<string>();
+    const markPrices = new Map<string, { fundingRate: number; updatedAt: number }>();
+    const openInterest = new Map<string, { value: number; fetchedAt: number }>();
+    const pendingSeeds = new Map<string, Promise<Record<string, OhlcvRow[]>>>();
+    let lastEventTime = 0;
+    let streamHits = 0;
+    let restFallbacks = 0;
+
+    const stream: MarketStream = createMarketStream(
+        {
+            onKline: ({ symbol, interval, row, eventTime }) => {
+                cache.apply(symbol, interval, row);
+                lastEventTime = Math.max(lastEventTime, eventTime);
+            },
+            onMarkPrice: ({ symbol, fundingRate, eventTime }) => {
+                markPrices.set(symbol, { fundingRate, updatedAt: eventTime });
+                lastEventTime = Math.max(lastEventTime, eventTime);
+            },
+        },
+        options.streamUrl
+    );
+
+    const now = () => (useStreamClock && lastEventTime > 0 ? lastEventTime : Date.now());
+
+    const subscribe = (symbol: string) => {
+        if (symbols.has(symbol)) return;
+        symbols.add(symbol);
+        stream.subscribe(
+            Array.from(symbols).flatMap((s) => [
+                ...MARKET_STATE_INTERVALS.map((interval) => getKlineStreamName(s, interval)),
+                getMarkPriceStreamName(s),
+            ])
+        );
+    };
+
+    const readCandles = (symbol: string): Record<string, OhlcvRow[]> | null => {
+        // 未连接时缓冲区可能漏掉了推送，不能信任
+        if (!stream.isConnected()) return null;
+        const result: Record<string, OhlcvRow[]> = {};
+        for (const interval of MARKET_STATE_INTERVALS) {
+            const rows = cache.get(symbol, interval, CANDLE_LIMIT, now());
+            if (!rows) return null;
+            result[interval] = rows;
+        }
+        return result;
+    };
+
+    // 同一币种并发请求共用一次 REST 播种
+    const seed = (symbol: string): Promise<Record<string, OhlcvRow[]>> => {
+        const pending = pendingSeeds.get(symbol);
+        if (pending) return pending;
+
+        const task = (async () => {
+            const exchange = await rest();
+            const result: Record<string, OhlcvRow[]> = {};
+            for (const interval of MARKET_STATE_INTERVALS) {
+                const rows = await withRetry(() => exchange.getKlines(symbol, interval, CANDLE_LIMIT));
+                cache.seed(symbol, interval, rows);
+                result[interval] = rows;
+            }
+            return result;
+        })().finally(() => pendingSeeds.delete(symbol));
+        pendingSeeds.set(symbol, task);
+        return task;
+    };
+
+    const getOpenInterest = async (symbol: string): Promise<number> => {
+        const cached = openInterest.get(symbol);
+        if (cached && Date.now() - cached.fetchedAt < OPEN_INTEREST_TTL_MS) {
+            return cached.value;
+        }
+        const exchange = await rest();
+        const value = await withRetry(() => exchange.getOpenInterest(symbol));
+        openInterest.set(symbol, { value, fetchedAt: Date.now() });
+        return value;
+    };
+
+    const getFundingRate = async (symbol: string): Promise<number> => {
+        const mark = markPrices.get(symbol);
+        if (mark && now() - mark.updatedAt < MARK_PRICE_STALE_MS) {
+            return mark.fundingRate;
+        }
+        const exchange = await rest();
+        return withRetry(() => exchange.getFundingRate(symbol));
+    };
+
+    return {
+        async getMarketState(symbol: string): Promise<MarketState> {
+            const exchangeSymbol = toExchangeSymbol(symbol.includes("/") ? symbol : `${symbol}/USDT`);
+            subscribe(exchangeSymbol);
+
+            let candles = readCandles(exchangeSymbol);
+            if (candles) {
+                streamHits++;
+            } else {
+                restFallbacks++;
+                candles = await seed(exchangeSymbol);
+            }
+
+            const openInterestData = { latest: 0, average: 0 };
+            let fundingRate = 0;
+            try {
+                const oiVal = await getOpenInterest(exchangeSymbol);
+                openInterestData.latest = oiVal;
+                openInterestData.average = oiVal; // placeholder average
+                fundingRate = await getFundingRate(exchangeSymbol);
+            } catch (error) {
+                console.warn("Could not fetch open interest or funding rate:", error);
+            }
+
+            return buildMarketState({
+                ohlcv1m: candles["1m"],
+                ohlcv15m: candles["15m"],
+                ohlcv4h: candles["4h"],
+                openInterest: openInterestData,
+                fundingRate,
+            });
+        },
+
+        getStatus() {
+            return {
+                connected: stream.isConnected(),
+                symbols: Array.from(symbols),
+                streamHits,
+                restFallbacks,
+            };
+        },
+
+        close() {
+            stream.close();
+            cache.clear();
+        },
+    };
+}
+
+// Next.js dev 热更新会重新执行模块，挂在 globalThis 上避免重复建立连接
+const globalForMarketData = globalThis as unknown as { marketDataService?: MarketDataService };
+
+/**
+ * Process-wide service (stream URL and clock from MARKET_DATA_STREAM_URL / MARKET_DATA_CLOCK)
+ */
+export function getMarketDataService(): MarketDataService {
+    if (!globalForMarketData.marketDataService) {
+        globalForMarketData.marketDataService = createMarketDataService({
+            clock: process.env.MARKET_DATA_CLOCK === "stream" ? "stream" : "system",
+        });
+    }
+    return globalForMarketData.marketDataService;
+}
@@ -0,0 +1,188 @@
+/**
+ * Local market stream replay server
+ * 以 Binance 组合流格式回放录制的 kline / markPrice 事件，替代交易所 WebSocket 做联调和测试：
+ *   MARKET_DATA_STREAM_URL="ws://127.0.0.1:8790" MARKET_DATA_CLOCK="stream"
+ * 只实现服务端文本帧推送，不依赖 ws 包；客户端发来的帧除 close 外全部忽略
+ */
+
+import { createHash } from "crypto";
+import { createServer, type Server } from "http";
+import type { Duplex } from "stream";
+import { getIntervalMs } from "../backtest/kline-store";
+import type { OhlcvRow } from "../trading/exchange-adapter";
+import { getKlineStreamName, getMarkPriceStreamName } from "./binance-stream";
+
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+export interface ReplayEvent {
+    stream: string; // e.g. btcusdt@kline_1m
+    data: Record<string, unknown>;
+}
+
+export interface ReplayServerOptions {
+    events: ReplayEvent[];
+    /** Events delivered immediately to every client as history (default 0) */
+    warmup?: number;
+    /** Delay between the remaining events (default 200ms) */
+    delayMs?: number;
+}
+
+/**
+ * Build kline events from 1m candles: every 1m candle also updates the open candle of each higher
+ * interval (aggregated from the 1m candles so far), like the exchange pushes in-progress klines.
+ * Optionally emits a markPriceUpdate per candle at the close price.
+ */
+export function buildKlineReplayEvents(
+    symbol: string,
+    rows1m: OhlcvRow[],
+    options: { intervals?: string[]; fundingRate?: number } = {}
+): ReplayEvent[] {
+    const { intervals = ["1m", "15m", "4h"], fundingRate } = options;
+    const exchangeSymbol = symbol.replace("/", "").toUpperCase();
+    const open = new Map<string, OhlcvRow>();
+    const events: ReplayEvent[] = [];
+
+    for (const [openTime, o, h, l, c, v] of [...rows1m].sort((a, b) => a[0] - b[0])) {
+        const eventTime = openTime + 60_000 - 1;
+
+        for (const interval of intervals) {
+            const intervalMs = getIntervalMs(interval);
+            const candleOpen = Math.floor(openTime / intervalMs) * intervalMs;
+            const previous = open.get(interval);
+            const candle: OhlcvRow = previous && previous[0] === candleOpen
+                ? [candleOpen, previous[1], Math.max(previous[2], h), Math.min(previous[3], l), c, previous[5] + v]
+                : [candleOpen, o, h, l, c, v];
+            open.set(interval, candle);
+
+            events.push({
+                stream: getKlineStreamName(exchangeSymbol, interval),
+                data: {
+                    e: "kline",
+                    E: eventTime,
+                    s: exchangeSymbol,
+                    k: {
+                        t: candle[0],
+                        T: candle[0] + intervalMs - 1,
+                        s: exchangeSymbol,
+                        i: interval,
+                        o: String(candle[1]),
+                        h: String(candle[2]),
+                        l: String(candle[3]),
+                        c: String(candle[4]),
+                        v: String(candle[5]),
+                        x: eventTime === candle[0] + intervalMs - 1,
+                    },
+                },
+            });
+        }
+
+        if (fundingRate !== undefined) {
+            events.push({
+                stream: getMarkPriceStreamName(exchangeSymbol),
+                data: { e: "markPriceUpdate", E: eventTime, s: exchangeSymbol, p: String(c), r: String(fundingRate), T: 0 },
+            });
+        }
+    }
+
+    return events;
+}
+
+/**
+ * Interleave several symbols' events by event time
+ */
+export function mergeReplayEvents(...streams: ReplayEvent[][]): ReplayEvent[] {
+    const eventTime = (event: ReplayEvent) => Number(event.data.E ?? 0);
+    return streams.flat().sort((a, b) => eventTime(a) - eventTime(b));
+}
+
+function encodeTextFrame(text: string): Buffer {
+    const payload = Buffer.from(text);
+    let header: Buffer;
+    if (payload.length < 126) {
+        header = Buffer.from([0x81, payload.length]);
+    } else if (payload.length < 65536) {
+        header = Buffer.alloc(4);
+        header[0] = 0x81;
+        header[1] = 126;
+        header.writeUInt16BE(payload.length, 2);
+    } else {
+        header = Buffer.alloc(10);
+        header[0] = 0x81;
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+    return Buffer.concat([header, payload]);
+}
+
+/**
+ * Create the replay server (call .listen(port) to start, .close() to stop).
+ * All clients share one timeline: a client connecting later first receives the events already played.
+ */
+export function createReplayServer(options: ReplayServerOptions): Server {
+    const { events, warmup = 0, delayMs = 200 } = options;
+    const clients = new Set<{ socket: Duplex; streams: Set<string> }>();
+    let cursor = Math.min(warmup, events.length);
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const send = (client: { socket: Duplex; streams: Set<string> }, event: ReplayEvent) => {
+        if (client.streams.has(event.stream)) {
+            client.socket.write(encodeTextFrame(JSON.stringify(event)));
+        }
+    };
+
+    const tick = () => {
+        timer = null;
+        if (cursor >= events.length) return;
+        const event = events[cursor++];
+        clients.forEach((client) => send(client, event));
+        timer = setTimeout(tick, delayMs);
+    };
+
+    const server = createServer((_req, res) => {
+        res.writeHead(426, { "Content-Type": "text/plain" });
+        res.end(`Upgrade required (${cursor}/${events.length} events played)`);
+    });
+
+    server.on("upgrade", (req, socket) => {
+        const key = req.headers["sec-websocket-key"];
+        if (typeof key !== "string") {
+            socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+            return;
+        }
+
+        const accept = createHash("sha1").update(key + WEBSOCKET_GUID).digest("base64");
+        socket.write(
+            "HTTP/1.1 101 Switching Protocols\r\n" +
+            "Upgrade: websocket\r\n" +
+            "Connection: Upgrade\r\n" +
+            `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+        );
+
+        const url = new URL(req.url || "/", "http://localhost");
+        const client = { socket, streams: new Set((url.searchParams.get("streams") || "").split("/").filter(Boolean)) };
+        clients.add(client);
+
+        // 先补发已回放的历史事件
+        events.slice(0, cursor).forEach((event) => send(client, event));
+
+        socket.on("data", (chunk: Buffer) => {
+            // opcode 0x8 = close
+            if ((chunk[0] & 0x0f) === 0x8) {
+                socket.end(Buffer.from([0x88, 0x00]));
+            }
+        });
+        socket.on("close", () => clients.delete(client));
+        socket.on("error", () => clients.delete(client));
+
+        if (!timer) {
+            timer = setTimeout(tick, delayMs);
+        }
+    });
+
+    server.on("close", () => {
+        if (timer) clearTimeout(timer);
+        clients.forEach((client) => client.socket.destroy());
+    });
+
+    return server;
+}
@@ -1,8 +1,7 @@
 import { Position } from "@/lib/types/position";
-import { ensureTimeSync, getAdjustedTimestamp, getBinanceBaseUrl } from "./binance-official";
-import { fetchPositions } from "./positions"; // Import the direct fetchPositions
-import crypto from "crypto";
-import { ProxyAgent } from "undici";
+import { getExchangeAdapter } from "./exchange-adapter";
+import { formatPositionFunding, getPositionFunding } from "./funding";
+import { formatPerformanceAnalytics, type PerformanceAnalytics } from "../analytics/analytics";
 
 export interface AccountInformationAndPerformance {
   currentPositionsValue: number;
@@ -11,212 +10,18 @@ export interface AccountInformationAndPerformance {
   availableCash: number;
   currentTotalReturn: number;
   positions: any[];
-  sharpeRatio: number;
-}
-
-// Direct fetch balance function with proxy support
-async function fetchBalance() {
-  // 🔧 根据 TRADING_MODE 自动选择 API 配置
-  const tradingMode = process.env.TRADING_MODE || "dry-run";
-  const isDryRun = tradingMode === "dry-run";
-
-  let apiKey: string | undefined;
-  let apiSecret: string | undefined;
-
-  if (isDryRun) {
-    apiKey = process.env.BINANCE_TESTNET_API_KEY;
-    apiSecret = process.env.BINANCE_TESTNET_API_SECRET;
-  } else {
-    apiKey = process.env.BINANCE_LIVE_API_KEY;
-    apiSecret = process.env.BINANCE_LIVE_API_SECRET;
-  }
-
-  const disableProxy = String(process.env.BINANCE_DISABLE_PROXY || "").toLowerCase() === "true";
-  const proxyUrl = process.env.BINANCE_HTTP_PROXY || process.env.HTTPS_PROXY || process.env.HTTP_PROXY;
-
-  if (!apiKey || !apiSecret) {
-    const configType = isDryRun ? "TESTNET" : "LIVE";
-    throw new Error(
-      `BINANCE_${configType}_API_KEY or BINANCE_${configType}_API_SECRET not configured. ` +
-      `Please set them in .env file for ${isDryRun ? 'virtual' : 'live'} trading.`
-    );
-  }
-
-  // 🔄 先同步时�?
-  await ensureTimeSync();
-
-  const timestamp = getAdjustedTimestamp();
-  const queryString = `timestamp=${timestamp}&recvWindow=60000`; // 60秒窗�?
-
-  const signature = crypto
-    .createHmac("sha256", apiSecret)
-    .update(queryString)
-    .digest("hex");
-
-  const baseUrl = getBinanceBaseUrl();
-  const url = `${baseUrl}/fapi/v2/balance?${queryString}&signature=${signature}`;
-
-  const fetchOptions: any = {
-    method: "GET",
-    headers: {
-      "X-MBX-APIKEY": apiKey,
-      "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-      "Connection": "keep-alive",
-    },
-    signal: AbortSignal.timeout(25000), // 25秒超�?
-  };
-
-  if (proxyUrl && !disableProxy) {
-    fetchOptions.dispatcher = new ProxyAgent(proxyUrl);
-  }
-
-  // 实现重试机制
-  let lastError: Error | null = null;
-  for (let attempt = 1; attempt <= 3; attempt++) {
-    try {
-      console.log(`🔄 Fetching balance (attempt ${attempt}/3) from Binance Futures`);
-      const response = await fetch(url, fetchOptions);
-
-      if (!response.ok) {
-        // 获取详细错误信息
-        const errorText = await response.text();
-        console.error(`�?Balance API error: ${response.status} ${response.statusText}`);
-        console.error(`   Response body: ${errorText}`);
-        throw new Error(`Failed to fetch balance: ${response.status} ${response.statusText} - ${errorText}`);
-      }
-
-      console.log(`�?Balance fetch successful on attempt ${attempt}`);
-      const balances = await response.json();
-      const usdtBalance = balances.find((b: any) => b.asset === "USDT");
-
-      return {
-        USDT: {
-          total: parseFloat(usdtBalance?.balance || "0"),
-          free: parseFloat(usdtBalance?.balance || "0"),
-          used: 0,
-        },
-      };
-    } catch (error: any) {
-      lastError = error;
-      console.warn(`⚠️ Balance fetch attempt ${attempt} failed:`, error.message);
-
-      if (attempt < 3) {
-        const delay = attempt * 2000; // 递增延迟: 2s, 4s
-        console.log(`�?Retrying in ${delay}ms...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-      }
-    }
-  }
-
-  throw lastError || new Error("Failed to fetch balance after 3 attempts");
-}
-
-// 获取账户信息，包括总资产净值
-async function fetchAccountInfo() {
-  // 🔧 根据 TRADING_MODE 自动选择 API 配置
-  const tradingMode = process.env.TRADING_MODE || "dry-run";
-  const isDryRun = tradingMode === "dry-run";
-
-  let apiKey: string | undefined;
-  let apiSecret: string | undefined;
-
-  if (isDryRun) {
-    apiKey = process.env.BINANCE_TESTNET_API_KEY;
-    apiSecret = process.env.BINANCE_TESTNET_API_SECRET;
-  } else {
-    apiKey = process.env.BINANCE_LIVE_API_KEY;
-    apiSecret = process.env.BINANCE_LIVE_API_SECRET;
-  }
-
-  const disableProxy = String(process.env.BINANCE_DISABLE_PROXY || "").toLowerCase() === "true";
-  const proxyUrl = process.env.BINANCE_HTTP_PROXY || process.env.HTTPS_PROXY || process.env.HTTP_PROXY;
-
-  if (!apiKey || !apiSecret) {
-    const configType = isDryRun ? "TESTNET" : "LIVE";
-    throw new Error(
-      `BINANCE_${configType}_API_KEY or BINANCE_${configType}_API_SECRET not configured. ` +
-      `Please set them in .env file for ${isDryRun ? 'virtual' : 'live'} trading.`
-    );
-  }
-
-  // 🔄 先同步时�?
-  await ensureTimeSync();
-
-  const timestamp = getAdjustedTimestamp();
-  const queryString = `timestamp=${timestamp}&recvWindow=60000`; // 60秒窗�?
-
-  const signature = crypto
-    .createHmac("sha256", apiSecret)
-    .update(queryString)
-    .digest("hex");
-
-  const baseUrl = getBinanceBaseUrl();
-  const url = `${baseUrl}/fapi/v2/account?${queryString}&signature=${signature}`;
-
-  const fetchOptions: any = {
-    method: "GET",
-    headers: {
-      "X-MBX-APIKEY": apiKey,
-      "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-      "Connection": "keep-alive",
-    },
-    signal: AbortSignal.timeout(25000), // 25秒超�?
-  };
-
-  if (proxyUrl && !disableProxy) {
-    fetchOptions.dispatcher = new ProxyAgent(proxyUrl);
-  }
-
-  // 实现重试机制
-  let lastError: Error | null = null;
-  for (let attempt = 1; attempt <= 3; attempt++) {
-    try {
-      console.log(`🔄 Fetching account info (attempt ${attempt}/3) from Binance Futures`);
-      const response = await fetch(url, fetchOptions);
-
-      if (!response.ok) {
-        // 获取详细错误信息
-        const errorText = await response.text();
-        console.error(`�?Account info API error: ${response.status} ${response.statusText}`);
-        console.error(`   Response body: ${errorText}`);
-        throw new Error(`Failed to fetch account info: ${response.status} ${response.statusText} - ${errorText}`);
-      }
-
-      console.log(`�?Account info fetch successful on attempt ${attempt}`);
-      const accountInfo = await response.json();
-
-      return {
-        totalWalletBalance: parseFloat(accountInfo.totalWalletBalance || "0"), // 钱包总余�?
-        totalUnrealizedProfit: parseFloat(accountInfo.totalUnrealizedProfit || "0"), // 总未实现盈亏
-        totalMarginBalance: parseFloat(accountInfo.totalMarginBalance || "0"), // 保证金余�?
-        totalPositionInitialMargin: parseFloat(accountInfo.totalPositionInitialMargin || "0"), // 持仓初始保证�?
-        totalOpenOrderInitialMargin: parseFloat(accountInfo.totalOpenOrderInitialMargin || "0"), // 挂单初始保证�?
-        availableBalance: parseFloat(accountInfo.availableBalance || "0"), // 可用余额
-        maxWithdrawAmount: parseFloat(accountInfo.maxWithdrawAmount || "0"), // 最大可转出余额
-      };
-    } catch (error: any) {
-      lastError = error;
-      console.warn(`⚠️ Account info fetch attempt ${attempt} failed:`, error.message);
-
-      if (attempt < 3) {
-        const delay = attempt * 2000; // 递增延迟: 2s, 4s
-        console.log(`�?Retrying in ${delay}ms...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-      }
-    }
-  }
-
-  throw lastError || new Error("Failed to fetch account info after 3 attempts");
+  sharpeRatio: number | null; // 需要权益序列，见 lib/analytics（这里不计算）
 }
 
 export async function getAccountInformationAndPerformance(
   initialCapital?: number
 ): Promise<AccountInformationAndPerformance> {
-  // Use the direct, proxy-aware fetchPositions for reliability
-  const allPositions = await fetchPositions();
+  const exchange = await getExchangeAdapter();
+  const allPositions = await exchange.getPositions();
 
   // 🔧 只保留活跃持仓（contracts !== 0），这样 AI 就知道哪些币有持�?
-  const positions = allPositions.filter((p: any) => p.contracts !== 0);
+  // 附带每个持仓的累计 / 预计资金费（失败时该持仓不带 funding）
+  const positions = await getPositionFunding(exchange, allPositions.filter((p: any) => p.contracts !== 0));
 
   console.log(`📊 Filtered positions: ${positions.length} active out of ${allPositions.length} total`);
 
@@ -230,8 +35,7 @@ export async function getAccountInformationAndPerformance(
   }, 0);
 
   // 获取完整的账户信�?
-  const accountInfo = await fetchAccountInfo();
-  const balanceInfo = await fetchBalance();
+  const accountInfo = await exchange.getAccountInfo();
 
   // 账户总价�?= 钱包总余额（这是币安官方计算的包含所有资产和盈亏的总价值）
   // totalWalletBalance 已经包含了：
@@ -250,9 +54,8 @@ export async function getAccountInformationAndPerformance(
   // 总未实现盈亏（从账户信息获取，更准确�?
   const totalUnrealizedPnl = accountInfo.totalUnrealizedProfit;
 
-  const sharpeRatio = baseCapital > 0 && Math.abs(totalUnrealizedPnl) > 0.001
-    ? currentTotalReturn / Math.abs(totalUnrealizedPnl / baseCapital)
-    : 0;
+  // 单个账户快照无法计算 Sharpe，真实指标由 lib/analytics 基于权益序列计算
+  const sharpeRatio = null;
 
   console.log(`💰 Account Value Details:
   📊 Total Wallet Balance: $${totalAccountValue.toFixed(4)}
@@ -268,7 +71,8 @@ export async function getAccountInformationAndPerformance(
     positions.forEach((p: any) => {
       const side = p.contracts > 0 ? 'LONG' : 'SHORT';
       const pnl = p.unrealizedPnl >= 0 ? `+$${p.unrealizedPnl.toFixed(2)}` : `-$${Math.abs(p.unrealizedPnl).toFixed(2)}`;
-      console.log(`   �?${p.symbol}: ${side} ${Math.abs(p.contracts)} @ $${p.entryPrice} (PnL: ${pnl})`);
+      const funding = p.funding ? `, funding paid: $${p.funding.accruedCost.toFixed(4)}` : '';
+      console.log(`   �?${p.symbol}: ${side} ${Math.abs(p.contracts)} @ $${p.entryPrice} (PnL: ${pnl}${funding})`);
     });
   }
 
@@ -282,7 +86,8 @@ export async function getAccountInformationAndPerformance(
     sharpeRatio,
   };
 } export function formatAccountPerformance(
-  accountPerformance: AccountInformationAndPerformance
+  accountPerformance: AccountInformationAndPerformance,
+  performanceAnalytics?: PerformanceAnalytics | null
 ) {
   const { currentTotalReturn, availableCash, totalCashValue, positions, currentPositionsValue } =
     accountPerformance;
@@ -291,17 +96,20 @@ export async function getAccountInformationAndPerformance(
     return acc + (position.unrealizedPnl || 0);
   }, 0);
 
-  // Calculate Sharpe Ratio (simplified approximation)
-  // Note: For accurate Sharpe ratio, you'd need historical returns data
-  const sharpeRatio = currentTotalReturn > 0 ? (currentTotalReturn / 0.1).toFixed(2) : "N/A";
+  // 风险调整指标来自权益序列和已平仓交易（lib/analytics）
+  const riskMetrics = performanceAnalytics
+    ? formatPerformanceAnalytics(performanceAnalytics)
+    : "Sharpe Ratio (annualized): N/A (no performance history)\n";
 
   let output = `Current Total Return (percent): ${(currentTotalReturn * 100).toFixed(2)}%
 Available Cash: $${availableCash.toFixed(4)}
 Current Account Value: $${totalCashValue.toFixed(4)}
-Sharpe Ratio (risk-adjusted returns): ${sharpeRatio}
 Unrealized PnL: $${totalUnrealizedPnl.toFixed(4)}
 Positions Value: $${currentPositionsValue.toFixed(4)}
 
+## PERFORMANCE ANALYTICS
+
+${riskMetrics}
 ## CURRENT POSITION INFORMATION
 
 Total Active Positions: ${positions.length}
@@ -324,6 +132,9 @@ Position ${index + 1}:
   profit_target (takeProfit): ${position.takeProfitPrice ? '$' + position.takeProfitPrice.toFixed(4) : 'Not Set'}
   stop_loss: ${position.stopLossPrice ? '$' + position.stopLossPrice.toFixed(4) : 'Not Set'}
 `;
+      if (position.funding) {
+        output += formatPositionFunding(position.funding, position.unrealizedPnl || 0);
+      }
     });
   } else {
     output += '\nNo active positions currently.\n';
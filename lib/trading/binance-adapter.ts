@@ -0,0 +1,626 @@
+/**
+ * Binance UM Futures 适配器
+ * 统一处理 API Key 选择、代理、签名和重试，其他模块通过 ExchangeAdapter 调用
+ */
+
+import crypto from "crypto";
+import { ProxyAgent } from "undici";
+import { ensureTimeSync, getAdjustedTimestamp, getBinanceBaseUrls } from "./binance-official";
+import type { Position } from "./positions";
+import {
+    toExchangeSymbol,
+    type ExchangeAccountInfo,
+    type ExchangeAdapter,
+    type ExchangeBalance,
+    type ExchangeIncome,
+    type ExchangeOrder,
+    type ExchangeTrade,
+    type FundingRateEntry,
+    type FundingSchedule,
+    type IncomeQuery,
+    type KlineRange,
+    type LeverageBracket,
+    type OhlcvRow,
+    type PlaceOrderParams,
+    type PositionMode,
+    type SymbolFilters,
+} from "./exchange-adapter";
+
+type RequestParams = Record<string, string | number | boolean | undefined>;
+
+const DEFAULT_FUNDING_INTERVAL_HOURS = 8;
+const FUNDING_INFO_TTL_MS = 60 * 60 * 1000;
+
+interface BinancePosition {
+    symbol: string;
+    positionAmt: string;
+    entryPrice: string;
+    markPrice: string;
+    unRealizedProfit: string;
+    liquidationPrice: string;
+    leverage: string;
+    notional: string;
+    marginType: string;
+    isolatedMargin: string;
+    isAutoAddMargin: string;
+    positionSide: string;
+    maxNotionalValue: string;
+    updateTime: number;
+}
+
+interface BinanceOrder {
+    orderId: number;
+    clientOrderId?: string;
+    symbol: string;
+    side: "BUY" | "SELL";
+    positionSide?: "LONG" | "SHORT" | "BOTH";
+    type: string;
+    status: string;
+    price?: string;
+    avgPrice?: string;
+    stopPrice?: string;
+    origQty?: string;
+    executedQty?: string;
+    reduceOnly?: boolean;
+    closePosition?: boolean;
+    updateTime?: number;
+}
+
+interface BinanceUserTrade {
+    id: number;
+    orderId: number;
+    symbol: string;
+    side: "BUY" | "SELL";
+    positionSide: "LONG" | "SHORT" | "BOTH";
+    price: string;
+    qty: string;
+    realizedPnl: string;
+    commission: string;
+    commissionAsset: string;
+    maker: boolean;
+    time: number;
+}
+
+interface BinanceIncome {
+    tranId: number;
+    symbol: string;
+    incomeType: string;
+    income: string;
+    asset: string;
+    tradeId?: string;
+    time: number;
+}
+
+interface BinanceFundingRate {
+    symbol: string;
+    fundingRate: string;
+    fundingTime: number;
+    markPrice?: string;
+}
+
+interface BinanceFundingInfo {
+    symbol: string;
+    fundingIntervalHours: number;
+}
+
+interface BinanceSymbolInfo {
+    symbol: string;
+    status: string;
+    pricePrecision: number;
+    quantityPrecision: number;
+    filters: Array<{
+        filterType: string;
+        tickSize?: string;
+        minPrice?: string;
+        maxPrice?: string;
+        stepSize?: string;
+        minQty?: string;
+        maxQty?: string;
+        notional?: string;
+    }>;
+}
+
+interface BinanceLeverageBracket {
+    symbol: string;
+    brackets: Array<{
+        bracket: number;
+        initialLeverage: number;
+        notionalCap: number;
+        notionalFloor: number;
+        maintMarginRatio: number;
+    }>;
+}
+
+/**
+ * 根据 TRADING_MODE 选择 API Key
+ */
+function getCredentials(): { apiKey: string; apiSecret: string } {
+    const tradingMode = process.env.TRADING_MODE || "dry-run";
+    const isDryRun = tradingMode === "dry-run";
+
+    const apiKey = isDryRun ? process.env.BINANCE_TESTNET_API_KEY : process.env.BINANCE_LIVE_API_KEY;
+    const apiSecret = isDryRun ? process.env.BINANCE_TESTNET_API_SECRET : process.env.BINANCE_LIVE_API_SECRET;
+
+    if (!apiKey || !apiSecret) {
+        const configType = isDryRun ? "TESTNET" : "LIVE";
+        throw new Error(
+            `BINANCE_${configType}_API_KEY or BINANCE_${configType}_API_SECRET not configured. ` +
+            `Please set them in .env file for ${isDryRun ? 'virtual' : 'live'} trading.`
+        );
+    }
+
+    return { apiKey, apiSecret };
+}
+
+// 仅针对 Binance 按需使用代理，避免影响 DeepSeek 等其他出网请求
+let proxyDispatcher: ProxyAgent | null | undefined;
+
+export function getProxyDispatcher(): ProxyAgent | undefined {
+    if (proxyDispatcher === undefined) {
+        const disableProxy = String(process.env.BINANCE_DISABLE_PROXY || "").toLowerCase() === "true";
+        const proxyUrl = process.env.BINANCE_HTTP_PROXY || process.env.HTTPS_PROXY || process.env.HTTP_PROXY;
+        proxyDispatcher = proxyUrl && !disableProxy ? new ProxyAgent(proxyUrl) : null;
+    }
+    return proxyDispatcher ?? undefined;
+}
+
+function getTimeoutMs(): number {
+    return Number(process.env.BINANCE_FETCH_TIMEOUT_MS || 25000);
+}
+
+function toQueryString(params: RequestParams): string {
+    return Object.entries(params)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
+        .join("&");
+}
+
+async function sendRequest<T>(method: string, url: string, headers: Record<string, string>): Promise<T> {
+    const fetchOptions: RequestInit = {
+        method,
+        headers,
+        cache: "no-store",
+        signal: AbortSignal.timeout(getTimeoutMs()),
+    };
+
+    const dispatcher = getProxyDispatcher();
+    if (dispatcher) {
+        (fetchOptions as { dispatcher?: ProxyAgent }).dispatcher = dispatcher;
+    }
+
+    const response = await fetch(url, fetchOptions);
+    const responseText = await response.text();
+
+    if (!response.ok) {
+        throw new Error(`Binance API error: ${response.status} ${responseText}`);
+    }
+
+    if (!responseText || responseText.trim() === "") {
+        throw new Error(`Empty response from server`);
+    }
+
+    try {
+        return JSON.parse(responseText) as T;
+    } catch {
+        throw new Error(`Invalid JSON response: ${responseText.substring(0, 100)}...`);
+    }
+}
+
+// 4xx（参数错误、订单不存在等）重试或换域名也不会成功；408 / 429 除外
+function isClientError(error: Error): boolean {
+    return /Binance API error: 4(?!08|29)\d\d/.test(error.message);
+}
+
+// 连接阶段失败（域名解析 / 拒绝连接），请求肯定没有送达，写操作也可以换域名重发
+function isConnectError(error: Error): boolean {
+    const code = (error.cause as { code?: string } | undefined)?.code;
+    return code === "ENOTFOUND" || code === "EAI_AGAIN" || code === "ECONNREFUSED" || code === "UND_ERR_CONNECT_TIMEOUT";
+}
+
+/**
+ * 签名请求，配置了多个域名时依次尝试。GET 请求失败时重试（2s, 4s），
+ * 下单等写操作只发一次（仅连接失败时换域名），由调用方决定是否重试
+ */
+async function signedRequest<T>(method: "GET" | "POST" | "DELETE", path: string, params: RequestParams = {}): Promise<T> {
+    const { apiKey, apiSecret } = getCredentials();
+    const baseUrls = getBinanceBaseUrls();
+    const maxAttempts = method === "GET" ? 3 : 1;
+
+    // 🔧 先同步服务器时间，避免 -1021 错误
+    await ensureTimeSync();
+
+    let lastError: Error | null = null;
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        for (let i = 0; i < baseUrls.length; i++) {
+            try {
+                const query = toQueryString({ ...params, timestamp: getAdjustedTimestamp(), recvWindow: 60000 });
+                const signature = crypto.createHmac("sha256", apiSecret).update(query).digest("hex");
+                return await sendRequest<T>(method, `${baseUrls[i]}${path}?${query}&signature=${signature}`, {
+                    "X-MBX-APIKEY": apiKey,
+                    "Content-Type": "application/json",
+                });
+            } catch (error) {
+                lastError = error as Error;
+                if (isClientError(lastError) || (method !== "GET" && !isConnectError(lastError))) {
+                    throw lastError;
+                }
+                if (i < baseUrls.length - 1) {
+                    console.warn(`⚠️ ${method} ${path} failed on ${baseUrls[i]}, trying ${baseUrls[i + 1]}: ${lastError.message}`);
+                }
+            }
+        }
+        if (attempt < maxAttempts) {
+            const delay = attempt * 2000;
+            console.warn(`⚠️ ${method} ${path} attempt ${attempt}/${maxAttempts} failed: ${lastError?.message}`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+        }
+    }
+
+    throw lastError || new Error(`${method} ${path} failed`);
+}
+
+/**
+ * 公共行情请求，每轮依次尝试配置的域名，指数退避重试: 1s, 2s, 4s, 8s
+ */
+async function publicRequest<T>(path: string, params: RequestParams = {}): Promise<T> {
+    const baseUrls = getBinanceBaseUrls();
+    const query = toQueryString(params);
+    const maxRetries = 5;
+
+    let lastErr: unknown;
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+        for (const baseUrl of baseUrls) {
+            try {
+                return await sendRequest<T>("GET", `${baseUrl}${path}${query ? `?${query}` : ""}`, {});
+            } catch (e) {
+                lastErr = e;
+                if (e instanceof Error && isClientError(e)) {
+                    throw e;
+                }
+            }
+        }
+        if (attempt < maxRetries) {
+            const delay = Math.min(1000 * Math.pow(2, attempt - 1), 8000);
+            const errorMsg = lastErr instanceof Error ? lastErr.message : String(lastErr);
+            console.log(`⚠️ Attempt ${attempt}/${maxRetries} failed: ${errorMsg.substring(0, 100)}`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+        }
+    }
+
+    throw lastErr instanceof Error ? lastErr : new Error(`GET ${path} failed after all retries`);
+}
+
+function mapOrder(order: BinanceOrder): ExchangeOrder {
+    return {
+        orderId: String(order.orderId),
+        clientOrderId: order.clientOrderId,
+        symbol: order.symbol,
+        side: order.side,
+        positionSide: order.positionSide,
+        type: order.type,
+        status: order.status,
+        price: parseFloat(order.price || "0"),
+        avgPrice: parseFloat(order.avgPrice || "0"),
+        stopPrice: parseFloat(order.stopPrice || "0"),
+        origQty: parseFloat(order.origQty || "0"),
+        executedQty: parseFloat(order.executedQty || "0"),
+        reduceOnly: !!order.reduceOnly,
+        closePosition: !!order.closePosition,
+        updateTime: order.updateTime || Date.now(),
+    };
+}
+
+function mapSymbolFilters(info: BinanceSymbolInfo): SymbolFilters {
+    const filter = (type: string) => info.filters.find((f) => f.filterType === type) || {};
+    const priceFilter = filter("PRICE_FILTER") as BinanceSymbolInfo["filters"][number];
+    const lotSize = filter("LOT_SIZE") as BinanceSymbolInfo["filters"][number];
+    const marketLotSize = filter("MARKET_LOT_SIZE") as BinanceSymbolInfo["filters"][number];
+    const minNotional = filter("MIN_NOTIONAL") as BinanceSymbolInfo["filters"][number];
+
+    return {
+        symbol: info.symbol,
+        pricePrecision: info.pricePrecision,
+        quantityPrecision: info.quantityPrecision,
+        tickSize: parseFloat(priceFilter.tickSize || "0"),
+        minPrice: parseFloat(priceFilter.minPrice || "0"),
+        maxPrice: parseFloat(priceFilter.maxPrice || "0"),
+        stepSize: parseFloat(lotSize.stepSize || "0"),
+        minQty: parseFloat(lotSize.minQty || "0"),
+        maxQty: parseFloat(lotSize.maxQty || "0"),
+        marketStepSize: parseFloat(marketLotSize.stepSize || lotSize.stepSize || "0"),
+        marketMinQty: parseFloat(marketLotSize.minQty || lotSize.minQty || "0"),
+        marketMaxQty: parseFloat(marketLotSize.maxQty || lotSize.maxQty || "0"),
+        minNotional: parseFloat(minNotional.notional || "0"),
+    };
+}
+
+function mapPosition(p: BinancePosition): Position {
+    const positionAmt = parseFloat(p.positionAmt);
+    const contracts = Math.abs(positionAmt);
+    const entryPrice = parseFloat(p.entryPrice);
+    const markPrice = parseFloat(p.markPrice);
+    const notional = Math.abs(parseFloat(p.notional));
+    const leverage = parseFloat(p.leverage);
+
+    // 计算收益率
+    const percentage = entryPrice > 0
+        ? ((markPrice - entryPrice) / entryPrice) * 100 * (positionAmt > 0 ? 1 : -1)
+        : 0;
+
+    return {
+        symbol: p.symbol,
+        side: positionAmt > 0 ? "long" : "short",
+        contracts,
+        contractSize: 1,
+        entryPrice,
+        markPrice,
+        notional,
+        leverage,
+        unrealizedPnl: parseFloat(p.unRealizedProfit),
+        percentage,
+        marginType: p.marginType.toLowerCase(),
+        liquidationPrice: parseFloat(p.liquidationPrice),
+        initialMargin: notional / leverage,
+        maintenanceMargin: notional * 0.004, // 简化计算，实际需要查询维持保证金率
+    };
+}
+
+/**
+ * Create the Binance UM Futures implementation of ExchangeAdapter
+ */
+export function createBinanceFuturesAdapter(): ExchangeAdapter {
+    let positionModeCache: PositionMode | null = null;
+    let fundingIntervalCache: { intervals: Map<string, number>; updatedAt: number } | null = null;
+
+    return {
+        name: "binance-um-futures",
+
+        async placeOrder(params: PlaceOrderParams): Promise<ExchangeOrder> {
+            const order = await signedRequest<BinanceOrder>("POST", "/fapi/v1/order", {
+                symbol: toExchangeSymbol(params.symbol),
+                side: params.side,
+                type: params.type,
+                quantity: params.closePosition ? undefined : params.quantity?.toString(),
+                price: params.price?.toString(),
+                stopPrice: params.stopPrice?.toString(),
+                positionSide: params.positionSide,
+                reduceOnly: params.reduceOnly ? "true" : undefined,
+                closePosition: params.closePosition ? "true" : undefined,
+                timeInForce: params.timeInForce ?? (params.type === "LIMIT" ? "GTC" : undefined),
+                newClientOrderId: params.clientOrderId,
+                newOrderRespType: "RESULT",
+            });
+            return mapOrder(order);
+        },
+
+        async cancelOrder(symbol: string, orderId: string): Promise<void> {
+            await signedRequest("DELETE", "/fapi/v1/order", {
+                symbol: toExchangeSymbol(symbol),
+                orderId,
+            });
+        },
+
+        async getOpenOrders(symbol?: string): Promise<ExchangeOrder[]> {
+            const orders = await signedRequest<BinanceOrder[]>("GET", "/fapi/v1/openOrders", {
+                symbol: symbol ? toExchangeSymbol(symbol) : undefined,
+            });
+            return (orders || []).map(mapOrder);
+        },
+
+        async getOrder(symbol: string, orderId: string): Promise<ExchangeOrder> {
+            const order = await signedRequest<BinanceOrder>("GET", "/fapi/v1/order", {
+                symbol: toExchangeSymbol(symbol),
+                orderId,
+            });
+            return mapOrder(order);
+        },
+
+        async getOrderByClientId(symbol: string, clientOrderId: string): Promise<ExchangeOrder | null> {
+            try {
+                const order = await signedRequest<BinanceOrder>("GET", "/fapi/v1/order", {
+                    symbol: toExchangeSymbol(symbol),
+                    origClientOrderId: clientOrderId,
+                });
+                return mapOrder(order);
+            } catch (error) {
+                // -2013 Order does not exist
+                if ((error as Error).message.includes("-2013")) {
+                    return null;
+                }
+                throw error;
+            }
+        },
+
+        async getPositions(): Promise<Position[]> {
+            const positions = await signedRequest<BinancePosition[]>("GET", "/fapi/v2/positionRisk");
+            if (!Array.isArray(positions)) {
+                throw new Error(`Expected array response, got: ${typeof positions}`);
+            }
+            return positions
+                .filter((p) => parseFloat(p.positionAmt) !== 0)
+                .map(mapPosition);
+        },
+
+        async getBalance(): Promise<ExchangeBalance> {
+            const balances = await signedRequest<Array<{ asset: string; balance: string; availableBalance?: string }>>(
+                "GET",
+                "/fapi/v2/balance"
+            );
+            const usdtBalance = balances.find((b) => b.asset === "USDT");
+            const total = parseFloat(usdtBalance?.balance || "0");
+            const free = parseFloat(usdtBalance?.availableBalance || usdtBalance?.balance || "0");
+            return { total, free, used: Math.max(0, total - free) };
+        },
+
+        async getAccountInfo(): Promise<ExchangeAccountInfo> {
+            const accountInfo = await signedRequest<Record<string, string>>("GET", "/fapi/v2/account");
+            return {
+                totalWalletBalance: parseFloat(accountInfo.totalWalletBalance || "0"),
+                totalUnrealizedProfit: parseFloat(accountInfo.totalUnrealizedProfit || "0"),
+                totalMarginBalance: parseFloat(accountInfo.totalMarginBalance || "0"),
+                totalPositionInitialMargin: parseFloat(accountInfo.totalPositionInitialMargin || "0"),
+                totalOpenOrderInitialMargin: parseFloat(accountInfo.totalOpenOrderInitialMargin || "0"),
+                availableBalance: parseFloat(accountInfo.availableBalance || "0"),
+                maxWithdrawAmount: parseFloat(accountInfo.maxWithdrawAmount || "0"),
+            };
+        },
+
+        async getPositionMode(): Promise<PositionMode> {
+            if (positionModeCache) {
+                return positionModeCache;
+            }
+            try {
+                const data = await signedRequest<{ dualSidePosition?: boolean }>("GET", "/fapi/v1/positionSide/dual");
+                positionModeCache = data?.dualSidePosition ? "DUAL_SIDE" : "ONE_WAY";
+                console.log(`📋 Position mode: ${positionModeCache}`);
+            } catch (error) {
+                console.warn(`⚠️ Failed to get position mode, defaulting to ONE_WAY:`, (error as Error).message);
+                positionModeCache = "ONE_WAY";
+            }
+            return positionModeCache;
+        },
+
+        async setLeverage(symbol: string, leverage: number): Promise<void> {
+            await signedRequest("POST", "/fapi/v1/leverage", {
+                symbol: toExchangeSymbol(symbol),
+                leverage: Math.round(leverage),
+            });
+        },
+
+        async getUserTrades(symbol: string, range?: KlineRange): Promise<ExchangeTrade[]> {
+            const trades = await signedRequest<BinanceUserTrade[]>("GET", "/fapi/v1/userTrades", {
+                symbol: toExchangeSymbol(symbol),
+                startTime: range?.startTime,
+                endTime: range?.endTime,
+                limit: 1000,
+            });
+            return (trades || []).map((t) => ({
+                id: String(t.id),
+                orderId: String(t.orderId),
+                symbol: t.symbol,
+                side: t.side,
+                positionSide: t.positionSide,
+                price: parseFloat(t.price),
+                qty: parseFloat(t.qty),
+                realizedPnl: parseFloat(t.realizedPnl),
+                commission: parseFloat(t.commission),
+                commissionAsset: t.commissionAsset,
+                maker: t.maker,
+                time: t.time,
+            }));
+        },
+
+        async getIncomeHistory(query: IncomeQuery = {}): Promise<ExchangeIncome[]> {
+            const rows = await signedRequest<BinanceIncome[]>("GET", "/fapi/v1/income", {
+                symbol: query.symbol ? toExchangeSymbol(query.symbol) : undefined,
+                incomeType: query.incomeType,
+                startTime: query.startTime,
+                endTime: query.endTime,
+                limit: 1000,
+            });
+            return (rows || []).map((row) => ({
+                id: String(row.tranId),
+                symbol: row.symbol,
+                incomeType: row.incomeType,
+                income: parseFloat(row.income),
+                asset: row.asset,
+                tradeId: row.tradeId || undefined,
+                time: row.time,
+            }));
+        },
+
+        async getMarkPrice(symbol: string): Promise<number> {
+            const data = await publicRequest<{ markPrice?: string }>("/fapi/v1/premiumIndex", {
+                symbol: toExchangeSymbol(symbol),
+            });
+            return parseFloat(data?.markPrice || "0");
+        },
+
+        async getKlines(symbol: string, interval: string, limit = 100, range?: KlineRange): Promise<OhlcvRow[]> {
+            const data = await publicRequest<unknown[][]>("/fapi/v1/klines", {
+                symbol: toExchangeSymbol(symbol),
+                interval,
+                limit,
+                startTime: range?.startTime,
+                endTime: range?.endTime,
+            });
+            // Each kline: [ openTime, open, high, low, close, volume, ... ]
+            return data.map((row) => row.slice(0, 6).map(Number));
+        },
+
+        async getOpenInterest(symbol: string): Promise<number> {
+            const data = await publicRequest<{ openInterest?: string }>("/fapi/v1/openInterest", {
+                symbol: toExchangeSymbol(symbol),
+            });
+            return data?.openInterest ? Number(data.openInterest) : 0;
+        },
+
+        async getFundingRate(symbol: string): Promise<number> {
+            const data = await publicRequest<{ lastFundingRate?: string }>("/fapi/v1/premiumIndex", {
+                symbol: toExchangeSymbol(symbol),
+            });
+            return data?.lastFundingRate ? Number(data.lastFundingRate) : 0;
+        },
+
+        async getFundingRateHistory(symbol: string, range?: KlineRange): Promise<FundingRateEntry[]> {
+            const rows = await publicRequest<BinanceFundingRate[]>("/fapi/v1/fundingRate", {
+                symbol: toExchangeSymbol(symbol),
+                startTime: range?.startTime,
+                endTime: range?.endTime,
+                limit: 1000,
+            });
+            return (rows || []).map((row) => ({
+                symbol: row.symbol,
+                fundingRate: parseFloat(row.fundingRate),
+                fundingTime: row.fundingTime,
+                markPrice: parseFloat(row.markPrice || "0"),
+            }));
+        },
+
+        async getFundingSchedule(symbol: string): Promise<FundingSchedule> {
+            const exchangeSymbol = toExchangeSymbol(symbol);
+            const data = await publicRequest<{ nextFundingTime?: number }>("/fapi/v1/premiumIndex", {
+                symbol: exchangeSymbol,
+            });
+            if (!data?.nextFundingTime) {
+                throw new Error(`No nextFundingTime for ${exchangeSymbol}`);
+            }
+
+            // fundingInfo 只列出结算周期被调整过的币种，不在列表里的按 8 小时；列表很少变化，缓存 1 小时
+            if (!fundingIntervalCache || Date.now() - fundingIntervalCache.updatedAt > FUNDING_INFO_TTL_MS) {
+                const rows = await publicRequest<BinanceFundingInfo[]>("/fapi/v1/fundingInfo");
+                fundingIntervalCache = {
+                    intervals: new Map((rows || []).map((row) => [row.symbol, Number(row.fundingIntervalHours)])),
+                    updatedAt: Date.now(),
+                };
+            }
+
+            return {
+                nextFundingTime: data.nextFundingTime,
+                intervalHours: fundingIntervalCache.intervals.get(exchangeSymbol) || DEFAULT_FUNDING_INTERVAL_HOURS,
+            };
+        },
+
+        async getSymbolFilters(): Promise<SymbolFilters[]> {
+            const data = await publicRequest<{ symbols?: BinanceSymbolInfo[] }>("/fapi/v1/exchangeInfo");
+            return (data?.symbols || [])
+                .filter((info) => info.status === "TRADING")
+                .map(mapSymbolFilters);
+        },
+
+        async getLeverageBrackets(symbol: string): Promise<LeverageBracket[]> {
+            const data = await signedRequest<BinanceLeverageBracket[] | BinanceLeverageBracket>("GET", "/fapi/v1/leverageBracket", {
+                symbol: toExchangeSymbol(symbol),
+            });
+            // 指定 symbol 时部分环境返回对象而非数组
+            const entry = Array.isArray(data) ? data[0] : data;
+            return (entry?.brackets || []).map((b) => ({
+                bracket: b.bracket,
+                initialLeverage: b.initialLeverage,
+                notionalFloor: b.notionalFloor,
+                notionalCap: b.notionalCap,
+                maintMarginRatio: b.maintMarginRatio,
+            }));
+        },
+    };
+}
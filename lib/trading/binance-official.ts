@@ -22,6 +22,11 @@ export function getBinanceBaseUrl(): string {
     const tradingMode = process.env.TRADING_MODE || "dry-run";
     const isDryRun = tradingMode === "dry-run";
 
+    // paper 模式只读取实盘公共行情，不访问测试网
+    if (tradingMode === "paper") {
+        return process.env.PAPER_MARKET_DATA_BASE_URL || process.env.BINANCE_LIVE_BASE_URL || "https://fapi.binance.com";
+    }
+
     if (isDryRun) {
         return process.env.BINANCE_TESTNET_BASE_URL || "https://demo-fapi.binance.com";
     } else {
@@ -29,6 +34,29 @@ export function getBinanceBaseUrl(): string {
     }
 }
 
+/**
+ * BINANCE_*_BASE_URL 可用逗号分隔多个域名，按顺序作为备用
+ */
+export function getBinanceBaseUrls(): string[] {
+    return getBinanceBaseUrl()
+        .split(",")
+        .map((url) => url.trim().replace(/\/$/, ""))
+        .filter(Boolean);
+}
+
+/**
+ * 行情 WebSocket 地址（与 getBinanceBaseUrl 的行情来源保持一致）
+ * MARKET_DATA_STREAM_URL 可指向本地回放服务 (npm run replay-market)
+ */
+export function getBinanceStreamUrl(): string {
+    if (process.env.MARKET_DATA_STREAM_URL) {
+        return process.env.MARKET_DATA_STREAM_URL;
+    }
+    return process.env.TRADING_MODE === "dry-run" || !process.env.TRADING_MODE
+        ? "wss://fstream.binancefuture.com"
+        : "wss://fstream.binance.com";
+}
+
 /**
  * 同步服务器时间 - 每次都实时同步，不缓存
  * 直接使用REST API而不是SDK，避免方法调用问题
@@ -59,7 +87,8 @@ async function syncServerTime(client: UMFutures): Promise<void> {
             }
 
             // 直接使用fetch调用Binance API获取服务器时间
-            const baseUrl = getBinanceBaseUrl();
+            const baseUrls = getBinanceBaseUrls();
+            const baseUrl = baseUrls[(attempt - 1) % baseUrls.length];
             const response = await fetch(`${baseUrl}/fapi/v1/time`, fetchOptions);
 
             const latency = Date.now() - startTime;
@@ -1,144 +1,49 @@
-import { getBinanceInstance, ensureTimeSync, getBinanceBaseUrl } from "./binance-official";
-import { setStopLossTakeProfit } from "./stop-loss-take-profit-official";
-import crypto from 'crypto';
-
-// Cache for position mode (dual side or one-way)
-let positionModeCache: "ONE_WAY" | "DUAL_SIDE" | null = null;
-
-/**
- * Get position mode setting from Binance
- * Returns "ONE_WAY" (单向持仓) or "DUAL_SIDE" (双向持仓)
- */
-async function getPositionMode(): Promise<"ONE_WAY" | "DUAL_SIDE"> {
-    if (positionModeCache) {
-        return positionModeCache;
-    }
-
-    try {
-        const client = await getBinanceInstance();
-        await ensureTimeSync();
-        // Try SDK methods first (different SDKs expose different method names)
-        try {
-            if (typeof (client as any).positionMode === 'function') {
-                const resp = await (client as any).positionMode();
-                const dualSidePosition = resp.data?.dualSidePosition ?? resp?.dualSidePosition ?? false;
-                positionModeCache = dualSidePosition ? "DUAL_SIDE" : "ONE_WAY";
-                console.log(`📋 Position mode: ${positionModeCache} (dualSidePosition: ${dualSidePosition})`);
-                return positionModeCache;
-            }
-            if (typeof (client as any).getPositionMode === 'function') {
-                const resp = await (client as any).getPositionMode();
-                const dualSidePosition = resp.data?.dualSidePosition ?? resp?.dualSidePosition ?? false;
-                positionModeCache = dualSidePosition ? "DUAL_SIDE" : "ONE_WAY";
-                console.log(`📋 Position mode: ${positionModeCache} (dualSidePosition: ${dualSidePosition})`);
-                return positionModeCache;
-            }
-        } catch (e) {
-            // ignore and fallback to REST
-        }
-
-        // REST fallback: /fapi/v1/positionSide/dual (signed)
-        try {
-            // 🔧 根据 TRADING_MODE 自动选择 API 配置
-            const tradingMode = process.env.TRADING_MODE || "dry-run";
-            const isDryRun = tradingMode === "dry-run";
-            const apiKey = isDryRun ? (process.env.BINANCE_TESTNET_API_KEY || '') : (process.env.BINANCE_LIVE_API_KEY || '');
-            const apiSecret = isDryRun ? (process.env.BINANCE_TESTNET_API_SECRET || '') : (process.env.BINANCE_LIVE_API_SECRET || '');
-            const baseUrl = getBinanceBaseUrl().replace(/\/$/, '');
-            const timestamp = Date.now();
-            const query = `timestamp=${timestamp}`;
-            const signature = crypto.createHmac('sha256', apiSecret).update(query).digest('hex');
-            const url = `${baseUrl}/fapi/v1/positionSide/dual?${query}&signature=${signature}`;
-            const resp = await fetch(url, { headers: { 'X-MBX-APIKEY': apiKey } });
-            if (resp.ok) {
-                const data = await resp.json();
-                const dualSidePosition = data?.dualSidePosition ?? false;
-                positionModeCache = dualSidePosition ? "DUAL_SIDE" : "ONE_WAY";
-                console.log(`📋 Position mode (REST): ${positionModeCache} (dualSidePosition: ${dualSidePosition})`);
-                return positionModeCache;
-            }
-        } catch (e) {
-            // ignore and fall through to default
-        }
-
-        positionModeCache = "ONE_WAY";
-        return positionModeCache;
-    } catch (error: any) {
-        console.warn(`⚠️ Failed to get position mode, defaulting to ONE_WAY:`, error.message);
-        positionModeCache = "ONE_WAY";
-        return positionModeCache;
-    }
-} export interface BuyParams {
+import { OrderPurpose } from "@prisma/client";
+import { getExchangeAdapter, type PlaceOrderParams } from "./exchange-adapter";
+import { setStopLossTakeProfit, type TakeProfitTarget } from "./stop-loss-take-profit-official";
+import { fetchPositions } from "./positions";
+import { markOrderProtected, recordOrder, type OrderLedgerContext } from "./order-ledger";
+import { createClientOrderId, submitOrder } from "./order-submission";
+import {
+    formatOrderRejections,
+    getMinOrderQuantity,
+    getSymbolFilters,
+    prepareOrder,
+    roundToStep,
+    type OrderRejection,
+} from "./exchange-filters";
+
+export interface BuyParams {
     symbol: string; // e.g., "BTC/USDT"
     amount: number; // Amount in base currency (BTC)
+    side?: "LONG" | "SHORT"; // 开仓方向，默认 LONG（开空传 SHORT）
     leverage?: number; // 1-125, default 10
     price?: number; // Optional limit price, omit for market order
+    timeInForce?: "GTC" | "GTX"; // 限价单有效方式，GTX 为只做 maker，默认 GTC
     autoSetStopLoss?: boolean; // 自动设置止损，默�?true
     stopLossPercent?: number; // 止损百分比，默认 3%
     takeProfitPercent?: number; // 止盈百分比，默认 10%
+    takeProfitTargets?: TakeProfitTarget[]; // 分批止盈（覆盖 takeProfitPercent）；加仓后按新的持仓数量重新分档
+    ledger?: OrderLedgerContext; // 写入订单账本时关联的决策
+    allowAutoUpsize?: boolean; // 数量低于最小下单量时自动放大数量和杠杆，默认 true；动态风险调整缩小过的开仓传 false，直接跳过
 }
 
 export interface BuyResult {
     success: boolean;
     orderId?: string;
+    status?: string; // 交易所订单状态，限价单未成交时为 NEW
     executedPrice?: number;
-    executedAmount?: number;
+    executedAmount?: number; // 限价单未成交时为 0
+    orderedAmount?: number; // 按交易所规则取整后的下单数量
+    leverage?: number; // 实际使用的杠杆（小订单自动放大后可能高于请求值）
+    protectionSet?: boolean; // 止盈止损已挂
     error?: string;
+    rejections?: OrderRejection[]; // 交易所规则校验失败的原因
 }
 
 /**
- * Binance Futures 合约的精度配�?
- * 数量精度 (quantity) 决定最小可交易数量
- * 注意:测试网精度可能与实盘不同
- */
-const SYMBOL_PRECISION: Record<string, { quantity: number; price: number; minNotional: number }> = {
-    "BTCUSDT": { quantity: 3, price: 1, minNotional: 5 },   // 0.001 BTC, 最�?5
-    "ETHUSDT": { quantity: 2, price: 2, minNotional: 5 },   // 0.01 ETH, 最�?5
-    "BNBUSDT": { quantity: 1, price: 2, minNotional: 5 },   // 0.1 BNB, 最�?5
-    "SOLUSDT": { quantity: 0, price: 3, minNotional: 5 },   // 1 SOL (整数), 最�?5 - 测试网精�?
-    "ADAUSDT": { quantity: 0, price: 4, minNotional: 5 },   // 1 ADA, 最�?5
-    "DOGEUSDT": { quantity: 0, price: 5, minNotional: 5 },  // 1 DOGE, 最�?5 🐕
-};
-
-/**
- * 调整数量精度以符�?Binance 要求
- */
-function adjustPrecision(amount: number, symbol: string): number {
-    const config = SYMBOL_PRECISION[symbol] || { quantity: 3, price: 2, minNotional: 5 };
-    const factor = Math.pow(10, config.quantity);
-    const adjusted = Math.floor(amount * factor) / factor;
-
-    if (adjusted !== amount) {
-        console.log(`⚙️ Precision adjusted: ${amount} �?${adjusted} (${config.quantity} decimals)`);
-    }
-
-    return adjusted;
-}
-
-/**
- * 检查订单是否满足最小名义价值要�?
- */
-function checkMinNotional(amount: number, symbol: string, price?: number): { valid: boolean; reason?: string } {
-    const config = SYMBOL_PRECISION[symbol] || { quantity: 3, price: 2, minNotional: 5 };
-
-    // 如果没有提供价格,跳过检�?市价单在执行时会检�?
-    if (!price) {
-        return { valid: true };
-    }
-
-    const notional = amount * price;
-    if (notional < config.minNotional) {
-        return {
-            valid: false,
-            reason: `Order value $${notional.toFixed(2)} below minimum $${config.minNotional}`
-        };
-    }
-
-    return { valid: true };
-}
-
-/**
- * Execute a buy order on Binance Futures
+ * Open (or add to) a long or short position on Binance Futures
+ * LONG 发送 BUY，SHORT 发送 SELL；DUAL_SIDE 模式下带 positionSide，可同时持有多空
  * @param params Buy order parameters
  * @returns Buy result with order details or error
  */
@@ -146,11 +51,16 @@ export async function buy(params: BuyParams): Promise<BuyResult> {
     const {
         symbol,
         amount,
+        side = "LONG",
         leverage = 10,
         price,
+        timeInForce = "GTC",
         autoSetStopLoss = true,
         stopLossPercent,
-        takeProfitPercent
+        takeProfitPercent,
+        takeProfitTargets,
+        ledger,
+        allowAutoUpsize = true,
     } = params;
 
     // Validate parameters
@@ -167,20 +77,18 @@ export async function buy(params: BuyParams): Promise<BuyResult> {
     }
 
     try {
-        // 🔄 每次交易前先同步服务器时�?
-        await ensureTimeSync();
-
-        const client = await getBinanceInstance();
+        const exchange = await getExchangeAdapter();
 
         // Convert symbol format: "BTC/USDT" -> "BTCUSDT"
         const binanceSymbol = symbol.replace("/", "");
 
         // 🔍 如果是市价单，先获取当前价格用于订单价值计�?
         let currentPrice = price;
+        let referencePrice = price; // 获取失败时为空，跳过名义价值检查
         if (!currentPrice) {
             try {
-                const ticker = await (client as any).markPrice({ symbol: binanceSymbol });
-                currentPrice = parseFloat(ticker.markPrice);
+                currentPrice = await exchange.getMarkPrice(binanceSymbol);
+                referencePrice = currentPrice;
                 console.log(`📊 Current ${symbol} mark price: $${currentPrice.toFixed(2)}`);
             } catch (e: any) {
                 console.warn(`⚠️ Failed to fetch price, using fallback`);
@@ -188,15 +96,35 @@ export async function buy(params: BuyParams): Promise<BuyResult> {
             }
         }
 
-        // 调整数量精度
-        let adjustedAmount = adjustPrecision(amount, binanceSymbol);
-        const minAmount = Math.pow(10, -(SYMBOL_PRECISION[binanceSymbol]?.quantity || 3));
+        // 按交易所 LOT_SIZE / MIN_NOTIONAL 调整数量
+        const filters = await getSymbolFilters(binanceSymbol);
+        if (!filters) {
+            return {
+                success: false,
+                error: `${symbol} is not a trading symbol on this exchange`,
+                rejections: [{ code: "UNKNOWN_SYMBOL", field: "symbol", value: binanceSymbol, message: `${binanceSymbol} not found in exchangeInfo` }],
+            };
+        }
+        const orderType = price ? "LIMIT" : "MARKET";
+        let adjustedAmount = roundToStep(amount, orderType === "LIMIT" ? filters.stepSize : filters.marketStepSize);
+        if (adjustedAmount !== amount) {
+            console.log(`⚙️ Precision adjusted: ${amount} → ${adjustedAmount} (step ${orderType === "LIMIT" ? filters.stepSize : filters.marketStepSize})`);
+        }
+        const minAmount = getMinOrderQuantity(filters, referencePrice, orderType);
 
         // 🎯 智能处理小订�? 自动放大杠杆或建议放�?
         let effectiveLeverage = leverage; // 实际使用的杠�?
         if (adjustedAmount === 0 || adjustedAmount < minAmount) {
             console.log(`⚠️ Amount ${amount} too small (min: ${minAmount})`);
 
+            // 放大会抵消动态风险调整的缩小，这类开仓直接跳过
+            if (!allowAutoUpsize) {
+                return {
+                    success: false,
+                    error: `Amount ${amount} too small. Minimum for ${symbol} is ${minAmount} and auto-upsizing is disabled for risk-adjusted entries - SKIP THIS TRADE.`,
+                };
+            }
+
             // 计算需要的最小数量和对应的杠杆（使用实际价格�?
             const currentPositionValue = amount * currentPrice;
             const minPositionValue = minAmount * currentPrice;
@@ -244,100 +172,119 @@ export async function buy(params: BuyParams): Promise<BuyResult> {
 
         console.log(`�?Final order amount: ${adjustedAmount} ${symbol} (original: ${amount})`);
 
-        // 检查最小订单价�?限价�?
-        if (price) {
-            const notionalCheck = checkMinNotional(adjustedAmount, binanceSymbol, price);
-            if (!notionalCheck.valid) {
+        // Get position mode to determine if we need positionSide parameter
+        const positionMode = await exchange.getPositionMode();
+
+        // 单向持仓模式下反向开仓会直接冲减现有持仓，必须先平仓
+        if (positionMode === "ONE_WAY") {
+            const positions = await fetchPositions();
+            const opposite = positions.find(
+                (p) => p.symbol === binanceSymbol && p.contracts !== 0 && p.side !== side.toLowerCase()
+            );
+            if (opposite) {
                 return {
                     success: false,
-                    error: notionalCheck.reason || "Order value too small"
+                    error: `Opposite ${opposite.side.toUpperCase()} position open for ${symbol} in ONE_WAY mode. Close it first or enable DUAL_SIDE (hedge) mode.`,
                 };
             }
         }
 
-        // 🎯 设置杠杆（如果自动放大了倍数，需要使用更高的杠杆�?
-        try {
-            console.log(`🔧 Setting leverage to ${effectiveLeverage}x for ${symbol}...`);
-            await (client as any).changeInitialLeverage(binanceSymbol, {
-                leverage: effectiveLeverage,
-            });
-            console.log(`�?Leverage set successfully: ${effectiveLeverage}x`);
-        } catch (leverageError: any) {
-            const errorMsg = leverageError?.response?.data?.msg || leverageError.message;
-            console.warn(`⚠️ Failed to set leverage: ${errorMsg}`);
-            console.warn(`   ℹ️ Continuing with platform default leverage...`);
-        }
-
-        // Get position mode to determine if we need positionSide parameter
-        const positionMode = await getPositionMode();
-
         // Prepare order parameters
-        const orderType = price ? "LIMIT" : "MARKET";
-
-        // 🔧 orderParams 只包含额外参数，不包�?symbol/side/type（这些通过函数参数传递）
-        const orderParams: any = {
-            quantity: adjustedAmount.toString(),
+        let orderParams: PlaceOrderParams = {
+            symbol: binanceSymbol,
+            side: side === "LONG" ? "BUY" : "SELL", // 开多用BUY，开空用SELL
+            type: orderType,
+            quantity: adjustedAmount,
         };
 
         // Only set positionSide for DUAL_SIDE mode (双向持仓)
         if (positionMode === "DUAL_SIDE") {
-            orderParams.positionSide = "LONG";
-            console.log(`📍 Using DUAL_SIDE mode with positionSide: LONG`);
+            orderParams.positionSide = side;
+            console.log(`📍 Using DUAL_SIDE mode with positionSide: ${side}`);
         } else {
             // In ONE_WAY mode, don't set positionSide (or set to "BOTH")
             console.log(`📍 Using ONE_WAY mode (no positionSide parameter)`);
         }
 
         if (price) {
-            orderParams.price = price.toString();
-            orderParams.timeInForce = "GTC"; // Good Till Cancelled
+            orderParams.price = price;
+            orderParams.timeInForce = timeInForce; // GTC: Good Till Cancelled, GTX: post-only
         }
 
-        console.log(`📝 Creating ${orderType} buy order: ${adjustedAmount} ${symbol} (original: ${amount}) at ${price || 'market price'} with ${effectiveLeverage}x leverage`);
-
-        let orderResult;
-        let lastError;
+        // 提交前按交易所规则做最终校验（数量、价格、名义价值、杠杆档位）
+        const prepared = await prepareOrder(orderParams, { referencePrice, leverage: effectiveLeverage });
+        if (!prepared.ok) {
+            const error = formatOrderRejections(prepared.rejections);
+            console.warn(`🚫 Order rejected by exchange filters: ${error}`);
+            return { success: false, error, rejections: prepared.rejections };
+        }
+        orderParams = prepared.params;
 
-        // Retry up to 3 times with increasing delays
-        for (let attempt = 1; attempt <= 3; attempt++) {
-            try {
-                console.log(`🔄 Buy order attempt ${attempt}/3...`);
-
-                // Binance SDK requires: newOrder(symbol, side, type, options)
-                // Not just newOrder(options)!
-                const response = await (client as any).newOrder(
-                    binanceSymbol,
-                    "BUY",
-                    orderType,
-                    orderParams
-                );
-
-                orderResult = response.data;
-                console.log(`�?Buy order created successfully on attempt ${attempt}`);
-                break; // Success, exit loop
-            } catch (orderError: any) {
-                lastError = orderError;
-                const errorMsg = orderError?.response?.data?.msg || orderError.message;
-                console.warn(`⚠️ Buy order attempt ${attempt} failed: ${errorMsg}`);
-
-                if (attempt < 3) {
-                    const delay = attempt * 3000; // Increasing delay: 3s, 6s
-                    console.log(`�?Retrying in ${delay}ms...`);
-                    await new Promise(resolve => setTimeout(resolve, delay));
-                } else {
-                    throw orderError; // Last attempt failed, throw error
-                }
-            }
+        // 🎯 设置杠杆（如果自动放大了倍数，需要使用更高的杠杆�?
+        try {
+            console.log(`🔧 Setting leverage to ${effectiveLeverage}x for ${symbol}...`);
+            await exchange.setLeverage(binanceSymbol, effectiveLeverage);
+            console.log(`�?Leverage set successfully: ${effectiveLeverage}x`);
+        } catch (leverageError: any) {
+            const errorMsg = leverageError?.response?.data?.msg || leverageError.message;
+            console.warn(`⚠️ Failed to set leverage: ${errorMsg}`);
+            console.warn(`   ℹ️ Continuing with platform default leverage...`);
         }
 
-        if (!orderResult) {
-            throw lastError || new Error("Failed to create order after 3 attempts");
+        console.log(`📝 Creating ${orderType} ${side} entry order: ${orderParams.quantity} ${symbol} (original: ${amount}) at ${orderParams.price || 'market price'} with ${effectiveLeverage}x leverage`);
+
+        // 确定性 clientOrderId：重试前先查询，防止首个请求已到达交易所时重复开仓
+        orderParams = {
+            ...orderParams,
+            clientOrderId: createClientOrderId(ledger, OrderPurpose.Entry, orderParams.symbol, side, orderParams.type),
+        };
+        const ledgerEntry = {
+            context: ledger,
+            purpose: OrderPurpose.Entry,
+            request: orderParams,
+            positionSide: side,
+            leverage: effectiveLeverage,
+            stopLossPercent,
+            takeProfitPercent,
+            takeProfitTargets,
+        };
+
+        // Retry up to 3 times with increasing delays (3s, 6s)
+        let orderResult;
+        try {
+            orderResult = await submitOrder(exchange, { ...orderParams, clientOrderId: orderParams.clientOrderId! }, {
+                attempts: 3,
+                retryDelayMs: (attempt) => attempt * 3000,
+                label: "Buy order",
+            });
+        } catch (orderError: any) {
+            const errorMsg = orderError?.response?.data?.msg || orderError.message;
+            await recordOrder({ ...ledgerEntry, error: errorMsg });
+            throw orderError;
         }
 
         console.log(`�?Buy order created successfully:`, orderResult);
+        const ledgerId = await recordOrder({ ...ledgerEntry, order: orderResult });
+
+        // GTX 限价单会立即成交时交易所直接过期
+        if (orderResult.status === "EXPIRED" && orderResult.executedQty === 0) {
+            return {
+                success: false,
+                orderId: orderResult.orderId,
+                status: orderResult.status,
+                error: `Post-only limit order at ${orderParams.price} would execute immediately and was expired by the exchange`,
+            };
+        }
+
+        // 限价单未成交时不挂止盈止损，由 syncEntryOrders 在成交后挂上
+        const isFilled = orderType === "MARKET" || orderResult.status === "FILLED";
+        if (!isFilled) {
+            console.log(`⏳ Limit entry resting at ${orderParams.price} (status ${orderResult.status}), SL/TP will be attached once filled`);
+        }
 
         // 🛡�?自动设置止盈止损
-        if (autoSetStopLoss) {
+        let slTpSuccess = false;
+        if (autoSetStopLoss && isFilled) {
             console.log(`\n🛡�?Setting automatic stop loss and take profit...`);
 
             // 等待更长时间确保订单完全执行并同步到API
@@ -346,16 +293,18 @@ export async function buy(params: BuyParams): Promise<BuyResult> {
             await new Promise(resolve => setTimeout(resolve, 8000));
 
             // 重试逻辑：最多尝�?3 �?每次等待更长时间让旧订单清理完成
-            let slTpSuccess = false;
             for (let attempt = 1; attempt <= 3; attempt++) {
                 try {
                     console.log(`📍 Attempt ${attempt}/3 to set SL/TP...`);
 
                     const slTpResult = await setStopLossTakeProfit({
                         symbol,
+                        positionSide: side,
+                        ledger,
                         // 若未提供百分比，将在模块内基于ATR动态计�?
                         ...(typeof stopLossPercent === 'number' ? { stopLossPercent } : {}),
                         ...(typeof takeProfitPercent === 'number' ? { takeProfitPercent } : {}),
+                        ...(takeProfitTargets?.length ? { takeProfitTargets } : {}),
                     });
 
                     if (slTpResult.success) {
@@ -365,12 +314,15 @@ export async function buy(params: BuyParams): Promise<BuyResult> {
                         } else {
                             console.log(`   🛑 Stop Loss: dynamic (ATR‑based) (Order ID: ${slTpResult.stopLossOrderId})`);
                         }
-                        if (typeof takeProfitPercent === 'number') {
+                        if (takeProfitTargets?.length) {
+                            console.log(`   🎯 Take Profit: ${takeProfitTargets.map((t) => `${t.portion}% @ ${t.price ?? `${t.percent}%`}`).join(", ")} (Order IDs: ${slTpResult.takeProfitOrderIds?.join(", ")})`);
+                        } else if (typeof takeProfitPercent === 'number') {
                             console.log(`   🎯 Take Profit: ${takeProfitPercent}% (Order ID: ${slTpResult.takeProfitOrderId})`);
                         } else {
                             console.log(`   🎯 Take Profit: dynamic (ATR‑based) (Order ID: ${slTpResult.takeProfitOrderId})`);
                         }
                         slTpSuccess = true;
+                        await markOrderProtected(ledgerId);
                         break;
                     } else {
                         console.warn(`⚠️ Attempt ${attempt} failed: ${slTpResult.error}`);
@@ -399,12 +351,16 @@ export async function buy(params: BuyParams): Promise<BuyResult> {
             }
         }
 
-        // Extract order details from Binance response
         return {
             success: true,
-            orderId: orderResult.orderId?.toString(),
-            executedPrice: orderResult.avgPrice ? parseFloat(orderResult.avgPrice) : (orderResult.price ? parseFloat(orderResult.price) : 0),
-            executedAmount: orderResult.executedQty ? parseFloat(orderResult.executedQty) : (orderResult.origQty ? parseFloat(orderResult.origQty) : 0),
+            orderId: orderResult.orderId,
+            status: orderResult.status,
+            executedPrice: orderResult.avgPrice || orderResult.price || currentPrice,
+            // 市价单的下单回报可能还没有成交数量；限价单以实际成交为准，挂单未成交时为 0（成交后由 syncEntryOrders 更新）
+            executedAmount: orderType === "MARKET" ? orderResult.executedQty || orderResult.origQty : orderResult.executedQty,
+            orderedAmount: orderResult.origQty || orderParams.quantity,
+            leverage: effectiveLeverage,
+            protectionSet: slTpSuccess,
         };
     } catch (error: any) {
         const errorMessage = error.message || "Unknown error occurred during buy";
@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildRoundTrips } from "./closed-trade-reconciler";
+import type { ExchangeTrade } from "./exchange-adapter";
+
+let nextId = 1;
+
+function fill(side: "BUY" | "SELL", qty: number, price: number, time: number, realizedPnl = 0): ExchangeTrade {
+    const id = String(nextId++);
+    return {
+        id,
+        orderId: `o${id}`,
+        symbol: "BTCUSDT",
+        side,
+        positionSide: "BOTH",
+        price,
+        qty,
+        realizedPnl,
+        commission: qty * price * 0.0004,
+        commissionAsset: "USDT",
+        maker: false,
+        time,
+    };
+}
+
+describe("buildRoundTrips", () => {
+    it("averages scale-ins and closes the trip when the position is flat", () => {
+        const fills = [
+            fill("BUY", 1, 100, 1000),
+            fill("BUY", 1, 110, 2000),
+            fill("SELL", 2, 120, 3000, 30),
+        ];
+        const [trip, ...rest] = buildRoundTrips(fills, 0);
+
+        assert.equal(rest.length, 0);
+        assert.equal(trip.side, "LONG");
+        assert.equal(trip.quantity, 2);
+        assert.equal(trip.entryPrice, 105);
+        assert.equal(trip.exitPrice, 120);
+        assert.equal(trip.entryTime, 1000);
+        assert.equal(trip.exitTime, 3000);
+        assert.equal(trip.realizedPnl, 30);
+        assert.equal(trip.entryOrderId, fills[0].orderId);
+        assert.equal(trip.closeTradeId, fills[2].id);
+        assert.ok(Math.abs(trip.fees - (0.04 + 0.044 + 0.096)) < 1e-9);
+    });
+
+    it("sorts fills by time before walking them", () => {
+        const fills = [fill("BUY", 1, 100, 1000), fill("SELL", 1, 90, 2000, -10)];
+        const [trip] = buildRoundTrips([...fills].reverse(), 0);
+        assert.equal(trip.side, "LONG");
+        assert.equal(trip.realizedPnl, -10);
+    });
+
+    it("skips a position opened before the fill window", () => {
+        // 窗口内只看到上一笔持仓的平仓成交，之后开了新空头且仍持有
+        const fills = [
+            fill("SELL", 1, 100, 1000, 5),
+            fill("SELL", 2, 100, 2000),
+            fill("BUY", 2, 90, 3000, 20),
+            fill("SELL", 1, 95, 4000),
+        ];
+        const trips = buildRoundTrips(fills, -1);
+
+        assert.equal(trips.length, 1);
+        assert.equal(trips[0].side, "SHORT");
+        assert.equal(trips[0].entryTime, 2000);
+        assert.equal(trips[0].realizedPnl, 20);
+    });
+
+    it("splits a reversing fill into a close and a new trip", () => {
+        const fills = [
+            fill("BUY", 1, 100, 1000),
+            fill("SELL", 3, 110, 2000, 10),
+            fill("BUY", 2, 105, 3000, 10),
+        ];
+        const trips = buildRoundTrips(fills, 0);
+
+        assert.equal(trips.length, 2);
+        assert.deepEqual(trips.map((t) => [t.side, t.quantity, t.entryPrice, t.exitPrice]), [
+            ["LONG", 1, 100, 110],
+            ["SHORT", 2, 110, 105],
+        ]);
+        // 反手成交的手续费按数量拆给两笔
+        assert.ok(Math.abs(trips[1].fees - (3 * 110 * 0.0004 * (2 / 3) + 2 * 105 * 0.0004)) < 1e-9);
+    });
+
+    it("returns nothing while the only trip is still open", () => {
+        assert.deepEqual(buildRoundTrips([fill("BUY", 1, 100, 1000)], 1), []);
+    });
+});
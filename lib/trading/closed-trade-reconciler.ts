@@ -0,0 +1,392 @@
+/**
+ * Closed trade reconciler
+ * 用交易所成交记录（userTrades）和资金流水（income）重建已平仓交易并写入 ClosedTrade：
+ * 已实现盈亏 / 手续费来自成交，资金费来自流水，退出原因来自最后一笔平仓订单的类型。
+ * 开仓的 Trading 记录按币种、方向、时间匹配，匹配到的交易用真实盈亏生成交易教训。
+ */
+
+import { ExitReason, ModelType, Opeartion, Prisma } from "@prisma/client";
+import { prisma } from "../prisma";
+import { analyzeTradeOutcome } from "../ai/learning-feedback";
+import { getEntrySide } from "../ai/decision-schema";
+import {
+    getExchangeAdapter,
+    type ExchangeAdapter,
+    type ExchangeIncome,
+    type ExchangeOrder,
+    type ExchangeTrade,
+    type PositionSide,
+} from "./exchange-adapter";
+import { DEFAULT_METRICS_NAME, type MetricsSeries } from "./metrics-history";
+import type { Position } from "./positions";
+
+const PAGE_LIMIT = 1000; // userTrades / income 单次最多返回条数
+const MAX_RANGE_MS = 7 * 24 * 60 * 60 * 1000; // Binance 单次查询时间跨度上限
+const LOOKBACK_MS = Math.min(Number(process.env.CLOSED_TRADE_LOOKBACK_HOURS || 72) * 60 * 60 * 1000, MAX_RANGE_MS);
+const QTY_EPSILON = 1e-9;
+
+// Trading 行在整轮决策执行完后才写入，因此匹配窗口偏向开仓成交之后
+const MATCH_BEFORE_MS = 5 * 60 * 1000;
+const MATCH_AFTER_MS = 15 * 60 * 1000;
+
+const ENTRY_OPERATIONS = [Opeartion.Buy, Opeartion.OpenLong, Opeartion.OpenShort];
+
+// 写入 TradingLesson.exitReason 的描述（learning-feedback 按关键字识别止损 / 强平）
+const EXIT_REASON_LABELS: Record<ExitReason, string> = {
+    [ExitReason.StopLoss]: "stop loss triggered",
+    [ExitReason.TakeProfit]: "take profit triggered",
+    [ExitReason.Manual]: "closed by market order",
+    [ExitReason.Liquidation]: "liquidation",
+    [ExitReason.BreakEven]: "break-even stop triggered",
+    [ExitReason.TimeStop]: "time stop: position stayed flat too long",
+    [ExitReason.AdverseFunding]: "closed before adverse funding",
+    [ExitReason.EmaCross]: "closed on 4h EMA20/EMA50 cross against the position",
+};
+
+/**
+ * One flat -> flat position cycle rebuilt from fills
+ */
+export interface RoundTrip {
+    symbol: string;
+    side: "LONG" | "SHORT";
+    quantity: number;
+    entryPrice: number;
+    exitPrice: number;
+    entryTime: number; // ms
+    exitTime: number; // ms
+    realizedPnl: number;
+    fees: number;
+    entryOrderId: string; // 第一笔开仓成交所属订单
+    exitOrderId: string;
+    closeTradeId: string;
+}
+
+export interface ReconcileResult {
+    symbols: number;
+    closedTrades: number; // 本次新增
+    lessons: number;
+}
+
+interface OpenTrip {
+    side: "LONG" | "SHORT";
+    entryTime: number;
+    entryOrderId: string;
+    entryQty: number;
+    entryNotional: number;
+    exitQty: number;
+    exitNotional: number;
+    realizedPnl: number;
+    fees: number;
+}
+
+/**
+ * Fills in execution order (same-millisecond fills by trade id)
+ */
+export function sortFills(fills: ExchangeTrade[]): ExchangeTrade[] {
+    return [...fills].sort((a, b) => a.time - b.time || a.id.localeCompare(b.id, undefined, { numeric: true }));
+}
+
+/**
+ * Indexes of the sorted fills that opened from a flat position, found by walking the fills
+ * backwards from the signed position now (long > 0). Ascending; empty when the window never was flat.
+ */
+export function findFlatPoints(sorted: ExchangeTrade[], currentAmount: number): number[] {
+    const points: number[] = [];
+    let amount = currentAmount;
+    for (let i = sorted.length - 1; i >= 0; i--) {
+        amount -= sorted[i].side === "BUY" ? sorted[i].qty : -sorted[i].qty;
+        if (Math.abs(amount) < QTY_EPSILON) {
+            points.unshift(i);
+        }
+    }
+    return points;
+}
+
+/**
+ * Rebuild closed round trips of one symbol / position side from its fills.
+ * `currentAmount` is the signed position now (long > 0); walking the fills backwards from it
+ * finds the earliest flat point in the window, so a position opened before the window is skipped.
+ */
+export function buildRoundTrips(fills: ExchangeTrade[], currentAmount: number): RoundTrip[] {
+    const sorted = sortFills(fills);
+    const start = findFlatPoints(sorted, currentAmount)[0] ?? sorted.length;
+
+    const trips: RoundTrip[] = [];
+    let position = 0;
+    let open: OpenTrip | null = null;
+
+    for (const fill of sorted.slice(start)) {
+        const direction = fill.side === "BUY" ? 1 : -1;
+        let remaining = fill.qty;
+
+        // 反向成交先减仓（单向持仓模式下超出部分反手开新仓）
+        if (open && Math.sign(position) !== direction) {
+            const closeQty = Math.min(remaining, Math.abs(position));
+            open.exitQty += closeQty;
+            open.exitNotional += closeQty * fill.price;
+            open.realizedPnl += fill.realizedPnl;
+            open.fees += fill.commission * (closeQty / fill.qty);
+            position += direction * closeQty;
+            remaining -= closeQty;
+
+            if (Math.abs(position) < QTY_EPSILON) {
+                trips.push({
+                    symbol: fill.symbol,
+                    side: open.side,
+                    quantity: open.entryQty,
+                    entryPrice: open.entryNotional / open.entryQty,
+                    exitPrice: open.exitNotional / open.exitQty,
+                    entryTime: open.entryTime,
+                    exitTime: fill.time,
+                    realizedPnl: open.realizedPnl,
+                    fees: open.fees,
+                    entryOrderId: open.entryOrderId,
+                    exitOrderId: fill.orderId,
+                    closeTradeId: fill.id,
+                });
+                open = null;
+                position = 0;
+            }
+        }
+
+        if (remaining > QTY_EPSILON) {
+            if (!open) {
+                open = {
+                    side: direction > 0 ? "LONG" : "SHORT",
+                    entryTime: fill.time,
+                    entryOrderId: fill.orderId,
+                    entryQty: 0,
+                    entryNotional: 0,
+                    exitQty: 0,
+                    exitNotional: 0,
+                    realizedPnl: 0,
+                    fees: 0,
+                };
+            }
+            open.entryQty += remaining;
+            open.entryNotional += remaining * fill.price;
+            open.fees += fill.commission * (remaining / fill.qty);
+            position += direction * remaining;
+        }
+    }
+
+    return trips;
+}
+
+/**
+ * Exit reason from the type / client id of the last closing order
+ */
+export function getExitReason(order: Pick<ExchangeOrder, "type" | "clientOrderId">): ExitReason {
+    const clientOrderId = order.clientOrderId || "";
+    if (order.type === "LIQUIDATION" || clientOrderId.startsWith("autoclose-") || clientOrderId.startsWith("adl_autoclose")) {
+        return ExitReason.Liquidation;
+    }
+    if (order.type.startsWith("STOP") || order.type === "TRAILING_STOP_MARKET") {
+        return ExitReason.StopLoss;
+    }
+    if (order.type.startsWith("TAKE_PROFIT")) {
+        return ExitReason.TakeProfit;
+    }
+    return ExitReason.Manual;
+}
+
+/**
+ * Signed position amount of one symbol / position side (ONE_WAY fills use "BOTH")
+ */
+function getCurrentAmount(positions: Position[], symbol: string, positionSide: PositionSide): number {
+    return positions
+        .filter((p) => p.symbol === symbol)
+        .filter((p) => positionSide === "BOTH" || p.side === positionSide.toLowerCase())
+        .reduce((sum, p) => sum + (p.side === "long" ? p.contracts : -p.contracts), 0);
+}
+
+/**
+ * Page through a history endpoint by advancing startTime (rows are de-duplicated by id)
+ */
+async function fetchAllPages<T extends { id: string; time: number }>(
+    fetchPage: (startTime: number) => Promise<T[]>,
+    startTime: number,
+    endTime: number
+): Promise<T[]> {
+    const rows = new Map<string, T>();
+    let cursor = startTime;
+    while (cursor <= endTime) {
+        const page = await fetchPage(cursor);
+        page.forEach((row) => rows.set(row.id, row));
+        if (page.length < PAGE_LIMIT) break;
+
+        const lastTime = Math.max(...page.map((row) => row.time));
+        cursor = lastTime > cursor ? lastTime : cursor + 1;
+    }
+    return Array.from(rows.values());
+}
+
+/**
+ * Entry decision of the round trip: the decision that placed the entry order (limit entries fill
+ * cycles after the decision), else the closest one with the same symbol and side around the first fill
+ */
+async function findEntryTrading(model: ModelType, trip: RoundTrip): Promise<string | null> {
+    const entryOrder = await prisma.order.findFirst({
+        where: { model, symbol: trip.symbol, exchangeOrderId: trip.entryOrderId, tradingId: { not: null } },
+        select: { tradingId: true },
+    });
+    // Order.tradingId 不是外键，决策保存失败时可能指向不存在的记录
+    if (entryOrder?.tradingId && await prisma.trading.count({ where: { id: entryOrder.tradingId } }) > 0) {
+        return entryOrder.tradingId;
+    }
+
+    const candidates = await prisma.trading.findMany({
+        where: {
+            symbol: trip.symbol.replace(/USDT$/, ""),
+            opeartion: { in: ENTRY_OPERATIONS },
+            Chat: { model },
+            createdAt: {
+                gte: new Date(trip.entryTime - MATCH_BEFORE_MS),
+                lte: new Date(trip.entryTime + MATCH_AFTER_MS),
+            },
+        },
+        select: { id: true, opeartion: true, createdAt: true },
+    });
+
+    const matched = candidates
+        .filter((c) => getEntrySide(c.opeartion) === trip.side)
+        .sort((a, b) => Math.abs(a.createdAt.getTime() - trip.entryTime) - Math.abs(b.createdAt.getTime() - trip.entryTime));
+    return matched[0]?.id ?? null;
+}
+
+async function resolveExitReason(exchange: ExchangeAdapter, model: ModelType, trip: RoundTrip): Promise<ExitReason> {
+    // 退出规则发出的订单以规则为准（保本止损单在交易所看来只是普通止损）
+    const ruleOrder = await prisma.order.findFirst({
+        where: { model, symbol: trip.symbol, exchangeOrderId: trip.exitOrderId, exitRule: { not: null } },
+        select: { exitRule: true },
+    });
+    if (ruleOrder?.exitRule) {
+        return ruleOrder.exitRule;
+    }
+
+    try {
+        return getExitReason(await exchange.getOrder(trip.symbol, trip.exitOrderId));
+    } catch (error) {
+        console.warn(`⚠️ Failed to load exit order ${trip.exitOrderId} for ${trip.symbol}, assuming manual close:`, (error as Error).message);
+        return ExitReason.Manual;
+    }
+}
+
+/**
+ * Reconcile closed trades of the current exchange account (scoped adapter inside arena runs).
+ * Symbols = open positions + symbols the model traded in the lookback window.
+ */
+export async function reconcileClosedTrades(
+    series: MetricsSeries = { model: ModelType.Deepseek, series: DEFAULT_METRICS_NAME },
+    lookbackMs: number = LOOKBACK_MS
+): Promise<ReconcileResult> {
+    const exchange = await getExchangeAdapter();
+    const endTime = Date.now();
+    const startTime = endTime - Math.min(lookbackMs, MAX_RANGE_MS);
+
+    const [positions, tradings] = await Promise.all([
+        exchange.getPositions(),
+        prisma.trading.findMany({
+            where: {
+                Chat: { model: series.model },
+                opeartion: { not: Opeartion.Hold },
+                createdAt: { gte: new Date(startTime - MATCH_AFTER_MS) },
+            },
+            select: { symbol: true },
+            distinct: ["symbol"],
+        }),
+    ]);
+
+    const symbols = new Set([...positions.map((p) => p.symbol), ...tradings.map((t) => `${t.symbol}USDT`)]);
+    if (symbols.size === 0) {
+        return { symbols: 0, closedTrades: 0, lessons: 0 };
+    }
+
+    const fundingRows: ExchangeIncome[] = await fetchAllPages(
+        (cursor) => exchange.getIncomeHistory({ incomeType: "FUNDING_FEE", startTime: cursor, endTime }),
+        startTime,
+        endTime
+    );
+
+    let walletBalance: number | undefined;
+    let closedTrades = 0;
+    let lessons = 0;
+
+    for (const symbol of symbols) {
+        const fills = await fetchAllPages(
+            (cursor) => exchange.getUserTrades(symbol, { startTime: cursor, endTime }),
+            startTime,
+            endTime
+        );
+        if (fills.length === 0) continue;
+
+        // 双向持仓模式下多空分别成交，各自独立配对
+        const trips = (["BOTH", "LONG", "SHORT"] as const).flatMap((positionSide) => {
+            const sideFills = fills.filter((f) => f.positionSide === positionSide);
+            return sideFills.length > 0
+                ? buildRoundTrips(sideFills, getCurrentAmount(positions, symbol, positionSide))
+                : [];
+        });
+        if (trips.length === 0) continue;
+
+        const existing = await prisma.closedTrade.findMany({
+            where: { account: series.series, symbol, closeTradeId: { in: trips.map((t) => t.closeTradeId) } },
+            select: { closeTradeId: true },
+        });
+        const recorded = new Set(existing.map((row) => row.closeTradeId));
+
+        for (const trip of trips.filter((t) => !recorded.has(t.closeTradeId))) {
+            const funding = fundingRows
+                .filter((row) => row.symbol === symbol && row.time >= trip.entryTime && row.time <= trip.exitTime)
+                .reduce((sum, row) => sum + row.income, 0);
+            const netPnl = trip.realizedPnl - trip.fees + funding;
+            const exitReason = await resolveExitReason(exchange, series.model, trip);
+            const tradingId = await findEntryTrading(series.model, trip);
+
+            try {
+                await prisma.closedTrade.create({
+                    data: {
+                        model: series.model,
+                        account: series.series,
+                        symbol,
+                        side: trip.side,
+                        quantity: trip.quantity,
+                        entryPrice: trip.entryPrice,
+                        exitPrice: trip.exitPrice,
+                        entryTime: new Date(trip.entryTime),
+                        exitTime: new Date(trip.exitTime),
+                        holdSeconds: Math.round((trip.exitTime - trip.entryTime) / 1000),
+                        realizedPnl: trip.realizedPnl,
+                        fees: trip.fees,
+                        funding,
+                        netPnl,
+                        exitReason,
+                        exitOrderId: trip.exitOrderId,
+                        closeTradeId: trip.closeTradeId,
+                        tradingId,
+                    },
+                });
+            } catch (error) {
+                // 并发对账时另一次已写入
+                if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") continue;
+                throw error;
+            }
+            closedTrades++;
+            console.log(
+                `📒 Closed ${trip.side} ${symbol}: qty ${trip.quantity} ${trip.entryPrice.toFixed(4)} → ${trip.exitPrice.toFixed(4)}, ` +
+                `net $${netPnl.toFixed(4)} (fees $${trip.fees.toFixed(4)}, funding $${funding.toFixed(4)}) [${exitReason}]`
+            );
+
+            if (tradingId) {
+                const hasLesson = await prisma.tradingLesson.findFirst({ where: { tradeId: tradingId }, select: { id: true } });
+                if (!hasLesson) {
+                    walletBalance ??= (await exchange.getAccountInfo()).totalWalletBalance;
+                    const lesson = await analyzeTradeOutcome(tradingId, netPnl, EXIT_REASON_LABELS[exitReason], walletBalance, trip);
+                    if (lesson) lessons++;
+                }
+            }
+        }
+    }
+
+    return { symbols: symbols.size, closedTrades, lessons };
+}
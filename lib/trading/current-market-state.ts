@@ -1,5 +1,5 @@
 import { EMA, MACD, RSI, ATR } from "technicalindicators";
-import { getBinanceBaseUrl } from "./binance-official";
+import { getExchangeAdapter } from "./exchange-adapter";
 
 export interface KlineData {
   timestamp: number;
@@ -106,8 +106,125 @@ function calculateATR(
   return atrValues;
 }
 
+export interface MarketStateInput {
+  ohlcv1m: number[][];
+  ohlcv15m: number[][];
+  ohlcv4h: number[][];
+  openInterest?: { latest: number; average: number };
+  fundingRate?: number;
+}
+
+/**
+ * Build market state from raw candles (no network access)
+ * Shared by the live fetcher below and the backtest engine
+ */
+export function buildMarketState({
+  ohlcv1m,
+  ohlcv15m,
+  ohlcv4h,
+  openInterest = { latest: 0, average: 0 },
+  fundingRate = 0,
+}: MarketStateInput): MarketState {
+  // Extract price data from 1-minute candles
+  const closes1m = ohlcv1m.map((candle: number[]) => Number(candle[4])); // Close prices
+
+  // Extract price data from 4-hour candles
+  const closes4h = ohlcv4h.map((candle: number[]) => Number(candle[4]));
+  const highs4h = ohlcv4h.map((candle: number[]) => Number(candle[2]));
+  const lows4h = ohlcv4h.map((candle: number[]) => Number(candle[3]));
+  const volumes4h = ohlcv4h.map((candle: number[]) => Number(candle[5]));
+
+  // Calculate intraday indicators (1-minute timeframe)
+  const ema20_1m = calculateEMA(closes1m, 20);
+  const macd_1m = calculateMACD(closes1m);
+  const rsi7_1m = calculateRSI(closes1m, 7);
+  const rsi14_1m = calculateRSI(closes1m, 14);
+
+  // Calculate longer-term indicators (4-hour timeframe)
+  const ema20_4h = calculateEMA(closes4h, 20);
+  const ema50_4h = calculateEMA(closes4h, 50);
+  const atr3_4h = calculateATR(highs4h, lows4h, closes4h, 3);
+  const atr14_4h = calculateATR(highs4h, lows4h, closes4h, 14);
+  const macd_4h = calculateMACD(closes4h);
+  const rsi14_4h = calculateRSI(closes4h, 14);
+
+  // Get last 10 values for intraday series
+  const last10MidPrices = closes1m.slice(-10);
+  const last10EMA20 = ema20_1m.slice(-10).map((v) => Number(v) || 0);
+  const last10MACD = macd_1m.slice(-10).map((v) => Number(v) || 0);
+  const last10RSI7 = rsi7_1m.slice(-10).map((v) => Number(v) || 0);
+  const last10RSI14 = rsi14_1m.slice(-10).map((v) => Number(v) || 0);
+
+  // Get last 10 MACD and RSI values for 4-hour timeframe
+  const last10MACD4h = macd_4h.slice(-10).map((v) => Number(v) || 0);
+  const last10RSI14_4h = rsi14_4h.slice(-10).map((v) => Number(v) || 0);
+
+  // Current values (latest)
+  const current_price = Number(closes1m[closes1m.length - 1]) || 0;
+  const current_ema20 = Number(ema20_1m[ema20_1m.length - 1]) || 0;
+  const current_macd = Number(macd_1m[macd_1m.length - 1]) || 0;
+  const current_rsi = Number(rsi7_1m[rsi7_1m.length - 1]) || 0;
+
+  // Calculate average volume for 4-hour timeframe
+  const averageVolume4h =
+    volumes4h.reduce((sum: number, vol: number) => sum + vol, 0) /
+    volumes4h.length;
+  const currentVolume4h = volumes4h[volumes4h.length - 1];
+
+  // 构建 K 线数�?- 最�?0根用于趋势分�?
+  const buildKlineData = (ohlcv: number[][], count: number = 10): KlineData[] => {
+    return ohlcv.slice(-count).map((candle) => {
+      const open = candle[1];
+      const close = candle[4];
+      const change_percent = ((close - open) / open) * 100;
+      return {
+        timestamp: candle[0],
+        open: candle[1],
+        high: candle[2],
+        low: candle[3],
+        close: candle[4],
+        volume: candle[5],
+        trend: close >= open ? "bullish" : "bearish",
+        change_percent,
+      };
+    });
+  };
+
+  return {
+    current_price,
+    current_ema20,
+    current_macd,
+    current_rsi,
+    open_interest: openInterest,
+    funding_rate: fundingRate,
+    intraday: {
+      mid_prices: last10MidPrices,
+      ema_20: last10EMA20,
+      macd: last10MACD,
+      rsi_7: last10RSI7,
+      rsi_14: last10RSI14,
+    },
+    longer_term: {
+      ema_20: Number(ema20_4h[ema20_4h.length - 1]) || 0,
+      ema_50: Number(ema50_4h[ema50_4h.length - 1]) || 0,
+      atr_3: Number(atr3_4h[atr3_4h.length - 1]) || 0,
+      atr_14: Number(atr14_4h[atr14_4h.length - 1]) || 0,
+      current_volume: currentVolume4h,
+      average_volume: averageVolume4h,
+      macd: last10MACD4h,
+      rsi_14: last10RSI14_4h,
+    },
+    kline_data: {
+      minute_1: buildKlineData(ohlcv1m, 10),
+      hour_4: buildKlineData(ohlcv4h, 10),
+      minute_15: buildKlineData(ohlcv15m, 10),
+    },
+  };
+}
+
 /**
  * Fetch current market state for a given coin symbol
+ * Served from the WebSocket kline cache (REST fallback on gaps) unless MARKET_DATA_STREAM=false
  * @param symbol - Trading pair symbol (e.g., 'BTC/USDT')
  * @returns Market state with all technical indicators
  */
@@ -115,9 +232,14 @@ export async function getCurrentMarketState(
   symbol: string
 ): Promise<MarketState> {
   try {
-    // Directly call Binance UM Futures REST to avoid ccxt exchangeInfo bootstrap issues
     const normalizedSymbol = symbol.includes("/") ? symbol : `${symbol}/USDT`;
-    const perpSymbol = normalizedSymbol.replace("/", ""); // e.g. BTCUSDT
+
+    const { getMarketDataService, isMarketDataStreamEnabled } = await import("../market-data/market-data-service");
+    if (isMarketDataStreamEnabled()) {
+      return await getMarketDataService().getMarketState(normalizedSymbol);
+    }
+
+    const exchange = await getExchangeAdapter();
 
     // Simple retry helper for transient network errors
     const withRetry = async <T>(fn: () => Promise<T>, retries = 2, delayMs = 500): Promise<T> => {
@@ -130,130 +252,12 @@ export async function getCurrentMarketState(
       }
     };
 
-    const defaultTimeoutMs = Number(process.env.BINANCE_FETCH_TIMEOUT_MS || 15000);
-
-    // Optional: build undici ProxyAgent dispatcher when proxy env is present
-    const resolveDispatcher = async (): Promise<any | undefined> => {
-      const useProxy = String(process.env.BINANCE_DISABLE_PROXY || "").toLowerCase() !== "true";
-      const proxyUrl = process.env.BINANCE_HTTP_PROXY || process.env.HTTPS_PROXY || process.env.HTTP_PROXY;
-      if (!useProxy || !proxyUrl) return undefined;
-      try {
-        const undici: any = await import("undici");
-        if (undici?.ProxyAgent) {
-          return new undici.ProxyAgent(proxyUrl);
-        }
-      } catch {
-        // undici not available at runtime; continue without dispatcher
-      }
-      return undefined;
-    };
-    const dispatcher = await resolveDispatcher();
-
-    const fetchJson = async <T>(paths: string[], timeoutMs = defaultTimeoutMs): Promise<T> => {
-      // 只使用第一个URL,但进行多次重�?
-      const url = paths[0];
-      const maxRetries = 5; // 增加�?次重�?
-
-      let lastErr: unknown;
-      for (let attempt = 1; attempt <= maxRetries; attempt++) {
-        const controller = new AbortController();
-        const timer = setTimeout(() => controller.abort(), timeoutMs);
-
-        try {
-          const res = await fetch(url, {
-            next: { revalidate: 0 },
-            signal: controller.signal,
-            ...(dispatcher ? { dispatcher } : {}),
-          } as any);
-
-          clearTimeout(timer);
-
-          if (!res.ok) {
-            const errorText = await res.text();
-            throw new Error(`${res.status} ${res.statusText}: ${errorText}`);
-          }
-
-          return (await res.json()) as T;
-        } catch (e) {
-          clearTimeout(timer);
-          lastErr = e;
-
-          if (attempt < maxRetries) {
-            // 指数退�? 1s, 2s, 4s, 8s
-            const delay = Math.min(1000 * Math.pow(2, attempt - 1), 8000);
-            const errorMsg = e instanceof Error ? e.message : String(e);
-            console.log(`⚠️ Attempt ${attempt}/${maxRetries} failed: ${errorMsg.substring(0, 100)}`);
-            console.log(`   Retrying in ${delay}ms...`);
-            await new Promise(resolve => setTimeout(resolve, delay));
-          }
-        }
-      }
-
-      throw lastErr instanceof Error ? lastErr : new Error("fetchJson failed after all retries");
-    };
-
-    // 使用环境变量配置的API地址，默认为虚拟�?
-    const baseUrl = getBinanceBaseUrl();
-    const baseHosts = [baseUrl];
-
-    const fetchKlines = async (interval: string, limit = 100): Promise<number[][]> => {
-      const urls = baseHosts.map(
-        (host) => `${host}/fapi/v1/klines?symbol=${perpSymbol}&interval=${interval}&limit=${limit}`
-      );
-      const data = await fetchJson<any[]>(urls);
-      // Each kline: [ openTime, open, high, low, close, volume, ... ]
-      return data.map((row) => [
-        Number(row[0]),
-        Number(row[1]),
-        Number(row[2]),
-        Number(row[3]),
-        Number(row[4]),
-        Number(row[5]),
-      ]);
-    };
+    const fetchKlines = (interval: string, limit = 100) =>
+      exchange.getKlines(normalizedSymbol, interval, limit);
 
     const ohlcv1m = await withRetry(() => fetchKlines("1m", 100));
     const ohlcv4h = await withRetry(() => fetchKlines("4h", 100));
-
-    // Extract price data from 1-minute candles
-    const closes1m = ohlcv1m.map((candle: number[]) => Number(candle[4])); // Close prices
-
-    // Extract price data from 4-hour candles
-    const closes4h = ohlcv4h.map((candle: number[]) => Number(candle[4]));
-    const highs4h = ohlcv4h.map((candle: number[]) => Number(candle[2]));
-    const lows4h = ohlcv4h.map((candle: number[]) => Number(candle[3]));
-    const volumes4h = ohlcv4h.map((candle: number[]) => Number(candle[5]));
-
-    // Calculate intraday indicators (1-minute timeframe)
-    const ema20_1m = calculateEMA(closes1m, 20);
-    const macd_1m = calculateMACD(closes1m);
-    const rsi7_1m = calculateRSI(closes1m, 7);
-    const rsi14_1m = calculateRSI(closes1m, 14);
-
-    // Calculate longer-term indicators (4-hour timeframe)
-    const ema20_4h = calculateEMA(closes4h, 20);
-    const ema50_4h = calculateEMA(closes4h, 50);
-    const atr3_4h = calculateATR(highs4h, lows4h, closes4h, 3);
-    const atr14_4h = calculateATR(highs4h, lows4h, closes4h, 14);
-    const macd_4h = calculateMACD(closes4h);
-    const rsi14_4h = calculateRSI(closes4h, 14);
-
-    // Get last 10 values for intraday series
-    const last10MidPrices = closes1m.slice(-10);
-    const last10EMA20 = ema20_1m.slice(-10).map((v) => Number(v) || 0);
-    const last10MACD = macd_1m.slice(-10).map((v) => Number(v) || 0);
-    const last10RSI7 = rsi7_1m.slice(-10).map((v) => Number(v) || 0);
-    const last10RSI14 = rsi14_1m.slice(-10).map((v) => Number(v) || 0);
-
-    // Get last 10 MACD and RSI values for 4-hour timeframe
-    const last10MACD4h = macd_4h.slice(-10).map((v) => Number(v) || 0);
-    const last10RSI14_4h = rsi14_4h.slice(-10).map((v) => Number(v) || 0);
-
-    // Current values (latest)
-    const current_price = Number(closes1m[closes1m.length - 1]) || 0;
-    const current_ema20 = Number(ema20_1m[ema20_1m.length - 1]) || 0;
-    const current_macd = Number(macd_1m[macd_1m.length - 1]) || 0;
-    const current_rsi = Number(rsi7_1m[rsi7_1m.length - 1]) || 0;
+    const ohlcv15m = await withRetry(() => fetchKlines("15m", 100));
 
     // Fetch open interest and funding rate for perpetual futures
     const openInterestData = { latest: 0, average: 0 };
@@ -261,83 +265,24 @@ export async function getCurrentMarketState(
 
     try {
       // Open Interest
-      const oiUrls = baseHosts.map(
-        (host) => `${host}/fapi/v1/openInterest?symbol=${perpSymbol}`
-      );
-      const oiJson = await withRetry(() => fetchJson<{ openInterest?: string }>(oiUrls));
-      const oiVal = oiJson?.openInterest ? Number(oiJson.openInterest) : 0;
+      const oiVal = await withRetry(() => exchange.getOpenInterest(normalizedSymbol));
       openInterestData.latest = oiVal;
       openInterestData.average = oiVal; // placeholder average
 
       // Funding rate (from premiumIndex)
-      const frUrls = baseHosts.map(
-        (host) => `${host}/fapi/v1/premiumIndex?symbol=${perpSymbol}`
-      );
-      const frJson = await withRetry(() => fetchJson<{ lastFundingRate?: string }>(frUrls));
-      fundingRate = frJson?.lastFundingRate ? Number(frJson.lastFundingRate) : 0;
+      fundingRate = await withRetry(() => exchange.getFundingRate(normalizedSymbol));
     } catch (error) {
       console.warn("Could not fetch open interest or funding rate:", error);
       // Continue with default values
     }
 
-    // Calculate average volume for 4-hour timeframe
-    const averageVolume4h =
-      volumes4h.reduce((sum: number, vol: number) => sum + vol, 0) /
-      volumes4h.length;
-    const currentVolume4h = volumes4h[volumes4h.length - 1];
-
-    // 构建 K 线数�?- 最�?0根用于趋势分�?
-    const buildKlineData = (ohlcv: number[][], count: number = 10): KlineData[] => {
-      return ohlcv.slice(-count).map((candle) => {
-        const open = candle[1];
-        const close = candle[4];
-        const change_percent = ((close - open) / open) * 100;
-        return {
-          timestamp: candle[0],
-          open: candle[1],
-          high: candle[2],
-          low: candle[3],
-          close: candle[4],
-          volume: candle[5],
-          trend: close >= open ? "bullish" : "bearish",
-          change_percent,
-        };
-      });
-    };
-
-    // 获取15分钟K线数�?
-    const ohlcv15m = await withRetry(() => fetchKlines("15m", 100));
-
-    return {
-      current_price,
-      current_ema20,
-      current_macd,
-      current_rsi,
-      open_interest: openInterestData,
-      funding_rate: fundingRate,
-      intraday: {
-        mid_prices: last10MidPrices,
-        ema_20: last10EMA20,
-        macd: last10MACD,
-        rsi_7: last10RSI7,
-        rsi_14: last10RSI14,
-      },
-      longer_term: {
-        ema_20: Number(ema20_4h[ema20_4h.length - 1]) || 0,
-        ema_50: Number(ema50_4h[ema50_4h.length - 1]) || 0,
-        atr_3: Number(atr3_4h[atr3_4h.length - 1]) || 0,
-        atr_14: Number(atr14_4h[atr14_4h.length - 1]) || 0,
-        current_volume: currentVolume4h,
-        average_volume: averageVolume4h,
-        macd: last10MACD4h,
-        rsi_14: last10RSI14_4h,
-      },
-      kline_data: {
-        minute_1: buildKlineData(ohlcv1m, 10),
-        hour_4: buildKlineData(ohlcv4h, 10),
-        minute_15: buildKlineData(ohlcv15m, 10),
-      },
-    };
+    return buildMarketState({
+      ohlcv1m,
+      ohlcv15m,
+      ohlcv4h,
+      openInterest: openInterestData,
+      fundingRate,
+    });
   } catch (error) {
     console.error("Error fetching market state:", error);
     throw error;
@@ -0,0 +1,165 @@
+/**
+ * Limit entry orders
+ * ENTRY_ORDER_TYPE=limit 时开仓按模型给出的价格挂 GTC / GTX 限价单，buy() 把订单写入订单账本（Order），
+ * 生命周期为 NEW → PARTIALLY_FILLED → FILLED / CANCELED / EXPIRED。每轮决策前和每次指标采集时同步状态：
+ * 有成交才挂止盈止损，经过 ENTRY_ORDER_MAX_CYCLES 个决策周期仍未完全成交的挂单撤销
+ */
+
+import { OrderPurpose, OrderStatus, type Order } from "@prisma/client";
+import { prisma } from "../prisma";
+import { getExchangeAdapter, type TimeInForce } from "./exchange-adapter";
+import type { MetricsSeries } from "./metrics-history";
+import { refreshOrder } from "./order-ledger";
+import { setStopLossTakeProfit, type TakeProfitTarget } from "./stop-loss-take-profit-official";
+
+const OPEN_STATUSES: OrderStatus[] = [OrderStatus.NEW, OrderStatus.PARTIALLY_FILLED];
+
+export interface EntryOrderConfig {
+    orderType: "market" | "limit";
+    timeInForce: Extract<TimeInForce, "GTC" | "GTX">;
+    maxCycles: number;
+}
+
+export interface EntryOrderSyncResult {
+    open: number;
+    filled: number;
+    canceled: number;
+    protected: number;
+}
+
+/**
+ * Get entry order configuration from environment variables
+ */
+export function getEntryOrderConfig(): EntryOrderConfig {
+    return {
+        orderType: (process.env.ENTRY_ORDER_TYPE || "market").toLowerCase() === "limit" ? "limit" : "market",
+        timeInForce: (process.env.ENTRY_TIME_IN_FORCE || "GTC").toUpperCase() === "GTX" ? "GTX" : "GTC",
+        maxCycles: Math.max(1, Number(process.env.ENTRY_ORDER_MAX_CYCLES || 3)),
+    };
+}
+
+/**
+ * Attach SL/TP once an entry order has fills (claimed first so concurrent syncs attach only once)
+ */
+async function protectFilledEntry(order: Order): Promise<boolean> {
+    const claimed = await prisma.order.updateMany({
+        where: { id: order.id, protectionSet: false },
+        data: { protectionSet: true },
+    });
+    if (claimed.count === 0) return false;
+
+    const result = await setStopLossTakeProfit({
+        symbol: order.symbol.replace(/USDT$/, "/USDT"),
+        positionSide: order.positionSide as "LONG" | "SHORT",
+        ledger: {
+            series: { model: order.model, series: order.account },
+            tradingId: order.tradingId ?? undefined,
+            chatId: order.chatId ?? undefined,
+        },
+        ...(order.stopLossPercent != null ? { stopLossPercent: order.stopLossPercent } : {}),
+        ...(order.takeProfitPercent != null ? { takeProfitPercent: order.takeProfitPercent } : {}),
+        ...(Array.isArray(order.takeProfitTargets) ? { takeProfitTargets: order.takeProfitTargets as unknown as TakeProfitTarget[] } : {}),
+    });
+
+    if (!result.success) {
+        console.warn(`⚠️ Failed to attach SL/TP to filled entry ${order.symbol} #${order.exchangeOrderId}: ${result.error}`);
+        await prisma.order.update({ where: { id: order.id }, data: { protectionSet: false } });
+        return false;
+    }
+
+    console.log(`🛡️ SL/TP attached to filled entry ${order.symbol} #${order.exchangeOrderId}`);
+    return true;
+}
+
+/**
+ * Sync the account's limit entry orders with the exchange.
+ * advanceCycle: count this call as one decision cycle and cancel orders that reached maxCycles
+ */
+export async function syncEntryOrders(
+    series: MetricsSeries,
+    options: { advanceCycle?: boolean } = {}
+): Promise<EntryOrderSyncResult> {
+    const { maxCycles } = getEntryOrderConfig();
+    const result: EntryOrderSyncResult = { open: 0, filled: 0, canceled: 0, protected: 0 };
+
+    // 已终结但有成交、止盈止损还没挂上的单也要处理（上次挂单失败时重试）
+    const orders = await prisma.order.findMany({
+        where: {
+            model: series.model,
+            account: series.series,
+            purpose: OrderPurpose.Entry,
+            type: "LIMIT",
+            exchangeOrderId: { not: null },
+            OR: [
+                { status: { in: OPEN_STATUSES } },
+                { protectionSet: false, executedQty: { gt: 0 } },
+            ],
+        },
+        orderBy: { createdAt: "asc" },
+    });
+    if (orders.length === 0) return result;
+
+    const exchange = await getExchangeAdapter();
+
+    for (const order of orders) {
+        let current = order;
+
+        if (OPEN_STATUSES.includes(order.status)) {
+            try {
+                current = await refreshOrder(order);
+            } catch (error) {
+                console.warn(`⚠️ Failed to query entry order ${order.symbol} #${order.exchangeOrderId}:`, error instanceof Error ? error.message : error);
+                continue;
+            }
+
+            const cycles = order.cycles + (options.advanceCycle && OPEN_STATUSES.includes(current.status) ? 1 : 0);
+            if (OPEN_STATUSES.includes(current.status) && cycles >= maxCycles) {
+                try {
+                    await exchange.cancelOrder(order.symbol, order.exchangeOrderId!);
+                    console.log(`⏱️ Canceled stale entry order ${order.symbol} #${order.exchangeOrderId} after ${cycles} cycles`);
+                } catch (error) {
+                    // 撤单失败通常是刚好成交，以重新查询的状态为准
+                    console.warn(`⚠️ Failed to cancel entry order ${order.symbol} #${order.exchangeOrderId}:`, error instanceof Error ? error.message : error);
+                }
+                try {
+                    current = await refreshOrder(current);
+                } catch (error) {
+                    // 撤单结果未知时不改状态：挂单仍算未完结，下次同步会再撤一次
+                    console.warn(`⚠️ Failed to confirm cancel of entry order ${order.symbol} #${order.exchangeOrderId}, retrying next sync:`, error instanceof Error ? error.message : error);
+                }
+            }
+            // 部分成交时按当时的持仓分档挂的止盈，完全成交后按最终数量重新分档
+            if (
+                order.status === OrderStatus.PARTIALLY_FILLED &&
+                current.status === OrderStatus.FILLED &&
+                current.protectionSet &&
+                Array.isArray(current.takeProfitTargets)
+            ) {
+                current = await prisma.order.update({ where: { id: order.id }, data: { protectionSet: false } });
+            }
+            if (cycles !== current.cycles) {
+                current = await prisma.order.update({ where: { id: order.id }, data: { cycles } });
+            }
+
+            const isClosed = current.status === OrderStatus.CANCELED || current.status === OrderStatus.EXPIRED;
+            if (current.status === OrderStatus.FILLED) result.filled++;
+            if (isClosed) result.canceled++;
+            if (OPEN_STATUSES.includes(current.status)) result.open++;
+
+            // 决策记录改为实际成交的数量和均价
+            if (!OPEN_STATUSES.includes(current.status) && current.executedQty > 0 && current.tradingId) {
+                await prisma.trading.updateMany({
+                    where: { id: current.tradingId },
+                    data: { amount: current.executedQty, pricing: current.avgPrice || current.price },
+                });
+            }
+        }
+
+        // 有成交就挂止盈止损（closePosition 触发单覆盖后续成交的部分）
+        if (current.executedQty > 0 && !current.protectionSet && await protectFilledEntry(current)) {
+            result.protected++;
+        }
+    }
+
+    return result;
+}
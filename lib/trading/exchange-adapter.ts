@@ -0,0 +1,245 @@
+/**
+ * Exchange adapter interface
+ * 交易所适配层：run()、API 路由和下单模块只依赖这个接口，不直接调用 Binance
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import type { Position } from "./positions";
+
+export type OrderSide = "BUY" | "SELL";
+export type PositionSide = "LONG" | "SHORT" | "BOTH";
+export type PositionMode = "ONE_WAY" | "DUAL_SIDE";
+export type OrderType = "MARKET" | "LIMIT" | "STOP_MARKET" | "TAKE_PROFIT_MARKET";
+export type TimeInForce = "GTC" | "IOC" | "FOK" | "GTX";
+
+export interface PlaceOrderParams {
+    symbol: string; // "BTC/USDT" or "BTCUSDT"
+    side: OrderSide;
+    type: OrderType;
+    quantity?: number; // Omit when closePosition is set
+    price?: number; // Required for LIMIT
+    stopPrice?: number; // Required for STOP_MARKET / TAKE_PROFIT_MARKET
+    positionSide?: PositionSide; // Only sent in DUAL_SIDE mode
+    reduceOnly?: boolean;
+    closePosition?: boolean;
+    timeInForce?: TimeInForce;
+    clientOrderId?: string;
+}
+
+export interface ExchangeOrder {
+    orderId: string;
+    clientOrderId?: string;
+    symbol: string; // Exchange format, e.g. "BTCUSDT"
+    side: OrderSide;
+    positionSide?: PositionSide;
+    type: string;
+    status: string; // NEW, PARTIALLY_FILLED, FILLED, CANCELED, EXPIRED ...
+    price: number;
+    avgPrice: number;
+    stopPrice: number;
+    origQty: number;
+    executedQty: number;
+    reduceOnly: boolean;
+    closePosition: boolean;
+    updateTime: number;
+}
+
+export interface ExchangeBalance {
+    total: number;
+    free: number;
+    used: number;
+}
+
+export interface ExchangeAccountInfo {
+    totalWalletBalance: number; // 钱包总余额
+    totalUnrealizedProfit: number; // 总未实现盈亏
+    totalMarginBalance: number; // 保证金余额
+    totalPositionInitialMargin: number; // 持仓初始保证金
+    totalOpenOrderInitialMargin: number; // 挂单初始保证金
+    availableBalance: number; // 可用余额
+    maxWithdrawAmount: number; // 最大可转出余额
+}
+
+/**
+ * Candle row: [openTime, open, high, low, close, volume]
+ */
+export type OhlcvRow = number[];
+
+export interface KlineRange {
+    startTime?: number; // ms, inclusive
+    endTime?: number; // ms, inclusive
+}
+
+/**
+ * One fill of an order (Binance /fapi/v1/userTrades)
+ */
+export interface ExchangeTrade {
+    id: string;
+    orderId: string;
+    symbol: string; // Exchange format
+    side: OrderSide;
+    positionSide: PositionSide;
+    price: number;
+    qty: number;
+    realizedPnl: number; // 平仓成交的已实现盈亏（未扣手续费），开仓成交为 0
+    commission: number; // 正数
+    commissionAsset: string;
+    maker: boolean;
+    time: number; // ms
+}
+
+export type IncomeType = "REALIZED_PNL" | "COMMISSION" | "FUNDING_FEE" | string;
+
+/**
+ * One account income entry (Binance /fapi/v1/income)
+ */
+export interface ExchangeIncome {
+    id: string; // tranId
+    symbol: string; // Exchange format, empty for account-level entries
+    incomeType: IncomeType;
+    income: number; // 收入为正，支出为负
+    asset: string;
+    tradeId?: string;
+    time: number; // ms
+}
+
+/**
+ * One settled funding rate (Binance /fapi/v1/fundingRate)
+ */
+export interface FundingRateEntry {
+    symbol: string; // Exchange format
+    fundingRate: number; // 正数：多头付给空头
+    fundingTime: number; // ms
+    markPrice: number; // 结算时的标记价格（早期数据为 0）
+}
+
+/**
+ * Funding settlement schedule of one symbol (premiumIndex nextFundingTime + fundingInfo interval)
+ */
+export interface FundingSchedule {
+    nextFundingTime: number; // ms
+    intervalHours: number; // 默认 8，部分币种被交易所调整为 4 / 1
+}
+
+export interface IncomeQuery extends KlineRange {
+    symbol?: string;
+    incomeType?: IncomeType;
+}
+
+/**
+ * Trading rules of one symbol (Binance /fapi/v1/exchangeInfo filters)
+ */
+export interface SymbolFilters {
+    symbol: string; // Exchange format
+    pricePrecision: number;
+    quantityPrecision: number;
+    tickSize: number; // PRICE_FILTER
+    minPrice: number;
+    maxPrice: number;
+    stepSize: number; // LOT_SIZE（限价单）
+    minQty: number;
+    maxQty: number;
+    marketStepSize: number; // MARKET_LOT_SIZE（市价单 / 触发单）
+    marketMinQty: number;
+    marketMaxQty: number;
+    minNotional: number; // MIN_NOTIONAL
+}
+
+/**
+ * One notional tier of a symbol (Binance /fapi/v1/leverageBracket)
+ */
+export interface LeverageBracket {
+    bracket: number;
+    initialLeverage: number; // 该档位最大杠杆
+    notionalFloor: number;
+    notionalCap: number;
+    maintMarginRatio: number;
+}
+
+export interface ExchangeAdapter {
+    readonly name: string;
+
+    // Orders
+    placeOrder(params: PlaceOrderParams): Promise<ExchangeOrder>;
+    cancelOrder(symbol: string, orderId: string): Promise<void>;
+    getOpenOrders(symbol?: string): Promise<ExchangeOrder[]>;
+    getOrder(symbol: string, orderId: string): Promise<ExchangeOrder>;
+    getOrderByClientId(symbol: string, clientOrderId: string): Promise<ExchangeOrder | null>; // null: 交易所没有该订单
+
+    // Account
+    getPositions(): Promise<Position[]>;
+    getBalance(): Promise<ExchangeBalance>;
+    getAccountInfo(): Promise<ExchangeAccountInfo>;
+    getPositionMode(): Promise<PositionMode>;
+    setLeverage(symbol: string, leverage: number): Promise<void>;
+
+    // History (time ranges are limited to 7 days on Binance, at most 1000 rows per call)
+    getUserTrades(symbol: string, range?: KlineRange): Promise<ExchangeTrade[]>;
+    getIncomeHistory(query?: IncomeQuery): Promise<ExchangeIncome[]>;
+
+    // Market data
+    getMarkPrice(symbol: string): Promise<number>;
+    getKlines(symbol: string, interval: string, limit?: number, range?: KlineRange): Promise<OhlcvRow[]>;
+    getOpenInterest(symbol: string): Promise<number>;
+    getFundingRate(symbol: string): Promise<number>;
+    getFundingRateHistory(symbol: string, range?: KlineRange): Promise<FundingRateEntry[]>; // 最多 1000 条
+    getFundingSchedule(symbol: string): Promise<FundingSchedule>;
+
+    // Trading rules
+    getSymbolFilters(): Promise<SymbolFilters[]>;
+    getLeverageBrackets(symbol: string): Promise<LeverageBracket[]>;
+}
+
+/**
+ * Convert "BTC/USDT" -> "BTCUSDT" (exchange symbols pass through unchanged)
+ */
+export function toExchangeSymbol(symbol: string): string {
+    return symbol.replace("/", "");
+}
+
+/**
+ * "BTC/USDT" / "BTCUSDT" -> "BTC"
+ */
+export function toBaseSymbol(symbol: string): string {
+    return symbol.replace("/", "").replace(/USDT$/, "");
+}
+
+let adapterPromise: Promise<ExchangeAdapter> | null = null;
+
+// 作用域内的适配器覆盖（竞技场中每个模型使用自己的子账户）
+const scopedAdapter = new AsyncLocalStorage<ExchangeAdapter>();
+
+/**
+ * Run `fn` with getExchangeAdapter() resolving to `adapter`.
+ * buy / sell / SL-TP / account queries inside the callback all go to that adapter,
+ * so concurrent scopes (one per arena model) do not see each other's positions.
+ */
+export function runWithExchangeAdapter<T>(adapter: ExchangeAdapter, fn: () => Promise<T>): Promise<T> {
+    return scopedAdapter.run(adapter, fn);
+}
+
+/**
+ * Get the exchange adapter for the current TRADING_MODE
+ * - dry-run / live: Binance UM Futures (testnet / mainnet)
+ * - paper: local simulated venue, Binance public market data only
+ * Inside runWithExchangeAdapter() the scoped adapter is returned instead.
+ */
+export function getExchangeAdapter(): Promise<ExchangeAdapter> {
+    const scoped = scopedAdapter.getStore();
+    if (scoped) {
+        return Promise.resolve(scoped);
+    }
+    if (!adapterPromise) {
+        adapterPromise = (async () => {
+            const { createBinanceFuturesAdapter } = await import("./binance-adapter");
+            const binance = createBinanceFuturesAdapter();
+
+            if ((process.env.TRADING_MODE || "dry-run") === "paper") {
+                const { createPaperExchangeAdapter } = await import("./paper-exchange");
+                return createPaperExchangeAdapter(binance);
+            }
+            return binance;
+        })();
+    }
+    return adapterPromise;
+}
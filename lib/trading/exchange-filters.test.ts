@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { getMaxLeverage, getMinOrderQuantity, roundToStep, validateOrder } from "./exchange-filters";
+import type { LeverageBracket, SymbolFilters } from "./exchange-adapter";
+
+const filters: SymbolFilters = {
+    symbol: "BTCUSDT",
+    pricePrecision: 2,
+    quantityPrecision: 3,
+    tickSize: 0.1,
+    minPrice: 100,
+    maxPrice: 1000000,
+    stepSize: 0.001,
+    minQty: 0.001,
+    maxQty: 1000,
+    marketStepSize: 0.001,
+    marketMinQty: 0.001,
+    marketMaxQty: 120,
+    minNotional: 100,
+};
+
+const brackets: LeverageBracket[] = [
+    { bracket: 1, initialLeverage: 125, notionalFloor: 0, notionalCap: 50000, maintMarginRatio: 0.004 },
+    { bracket: 2, initialLeverage: 100, notionalFloor: 50000, notionalCap: 600000, maintMarginRatio: 0.005 },
+];
+
+describe("roundToStep", () => {
+    it("floors by default without floating point drift", () => {
+        assert.equal(roundToStep(0.3, 0.1), 0.3);
+        assert.equal(roundToStep(1.23456, 0.001), 1.234);
+        assert.equal(roundToStep(0.0019, 0.001), 0.001);
+    });
+
+    it("supports ceil and round", () => {
+        assert.equal(roundToStep(1.2341, 0.001, "ceil"), 1.235);
+        assert.equal(roundToStep(1.2, 1, "ceil"), 2);
+        assert.equal(roundToStep(50012.36, 0.1, "round"), 50012.4);
+    });
+
+    it("handles integer steps and passes through a missing step", () => {
+        assert.equal(roundToStep(1234, 10), 1230);
+        assert.equal(roundToStep(1.23456, 0), 1.23456);
+    });
+});
+
+describe("getMaxLeverage / getMinOrderQuantity", () => {
+    it("picks the bracket containing the notional", () => {
+        assert.equal(getMaxLeverage(brackets, 1000), 125);
+        assert.equal(getMaxLeverage(brackets, 50000), 100);
+        assert.equal(getMaxLeverage(brackets, 1e9), 100);
+        assert.equal(getMaxLeverage([], 1000), undefined);
+    });
+
+    it("raises the minimum quantity to reach the minimum notional", () => {
+        assert.equal(getMinOrderQuantity(filters, 50000), 0.002);
+        assert.equal(getMinOrderQuantity(filters, 1000000), 0.001);
+        assert.equal(getMinOrderQuantity(filters, undefined), 0.001);
+    });
+});
+
+describe("validateOrder", () => {
+    it("rounds quantity down and prices to the tick", () => {
+        const result = validateOrder(filters, { type: "LIMIT", quantity: 0.01234, price: 50000.06 });
+        assert.deepEqual(result, { ok: true, quantity: 0.012, price: 50000.1 });
+    });
+
+    it("rejects quantities that round below the minimum", () => {
+        const result = validateOrder(filters, { type: "MARKET", quantity: 0.0004, referencePrice: 50000 });
+        assert.equal(result.ok, false);
+        assert.deepEqual(!result.ok && result.rejections.map((r) => r.code), ["QTY_BELOW_MIN"]);
+    });
+
+    it("applies the market lot size to market orders", () => {
+        const result = validateOrder(filters, { type: "MARKET", quantity: 150, referencePrice: 50000 });
+        assert.deepEqual(!result.ok && result.rejections.map((r) => [r.code, r.limit]), [["QTY_ABOVE_MAX", 120]]);
+        assert.equal(validateOrder(filters, { type: "LIMIT", quantity: 150, price: 50000 }).ok, true);
+    });
+
+    it("checks the minimum notional except for reduce-only orders", () => {
+        const draft = { type: "MARKET" as const, quantity: 0.001, referencePrice: 50000 };
+        const result = validateOrder(filters, draft);
+        assert.deepEqual(!result.ok && result.rejections.map((r) => r.code), ["NOTIONAL_BELOW_MIN"]);
+        assert.equal(validateOrder(filters, { ...draft, reduceOnly: true }).ok, true);
+    });
+
+    it("uses the stop price for trigger orders and rejects invalid prices", () => {
+        const result = validateOrder(filters, { type: "STOP_MARKET", quantity: 0.001, stopPrice: 50 });
+        assert.deepEqual(!result.ok && result.rejections.map((r) => r.code), ["PRICE_BELOW_MIN", "NOTIONAL_BELOW_MIN"]);
+
+        const invalid = validateOrder(filters, { type: "LIMIT", quantity: 0.01, price: NaN });
+        assert.deepEqual(!invalid.ok && invalid.rejections.map((r) => [r.code, r.field]), [["INVALID_VALUE", "price"]]);
+    });
+
+    it("rejects leverage above the bracket for the order size", () => {
+        const draft = { type: "LIMIT" as const, quantity: 2, price: 50000, leverage: 110 };
+        const result = validateOrder(filters, draft, brackets);
+        assert.deepEqual(!result.ok && result.rejections.map((r) => [r.code, r.limit]), [["LEVERAGE_ABOVE_MAX", 100]]);
+        assert.equal(validateOrder(filters, { ...draft, quantity: 0.5 }, brackets).ok, true);
+    });
+
+    it("accepts close-position trigger orders without a quantity", () => {
+        assert.deepEqual(validateOrder(filters, { type: "TAKE_PROFIT_MARKET", stopPrice: 60000.04 }), { ok: true, stopPrice: 60000 });
+    });
+});
@@ -0,0 +1,325 @@
+/**
+ * Exchange trading rules
+ * 从 exchangeInfo / leverageBracket 加载 LOT_SIZE、PRICE_FILTER、MIN_NOTIONAL 和杠杆档位并缓存，
+ * 所有下单数量和价格（含止盈止损触发价）在提交前按规则取整、校验，不合规时返回结构化的拒绝原因。
+ * exchangeInfo 不可用时退回币种注册表里的精度（测试网与主网精度不同，以交易所返回为准）
+ */
+
+import {
+    getExchangeAdapter,
+    toExchangeSymbol,
+    type LeverageBracket,
+    type OrderType,
+    type PlaceOrderParams,
+    type SymbolFilters,
+} from "./exchange-adapter";
+import { getSymbolSpec } from "./symbol-registry";
+
+const FILTERS_TTL_MS = 60 * 60 * 1000;
+const BRACKETS_TTL_MS = 60 * 60 * 1000;
+
+export type OrderRejectionCode =
+    | "UNKNOWN_SYMBOL"
+    | "INVALID_VALUE"
+    | "QTY_BELOW_MIN"
+    | "QTY_ABOVE_MAX"
+    | "PRICE_BELOW_MIN"
+    | "PRICE_ABOVE_MAX"
+    | "NOTIONAL_BELOW_MIN"
+    | "LEVERAGE_ABOVE_MAX";
+
+export interface OrderRejection {
+    code: OrderRejectionCode;
+    field: "symbol" | "quantity" | "price" | "stopPrice" | "leverage";
+    value: number | string;
+    limit?: number;
+    message: string;
+}
+
+export interface OrderDraft {
+    type: OrderType;
+    quantity?: number; // closePosition 触发单不带数量
+    price?: number;
+    stopPrice?: number;
+    referencePrice?: number; // 市价单用于名义价值检查的价格（标记价）
+    reduceOnly?: boolean; // 减仓单不受 MIN_NOTIONAL 限制
+    leverage?: number;
+}
+
+export type OrderValidation =
+    | { ok: true; quantity?: number; price?: number; stopPrice?: number }
+    | { ok: false; rejections: OrderRejection[] };
+
+/**
+ * Round `value` to a multiple of `step` (floor by default, so quantities never exceed what was asked)
+ */
+export function roundToStep(value: number, step: number, mode: "floor" | "ceil" | "round" = "floor"): number {
+    if (!step || step <= 0) return value;
+
+    const decimals = Math.max(0, Math.ceil(-Math.log10(step) - 1e-9));
+    const ratio = value / step;
+    // 消除浮点误差，避免 0.3 / 0.1 = 2.9999999999999996 被向下取整
+    const steps = mode === "ceil"
+        ? Math.ceil(ratio - 1e-9)
+        : mode === "round"
+            ? Math.round(ratio)
+            : Math.floor(ratio + 1e-9);
+    return Number((steps * step).toFixed(decimals));
+}
+
+/**
+ * Max leverage of the bracket containing `notional` (undefined when no brackets are known)
+ */
+export function getMaxLeverage(brackets: LeverageBracket[], notional: number): number | undefined {
+    if (brackets.length === 0) return undefined;
+
+    const bracket = brackets.find((b) => notional >= b.notionalFloor && notional < b.notionalCap)
+        ?? brackets[brackets.length - 1];
+    return bracket.initialLeverage;
+}
+
+/**
+ * Smallest order quantity that satisfies both the min qty and the min notional at `price`
+ */
+export function getMinOrderQuantity(filters: SymbolFilters, price: number | undefined, type: OrderType = "MARKET"): number {
+    const isLimit = type === "LIMIT";
+    const step = isLimit ? filters.stepSize : filters.marketStepSize;
+    const minQty = isLimit ? filters.minQty : filters.marketMinQty;
+    if (!price || price <= 0 || !filters.minNotional) {
+        return minQty || step;
+    }
+    return Math.max(minQty, roundToStep(filters.minNotional / price, step, "ceil"));
+}
+
+/**
+ * Round and validate an order against the symbol filters. Pure: no exchange calls.
+ */
+export function validateOrder(
+    filters: SymbolFilters,
+    draft: OrderDraft,
+    brackets: LeverageBracket[] = []
+): OrderValidation {
+    const rejections: OrderRejection[] = [];
+    const isLimit = draft.type === "LIMIT";
+    const result: { quantity?: number; price?: number; stopPrice?: number } = {};
+
+    const checkPrice = (field: "price" | "stopPrice", value: number) => {
+        if (!Number.isFinite(value) || value <= 0) {
+            rejections.push({ code: "INVALID_VALUE", field, value, message: `${field} must be a positive number` });
+            return;
+        }
+        const rounded = roundToStep(value, filters.tickSize, "round");
+        if (filters.minPrice && rounded < filters.minPrice) {
+            rejections.push({
+                code: "PRICE_BELOW_MIN",
+                field,
+                value: rounded,
+                limit: filters.minPrice,
+                message: `${field} ${rounded} below minimum ${filters.minPrice} for ${filters.symbol}`,
+            });
+        } else if (filters.maxPrice && rounded > filters.maxPrice) {
+            rejections.push({
+                code: "PRICE_ABOVE_MAX",
+                field,
+                value: rounded,
+                limit: filters.maxPrice,
+                message: `${field} ${rounded} above maximum ${filters.maxPrice} for ${filters.symbol}`,
+            });
+        }
+        result[field] = rounded;
+    };
+
+    if (draft.price !== undefined) checkPrice("price", draft.price);
+    if (draft.stopPrice !== undefined) checkPrice("stopPrice", draft.stopPrice);
+
+    if (draft.quantity !== undefined) {
+        const step = isLimit ? filters.stepSize : filters.marketStepSize;
+        const minQty = isLimit ? filters.minQty : filters.marketMinQty;
+        const maxQty = isLimit ? filters.maxQty : filters.marketMaxQty;
+        const quantity = Number.isFinite(draft.quantity) ? roundToStep(draft.quantity, step) : NaN;
+
+        if (!Number.isFinite(quantity) || quantity <= 0 || quantity < minQty) {
+            rejections.push({
+                code: "QTY_BELOW_MIN",
+                field: "quantity",
+                value: Number.isFinite(quantity) ? quantity : String(draft.quantity),
+                limit: minQty || step,
+                message: `Quantity ${draft.quantity} rounds to ${quantity}, below minimum ${minQty || step} for ${filters.symbol}`,
+            });
+        } else if (maxQty && quantity > maxQty) {
+            rejections.push({
+                code: "QTY_ABOVE_MAX",
+                field: "quantity",
+                value: quantity,
+                limit: maxQty,
+                message: `Quantity ${quantity} above maximum ${maxQty} for ${filters.symbol}`,
+            });
+        }
+        result.quantity = quantity;
+
+        const notionalPrice = result.price ?? result.stopPrice ?? draft.referencePrice;
+        if (quantity > 0 && notionalPrice) {
+            const notional = quantity * notionalPrice;
+            if (!draft.reduceOnly && filters.minNotional && notional < filters.minNotional) {
+                rejections.push({
+                    code: "NOTIONAL_BELOW_MIN",
+                    field: "quantity",
+                    value: Number(notional.toFixed(4)),
+                    limit: filters.minNotional,
+                    message: `Order value $${notional.toFixed(2)} below minimum $${filters.minNotional} for ${filters.symbol}`,
+                });
+            }
+
+            const maxLeverage = getMaxLeverage(brackets, notional);
+            if (draft.leverage !== undefined && maxLeverage !== undefined && draft.leverage > maxLeverage) {
+                rejections.push({
+                    code: "LEVERAGE_ABOVE_MAX",
+                    field: "leverage",
+                    value: draft.leverage,
+                    limit: maxLeverage,
+                    message: `Leverage ${draft.leverage}x above ${maxLeverage}x allowed for a $${notional.toFixed(2)} ${filters.symbol} position`,
+                });
+            }
+        }
+    }
+
+    return rejections.length > 0 ? { ok: false, rejections } : { ok: true, ...result };
+}
+
+/**
+ * One-line summary of rejections for error messages
+ */
+export function formatOrderRejections(rejections: OrderRejection[]): string {
+    return rejections.map((r) => `[${r.code}] ${r.message}`).join("; ");
+}
+
+const filtersCache = new Map<string, { bySymbol: Map<string, SymbolFilters>; loadedAt: number }>();
+const bracketsCache = new Map<string, { brackets: LeverageBracket[]; loadedAt: number }>();
+
+/**
+ * Filters derived from the symbol registry (used when exchangeInfo is unavailable)
+ */
+async function getRegistryFilters(symbol: string): Promise<SymbolFilters> {
+    const spec = await getSymbolSpec(symbol);
+    const tickSize = Math.pow(10, -spec.pricePrecision);
+    const stepSize = Math.pow(10, -spec.quantityPrecision);
+    return {
+        symbol,
+        pricePrecision: spec.pricePrecision,
+        quantityPrecision: spec.quantityPrecision,
+        tickSize,
+        minPrice: tickSize,
+        maxPrice: 0,
+        stepSize,
+        minQty: stepSize,
+        maxQty: 0,
+        marketStepSize: stepSize,
+        marketMinQty: stepSize,
+        marketMaxQty: 0,
+        minNotional: spec.minNotional,
+    };
+}
+
+/**
+ * Filters of a symbol in any format ("BTC/USDT", "BTCUSDT"); null when the exchange does not list it
+ */
+export async function getSymbolFilters(symbol: string): Promise<SymbolFilters | null> {
+    const exchangeSymbol = toExchangeSymbol(symbol);
+    const exchange = await getExchangeAdapter();
+    let cached = filtersCache.get(exchange.name);
+
+    if (!cached || Date.now() - cached.loadedAt > FILTERS_TTL_MS) {
+        try {
+            const filters = await exchange.getSymbolFilters();
+            cached = { bySymbol: new Map(filters.map((f) => [f.symbol, f])), loadedAt: Date.now() };
+            filtersCache.set(exchange.name, cached);
+            console.log(`📐 Loaded trading rules for ${filters.length} symbols (${exchange.name})`);
+        } catch (error) {
+            console.warn(`⚠️ Failed to load exchangeInfo, using registry precision:`, error instanceof Error ? error.message : error);
+            // 上一次加载结果过期也比注册表准确
+            if (cached) return cached.bySymbol.get(exchangeSymbol) ?? null;
+            return getRegistryFilters(exchangeSymbol);
+        }
+    }
+
+    return cached.bySymbol.get(exchangeSymbol) ?? null;
+}
+
+/**
+ * Leverage brackets of a symbol ([] when unavailable, which skips the leverage check)
+ */
+export async function getLeverageBrackets(symbol: string): Promise<LeverageBracket[]> {
+    const exchangeSymbol = toExchangeSymbol(symbol);
+    const exchange = await getExchangeAdapter();
+    const key = `${exchange.name}:${exchangeSymbol}`;
+    const cached = bracketsCache.get(key);
+    if (cached && Date.now() - cached.loadedAt < BRACKETS_TTL_MS) {
+        return cached.brackets;
+    }
+
+    try {
+        const brackets = await exchange.getLeverageBrackets(exchangeSymbol);
+        bracketsCache.set(key, { brackets, loadedAt: Date.now() });
+        return brackets;
+    } catch (error) {
+        console.warn(`⚠️ Failed to load leverage brackets for ${exchangeSymbol}:`, error instanceof Error ? error.message : error);
+        return cached?.brackets ?? [];
+    }
+}
+
+/**
+ * Round and validate order params right before submission
+ * @returns params with rounded quantity / price / stopPrice, or the rejection reasons
+ */
+export async function prepareOrder(
+    params: PlaceOrderParams,
+    context: { referencePrice?: number; leverage?: number } = {}
+): Promise<{ ok: true; params: PlaceOrderParams } | { ok: false; rejections: OrderRejection[] }> {
+    const filters = await getSymbolFilters(params.symbol);
+    if (!filters) {
+        return {
+            ok: false,
+            rejections: [{
+                code: "UNKNOWN_SYMBOL",
+                field: "symbol",
+                value: params.symbol,
+                message: `${params.symbol} is not a trading symbol on this exchange`,
+            }],
+        };
+    }
+
+    const brackets = context.leverage !== undefined ? await getLeverageBrackets(params.symbol) : [];
+    const validation = validateOrder(filters, {
+        type: params.type,
+        quantity: params.closePosition ? undefined : params.quantity,
+        price: params.price,
+        stopPrice: params.stopPrice,
+        referencePrice: context.referencePrice,
+        reduceOnly: params.reduceOnly || params.closePosition,
+        leverage: context.leverage,
+    }, brackets);
+
+    if (!validation.ok) {
+        return validation;
+    }
+
+    const prepared: PlaceOrderParams = { ...params };
+    if (validation.quantity !== undefined) prepared.quantity = validation.quantity;
+    if (validation.price !== undefined) prepared.price = validation.price;
+    if (validation.stopPrice !== undefined) prepared.stopPrice = validation.stopPrice;
+
+    const changed = (["quantity", "price", "stopPrice"] as const).filter((k) => prepared[k] !== params[k]);
+    if (changed.length > 0) {
+        console.log(`⚙️ Rounded to ${filters.symbol} filters: ${changed.map((k) => `${k} ${params[k]} → ${prepared[k]}`).join(", ")}`);
+    }
+
+    return { ok: true, params: prepared };
+}
+
+/**
+ * Drop cached rules (e.g. after switching TRADING_MODE in tests)
+ */
+export function clearExchangeFiltersCache(): void {
+    filtersCache.clear();
+    bracketsCache.clear();
+}
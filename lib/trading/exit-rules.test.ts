@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ExitRule } from "@prisma/client";
+import type { MarketState } from "./current-market-state";
+import { evaluateExitRules, isNewPosition } from "./exit-rules";
+
+const HOUR_MS = 60 * 60 * 1000;
+const NOW = Date.parse("2025-01-02T07:50:00Z");
+
+type Params = Parameters<typeof evaluateExitRules>[0];
+
+const rule: Params["rule"] = {
+    breakEvenR: null,
+    timeStopHours: null,
+    timeStopFlatPercent: 0.5,
+    fundingRateThreshold: null,
+    emaCrossExit: false,
+    openedAt: new Date(NOW - HOUR_MS),
+    initialStopPrice: null,
+    breakEvenSet: false,
+    emaTrend: null,
+};
+
+function marketState(fundingRate: number, ema20: number, ema50: number): MarketState {
+    return {
+        funding_rate: fundingRate,
+        longer_term: { ema_20: ema20, ema_50: ema50 } as MarketState["longer_term"],
+    } as MarketState;
+}
+
+function evaluate(overrides: Partial<Omit<Params, "rule">> & { rule?: Partial<Params["rule"]> } = {}) {
+    return evaluateExitRules({
+        isLong: true,
+        entryPrice: 100,
+        price: 100,
+        now: NOW,
+        nextFundingTime: null,
+        fundingWindowMinutes: 15,
+        ...overrides,
+        rule: { ...rule, ...overrides.rule },
+    });
+}
+
+describe("evaluateExitRules", () => {
+    it("does nothing when every rule is off", () => {
+        assert.deepEqual(evaluate({ price: 150, marketState: marketState(0.01, 90, 100) }).actions, []);
+    });
+
+    it("time-stops a flat position held past the limit", () => {
+        const held = { timeStopHours: 1 };
+        assert.deepEqual(evaluate({ rule: held, price: 100.4 }).actions.map((a) => a.rule), [ExitRule.TimeStop]);
+        assert.deepEqual(evaluate({ rule: held, price: 101 }).actions, []);
+        assert.deepEqual(evaluate({ rule: { timeStopHours: 2 }, price: 100.4 }).actions, []);
+    });
+
+    it("closes on adverse funding inside the window before the symbol's settlement", () => {
+        const funding = { rule: { fundingRateThreshold: 0.0005 }, marketState: marketState(0.001, 100, 100) };
+        const inWindow = evaluate({ ...funding, nextFundingTime: NOW + 10 * 60 * 1000 });
+        assert.deepEqual(inWindow.actions.map((a) => a.rule), [ExitRule.AdverseFunding]);
+
+        assert.deepEqual(evaluate({ ...funding, nextFundingTime: NOW + 30 * 60 * 1000 }).actions, []);
+        assert.deepEqual(evaluate({ ...funding, nextFundingTime: null }).actions, []);
+        // 正费率是空头收钱
+        assert.deepEqual(evaluate({ ...funding, isLong: false, nextFundingTime: NOW + 10 * 60 * 1000 }).actions, []);
+    });
+
+    it("closes on a 4h EMA cross against the position", () => {
+        const cross = evaluate({ rule: { emaCrossExit: true, emaTrend: "above" }, marketState: marketState(0, 95, 100) });
+        assert.deepEqual(cross.actions.map((a) => a.rule), [ExitRule.EmaCross]);
+        assert.equal(cross.emaTrend, "below");
+
+        const short = evaluate({ rule: { emaCrossExit: true, emaTrend: "above" }, isLong: false, marketState: marketState(0, 95, 100) });
+        assert.deepEqual(short.actions, []);
+    });
+
+    it("only records the EMA relation on the first observation", () => {
+        const first = evaluate({ rule: { emaCrossExit: true }, marketState: marketState(0, 95, 100) });
+        assert.deepEqual(first.actions, []);
+        assert.equal(first.emaTrend, "below");
+        assert.equal(evaluate({ rule: { emaTrend: "above" } }).emaTrend, "above");
+    });
+
+    it("moves the stop to break-even after N R with a fee buffer", () => {
+        const breakEven = { breakEvenR: 1, initialStopPrice: 95 };
+        const [action] = evaluate({ rule: breakEven, price: 105 }).actions;
+        assert.equal(action.rule, ExitRule.BreakEven);
+        assert.ok(action.rule === ExitRule.BreakEven && Math.abs(action.stopPrice - 100.1) < 1e-9);
+
+        assert.deepEqual(evaluate({ rule: breakEven, price: 104 }).actions, []);
+        assert.deepEqual(evaluate({ rule: { ...breakEven, breakEvenSet: true }, price: 105 }).actions, []);
+        assert.deepEqual(evaluate({ rule: { breakEvenR: 1 }, price: 105 }).actions, []);
+    });
+
+    it("skips break-even when a close rule fires", () => {
+        const actions = evaluate({ rule: { breakEvenR: 0.1, initialStopPrice: 95, timeStopHours: 1 }, price: 100.4 }).actions;
+        assert.deepEqual(actions.map((a) => a.rule), [ExitRule.TimeStop]);
+    });
+});
+
+describe("isNewPosition", () => {
+    const openedAt = new Date(NOW);
+
+    it("is false before the position was first seen", () => {
+        assert.equal(isNewPosition({ openedAt: null, entryPrice: null }, 100), false);
+        assert.equal(isNewPosition({ openedAt, entryPrice: null }, 100), false);
+    });
+
+    it("detects a discontinuous entry price", () => {
+        assert.equal(isNewPosition({ openedAt, entryPrice: 100 }, 100), false);
+        assert.equal(isNewPosition({ openedAt, entryPrice: 100 }, 100 + 1e-10), false);
+        assert.equal(isNewPosition({ openedAt, entryPrice: 100 }, 101.5), true);
+    });
+});
@@ -0,0 +1,327 @@
+/**
+ * Position exit rules
+ * 除止盈止损外的声明式退出规则，每次 20 秒指标采集时在服务端按 MarketState 判定（不依赖 LLM 决策周期）：
+ * - BreakEven: 浮盈达到 N R 后止损移到保本（只移动止损单）
+ * - TimeStop: 持仓超过 N 小时盈亏仍在 ±X% 内则平仓
+ * - AdverseFunding: 资金费结算前 N 分钟费率对持仓不利且超过阈值则平仓
+ * - EmaCross: 4h EMA20 / EMA50 反向交叉则平仓
+ * 规则默认全部关闭（EXIT_* 未设置），只挂在决策开出的持仓上（setExitRules），手动或已有持仓不受影响。
+ * 规则发出的订单在订单账本里带 exitRule，对账时作为 ClosedTrade 的退出原因写入学习反馈
+ */
+
+import { ExitRule, type PositionExitRule } from "@prisma/client";
+import { prisma } from "../prisma";
+import { getExchangeAdapter, toExchangeSymbol } from "./exchange-adapter";
+import { getCurrentMarketState, type MarketState } from "./current-market-state";
+import { getFundingSchedule } from "./funding";
+import type { MetricsSeries } from "./metrics-history";
+import { fetchPositions } from "./positions";
+import { sell } from "./sell";
+import { replaceStopLoss } from "./stop-loss-take-profit-official";
+import { toTradingPair } from "./symbol-registry";
+
+const BREAK_EVEN_BUFFER_PERCENT = 0.1; // 保本价留出开平仓手续费
+const DEFAULT_FUNDING_RATE_THRESHOLD = 0.0005; // 0.05%，约为常规费率的 5 倍
+const PENDING_ENTRY_TTL_MS = 24 * 60 * 60 * 1000; // 限价开仓一直没有持仓时，规则保留 24 小时
+const ENTRY_PRICE_EPSILON = 1e-9; // 开仓价相对变化超过该值视为新持仓
+
+export interface ExitRuleConfig {
+    breakEvenR: number | null;
+    timeStopHours: number | null;
+    timeStopFlatPercent: number;
+    fundingRateThreshold: number | null;
+    fundingWindowMinutes: number;
+    emaCrossExit: boolean;
+}
+
+/**
+ * Per-position overrides from the decision (0 / false disables a rule)
+ */
+export interface ExitRuleOverrides {
+    breakEvenR?: number;
+    timeStopHours?: number;
+    closeOnAdverseFunding?: boolean;
+    closeOnEmaCross?: boolean;
+}
+
+export type ExitRuleAction =
+    | { rule: typeof ExitRule.BreakEven; stopPrice: number; reason: string }
+    | { rule: Exclude<ExitRule, typeof ExitRule.BreakEven>; reason: string };
+
+export interface ExitRuleRunResult {
+    checked: number;
+    closed: number;
+    breakEven: number;
+}
+
+function positiveOrNull(value: string | undefined): number | null {
+    const parsed = Number(value);
+    return value && Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * Get default exit rules from environment variables (every rule is off unless set)
+ */
+export function getExitRuleConfig(): ExitRuleConfig {
+    return {
+        breakEvenR: positiveOrNull(process.env.EXIT_BREAK_EVEN_R),
+        timeStopHours: positiveOrNull(process.env.EXIT_TIME_STOP_HOURS),
+        timeStopFlatPercent: Number(process.env.EXIT_TIME_STOP_FLAT_PERCENT || 0.5),
+        fundingRateThreshold: positiveOrNull(process.env.EXIT_FUNDING_RATE_THRESHOLD),
+        fundingWindowMinutes: Number(process.env.EXIT_FUNDING_WINDOW_MINUTES || 15),
+        emaCrossExit: (process.env.EXIT_EMA_CROSS || "false").toLowerCase() === "true",
+    };
+}
+
+/**
+ * Evaluate the rules of one open position; close rules come first, break-even only when nothing closes
+ * @returns triggered actions and the current 4h EMA20 / EMA50 relation (stored to detect the next cross)
+ */
+export function evaluateExitRules(params: {
+    rule: Pick<PositionExitRule, "breakEvenR" | "timeStopHours" | "timeStopFlatPercent" | "fundingRateThreshold" | "emaCrossExit" | "openedAt" | "initialStopPrice" | "breakEvenSet" | "emaTrend">;
+    isLong: boolean;
+    entryPrice: number;
+    price: number;
+    now: number;
+    marketState?: MarketState;
+    nextFundingTime: number | null; // 该币种下次结算时间（各币种结算周期不同），null 时不判定资金费
+    fundingWindowMinutes: number;
+}): { actions: ExitRuleAction[]; emaTrend: string | null } {
+    const { rule, isLong, entryPrice, price, now, marketState, nextFundingTime, fundingWindowMinutes } = params;
+    const actions: ExitRuleAction[] = [];
+    const pnlPercent = ((isLong ? price - entryPrice : entryPrice - price) / entryPrice) * 100;
+
+    // 持仓超时且无明显盈亏
+    if (rule.timeStopHours && rule.openedAt) {
+        const heldHours = (now - rule.openedAt.getTime()) / (60 * 60 * 1000);
+        if (heldHours >= rule.timeStopHours && Math.abs(pnlPercent) <= rule.timeStopFlatPercent) {
+            actions.push({
+                rule: ExitRule.TimeStop,
+                reason: `held ${heldHours.toFixed(1)}h with PnL ${pnlPercent.toFixed(2)}% (within ±${rule.timeStopFlatPercent}%)`,
+            });
+        }
+    }
+
+    // 结算前费率不利：多头在正费率时付费，空头在负费率时付费
+    const fundingRate = marketState?.funding_rate ?? 0;
+    if (rule.fundingRateThreshold && marketState && nextFundingTime) {
+        const minutesToFunding = (nextFundingTime - now) / 60_000;
+        const adverse = isLong ? fundingRate >= rule.fundingRateThreshold : fundingRate <= -rule.fundingRateThreshold;
+        if (adverse && minutesToFunding <= fundingWindowMinutes) {
+            actions.push({
+                rule: ExitRule.AdverseFunding,
+                reason: `funding ${(fundingRate * 100).toFixed(4)}% against the ${isLong ? "long" : "short"} in ${minutesToFunding.toFixed(0)} min`,
+            });
+        }
+    }
+
+    // 4h EMA20 / EMA50 反向交叉（与上次观察的关系比较，首次观察只记录）
+    const ema20 = marketState?.longer_term?.ema_20;
+    const ema50 = marketState?.longer_term?.ema_50;
+    const emaTrend = ema20 && ema50 ? (ema20 >= ema50 ? "above" : "below") : rule.emaTrend;
+    if (rule.emaCrossExit && rule.emaTrend && emaTrend && emaTrend !== rule.emaTrend) {
+        const against = isLong ? emaTrend === "below" : emaTrend === "above";
+        if (against) {
+            actions.push({
+                rule: ExitRule.EmaCross,
+                reason: `4h EMA20 ${ema20?.toFixed(4)} crossed ${emaTrend} EMA50 ${ema50?.toFixed(4)}`,
+            });
+        }
+    }
+
+    // 浮盈达到 N R 后止损移到保本
+    if (actions.length === 0 && rule.breakEvenR && !rule.breakEvenSet && rule.initialStopPrice) {
+        const risk = Math.abs(entryPrice - rule.initialStopPrice);
+        const gain = isLong ? price - entryPrice : entryPrice - price;
+        const stopPrice = isLong
+            ? entryPrice * (1 + BREAK_EVEN_BUFFER_PERCENT / 100)
+            : entryPrice * (1 - BREAK_EVEN_BUFFER_PERCENT / 100);
+        if (risk > 0 && gain >= rule.breakEvenR * risk && (isLong ? stopPrice < price : stopPrice > price)) {
+            actions.push({
+                rule: ExitRule.BreakEven,
+                stopPrice,
+                reason: `+${(gain / risk).toFixed(2)}R (1R = ${risk.toFixed(4)})`,
+            });
+        }
+    }
+
+    return { actions, emaTrend: emaTrend ?? null };
+}
+
+/**
+ * Whether the open position is not the one the rule's state was recorded for: its entry price
+ * moved without the rule being set again (closed and reopened between two ticks)
+ */
+export function isNewPosition(rule: Pick<PositionExitRule, "openedAt" | "entryPrice">, entryPrice: number): boolean {
+    if (!rule.openedAt || rule.entryPrice == null) return false;
+    return Math.abs(entryPrice - rule.entryPrice) > Math.abs(rule.entryPrice) * ENTRY_PRICE_EPSILON;
+}
+
+function getRuleDefaults(overrides: ExitRuleOverrides = {}) {
+    const config = getExitRuleConfig();
+    return {
+        breakEvenR: overrides.breakEvenR !== undefined ? overrides.breakEvenR || null : config.breakEvenR,
+        timeStopHours: overrides.timeStopHours !== undefined ? overrides.timeStopHours || null : config.timeStopHours,
+        timeStopFlatPercent: config.timeStopFlatPercent,
+        fundingRateThreshold: overrides.closeOnAdverseFunding === undefined
+            ? config.fundingRateThreshold
+            : overrides.closeOnAdverseFunding ? config.fundingRateThreshold ?? DEFAULT_FUNDING_RATE_THRESHOLD : null,
+        emaCrossExit: overrides.closeOnEmaCross ?? config.emaCrossExit,
+    };
+}
+
+const RESET_STATE = {
+    active: true,
+    openedAt: null,
+    entryPrice: null,
+    initialStopPrice: null,
+    breakEvenSet: false,
+    emaTrend: null,
+    triggeredRule: null,
+    triggeredAt: null,
+    lastError: null,
+};
+
+/**
+ * Set the exit rules of a position from a decision (rules not given use the EXIT_* defaults)
+ */
+export async function setExitRules(params: {
+    series: MetricsSeries;
+    symbol: string; // "BTC" / "BTC/USDT" / "BTCUSDT"
+    positionSide: "LONG" | "SHORT";
+    overrides: ExitRuleOverrides;
+    tradingId?: string;
+}): Promise<PositionExitRule> {
+    const { series, positionSide, overrides, tradingId } = params;
+    const symbol = toExchangeSymbol(toTradingPair(params.symbol));
+    const data = { ...getRuleDefaults(overrides), ...RESET_STATE, tradingId: tradingId ?? null };
+
+    return prisma.positionExitRule.upsert({
+        where: { model_account_symbol_positionSide: { model: series.model, account: series.series, symbol, positionSide } },
+        create: { model: series.model, account: series.series, symbol, positionSide, ...data },
+        update: data,
+    });
+}
+
+/**
+ * Stop price of the position's current stop-loss order (null without one)
+ */
+async function getCurrentStopPrice(symbol: string, positionSide: "LONG" | "SHORT"): Promise<number | null> {
+    const exchange = await getExchangeAdapter();
+    const stops = (await exchange.getOpenOrders(symbol)).filter(
+        (order) => order.type === "STOP_MARKET" && (order.positionSide === positionSide || order.positionSide === "BOTH")
+    );
+    if (stops.length === 0) return null;
+    return (positionSide === "LONG" ? Math.max : Math.min)(...stops.map((order) => order.stopPrice));
+}
+
+/**
+ * Evaluate the exit rules of the open positions that a decision attached rules to (called on the metrics tick)
+ */
+export async function runExitRules(series: MetricsSeries): Promise<ExitRuleRunResult> {
+    const result: ExitRuleRunResult = { checked: 0, closed: 0, breakEven: 0 };
+    const { fundingWindowMinutes } = getExitRuleConfig();
+
+    const positions = (await fetchPositions()).filter((p) => p.contracts !== 0);
+    const rules = await prisma.positionExitRule.findMany({
+        where: { model: series.model, account: series.series },
+    });
+
+    // 持仓已平（或限价开仓一直没成交）的规则停用
+    for (const rule of rules.filter((r) => r.active)) {
+        const open = positions.some((p) => p.symbol === rule.symbol && p.side === rule.positionSide.toLowerCase());
+        if (!open && (rule.openedAt || Date.now() - rule.createdAt.getTime() > PENDING_ENTRY_TTL_MS)) {
+            await prisma.positionExitRule.update({ where: { id: rule.id }, data: { active: false } });
+        }
+    }
+
+    for (const position of positions) {
+        const positionSide = position.side === "long" ? "LONG" : "SHORT";
+        const isLong = positionSide === "LONG";
+        const tradingSymbol = toTradingPair(position.symbol);
+        const now = Date.now();
+
+        // 只处理决策开仓时挂上的规则；手动或已有持仓没有规则，不做任何操作
+        let rule = rules.find((r) => r.symbol === position.symbol && r.positionSide === positionSide && r.active);
+        if (!rule) continue;
+        result.checked++;
+        try {
+            // 首次看到持仓时记录开仓时间和初始止损；两次采集之间平仓又开仓（开仓价不连续）时按新持仓重置状态，
+            // 不沿用上一笔持仓的开仓时间、初始止损、保本标记和 EMA 关系
+            if (!rule.openedAt || isNewPosition(rule, position.entryPrice)) {
+                if (rule.openedAt) {
+                    console.log(`📏 ${tradingSymbol} ${positionSide} entry moved ${rule.entryPrice} → ${position.entryPrice}, resetting exit rule state`);
+                }
+                rule = await prisma.positionExitRule.update({
+                    where: { id: rule.id },
+                    data: { ...RESET_STATE, openedAt: new Date(now), entryPrice: position.entryPrice },
+                });
+            }
+            // 开仓后止损单可能晚几秒才挂上，拿到初始止损之前每次都重新读取
+            if (rule.initialStopPrice == null && rule.breakEvenR && !rule.breakEvenSet) {
+                const initialStopPrice = await getCurrentStopPrice(position.symbol, positionSide);
+                if (initialStopPrice != null) {
+                    rule = await prisma.positionExitRule.update({ where: { id: rule.id }, data: { initialStopPrice } });
+                }
+            }
+
+            let marketState: MarketState | undefined;
+            if (rule.fundingRateThreshold || rule.emaCrossExit) {
+                try {
+                    marketState = await getCurrentMarketState(tradingSymbol);
+                } catch (error) {
+                    console.warn(`⚠️ Market state unavailable for exit rules ${tradingSymbol}:`, error instanceof Error ? error.message : error);
+                }
+            }
+
+            const nextFundingTime = rule.fundingRateThreshold
+                ? (await getFundingSchedule(await getExchangeAdapter(), position.symbol, now)).nextFundingTime
+                : null;
+
+            const { actions, emaTrend } = evaluateExitRules({
+                rule,
+                isLong,
+                entryPrice: position.entryPrice,
+                price: position.markPrice,
+                now,
+                marketState,
+                nextFundingTime,
+                fundingWindowMinutes,
+            });
+
+            const update: Partial<PositionExitRule> = { emaTrend, entryPrice: position.entryPrice, lastError: null };
+            const action = actions[0];
+            if (action) {
+                console.log(`📏 Exit rule ${action.rule} triggered for ${tradingSymbol} ${positionSide}: ${action.reason}`);
+                const ledger = { series, tradingId: rule.tradingId ?? undefined, exitRule: action.rule };
+
+                if (action.rule === ExitRule.BreakEven) {
+                    const moved = await replaceStopLoss({ symbol: tradingSymbol, positionSide, stopPrice: action.stopPrice, ledger });
+                    if (moved.success) {
+                        update.breakEvenSet = true;
+                        result.breakEven++;
+                    } else {
+                        update.lastError = moved.error ?? "Unknown error";
+                    }
+                } else {
+                    const closed = await sell({ symbol: tradingSymbol, positionSide, percentage: 100, ledger });
+                    if (closed.success) {
+                        Object.assign(update, { active: false, triggeredRule: action.rule, triggeredAt: new Date(now) });
+                        result.closed++;
+                    } else {
+                        update.lastError = closed.error ?? "Unknown error";
+                    }
+                }
+                if (update.lastError) {
+                    console.warn(`⚠️ Exit rule ${action.rule} for ${tradingSymbol} ${positionSide} failed: ${update.lastError}`);
+                }
+            }
+
+            await prisma.positionExitRule.update({ where: { id: rule.id }, data: update });
+        } catch (error) {
+            console.warn(`⚠️ Failed to evaluate exit rules for ${tradingSymbol} ${positionSide}:`, error instanceof Error ? error.message : error);
+        }
+    }
+
+    return result;
+}
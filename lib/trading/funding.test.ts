@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ExchangeTrade } from "./exchange-adapter";
+import { findPositionOpenTime, formatPositionFunding, getNextFundingTime, type PositionFunding } from "./funding";
+
+const HOUR_MS = 60 * 60 * 1000;
+const T0 = Date.parse("2025-01-01T00:00:00Z");
+
+let nextId = 1;
+
+function fill(side: "BUY" | "SELL", qty: number, time: number): ExchangeTrade {
+    const id = String(nextId++);
+    return {
+        id,
+        orderId: `o${id}`,
+        symbol: "BTCUSDT",
+        side,
+        positionSide: "BOTH",
+        price: 100,
+        qty,
+        realizedPnl: 0,
+        commission: 0,
+        commissionAsset: "USDT",
+        maker: false,
+        time,
+    };
+}
+
+describe("findPositionOpenTime", () => {
+    it("returns the fill that opened the current position, not an earlier closed trip", () => {
+        const fills = [
+            fill("BUY", 1, T0),
+            fill("SELL", 1, T0 + HOUR_MS),
+            fill("BUY", 2, T0 + 2 * HOUR_MS),
+            fill("BUY", 1, T0 + 3 * HOUR_MS),
+        ];
+        assert.equal(findPositionOpenTime(fills, 3), T0 + 2 * HOUR_MS);
+        // 成交顺序无关
+        assert.equal(findPositionOpenTime([...fills].reverse(), 3), T0 + 2 * HOUR_MS);
+    });
+
+    it("follows shorts and partial closes", () => {
+        const fills = [fill("SELL", 2, T0), fill("BUY", 1, T0 + HOUR_MS)];
+        assert.equal(findPositionOpenTime(fills, -1), T0);
+    });
+
+    it("returns null when the position is older than the fills", () => {
+        assert.equal(findPositionOpenTime([fill("BUY", 1, T0)], 3), null);
+        assert.equal(findPositionOpenTime([], 1), null);
+    });
+});
+
+describe("getNextFundingTime", () => {
+    it("rounds up to the next UTC-aligned settlement", () => {
+        assert.equal(getNextFundingTime(T0 + 5 * HOUR_MS), T0 + 8 * HOUR_MS);
+        assert.equal(getNextFundingTime(T0 + 9 * HOUR_MS, 4), T0 + 12 * HOUR_MS);
+    });
+
+    it("moves to the following settlement exactly at a settlement", () => {
+        assert.equal(getNextFundingTime(T0 + 8 * HOUR_MS), T0 + 16 * HOUR_MS);
+        assert.equal(getNextFundingTime(T0 + 30 * 60 * 1000, 1), T0 + HOUR_MS);
+    });
+});
+
+describe("formatPositionFunding", () => {
+    const now = T0 + 6 * HOUR_MS;
+    const funding: PositionFunding = {
+        fundingRate: 0.0001,
+        nextFundingTime: T0 + 8 * HOUR_MS,
+        intervalHours: 8,
+        openedAt: T0,
+        accruedCost: 1.5,
+        projectedCost: 0.25,
+        estimated: false,
+    };
+
+    it("describes positive costs as paid and negative costs as received", () => {
+        const paying = formatPositionFunding(funding, 0, now);
+        assert.match(paying, /funding_rate: 0\.0100% per 8h \(next settlement in 2\.0h\)/);
+        assert.match(paying, /funding_accrued: pays \$1\.5000 since open 6\.0h ago/);
+        assert.match(paying, /funding_next_settlement: pays \$0\.2500/);
+
+        const receiving = formatPositionFunding({ ...funding, accruedCost: -1.5, projectedCost: -0.25 }, 10, now);
+        assert.match(receiving, /funding_accrued: receives \$1\.5000/);
+        assert.match(receiving, /funding_next_settlement: receives \$0\.2500/);
+        assert.doesNotMatch(receiving, /funding_vs_unrealized_pnl/);
+    });
+
+    it("compares paid funding with the open profit or loss", () => {
+        assert.match(formatPositionFunding(funding, 10, now), /carry has cost 15\.0% of the open profit/);
+        assert.match(formatPositionFunding(funding, -10, now), /carry adds to the loss/);
+    });
+
+    it("notes estimated and pre-window accruals", () => {
+        const output = formatPositionFunding({ ...funding, openedAt: null, estimated: true }, 0, now);
+        assert.match(output, /over the last 7 days \(opened earlier\) \(estimated from rate history\)/);
+    });
+});
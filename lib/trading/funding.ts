@@ -0,0 +1,276 @@
+/**
+ * Funding carry accounting
+ * 资金费率历史写入 FundingRate（每个结算周期同步一次，结算时间和周期按币种从交易所读取）。每个持仓计算开仓以来累计资金费和下次结算的预计资金费，
+ * 写进提示词和前端持仓页，用来判断资金费是否在吃掉这笔交易的利润。
+ * 实盘累计值来自资金流水（FUNDING_FEE）；模拟盘不收资金费，按记录的费率和当前仓位估算
+ */
+
+import { prisma } from "../prisma";
+import {
+    toExchangeSymbol,
+    type ExchangeAdapter,
+    type ExchangeIncome,
+    type ExchangeTrade,
+    type FundingSchedule,
+} from "./exchange-adapter";
+import { findFlatPoints, sortFills } from "./closed-trade-reconciler";
+import type { Position } from "./positions";
+import { toTradingPair } from "./symbol-registry";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_FUNDING_INTERVAL_HOURS = 8; // 取不到交易所结算时间时的兜底（00:00 / 08:00 / 16:00 UTC）
+const HISTORY_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000; // 成交 / 流水单次查询时间跨度上限
+
+/**
+ * Funding carry of one open position (costs are positive when the position pays)
+ */
+export interface PositionFunding {
+    fundingRate: number; // 本周期预测费率（premiumIndex lastFundingRate）
+    nextFundingTime: number; // ms
+    intervalHours: number; // 结算周期，各币种不同（8 / 4 / 1 小时）
+    openedAt: number | null; // ms，null：开仓早于 7 天查询窗口，累计值只覆盖窗口内
+    accruedCost: number; // 开仓以来已付资金费（负数为收到）
+    projectedCost: number; // 下次结算预计资金费（负数为收到）
+    estimated: boolean; // accruedCost 由费率历史 × 当前仓位估算
+}
+
+export type PositionWithFunding = Position & { funding?: PositionFunding };
+
+// 已入库的最新结算时间（按币种），避免每次指标采集都查库
+const latestFundingTimes = new Map<string, number>();
+
+// 结算时间缓存（按币种），下次结算前不用重新查询
+const fundingSchedules = new Map<string, FundingSchedule>();
+
+// 持仓开仓时间缓存：数量和均价没变就不用重新翻成交记录
+const openTimeCache = new Map<string, { contracts: number; entryPrice: number; openedAt: number | null }>();
+
+/**
+ * Next funding settlement after `now` on a fixed UTC-aligned interval (fallback when the exchange schedule is unavailable)
+ */
+export function getNextFundingTime(now: number, intervalHours = DEFAULT_FUNDING_INTERVAL_HOURS): number {
+    const intervalMs = intervalHours * HOUR_MS;
+    return Math.floor(now / intervalMs) * intervalMs + intervalMs;
+}
+
+/**
+ * Funding schedule of one symbol from the exchange, cached until its next settlement.
+ * Failures are logged and fall back to the default 8h interval (not cached).
+ */
+export async function getFundingSchedule(exchange: ExchangeAdapter, symbol: string, now = Date.now()): Promise<FundingSchedule> {
+    const exchangeSymbol = toExchangeSymbol(symbol);
+    const cached = fundingSchedules.get(exchangeSymbol);
+    if (cached && cached.nextFundingTime > now) {
+        return cached;
+    }
+
+    try {
+        const schedule = await exchange.getFundingSchedule(exchangeSymbol);
+        fundingSchedules.set(exchangeSymbol, schedule);
+        return schedule;
+    } catch (error) {
+        console.warn(`⚠️ Funding schedule unavailable for ${exchangeSymbol}, assuming ${DEFAULT_FUNDING_INTERVAL_HOURS}h:`, error instanceof Error ? error.message : error);
+        return { nextFundingTime: getNextFundingTime(now), intervalHours: DEFAULT_FUNDING_INTERVAL_HOURS };
+    }
+}
+
+/**
+ * Pull settled funding rates newer than the stored ones (at most one request per symbol per settlement)
+ * @returns number of rows inserted
+ */
+export async function syncFundingRates(exchange: ExchangeAdapter, symbols: string[]): Promise<number> {
+    const now = Date.now();
+    let inserted = 0;
+
+    for (const symbol of new Set(symbols.map((s) => toExchangeSymbol(toTradingPair(s))))) {
+        try {
+            let latest = latestFundingTimes.get(symbol);
+            if (latest === undefined) {
+                const row = await prisma.fundingRate.findFirst({
+                    where: { symbol },
+                    orderBy: { fundingTime: "desc" },
+                    select: { fundingTime: true },
+                });
+                latest = row?.fundingTime.getTime() ?? 0;
+            }
+
+            // 结算后交易所要过一会儿才公布费率，没拿到就下次采集再试
+            const schedule = await getFundingSchedule(exchange, symbol, now);
+            const lastSettlement = schedule.nextFundingTime - schedule.intervalHours * HOUR_MS;
+            if (latest < lastSettlement) {
+                const rows = await exchange.getFundingRateHistory(symbol, {
+                    startTime: Math.max(latest + 1, now - HISTORY_LOOKBACK_MS),
+                    endTime: now,
+                });
+                if (rows.length > 0) {
+                    const created = await prisma.fundingRate.createMany({
+                        data: rows.map((row) => ({
+                            symbol,
+                            fundingTime: new Date(row.fundingTime),
+                            rate: row.fundingRate,
+                            markPrice: row.markPrice || null,
+                        })),
+                        skipDuplicates: true,
+                    });
+                    inserted += created.count;
+                    latest = Math.max(latest, ...rows.map((row) => row.fundingTime));
+                }
+            }
+            latestFundingTimes.set(symbol, latest);
+        } catch (error) {
+            console.warn(`⚠️ Failed to sync funding rates for ${symbol}:`, error instanceof Error ? error.message : error);
+        }
+    }
+
+    if (inserted > 0) {
+        console.log(`💸 Stored ${inserted} funding rate settlements`);
+    }
+    return inserted;
+}
+
+/**
+ * Time of the fill that opened the current position: walking the fills backwards from the
+ * current amount, the most recent flat point (null when the position is older than the fills)
+ */
+export function findPositionOpenTime(fills: ExchangeTrade[], currentAmount: number): number | null {
+    const sorted = sortFills(fills);
+    const last = findFlatPoints(sorted, currentAmount).at(-1);
+    return last === undefined ? null : sorted[last].time;
+}
+
+async function getOpenTime(exchange: ExchangeAdapter, position: Position, since: number): Promise<number | null> {
+    const key = `${exchange.name}:${position.symbol}:${position.side}`;
+    const cached = openTimeCache.get(key);
+    if (cached && cached.contracts === position.contracts && cached.entryPrice === position.entryPrice) {
+        return cached.openedAt;
+    }
+
+    // 单向持仓模式的成交是 BOTH，双向持仓模式按 LONG / SHORT 区分
+    const positionSide = position.side.toUpperCase();
+    const fills = (await exchange.getUserTrades(position.symbol, { startTime: since }))
+        .filter((fill) => fill.positionSide === "BOTH" || fill.positionSide === positionSide);
+    const openedAt = findPositionOpenTime(fills, position.side === "long" ? position.contracts : -position.contracts);
+
+    openTimeCache.set(key, { contracts: position.contracts, entryPrice: position.entryPrice, openedAt });
+    return openedAt;
+}
+
+/**
+ * Funding paid by a position since `since`, estimated from the stored rates and its current size
+ */
+async function estimateAccruedCost(position: Position, since: number, now: number): Promise<number> {
+    const rates = await prisma.fundingRate.findMany({
+        where: { symbol: position.symbol, fundingTime: { gt: new Date(since), lte: new Date(now) } },
+    });
+    const direction = position.side === "long" ? 1 : -1;
+    return rates.reduce(
+        (sum, row) => sum + direction * row.rate * position.contracts * (row.markPrice || position.markPrice),
+        0
+    );
+}
+
+/**
+ * Attach accrued and projected funding to each open position.
+ * Failures are logged per symbol and leave `funding` unset, never failing the caller.
+ */
+export async function getPositionFunding(exchange: ExchangeAdapter, positions: Position[]): Promise<PositionWithFunding[]> {
+    const open = positions.filter((p) => p.contracts !== 0);
+    if (open.length === 0) return positions;
+
+    const now = Date.now();
+    const since = now - HISTORY_LOOKBACK_MS;
+    const isPaper = exchange.name === "paper";
+
+    const rates = new Map<string, number>();
+    const schedules = new Map<string, FundingSchedule>();
+    const openTimes = new Map<Position, number | null>();
+    for (const position of open) {
+        try {
+            if (!rates.has(position.symbol)) {
+                rates.set(position.symbol, await exchange.getFundingRate(position.symbol));
+                schedules.set(position.symbol, await getFundingSchedule(exchange, position.symbol, now));
+            }
+            openTimes.set(position, await getOpenTime(exchange, position, since));
+        } catch (error) {
+            console.warn(`⚠️ Funding carry unavailable for ${position.symbol}:`, error instanceof Error ? error.message : error);
+        }
+    }
+
+    // 实盘：一次取回窗口内全部资金费流水；模拟盘先补齐费率历史再估算
+    let fundingIncome: ExchangeIncome[] = [];
+    try {
+        if (isPaper) {
+            await syncFundingRates(exchange, open.map((p) => p.symbol));
+        } else {
+            const earliest = Math.min(...[...openTimes.values()].map((t) => t ?? since));
+            fundingIncome = await exchange.getIncomeHistory({ incomeType: "FUNDING_FEE", startTime: earliest, endTime: now });
+        }
+    } catch (error) {
+        console.warn("⚠️ Failed to load funding history:", error instanceof Error ? error.message : error);
+    }
+
+    const result: PositionWithFunding[] = [];
+    for (const position of positions) {
+        const fundingRate = rates.get(position.symbol);
+        const schedule = schedules.get(position.symbol);
+        if (!openTimes.has(position) || fundingRate === undefined || !schedule) {
+            result.push(position);
+            continue;
+        }
+
+        const openedAt = openTimes.get(position) ?? null;
+        const start = openedAt ?? since;
+        const direction = position.side === "long" ? 1 : -1;
+        // 双向持仓模式下同一币种多空都有仓位时，流水无法按方向拆分，改为估算
+        const hedged = open.filter((p) => p.symbol === position.symbol).length > 1;
+        const estimated = isPaper || hedged;
+
+        let accruedCost = 0;
+        try {
+            accruedCost = estimated
+                ? await estimateAccruedCost(position, start, now)
+                : -fundingIncome
+                    .filter((row) => row.symbol === position.symbol && row.time >= start)
+                    .reduce((sum, row) => sum + row.income, 0);
+        } catch (error) {
+            console.warn(`⚠️ Failed to total funding for ${position.symbol}:`, error instanceof Error ? error.message : error);
+        }
+
+        result.push({
+            ...position,
+            funding: {
+                fundingRate,
+                nextFundingTime: schedule.nextFundingTime,
+                intervalHours: schedule.intervalHours,
+                openedAt,
+                accruedCost,
+                projectedCost: direction * fundingRate * position.contracts * position.markPrice,
+                estimated,
+            },
+        });
+    }
+    return result;
+}
+
+/**
+ * Prompt lines for the funding carry of one position
+ */
+export function formatPositionFunding(funding: PositionFunding, unrealizedPnl: number, now = Date.now()): string {
+    const hoursToFunding = (funding.nextFundingTime - now) / HOUR_MS;
+    const describe = (cost: number) => (cost >= 0 ? `pays $${cost.toFixed(4)}` : `receives $${Math.abs(cost).toFixed(4)}`);
+    const heldFor = funding.openedAt
+        ? `since open ${((now - funding.openedAt) / HOUR_MS).toFixed(1)}h ago`
+        : "over the last 7 days (opened earlier)";
+
+    let output = `  funding_rate: ${(funding.fundingRate * 100).toFixed(4)}% per ${funding.intervalHours}h (next settlement in ${hoursToFunding.toFixed(1)}h)
+  funding_accrued: ${describe(funding.accruedCost)} ${heldFor}${funding.estimated ? " (estimated from rate history)" : ""}
+  funding_next_settlement: ${describe(funding.projectedCost)}
+`;
+    // 资金费已吃掉一部分浮盈（或加深浮亏）时明确提示
+    if (funding.accruedCost > 0 && unrealizedPnl > 0) {
+        output += `  funding_vs_unrealized_pnl: carry has cost ${((funding.accruedCost / unrealizedPnl) * 100).toFixed(1)}% of the open profit\n`;
+    } else if (funding.accruedCost > 0 && unrealizedPnl <= 0) {
+        output += `  funding_vs_unrealized_pnl: carry adds to the loss of a losing position\n`;
+    }
+    return output;
+}
@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { getBucketMs, getPruneCutoff, pickBucketLastPoints } from "./metrics-history";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const T0 = Date.parse("2025-01-01T00:00:00Z");
+
+// 每 20 秒一个点，与指标采集的间隔一致
+function dense(count: number, intervalMs = 20_000) {
+    return Array.from({ length: count }, (_, i) => ({ id: String(i), timestamp: new Date(T0 + i * intervalMs) }));
+}
+
+describe("getBucketMs", () => {
+    it("covers the range with both ends inclusive", () => {
+        assert.equal(getBucketMs(T0, T0 + 999, 10), 100);
+        assert.equal(getBucketMs(T0, T0 + 1000, 10), 101);
+        assert.equal(getBucketMs(T0, T0, 10), 1);
+    });
+});
+
+describe("pickBucketLastPoints", () => {
+    it("keeps the last point of each bucket", () => {
+        const points = dense(180); // 1 小时
+        const from = T0;
+        const bucketMs = getBucketMs(from, points[points.length - 1].timestamp.getTime(), 60);
+        const picked = pickBucketLastPoints(points, from, bucketMs);
+
+        assert.equal(bucketMs, 59_667);
+        assert.ok(picked.length <= 60);
+        // 第一个桶 [0, 59667) 含 0、20、40 秒三个点，保留 40 秒那个
+        assert.equal(picked[0].id, "2");
+        assert.equal(picked[picked.length - 1].id, "179");
+        for (const point of picked) {
+            const bucket = Math.floor((point.timestamp.getTime() - from) / bucketMs);
+            const next = points[Number(point.id) + 1];
+            // 保留的点之后要么没有点，要么是下一个桶
+            assert.ok(!next || Math.floor((next.timestamp.getTime() - from) / bucketMs) > bucket);
+        }
+    });
+
+    it("puts a point exactly on a boundary into the next bucket", () => {
+        const points = dense(5, 50);
+        assert.deepEqual(pickBucketLastPoints(points, T0, 100).map((p) => p.id), ["1", "3", "4"]);
+    });
+
+    it("skips empty buckets across gaps", () => {
+        const points = [...dense(3), { id: "late", timestamp: new Date(T0 + DAY_MS) }];
+        assert.deepEqual(pickBucketLastPoints(points, T0, 60_000).map((p) => p.id), ["2", "late"]);
+    });
+
+    it("returns every point when each has its own bucket", () => {
+        const points = dense(10);
+        assert.deepEqual(pickBucketLastPoints(points, T0, 20_000), points);
+        assert.deepEqual(pickBucketLastPoints([], T0, 20_000), []);
+    });
+});
+
+describe("getPruneCutoff", () => {
+    const now = T0 + 40 * DAY_MS;
+
+    it("prunes snapshots older than the retention window", () => {
+        assert.deepEqual(getPruneCutoff(now, 0, 30), new Date(T0 + 10 * DAY_MS));
+    });
+
+    it("prunes at most once per hour", () => {
+        assert.equal(getPruneCutoff(now, now - 59 * 60 * 1000, 30), null);
+        assert.deepEqual(getPruneCutoff(now, now - 60 * 60 * 1000, 30), new Date(T0 + 10 * DAY_MS));
+    });
+});
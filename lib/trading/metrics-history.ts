@@ -0,0 +1,321 @@
+import { randomUUID } from "crypto";
+import { ModelType, Prisma } from "@prisma/client";
+import { prisma } from "../prisma";
+import type { AccountInformationAndPerformance } from "./account-information-and-performance";
+import type { MetricData } from "../types/metrics";
+import type { Position } from "../types/position";
+
+// 单模型实盘/虚拟盘的 Metrics 序列名（竞技场子账户使用各自的账户名）
+export const DEFAULT_METRICS_NAME = "live-trading";
+
+// 快照保留天数（每 20 秒一行，30 天约 13 万行）
+const RETENTION_DAYS = Number(process.env.METRICS_RETENTION_DAYS || 30);
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000; // 每小时最多清理一次
+
+let lastPruneAt = 0;
+
+export interface MetricsSeries {
+  model: ModelType;
+  series: string;
+}
+
+export interface MetricsRangeQuery extends MetricsSeries {
+  from?: Date;
+  to?: Date;
+  onlyFunded?: boolean; // 过滤 availableCash <= 0 的点
+}
+
+const snapshotInclude = {
+  positions: true,
+} satisfies Prisma.MetricSnapshotInclude;
+
+type SnapshotWithPositions = Prisma.MetricSnapshotGetPayload<{ include: typeof snapshotInclude }>;
+
+function toPositionRows(positions: Position[]) {
+  return positions.map((p) => ({
+    symbol: p.symbol,
+    side: p.side,
+    contracts: Math.abs(p.contracts || 0),
+    entryPrice: p.entryPrice || 0,
+    markPrice: p.markPrice ?? null,
+    unrealizedPnl: p.unrealizedPnl || 0,
+    leverage: p.leverage ?? null,
+    notional: p.notional ?? null,
+    initialMargin: p.initialMargin ?? null,
+    liquidationPrice: p.liquidationPrice ?? null,
+  }));
+}
+
+/**
+ * Snapshot row -> the MetricData shape served to the chart
+ */
+function toMetricData(snapshot: SnapshotWithPositions): MetricData {
+  return {
+    positions: snapshot.positions.map((p) => ({
+      symbol: p.symbol,
+      side: p.side as Position["side"],
+      contracts: p.contracts,
+      entryPrice: p.entryPrice,
+      markPrice: p.markPrice ?? undefined,
+      unrealizedPnl: p.unrealizedPnl,
+      leverage: p.leverage ?? 0,
+      notional: p.notional ?? 0,
+      initialMargin: p.initialMargin ?? undefined,
+      liquidationPrice: p.liquidationPrice ?? 0,
+    })),
+    sharpeRatio: snapshot.sharpeRatio,
+    availableCash: snapshot.availableCash,
+    contractValue: snapshot.contractValue,
+    totalCashValue: snapshot.walletBalance,
+    currentTotalReturn: snapshot.totalReturn,
+    currentPositionsValue: snapshot.positionsValue,
+    createdAt: snapshot.timestamp.toISOString(),
+  };
+}
+
+/**
+ * Build snapshot columns from an account snapshot (also used by the JSON migration)
+ */
+export function toSnapshotData(account: AccountInformationAndPerformance) {
+  const positions = (account.positions || []) as Position[];
+  const unrealizedPnl = positions.reduce((sum, p) => sum + (p.unrealizedPnl || 0), 0);
+
+  return {
+    equity: (account.totalCashValue || 0) + unrealizedPnl,
+    walletBalance: account.totalCashValue || 0,
+    availableCash: account.availableCash || 0,
+    unrealizedPnl,
+    positionsValue: account.currentPositionsValue || 0,
+    contractValue: account.contractValue || 0,
+    totalReturn: Number.isFinite(account.currentTotalReturn) ? account.currentTotalReturn : null,
+    sharpeRatio: Number.isFinite(account.sharpeRatio) ? account.sharpeRatio : null,
+    positions: toPositionRows(positions),
+  };
+}
+
+/**
+ * Insert one snapshot row (plus one row per open position)
+ */
+export async function appendMetrics(
+  model: ModelType,
+  series: string,
+  accountInformationAndPerformance: AccountInformationAndPerformance,
+  timestamp: Date = new Date()
+): Promise<string> {
+  const { positions, ...columns } = toSnapshotData(accountInformationAndPerformance);
+
+  const snapshot = await prisma.metricSnapshot.create({
+    data: {
+      model,
+      series,
+      timestamp,
+      ...columns,
+      positions: { create: positions },
+    },
+    select: { id: true },
+  });
+
+  await pruneOldSnapshots();
+  return snapshot.id;
+}
+
+/**
+ * Snapshots older than the cutoff are pruned; null while the last prune is under an hour old
+ */
+export function getPruneCutoff(now: number, lastPrunedAt: number, retentionDays = RETENTION_DAYS): Date | null {
+  if (now - lastPrunedAt < PRUNE_INTERVAL_MS) return null;
+  return new Date(now - retentionDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Delete snapshots older than METRICS_RETENTION_DAYS (at most once per hour per process)
+ */
+async function pruneOldSnapshots() {
+  const now = Date.now();
+  const cutoff = getPruneCutoff(now, lastPruneAt);
+  if (!cutoff) return;
+  lastPruneAt = now;
+
+  const { count } = await prisma.metricSnapshot.deleteMany({
+    where: { timestamp: { lt: cutoff } },
+  });
+  if (count > 0) {
+    console.log(`🗑️ Pruned ${count} metric snapshots older than ${RETENTION_DAYS} days`);
+  }
+}
+
+function getRangeWhere(query: MetricsRangeQuery): Prisma.MetricSnapshotWhereInput {
+  return {
+    model: query.model,
+    series: query.series,
+    timestamp: { gte: query.from, lte: query.to },
+    ...(query.onlyFunded ? { availableCash: { gt: 0 } } : {}),
+  };
+}
+
+export function countMetricSnapshots(query: MetricsRangeQuery): Promise<number> {
+  return prisma.metricSnapshot.count({ where: getRangeWhere(query) });
+}
+
+/**
+ * All snapshots in a time range, oldest first
+ */
+export async function getMetricSnapshots(query: MetricsRangeQuery): Promise<MetricData[]> {
+  const snapshots = await prisma.metricSnapshot.findMany({
+    where: getRangeWhere(query),
+    include: snapshotInclude,
+    orderBy: { timestamp: "asc" },
+  });
+  return snapshots.map(toMetricData);
+}
+
+/**
+ * Width of `buckets` fixed time buckets covering [from, to] (both ends inclusive)
+ */
+export function getBucketMs(from: number, to: number, buckets: number): number {
+  return Math.max(1, Math.ceil((to - from + 1) / buckets));
+}
+
+/**
+ * The last point of each bucket counted from `from`, oldest first (input sorted by time)
+ */
+export function pickBucketLastPoints<T extends { timestamp: Date }>(points: T[], from: number, bucketMs: number): T[] {
+  const picked: T[] = [];
+  let lastBucket: number | null = null;
+  for (const point of points) {
+    const bucket = Math.floor((point.timestamp.getTime() - from) / bucketMs);
+    if (bucket === lastBucket) {
+      picked[picked.length - 1] = point;
+    } else {
+      picked.push(point);
+      lastBucket = bucket;
+    }
+  }
+  return picked;
+}
+
+/**
+ * At most `buckets` points over the range: the last snapshot of each fixed-width time bucket.
+ * Returns every snapshot when the range already fits.
+ */
+export async function getDownsampledMetricSnapshots(
+  query: MetricsRangeQuery,
+  buckets: number
+): Promise<{ metrics: MetricData[]; totalCount: number; bucketMs: number | null }> {
+  const totalCount = await countMetricSnapshots(query);
+  if (totalCount <= buckets) {
+    return { metrics: await getMetricSnapshots(query), totalCount, bucketMs: null };
+  }
+
+  // 实际范围（未指定 from/to 时用序列首尾时间）
+  const bounds = await prisma.metricSnapshot.aggregate({
+    where: getRangeWhere(query),
+    _min: { timestamp: true },
+    _max: { timestamp: true },
+  });
+  const from = bounds._min.timestamp!.getTime();
+  const to = bounds._max.timestamp!.getTime();
+  const bucketMs = getBucketMs(from, to, buckets);
+
+  // 只取 id 和时间选点，再加载选中的快照及持仓
+  const points = await prisma.metricSnapshot.findMany({
+    where: getRangeWhere(query),
+    select: { id: true, timestamp: true },
+    orderBy: { timestamp: "asc" },
+  });
+
+  const snapshots = await prisma.metricSnapshot.findMany({
+    where: { id: { in: pickBucketLastPoints(points, from, bucketMs).map((point) => point.id) } },
+    include: snapshotInclude,
+    orderBy: { timestamp: "asc" },
+  });
+
+  return { metrics: snapshots.map(toMetricData), totalCount, bucketMs };
+}
+
+/**
+ * Equity values of a series, oldest first (for drawdown calculations)
+ */
+export async function getEquitySeries(query: MetricsRangeQuery): Promise<Array<{ timestamp: Date; equity: number }>> {
+  return prisma.metricSnapshot.findMany({
+    where: getRangeWhere(query),
+    select: { timestamp: true, equity: true },
+    orderBy: { timestamp: "asc" },
+  });
+}
+
+/**
+ * Re-space a series' timestamps evenly from `startTime` (used by /api/reset-metrics-time)
+ */
+export async function respaceMetricTimestamps(
+  series: MetricsSeries,
+  startTime: Date,
+  intervalMs: number
+): Promise<number> {
+  return prisma.$executeRaw`
+    UPDATE "MetricSnapshot" AS s
+    SET "timestamp" = ${startTime}::timestamp + (ordered.rn - 1) * ${intervalMs} * interval '1 millisecond'
+    FROM (
+      SELECT id, row_number() OVER (ORDER BY "timestamp") AS rn
+      FROM "MetricSnapshot"
+      WHERE model = ${series.model}::"ModelType" AND series = ${series.series}
+    ) AS ordered
+    WHERE s.id = ordered.id
+  `;
+}
+
+/**
+ * Copy the legacy Metrics Json[] series into MetricSnapshot rows.
+ * Idempotent: points whose timestamp already exists in the series are skipped.
+ */
+export async function migrateLegacyMetrics(batchSize = 500): Promise<{ series: number; inserted: number; skipped: number }> {
+  const legacyRows = await prisma.metrics.findMany();
+  let inserted = 0;
+  let skipped = 0;
+
+  for (const legacy of legacyRows) {
+    const points = (legacy.metrics || []) as unknown as Array<{
+      createdAt?: string;
+      accountInformationAndPerformance?: AccountInformationAndPerformance;
+    }>;
+
+    const existing = await prisma.metricSnapshot.findMany({
+      where: { model: legacy.model, series: legacy.name },
+      select: { timestamp: true },
+    });
+    const existingTimes = new Set(existing.map((row) => row.timestamp.getTime()));
+
+    const snapshotRows: Prisma.MetricSnapshotCreateManyInput[] = [];
+    const positionRows: Prisma.MetricPositionSnapshotCreateManyInput[] = [];
+
+    for (const point of points) {
+      const timestamp = point.createdAt ? new Date(point.createdAt) : null;
+      if (!point.accountInformationAndPerformance || !timestamp || isNaN(timestamp.getTime()) || existingTimes.has(timestamp.getTime())) {
+        skipped++;
+        continue;
+      }
+      existingTimes.add(timestamp.getTime());
+
+      const id = randomUUID();
+      const { positions, ...columns } = toSnapshotData(point.accountInformationAndPerformance);
+      snapshotRows.push({ id, model: legacy.model, series: legacy.name, timestamp, ...columns });
+      positionRows.push(...positions.map((p) => ({ ...p, snapshotId: id })));
+    }
+
+    for (let i = 0; i < snapshotRows.length; i += batchSize) {
+      const batch = snapshotRows.slice(i, i + batchSize);
+      const batchIds = new Set(batch.map((row) => row.id));
+      await prisma.$transaction([
+        prisma.metricSnapshot.createMany({ data: batch }),
+        prisma.metricPositionSnapshot.createMany({
+          data: positionRows.filter((row) => batchIds.has(row.snapshotId)),
+        }),
+      ]);
+    }
+
+    inserted += snapshotRows.length;
+    console.log(`📦 Migrated ${legacy.model}/${legacy.name}: ${snapshotRows.length} snapshots`);
+  }
+
+  return { series: legacyRows.length, inserted, skipped };
+}
@@ -0,0 +1,245 @@
+/**
+ * Order / fill ledger
+ * buy / sell / setStopLossTakeProfit 提交的每个订单写入 Order（请求 vs 成交、状态、手续费），成交明细写入 Fill。
+ * 挂单的状态和成交由 syncOrderLedger 在每轮决策前和每次指标采集时补齐。
+ * 账本写入失败只打日志，不影响下单
+ */
+
+import { ModelType, OrderPurpose, OrderStatus, type ExitRule, type Order, type Prisma } from "@prisma/client";
+import { prisma } from "../prisma";
+import { getExchangeAdapter, toExchangeSymbol, type ExchangeOrder, type PlaceOrderParams } from "./exchange-adapter";
+import { DEFAULT_METRICS_NAME, type MetricsSeries } from "./metrics-history";
+import type { TakeProfitTarget } from "./stop-loss-take-profit-official";
+
+const OPEN_STATUSES: OrderStatus[] = [OrderStatus.NEW, OrderStatus.PARTIALLY_FILLED];
+const SYNC_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000; // userTrades 单次查询时间跨度上限
+const QTY_EPSILON = 1e-9;
+
+/**
+ * Decision or exit rule that caused the order (omitted for manual / CLI orders)
+ */
+export interface OrderLedgerContext {
+    series?: MetricsSeries; // 默认 live-trading 账户
+    tradingId?: string;
+    chatId?: string;
+    exitRule?: ExitRule; // 由退出规则发出的订单
+}
+
+export interface RecordOrderParams {
+    context?: OrderLedgerContext;
+    purpose: OrderPurpose;
+    request: PlaceOrderParams;
+    positionSide: "LONG" | "SHORT";
+    order?: ExchangeOrder; // 交易所返回的订单（被拒绝时为空）
+    error?: string;
+    leverage?: number;
+    stopLossPercent?: number;
+    takeProfitPercent?: number;
+    takeProfitTargets?: TakeProfitTarget[];
+}
+
+/**
+ * Map an exchange order status to OrderStatus (null for statuses that do not change the lifecycle)
+ */
+export function toOrderStatus(status: string | undefined): OrderStatus | null {
+    switch (status) {
+        case "NEW":
+            return OrderStatus.NEW;
+        case "PARTIALLY_FILLED":
+            return OrderStatus.PARTIALLY_FILLED;
+        case "FILLED":
+            return OrderStatus.FILLED;
+        case "CANCELED":
+            return OrderStatus.CANCELED;
+        case "EXPIRED":
+        case "EXPIRED_IN_MATCH":
+            return OrderStatus.EXPIRED;
+        case "REJECTED":
+            return OrderStatus.REJECTED;
+        default:
+            return null;
+    }
+}
+
+function getSeries(context?: OrderLedgerContext): MetricsSeries {
+    return context?.series ?? { model: ModelType.Deepseek, series: DEFAULT_METRICS_NAME };
+}
+
+function getTimestamps(status: OrderStatus, previous?: Pick<Order, "filledAt" | "closedAt">) {
+    const isClosed = status === OrderStatus.CANCELED || status === OrderStatus.EXPIRED || status === OrderStatus.REJECTED;
+    return {
+        filledAt: status === OrderStatus.FILLED ? previous?.filledAt ?? new Date() : previous?.filledAt ?? null,
+        closedAt: isClosed ? previous?.closedAt ?? new Date() : previous?.closedAt ?? null,
+    };
+}
+
+/**
+ * Record a submitted (or rejected) order
+ * @returns ledger id, null when the ledger write failed
+ */
+export async function recordOrder(params: RecordOrderParams): Promise<string | null> {
+    const { context, purpose, request, positionSide, order, error } = params;
+    const series = getSeries(context);
+    const status = order ? toOrderStatus(order.status) ?? OrderStatus.NEW : OrderStatus.REJECTED;
+
+    try {
+        const row = await prisma.order.create({
+            data: {
+                model: series.model,
+                account: series.series,
+                symbol: toExchangeSymbol(request.symbol),
+                side: request.side,
+                positionSide,
+                type: request.type,
+                purpose,
+                timeInForce: request.type === "LIMIT" ? request.timeInForce ?? "GTC" : null,
+                clientOrderId: order?.clientOrderId ?? request.clientOrderId ?? null,
+                exchangeOrderId: order?.orderId ?? null,
+                status,
+                error: error ?? null,
+                price: request.price ?? null,
+                stopPrice: request.stopPrice ?? null,
+                quantity: request.closePosition ? null : request.quantity ?? null,
+                reduceOnly: !!request.reduceOnly,
+                closePosition: !!request.closePosition,
+                leverage: params.leverage ?? null,
+                executedQty: order?.executedQty ?? 0,
+                avgPrice: order?.avgPrice || null,
+                stopLossPercent: params.stopLossPercent ?? null,
+                takeProfitPercent: params.takeProfitPercent ?? null,
+                takeProfitTargets: params.takeProfitTargets?.length
+                    ? (params.takeProfitTargets as unknown as Prisma.InputJsonArray)
+                    : undefined,
+                tradingId: context?.tradingId ?? null,
+                chatId: context?.chatId ?? null,
+                exitRule: context?.exitRule ?? null,
+                ...getTimestamps(status),
+            },
+        });
+
+        if (row.executedQty > 0) {
+            await recordOrderFills(row);
+        }
+        return row.id;
+    } catch (ledgerError) {
+        console.warn(`⚠️ Failed to record ${request.type} ${request.side} ${request.symbol} in order ledger:`, ledgerError instanceof Error ? ledgerError.message : ledgerError);
+        return null;
+    }
+}
+
+/**
+ * Mark an entry order as protected by SL/TP orders
+ */
+export async function markOrderProtected(id: string | null): Promise<void> {
+    if (!id) return;
+    try {
+        await prisma.order.update({ where: { id }, data: { protectionSet: true } });
+    } catch (error) {
+        console.warn(`⚠️ Failed to update order ledger ${id}:`, error instanceof Error ? error.message : error);
+    }
+}
+
+/**
+ * Copy the exchange fills of an order into Fill and total its fees / realized PnL
+ */
+export async function recordOrderFills(order: Order): Promise<void> {
+    if (!order.exchangeOrderId) return;
+
+    const exchange = await getExchangeAdapter();
+    const trades = await exchange.getUserTrades(order.symbol, { startTime: order.createdAt.getTime() - 60_000 });
+    const fills = trades.filter((t) => t.orderId === order.exchangeOrderId);
+    if (fills.length === 0) return;
+
+    await prisma.fill.createMany({
+        data: fills.map((fill) => ({
+            orderId: order.id,
+            exchangeTradeId: fill.id,
+            symbol: fill.symbol,
+            side: fill.side,
+            positionSide: fill.positionSide,
+            price: fill.price,
+            qty: fill.qty,
+            commission: fill.commission,
+            commissionAsset: fill.commissionAsset,
+            realizedPnl: fill.realizedPnl,
+            maker: fill.maker,
+            time: new Date(fill.time),
+        })),
+        skipDuplicates: true,
+    });
+
+    const totals = await prisma.fill.aggregate({
+        where: { orderId: order.id },
+        _sum: { qty: true, commission: true, realizedPnl: true },
+    });
+    const filledQty = totals._sum.qty ?? 0;
+    await prisma.order.update({
+        where: { id: order.id },
+        data: {
+            fee: totals._sum.commission ?? 0,
+            realizedPnl: totals._sum.realizedPnl ?? 0,
+            fillsSynced: !OPEN_STATUSES.includes(order.status) && filledQty >= order.executedQty - QTY_EPSILON,
+        },
+    });
+}
+
+/**
+ * Refresh one order's status / executed quantity from the exchange
+ */
+export async function refreshOrder(order: Order): Promise<Order> {
+    if (!order.exchangeOrderId) return order;
+
+    const exchange = await getExchangeAdapter();
+    const exchangeOrder = await exchange.getOrder(order.symbol, order.exchangeOrderId);
+    const status = toOrderStatus(exchangeOrder.status) ?? order.status;
+
+    const updated = await prisma.order.update({
+        where: { id: order.id },
+        data: {
+            status,
+            executedQty: exchangeOrder.executedQty,
+            avgPrice: exchangeOrder.avgPrice || null,
+            ...getTimestamps(status, order),
+        },
+    });
+    if (status !== order.status) {
+        console.log(`📗 ${order.type} ${order.side} ${order.symbol} #${order.exchangeOrderId}: ${order.status} → ${status} (filled ${exchangeOrder.executedQty}${order.quantity ? `/${order.quantity}` : ""})`);
+    }
+    return updated;
+}
+
+/**
+ * Sync the account's open orders and missing fills with the exchange
+ * @returns number of orders refreshed
+ */
+export async function syncOrderLedger(series: MetricsSeries): Promise<number> {
+    const orders = await prisma.order.findMany({
+        where: {
+            model: series.model,
+            account: series.series,
+            exchangeOrderId: { not: null },
+            createdAt: { gte: new Date(Date.now() - SYNC_LOOKBACK_MS) },
+            OR: [
+                { status: { in: OPEN_STATUSES } },
+                { fillsSynced: false, executedQty: { gt: 0 } },
+            ],
+        },
+        orderBy: { createdAt: "asc" },
+    });
+
+    for (const order of orders) {
+        try {
+            let current = order;
+            if (OPEN_STATUSES.includes(order.status)) {
+                current = await refreshOrder(order);
+            }
+            if (current.executedQty > 0 && !current.fillsSynced) {
+                await recordOrderFills(current);
+            }
+        } catch (error) {
+            console.warn(`⚠️ Failed to sync order ${order.symbol} #${order.exchangeOrderId}:`, error instanceof Error ? error.message : error);
+        }
+    }
+
+    return orders.length;
+}
@@ -0,0 +1,35 @@
+/**
+ * Order maintenance on the metrics tick
+ * 限价开仓成交后挂止盈止损、补齐订单账本、移动追踪止损、执行退出规则。
+ * 每一步单独捕获异常：账本或挂单同步失败不能让追踪止损和退出规则（保护性操作）跳过这一轮
+ */
+
+import { syncEntryOrders } from "./entry-orders";
+import { runExitRules } from "./exit-rules";
+import type { MetricsSeries } from "./metrics-history";
+import { syncOrderLedger } from "./order-ledger";
+import { runTrailingStops } from "./trailing-stop";
+
+const STEPS: Array<[name: string, step: (series: MetricsSeries) => Promise<unknown>]> = [
+    ["entry order sync", syncEntryOrders],
+    ["order ledger sync", syncOrderLedger],
+    ["trailing stops", runTrailingStops],
+    ["exit rules", runExitRules],
+];
+
+/**
+ * Run every maintenance step for one account; failures are logged per step and never stop the others
+ * @returns names of the steps that failed
+ */
+export async function runOrderMaintenance(series: MetricsSeries, logPrefix: string): Promise<string[]> {
+    const failed: string[] = [];
+    for (const [name, step] of STEPS) {
+        try {
+            await step(series);
+        } catch (error) {
+            failed.push(name);
+            console.warn(`⚠️ ${logPrefix} ${name} failed:`, error instanceof Error ? error.message : error);
+        }
+    }
+    return failed;
+}
@@ -0,0 +1,154 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it, mock } from "node:test";
+import { OrderPurpose } from "@prisma/client";
+import type { ExchangeAdapter, ExchangeOrder, PlaceOrderParams } from "./exchange-adapter";
+import { createClientOrderId, submitOrder } from "./order-submission";
+
+const notUsed = () => Promise.reject(new Error("not used in this test"));
+
+/**
+ * Exchange that accepts orders by clientOrderId. `failures` placeOrder calls throw
+ * (after storing the order when `acceptBeforeThrow` is set, like a timed-out response)
+ */
+class FakeExchange implements ExchangeAdapter {
+    readonly name = "fake";
+    readonly calls: string[] = [];
+    readonly orders = new Map<string, ExchangeOrder>();
+
+    constructor(private failures: number, private acceptBeforeThrow: boolean) {}
+
+    async placeOrder(params: PlaceOrderParams): Promise<ExchangeOrder> {
+        this.calls.push("placeOrder");
+        const order: ExchangeOrder = {
+            orderId: String(this.orders.size + 1),
+            clientOrderId: params.clientOrderId,
+            symbol: params.symbol,
+            side: params.side,
+            type: params.type,
+            status: "NEW",
+            price: params.price ?? 0,
+            avgPrice: 0,
+            stopPrice: params.stopPrice ?? 0,
+            origQty: params.quantity ?? 0,
+            executedQty: 0,
+            reduceOnly: params.reduceOnly ?? false,
+            closePosition: params.closePosition ?? false,
+            updateTime: 0,
+        };
+        if (this.failures > 0) {
+            this.failures--;
+            if (this.acceptBeforeThrow) this.orders.set(params.clientOrderId!, order);
+            throw new Error("Request timed out");
+        }
+        this.orders.set(params.clientOrderId!, order);
+        return order;
+    }
+
+    async getOrderByClientId(_symbol: string, clientOrderId: string): Promise<ExchangeOrder | null> {
+        this.calls.push("getOrderByClientId");
+        return this.orders.get(clientOrderId) ?? null;
+    }
+
+    cancelOrder = notUsed;
+    getOpenOrders = notUsed;
+    getOrder = notUsed;
+    getPositions = notUsed;
+    getBalance = notUsed;
+    getAccountInfo = notUsed;
+    getPositionMode = notUsed;
+    setLeverage = notUsed;
+    getUserTrades = notUsed;
+    getIncomeHistory = notUsed;
+    getMarkPrice = notUsed;
+    getKlines = notUsed;
+    getOpenInterest = notUsed;
+    getFundingRate = notUsed;
+    getFundingRateHistory = notUsed;
+    getFundingSchedule = notUsed;
+    getSymbolFilters = notUsed;
+    getLeverageBrackets = notUsed;
+}
+
+const params = { symbol: "BTCUSDT", side: "BUY" as const, type: "LIMIT" as const, quantity: 0.01, price: 100000, clientOrderId: "en-test" };
+const options = { attempts: 3, retryDelayMs: () => 0 };
+
+describe("submitOrder", () => {
+    // 每次尝试都会打印重试日志，测试输出里不需要
+    before(() => {
+        for (const method of ["log", "warn"] as const) {
+            mock.method(console, method, () => {});
+        }
+    });
+
+    after(() => mock.restoreAll());
+
+    it("adopts an order the exchange accepted before the request failed", async () => {
+        const exchange = new FakeExchange(1, true);
+        const order = await submitOrder(exchange, params, options);
+
+        assert.equal(order.clientOrderId, "en-test");
+        assert.deepEqual(exchange.calls, ["placeOrder", "getOrderByClientId"]);
+        assert.equal(exchange.orders.size, 1);
+    });
+
+    it("resubmits after checking that the failed request never arrived", async () => {
+        const exchange = new FakeExchange(1, false);
+        const order = await submitOrder(exchange, params, options);
+
+        assert.equal(order.status, "NEW");
+        assert.deepEqual(exchange.calls, ["placeOrder", "getOrderByClientId", "placeOrder"]);
+        assert.equal(exchange.orders.size, 1);
+    });
+
+    it("checks the exchange once more after the last attempt fails", async () => {
+        const accepted = new FakeExchange(1, true);
+        const order = await submitOrder(accepted, params);
+        assert.equal(order.orderId, "1");
+        assert.deepEqual(accepted.calls, ["placeOrder", "getOrderByClientId"]);
+
+        const rejected = new FakeExchange(3, false);
+        await assert.rejects(submitOrder(rejected, params, options), /Request timed out/);
+        assert.equal(rejected.calls.filter((call) => call === "placeOrder").length, 3);
+        assert.equal(rejected.orders.size, 0);
+    });
+
+    it("does not retry when the order cannot be verified", async () => {
+        const exchange = new FakeExchange(1, false);
+        exchange.getOrderByClientId = () => Promise.reject(new Error("network down"));
+        await assert.rejects(submitOrder(exchange, params, options), /Could not verify order en-test: network down/);
+        assert.deepEqual(exchange.calls, ["placeOrder"]);
+    });
+
+    it("ignores a rejected order with the same client ID", async () => {
+        const exchange = new FakeExchange(1, false);
+        const expired = await new FakeExchange(0, false).placeOrder(params);
+        exchange.orders.set("en-test", { ...expired, status: "EXPIRED" });
+
+        const order = await submitOrder(exchange, params, options);
+        assert.equal(order.status, "NEW");
+        assert.deepEqual(exchange.calls, ["placeOrder", "getOrderByClientId", "placeOrder"]);
+    });
+});
+
+describe("createClientOrderId", () => {
+    const context = { chatId: "chat-1", tradingId: "trade-1" };
+
+    it("is deterministic for the same decision, purpose and parameters", () => {
+        const id = createClientOrderId(context, OrderPurpose.Entry, "BTCUSDT", "BUY", 0.01);
+        assert.equal(id, createClientOrderId({ ...context }, OrderPurpose.Entry, "BTCUSDT", "BUY", 0.01));
+        assert.match(id, /^en-[0-9a-f]{32}$/);
+        assert.ok(id.length <= 36);
+    });
+
+    it("changes with the decision, purpose or parameters", () => {
+        const id = createClientOrderId(context, OrderPurpose.StopLoss, "BTCUSDT", 95000);
+        assert.match(id, /^sl-/);
+        assert.notEqual(id, createClientOrderId({ ...context, chatId: "chat-2" }, OrderPurpose.StopLoss, "BTCUSDT", 95000));
+        assert.notEqual(id, createClientOrderId(context, OrderPurpose.TakeProfit, "BTCUSDT", 95000).replace(/^tp/, "sl"));
+        assert.notEqual(id, createClientOrderId(context, OrderPurpose.StopLoss, "BTCUSDT", 94000));
+    });
+
+    it("is random without a decision context", () => {
+        assert.notEqual(createClientOrderId(undefined, OrderPurpose.Exit, "BTCUSDT"), createClientOrderId(undefined, OrderPurpose.Exit, "BTCUSDT"));
+    });
+});
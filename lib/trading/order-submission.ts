@@ -0,0 +1,112 @@
+/**
+ * Idempotent order submission
+ * 每个订单带确定性的 newClientOrderId（由决策 chatId / tradingId + 订单用途 + 关键参数哈希得到）。
+ * 下单报错时请求可能已经到达交易所（例如响应超时），重试前先按 clientOrderId 查询，订单已存在就直接采用，
+ * 避免 buy / sell / 止盈止损重试造成重复成交
+ */
+
+import { createHash, randomUUID } from "crypto";
+import { OrderPurpose } from "@prisma/client";
+import type { ExchangeAdapter, ExchangeOrder, PlaceOrderParams } from "./exchange-adapter";
+import type { OrderLedgerContext } from "./order-ledger";
+
+// 已被交易所接受的订单状态；REJECTED / EXPIRED / CANCELED 的同 ID 订单不算已提交
+const ACCEPTED_STATUSES = ["NEW", "PARTIALLY_FILLED", "FILLED"];
+
+const CLIENT_ORDER_ID_PREFIX: Record<OrderPurpose, string> = {
+    [OrderPurpose.Entry]: "en",
+    [OrderPurpose.Exit]: "ex",
+    [OrderPurpose.StopLoss]: "sl",
+    [OrderPurpose.TakeProfit]: "tp",
+};
+
+export interface SubmitOrderOptions {
+    attempts?: number; // 默认 1：只在失败后查询一次
+    retryDelayMs?: (attempt: number) => number;
+    label?: string; // 日志前缀，如 "Buy order"
+}
+
+/**
+ * Deterministic newClientOrderId for an order, e.g. "en-3f2a…" (≤ 36 chars, Binance 限制)
+ * 同一决策、同一用途、同样参数总是得到同一个 ID；没有决策上下文（手动 / 命令行下单）时用随机种子
+ */
+export function createClientOrderId(
+    context: OrderLedgerContext | undefined,
+    purpose: OrderPurpose,
+    ...parts: Array<string | number | undefined>
+): string {
+    const seed = context?.tradingId
+        ? `${context.chatId ?? ""}:${context.tradingId}`
+        : randomUUID();
+    const hash = createHash("sha256")
+        .update([seed, purpose, ...parts.map((part) => part ?? "")].join("|"))
+        .digest("hex")
+        .slice(0, 32);
+    return `${CLIENT_ORDER_ID_PREFIX[purpose]}-${hash}`;
+}
+
+/**
+ * Look up an order by clientOrderId; returns it only if the exchange accepted it
+ * 查询失败时抛错：无法确认订单是否已提交，不能贸然重试
+ */
+async function findSubmittedOrder(exchange: ExchangeAdapter, symbol: string, clientOrderId: string): Promise<ExchangeOrder | null> {
+    let order: ExchangeOrder | null;
+    try {
+        order = await exchange.getOrderByClientId(symbol, clientOrderId);
+    } catch (error) {
+        throw new Error(`Could not verify order ${clientOrderId}: ${error instanceof Error ? error.message : error}`);
+    }
+    return order && ACCEPTED_STATUSES.includes(order.status) ? order : null;
+}
+
+/**
+ * Place an order with a client order ID, querying it before every retry and after the final failure
+ * so a request that reached the exchange is never submitted twice
+ */
+export async function submitOrder(
+    exchange: ExchangeAdapter,
+    params: PlaceOrderParams & { clientOrderId: string },
+    options: SubmitOrderOptions = {}
+): Promise<ExchangeOrder> {
+    const { attempts = 1, retryDelayMs = (attempt: number) => attempt * 3000, label = "Order" } = options;
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+        if (attempt > 1) {
+            const existing = await findSubmittedOrder(exchange, params.symbol, params.clientOrderId);
+            if (existing) {
+                console.log(`🔁 ${label} ${params.clientOrderId} already on exchange (#${existing.orderId}, ${existing.status}), not resubmitting`);
+                return existing;
+            }
+        }
+
+        try {
+            if (attempts > 1) {
+                console.log(`🔄 ${label} attempt ${attempt}/${attempts}...`);
+            }
+            return await exchange.placeOrder(params);
+        } catch (error) {
+            lastError = error;
+            console.warn(`⚠️ ${label} attempt ${attempt} failed: ${error instanceof Error ? error.message : error}`);
+
+            if (attempt < attempts) {
+                const delay = retryDelayMs(attempt);
+                console.log(`⏳ Retrying in ${delay}ms...`);
+                await new Promise((resolve) => setTimeout(resolve, delay));
+            }
+        }
+    }
+
+    // 最后一次失败（或 -4116 ClientOrderId is duplicated）也可能已经下单成功
+    let existing: ExchangeOrder | null = null;
+    try {
+        existing = await findSubmittedOrder(exchange, params.symbol, params.clientOrderId);
+    } catch (verifyError) {
+        console.warn(`⚠️ ${verifyError instanceof Error ? verifyError.message : verifyError}`);
+    }
+    if (existing) {
+        console.log(`🔁 ${label} ${params.clientOrderId} was accepted despite the error (#${existing.orderId}, ${existing.status})`);
+        return existing;
+    }
+    throw lastError instanceof Error ? lastError : new Error(String(lastError));
+}
@@ -0,0 +1,158 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { checkOrderMargin, findTriggerCandle, getTriggerPrice, isTriggered, type Candle } from "./paper-exchange";
+import type { Position } from "./positions";
+
+const createdAt = new Date("2025-01-01T00:00:30Z");
+
+function candle(openTime: string, low: number, high: number, open = (low + high) / 2): Candle {
+    return { openTime: new Date(openTime).getTime(), open, low, high, close: (low + high) / 2 };
+}
+
+function position(side: "long" | "short", contracts: number, initialMargin: number): Position {
+    return {
+        symbol: "BTCUSDT",
+        side,
+        contracts,
+        contractSize: 1,
+        entryPrice: 100,
+        markPrice: 100,
+        notional: contracts * 100,
+        leverage: 10,
+        unrealizedPnl: 0,
+        percentage: 0,
+        marginType: "isolated",
+        liquidationPrice: 0,
+        initialMargin,
+        maintenanceMargin: 0,
+    };
+}
+
+describe("isTriggered", () => {
+    const bar = candle("2025-01-01T00:01:00Z", 95, 105);
+
+    it("triggers a sell stop when the low reaches the stop price", () => {
+        assert.equal(isTriggered({ side: "SELL", type: "STOP_MARKET", price: 0, stopPrice: 96, createdAt }, bar), true);
+        assert.equal(isTriggered({ side: "SELL", type: "STOP_MARKET", price: 0, stopPrice: 94, createdAt }, bar), false);
+    });
+
+    it("triggers a buy stop when the high reaches the stop price", () => {
+        assert.equal(isTriggered({ side: "BUY", type: "STOP_MARKET", price: 0, stopPrice: 105, createdAt }, bar), true);
+        assert.equal(isTriggered({ side: "BUY", type: "STOP_MARKET", price: 0, stopPrice: 106, createdAt }, bar), false);
+    });
+
+    it("triggers take-profits on the opposite extreme", () => {
+        assert.equal(isTriggered({ side: "SELL", type: "TAKE_PROFIT_MARKET", price: 0, stopPrice: 104, createdAt }, bar), true);
+        assert.equal(isTriggered({ side: "BUY", type: "TAKE_PROFIT_MARKET", price: 0, stopPrice: 94, createdAt }, bar), false);
+    });
+
+    it("fills limits when the price trades through", () => {
+        assert.equal(isTriggered({ side: "BUY", type: "LIMIT", price: 95, stopPrice: 0, createdAt }, bar), true);
+        assert.equal(isTriggered({ side: "SELL", type: "LIMIT", price: 106, stopPrice: 0, createdAt }, bar), false);
+    });
+
+    it("never triggers market orders", () => {
+        assert.equal(isTriggered({ side: "BUY", type: "MARKET", price: 0, stopPrice: 0, createdAt }, bar), false);
+    });
+});
+
+describe("findTriggerCandle", () => {
+    const order = { side: "SELL", type: "STOP_MARKET", price: 0, stopPrice: 96, createdAt };
+
+    it("ignores the candle the order was created in", () => {
+        const candles = [
+            candle("2025-01-01T00:00:00Z", 90, 101), // 下单前的低点
+            candle("2025-01-01T00:01:00Z", 98, 102),
+        ];
+        assert.equal(findTriggerCandle(order, candles), undefined);
+    });
+
+    it("returns the first later candle that triggers", () => {
+        const candles = [
+            candle("2025-01-01T00:00:00Z", 90, 101),
+            candle("2025-01-01T00:01:00Z", 98, 102),
+            candle("2025-01-01T00:02:00Z", 95, 99),
+            candle("2025-01-01T00:03:00Z", 93, 97),
+        ];
+        assert.equal(findTriggerCandle(order, candles), candles[2]);
+    });
+});
+
+describe("getTriggerPrice", () => {
+    const gapDown = candle("2025-01-01T00:01:00Z", 90, 94, 93);
+    const gapUp = candle("2025-01-01T00:01:00Z", 106, 110, 107);
+
+    it("fills stops at the stop price when the candle trades through it", () => {
+        const bar = candle("2025-01-01T00:01:00Z", 95, 105, 100);
+        assert.equal(getTriggerPrice({ side: "SELL", type: "STOP_MARKET", price: 0, stopPrice: 96 }, bar), 96);
+        assert.equal(getTriggerPrice({ side: "BUY", type: "STOP_MARKET", price: 0, stopPrice: 104 }, bar), 104);
+    });
+
+    it("fills stops at the open when the candle gaps through them", () => {
+        assert.equal(getTriggerPrice({ side: "SELL", type: "STOP_MARKET", price: 0, stopPrice: 96 }, gapDown), 93);
+        assert.equal(getTriggerPrice({ side: "BUY", type: "STOP_MARKET", price: 0, stopPrice: 104 }, gapUp), 107);
+    });
+
+    it("keeps take-profits at the trigger price and limits at the limit price on a gap", () => {
+        assert.equal(getTriggerPrice({ side: "SELL", type: "TAKE_PROFIT_MARKET", price: 0, stopPrice: 104 }, gapUp), 104);
+        assert.equal(getTriggerPrice({ side: "BUY", type: "LIMIT", price: 96, stopPrice: 0 }, gapDown), 96);
+    });
+});
+
+describe("checkOrderMargin", () => {
+    const base = { quantity: 2, price: 100, leverage: 10, feeRate: 0.0004, availableBalance: 10 };
+
+    it("requires margin and fees for a new position", () => {
+        const check = checkOrderMargin({
+            ...base,
+            positions: [],
+            order: { symbol: "BTCUSDT", side: "BUY", reduceOnly: false, closePosition: false },
+        });
+        assert.equal(check.required, 20 + 2 * 100 * 0.0004);
+        assert.equal(check.available, 10);
+        assert.equal(check.sufficient, false);
+    });
+
+    it("skips reduce-only, close-position and hedged closing orders", () => {
+        for (const order of [
+            { symbol: "BTCUSDT", side: "BUY" as const, reduceOnly: true, closePosition: false },
+            { symbol: "BTCUSDT", side: "SELL" as const, reduceOnly: false, closePosition: true },
+            { symbol: "BTCUSDT", side: "SELL" as const, positionSide: "LONG", reduceOnly: false, closePosition: false },
+        ]) {
+            assert.equal(checkOrderMargin({ ...base, positions: [], order }).sufficient, true);
+        }
+    });
+
+    it("only charges margin for the part that flips an opposite ONE_WAY position", () => {
+        const check = checkOrderMargin({
+            ...base,
+            quantity: 3,
+            positions: [position("short", 2, 20)],
+            order: { symbol: "BTCUSDT", side: "BUY", reduceOnly: false, closePosition: false },
+        });
+        // 平掉 2 个空头释放 20 保证金，剩 1 个开多
+        assert.equal(check.required, 10 + 3 * 100 * 0.0004);
+        assert.equal(check.available, 30);
+        assert.equal(check.sufficient, true);
+    });
+
+    it("does not release margin when the opposite position is only partly closed", () => {
+        const check = checkOrderMargin({
+            ...base,
+            quantity: 1,
+            positions: [position("short", 2, 20)],
+            order: { symbol: "BTCUSDT", side: "BUY", reduceOnly: false, closePosition: false },
+        });
+        assert.deepEqual(check, { required: 0, available: 10, sufficient: true });
+    });
+
+    it("ignores positions on the same side", () => {
+        const check = checkOrderMargin({
+            ...base,
+            positions: [position("long", 2, 20)],
+            order: { symbol: "BTCUSDT", side: "BUY", reduceOnly: false, closePosition: false },
+        });
+        assert.equal(check.available, 10);
+        assert.equal(check.sufficient, false);
+    });
+});
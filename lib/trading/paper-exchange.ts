@@ -0,0 +1,846 @@
+/**
+ * Paper trading exchange (TRADING_MODE=paper)
+ * 本地模拟 USDT 永续合约账户：余额、保证金、杠杆、多空持仓、市价成交、止盈止损触发
+ * 行情（K线/资金费率）来自实盘公共接口，不使用测试网，也不需要 API Key
+ */
+
+import type { PaperAccount, PaperOrder, PaperPosition, Prisma } from "@prisma/client";
+import { prisma } from "../prisma";
+import type { Position } from "./positions";
+import {
+    toExchangeSymbol,
+    type ExchangeAccountInfo,
+    type ExchangeAdapter,
+    type ExchangeBalance,
+    type ExchangeIncome,
+    type ExchangeOrder,
+    type ExchangeTrade,
+    type IncomeQuery,
+    type KlineRange,
+    type LeverageBracket,
+    type OrderSide,
+    type PlaceOrderParams,
+    type PositionMode,
+} from "./exchange-adapter";
+
+type Tx = Prisma.TransactionClient;
+
+const TRANSACTION_TIMEOUT_MS = 15000;
+
+export interface PaperExchangeConfig {
+    accountName: string;
+    initialBalance: number;
+    takerFeeRate: number; // 市价单/触发单手续费率
+    makerFeeRate: number; // 限价单手续费率
+    slippageBps: number; // 市价成交滑点（基点），总是对下单方不利
+    maintenanceMarginRate: number;
+    positionMode: PositionMode;
+    defaultLeverage: number;
+    syncIntervalMs: number; // 挂单/强平检查的最小间隔
+}
+
+/**
+ * Get paper exchange configuration from environment variables
+ */
+export function getPaperExchangeConfig(): PaperExchangeConfig {
+    return {
+        accountName: process.env.PAPER_ACCOUNT_NAME || "default",
+        initialBalance: Number(process.env.PAPER_INITIAL_BALANCE || 1000),
+        takerFeeRate: Number(process.env.PAPER_TAKER_FEE_RATE || 0.0004),
+        makerFeeRate: Number(process.env.PAPER_MAKER_FEE_RATE || 0.0002),
+        slippageBps: Number(process.env.PAPER_SLIPPAGE_BPS || 5),
+        maintenanceMarginRate: Number(process.env.PAPER_MAINTENANCE_MARGIN_RATE || 0.004),
+        positionMode: process.env.PAPER_POSITION_MODE === "DUAL_SIDE" ? "DUAL_SIDE" : "ONE_WAY",
+        defaultLeverage: Number(process.env.PAPER_DEFAULT_LEVERAGE || 10),
+        syncIntervalMs: Number(process.env.PAPER_SYNC_INTERVAL_MS || 5000),
+    };
+}
+
+export interface Candle {
+    openTime: number;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+}
+
+type FillOrder = { symbol: string; side: OrderSide; positionSide?: string | null; reduceOnly: boolean; closePosition: boolean };
+
+export interface MarginCheck {
+    required: number; // 新开仓部分的保证金 + 手续费
+    available: number; // 可用余额（含平掉反向持仓释放的保证金）
+    sufficient: boolean;
+}
+
+interface FillResult {
+    executedQty: number;
+    realizedPnl: number;
+    fee: number;
+}
+
+function mapOrder(order: PaperOrder): ExchangeOrder {
+    return {
+        orderId: String(order.id),
+        clientOrderId: order.clientOrderId ?? undefined,
+        symbol: order.symbol,
+        side: order.side as OrderSide,
+        positionSide: (order.positionSide as ExchangeOrder["positionSide"]) ?? "BOTH",
+        type: order.type,
+        status: order.status,
+        price: order.price,
+        avgPrice: order.avgPrice,
+        stopPrice: order.stopPrice,
+        origQty: order.origQty,
+        executedQty: order.executedQty,
+        reduceOnly: order.reduceOnly,
+        closePosition: order.closePosition,
+        updateTime: order.updatedAt.getTime(),
+    };
+}
+
+/**
+ * 估算逐仓强平价（忽略手续费）
+ */
+function estimateLiquidationPrice(position: PaperPosition, maintenanceMarginRate: number): number {
+    const isLong = position.positionSide === "LONG";
+    const marginPerUnit = position.margin / position.quantity;
+    return isLong
+        ? Math.max(0, (position.entryPrice - marginPerUnit) / (1 - maintenanceMarginRate))
+        : (position.entryPrice + marginPerUnit) / (1 + maintenanceMarginRate);
+}
+
+type RestingOrder = Pick<PaperOrder, "side" | "type" | "price" | "stopPrice" | "createdAt">;
+
+/**
+ * 挂单是否被这根K线触发
+ */
+export function isTriggered(order: RestingOrder, candle: Candle): boolean {
+    const isBuy = order.side === "BUY";
+    switch (order.type) {
+        case "STOP_MARKET":
+            return isBuy ? candle.high >= order.stopPrice : candle.low <= order.stopPrice;
+        case "TAKE_PROFIT_MARKET":
+            return isBuy ? candle.low <= order.stopPrice : candle.high >= order.stopPrice;
+        case "LIMIT":
+            return isBuy ? candle.low <= order.price : candle.high >= order.price;
+        default:
+            return false;
+    }
+}
+
+/**
+ * First candle that triggers a resting order. Only candles opened at or after the order count:
+ * the high / low of the candle the order was created in may predate the order
+ */
+export function findTriggerCandle(order: RestingOrder, candles: Candle[]): Candle | undefined {
+    const createdAt = order.createdAt.getTime();
+    return candles.find((c) => c.openTime >= createdAt && isTriggered(order, c));
+}
+
+/**
+ * Price a triggered order fills at before slippage. A stop whose candle opened past the stop price
+ * (gap) fills at the open like a real stop market order; take-profits never get the better gap price
+ */
+export function getTriggerPrice(order: Pick<PaperOrder, "side" | "type" | "price" | "stopPrice">, candle: Candle): number {
+    if (order.type === "LIMIT") return order.price;
+    if (order.type !== "STOP_MARKET") return order.stopPrice;
+    return order.side === "BUY" ? Math.max(order.stopPrice, candle.open) : Math.min(order.stopPrice, candle.open);
+}
+
+/**
+ * Margin needed by the part of an order that opens exposure. In ONE_WAY mode an opposite-side
+ * order first closes the opposite position (releasing its margin) and only the remainder opens
+ */
+export function checkOrderMargin(params: {
+    positions: Position[];
+    order: FillOrder;
+    quantity: number;
+    price: number;
+    leverage: number;
+    feeRate: number;
+    availableBalance: number;
+}): MarginCheck {
+    const { positions, order, quantity, price, leverage, feeRate, availableBalance } = params;
+    // DUAL_SIDE 下 SELL+LONG / BUY+SHORT 是平仓单
+    const closesHedgedSide = !!order.positionSide && (order.positionSide === "LONG") === (order.side === "SELL");
+    if (order.reduceOnly || order.closePosition || closesHedgedSide) {
+        return { required: 0, available: availableBalance, sufficient: true };
+    }
+
+    const opposite = order.positionSide
+        ? undefined
+        : positions.find((p) => p.symbol === order.symbol && (p.side === "long") === (order.side === "SELL"));
+    const closeQty = Math.min(quantity, opposite?.contracts ?? 0);
+    const openQty = quantity - closeQty;
+    if (openQty <= 1e-12) {
+        return { required: 0, available: availableBalance, sufficient: true };
+    }
+
+    const released = opposite && closeQty >= opposite.contracts ? opposite.initialMargin : 0;
+    const required = (openQty * price) / leverage + quantity * price * feeRate;
+    const available = availableBalance + released;
+    return { required, available, sufficient: required <= available };
+}
+
+/**
+ * Create the paper trading implementation of ExchangeAdapter.
+ * Market data methods are delegated to `marketData` (public endpoints only).
+ */
+export function createPaperExchangeAdapter(
+    marketData: ExchangeAdapter,
+    config: PaperExchangeConfig = getPaperExchangeConfig()
+): ExchangeAdapter {
+    let lastSyncAt = 0;
+    let syncPromise: Promise<void> | null = null;
+
+    const getAccount = async (tx: Tx = prisma): Promise<PaperAccount> => {
+        const existing = await tx.paperAccount.findUnique({ where: { name: config.accountName } });
+        if (existing) {
+            return existing;
+        }
+        console.log(`🧪 Creating paper account "${config.accountName}" with $${config.initialBalance}`);
+        return tx.paperAccount.upsert({
+            where: { name: config.accountName },
+            update: {},
+            create: { name: config.accountName, walletBalance: config.initialBalance },
+        });
+    };
+
+    const getLeverage = (account: PaperAccount, symbol: string): number => {
+        const leverages = (account.leverages || {}) as Record<string, number>;
+        return leverages[symbol] || config.defaultLeverage;
+    };
+
+    const getLatestCandles = async (symbol: string, limit = 5): Promise<Candle[]> => {
+        const rows = await marketData.getKlines(symbol, "1m", limit);
+        return rows.map((row) => ({ openTime: row[0], open: row[1], high: row[2], low: row[3], close: row[4] }));
+    };
+
+    const getLastPrice = async (symbol: string): Promise<number> => {
+        const candles = await getLatestCandles(symbol, 1);
+        const price = candles[candles.length - 1]?.close;
+        if (!price) {
+            throw new Error(`No market price available for ${symbol}`);
+        }
+        return price;
+    };
+
+    const withSlippage = (side: OrderSide, price: number): number => {
+        const slippage = price * (config.slippageBps / 10000);
+        return side === "BUY" ? price + slippage : price - slippage;
+    };
+
+    /**
+     * 成交一笔订单：先减仓（平反向仓位），剩余部分开仓/加仓
+     */
+    const applyFill = async (
+        tx: Tx,
+        account: PaperAccount,
+        order: FillOrder,
+        quantity: number,
+        fillPrice: number,
+        feeRate: number
+    ): Promise<FillResult> => {
+        const positions = await tx.paperPosition.findMany({
+            where: { accountId: account.id, symbol: order.symbol },
+        });
+
+        // 确定要减少/增加的持仓方向
+        let reduceSide: "LONG" | "SHORT" | null;
+        let openSide: "LONG" | "SHORT" | null;
+        if (order.positionSide === "LONG" || order.positionSide === "SHORT") {
+            const closing = (order.positionSide === "LONG") === (order.side === "SELL");
+            reduceSide = closing ? order.positionSide : null;
+            openSide = closing ? null : order.positionSide;
+        } else {
+            reduceSide = order.side === "BUY" ? "SHORT" : "LONG";
+            openSide = order.reduceOnly || order.closePosition ? null : (order.side === "BUY" ? "LONG" : "SHORT");
+        }
+
+        let remaining = quantity;
+        let realizedPnl = 0;
+        let executedQty = 0;
+        let walletDelta = 0;
+
+        const existing = reduceSide ? positions.find((p) => p.positionSide === reduceSide) : undefined;
+        if (existing) {
+            const closeQty = order.closePosition ? existing.quantity : Math.min(remaining, existing.quantity);
+            const direction = existing.positionSide === "LONG" ? 1 : -1;
+            const pnl = (fillPrice - existing.entryPrice) * closeQty * direction;
+            realizedPnl += pnl;
+            walletDelta += pnl;
+            executedQty += closeQty;
+            remaining = Math.max(0, remaining - closeQty);
+
+            const leftQty = existing.quantity - closeQty;
+            if (leftQty <= 1e-12) {
+                await tx.paperPosition.delete({ where: { id: existing.id } });
+                // 持仓已清空，撤销该方向的 closePosition 挂单
+                await tx.paperOrder.updateMany({
+                    where: {
+                        accountId: account.id,
+                        symbol: order.symbol,
+                        status: "NEW",
+                        closePosition: true,
+                        side: order.side,
+                        ...(order.positionSide ? { positionSide: order.positionSide } : {}),
+                    },
+                    data: { status: "EXPIRED" },
+                });
+            } else {
+                await tx.paperPosition.update({
+                    where: { id: existing.id },
+                    data: {
+                        quantity: leftQty,
+                        margin: existing.margin * (leftQty / existing.quantity),
+                    },
+                });
+            }
+        }
+
+        if (openSide && remaining > 0) {
+            const leverage = getLeverage(account, order.symbol);
+            const margin = (remaining * fillPrice) / leverage;
+            const current = positions.find((p) => p.positionSide === openSide);
+
+            if (current) {
+                const totalQty = current.quantity + remaining;
+                await tx.paperPosition.update({
+                    where: { id: current.id },
+                    data: {
+                        quantity: totalQty,
+                        entryPrice: (current.entryPrice * current.quantity + fillPrice * remaining) / totalQty,
+                        margin: current.margin + margin,
+                        leverage,
+                    },
+                });
+            } else {
+                await tx.paperPosition.create({
+                    data: {
+                        accountId: account.id,
+                        symbol: order.symbol,
+                        positionSide: openSide,
+                        quantity: remaining,
+                        entryPrice: fillPrice,
+                        leverage,
+                        margin,
+                    },
+                });
+            }
+            executedQty += remaining;
+        }
+
+        const fee = executedQty * fillPrice * feeRate;
+        walletDelta -= fee;
+        if (walletDelta !== 0) {
+            await tx.paperAccount.update({
+                where: { id: account.id },
+                data: { walletBalance: { increment: walletDelta } },
+            });
+        }
+
+        return { executedQty, realizedPnl, fee };
+    };
+
+    /**
+     * 获取持仓币种（及额外币种）的最新价格。需在事务外调用，避免网络请求拖长事务
+     */
+    const loadPrices = async (extraSymbols: string[] = []): Promise<Map<string, number>> => {
+        const account = await getAccount();
+        const positions = await prisma.paperPosition.findMany({ where: { accountId: account.id } });
+        const prices = new Map<string, number>();
+        for (const symbol of new Set([...positions.map((p) => p.symbol), ...extraSymbols])) {
+            prices.set(symbol, await getLastPrice(symbol));
+        }
+        return prices;
+    };
+
+    const computeAccountState = async (prices: Map<string, number>, tx: Tx = prisma) => {
+        const account = await getAccount(tx);
+        const positions = await tx.paperPosition.findMany({ where: { accountId: account.id } });
+
+        let totalUnrealizedProfit = 0;
+        let totalPositionInitialMargin = 0;
+        const mapped: Position[] = positions.map((p) => {
+            const markPrice = prices.get(p.symbol) ?? p.entryPrice;
+            const direction = p.positionSide === "LONG" ? 1 : -1;
+            const unrealizedPnl = (markPrice - p.entryPrice) * p.quantity * direction;
+            const notional = p.quantity * markPrice;
+            totalUnrealizedProfit += unrealizedPnl;
+            totalPositionInitialMargin += p.margin;
+
+            return {
+                symbol: p.symbol,
+                side: p.positionSide === "LONG" ? "long" : "short",
+                contracts: p.quantity,
+                contractSize: 1,
+                entryPrice: p.entryPrice,
+                markPrice,
+                notional,
+                leverage: p.leverage,
+                unrealizedPnl,
+                percentage: ((markPrice - p.entryPrice) / p.entryPrice) * 100 * direction,
+                marginType: "isolated",
+                liquidationPrice: estimateLiquidationPrice(p, config.maintenanceMarginRate),
+                initialMargin: p.margin,
+                maintenanceMargin: notional * config.maintenanceMarginRate,
+            };
+        });
+
+        const totalMarginBalance = account.walletBalance + totalUnrealizedProfit;
+        const availableBalance = Math.max(0, totalMarginBalance - totalPositionInitialMargin);
+
+        return { account, positions: mapped, totalUnrealizedProfit, totalPositionInitialMargin, totalMarginBalance, availableBalance };
+    };
+
+    /**
+     * 已成交订单（按成交时间排序），供成交记录 / 资金流水查询使用
+     */
+    const findFilledOrders = async (query: { symbol?: string; startTime?: number; endTime?: number }): Promise<PaperOrder[]> => {
+        const account = await getAccount();
+        return prisma.paperOrder.findMany({
+            where: {
+                accountId: account.id,
+                status: "FILLED",
+                executedQty: { gt: 0 },
+                ...(query.symbol ? { symbol: query.symbol } : {}),
+                updatedAt: {
+                    gte: query.startTime !== undefined ? new Date(query.startTime) : undefined,
+                    lte: query.endTime !== undefined ? new Date(query.endTime) : undefined,
+                },
+            },
+            orderBy: [{ updatedAt: "asc" }, { id: "asc" }],
+            take: 1000,
+        });
+    };
+
+    /**
+     * 检查挂单触发和强平。最多每 syncIntervalMs 执行一次，并发调用共享同一次检查
+     */
+    const sync = async (force = false): Promise<void> => {
+        if (syncPromise) {
+            return syncPromise;
+        }
+        if (!force && Date.now() - lastSyncAt < config.syncIntervalMs) {
+            return;
+        }
+
+        syncPromise = (async () => {
+            const account = await getAccount();
+            const [openOrders, positions] = await Promise.all([
+                prisma.paperOrder.findMany({
+                    where: { accountId: account.id, status: "NEW" },
+                    orderBy: { id: "asc" },
+                }),
+                prisma.paperPosition.findMany({ where: { accountId: account.id } }),
+            ]);
+
+            const symbols = new Set([...openOrders.map((o) => o.symbol), ...positions.map((p) => p.symbol)]);
+            for (const symbol of symbols) {
+                const candles = await getLatestCandles(symbol);
+
+                // 强平检查
+                for (const position of positions.filter((p) => p.symbol === symbol)) {
+                    const liquidationPrice = estimateLiquidationPrice(position, config.maintenanceMarginRate);
+                    const hit = candles.some((c) =>
+                        c.openTime + 60_000 > position.updatedAt.getTime() &&
+                        (position.positionSide === "LONG" ? c.low <= liquidationPrice : c.high >= liquidationPrice)
+                    );
+                    if (hit) {
+                        console.warn(`💥 Paper position liquidated: ${symbol} ${position.positionSide} @ $${liquidationPrice.toFixed(4)}`);
+                        await prisma.$transaction(async (tx) => {
+                            const fresh = await getAccount(tx);
+                            const liquidationOrder = {
+                                symbol,
+                                side: (position.positionSide === "LONG" ? "SELL" : "BUY") as OrderSide,
+                                positionSide: config.positionMode === "DUAL_SIDE" ? position.positionSide : null,
+                                reduceOnly: true,
+                                closePosition: true,
+                            };
+                            const fill = await applyFill(
+                                tx,
+                                fresh,
+                                liquidationOrder,
+                                position.quantity,
+                                liquidationPrice,
+                                config.takerFeeRate
+                            );
+                            // 与 Binance 一致：强平单 clientOrderId 以 autoclose- 开头，供对账识别
+                            await tx.paperOrder.create({
+                                data: {
+                                    ...liquidationOrder,
+                                    accountId: fresh.id,
+                                    clientOrderId: `autoclose-${Date.now()}`,
+                                    type: "LIQUIDATION",
+                                    status: "FILLED",
+                                    origQty: position.quantity,
+                                    executedQty: fill.executedQty,
+                                    avgPrice: liquidationPrice,
+                                    fee: fill.fee,
+                                    realizedPnl: fill.realizedPnl,
+                                },
+                            });
+                        }, { timeout: TRANSACTION_TIMEOUT_MS });
+                    }
+                }
+
+                // 挂单触发：止损/止盈按触发价成交（加滑点，跳空穿过止损时按开盘价），限价单按限价成交
+                for (const order of openOrders.filter((o) => o.symbol === symbol)) {
+                    const candle = findTriggerCandle(order, candles);
+                    if (!candle) continue;
+                    const prices = await loadPrices([symbol]);
+
+                    await prisma.$transaction(async (tx) => {
+                        const current = await tx.paperOrder.findUnique({ where: { id: order.id } });
+                        if (!current || current.status !== "NEW") return;
+
+                        const isLimit = order.type === "LIMIT";
+                        const triggerPrice = getTriggerPrice(order, candle);
+                        const fillPrice = isLimit ? triggerPrice : withSlippage(order.side as OrderSide, triggerPrice);
+                        const feeRate = isLimit ? config.makerFeeRate : config.takerFeeRate;
+
+                        // 成交时重新检查开仓部分的保证金，不足时与交易所一样撤单
+                        const state = await computeAccountState(prices, tx);
+                        const fresh = state.account;
+                        const margin = checkOrderMargin({
+                            positions: state.positions,
+                            order: { ...order, side: order.side as OrderSide },
+                            quantity: order.origQty,
+                            price: fillPrice,
+                            leverage: getLeverage(fresh, symbol),
+                            feeRate,
+                            availableBalance: state.availableBalance,
+                        });
+                        if (!margin.sufficient) {
+                            await tx.paperOrder.update({ where: { id: order.id }, data: { status: "EXPIRED" } });
+                            console.warn(`🧪 Paper ${order.type} ${order.side} ${symbol} canceled at trigger: margin is insufficient (required $${margin.required.toFixed(2)}, available $${margin.available.toFixed(2)})`);
+                            return;
+                        }
+                        const fill = await applyFill(
+                            tx,
+                            fresh,
+                            { ...order, side: order.side as OrderSide },
+                            order.origQty,
+                            fillPrice,
+                            feeRate
+                        );
+
+                        await tx.paperOrder.update({
+                            where: { id: order.id },
+                            data: {
+                                status: fill.executedQty > 0 ? "FILLED" : "EXPIRED",
+                                executedQty: fill.executedQty,
+                                avgPrice: fill.executedQty > 0 ? fillPrice : 0,
+                                fee: fill.fee,
+                                realizedPnl: fill.realizedPnl,
+                            },
+                        });
+                        console.log(`🧪 Paper ${order.type} ${order.side} ${symbol} triggered @ $${fillPrice.toFixed(4)} (qty ${fill.executedQty})`);
+                    }, { timeout: TRANSACTION_TIMEOUT_MS });
+                }
+            }
+
+            lastSyncAt = Date.now();
+        })();
+
+        try {
+            await syncPromise;
+        } finally {
+            syncPromise = null;
+        }
+    };
+
+    return {
+        name: "paper",
+
+        async placeOrder(params: PlaceOrderParams): Promise<ExchangeOrder> {
+            await sync(true);
+
+            const symbol = toExchangeSymbol(params.symbol);
+            const positionSide = config.positionMode === "DUAL_SIDE" ? params.positionSide ?? null : null;
+            if (config.positionMode === "ONE_WAY" && params.positionSide && params.positionSide !== "BOTH") {
+                throw new Error(`Paper exchange error: -4061 Order's position side does not match user's setting.`);
+            }
+            if (config.positionMode === "DUAL_SIDE" && params.reduceOnly) {
+                throw new Error(`Paper exchange error: -1106 Parameter 'reduceOnly' sent when not required.`);
+            }
+
+            const isConditional = params.type === "STOP_MARKET" || params.type === "TAKE_PROFIT_MARKET";
+            if (isConditional && !params.stopPrice) {
+                throw new Error(`Paper exchange error: stopPrice is required for ${params.type}`);
+            }
+            if (params.type === "LIMIT" && !params.price) {
+                throw new Error(`Paper exchange error: price is required for LIMIT orders`);
+            }
+            if (!params.closePosition && !(params.quantity && params.quantity > 0)) {
+                throw new Error(`Paper exchange error: quantity must be greater than 0`);
+            }
+
+            // 与交易所一致：clientOrderId 在未完成订单中必须唯一
+            if (params.clientOrderId) {
+                const account = await getAccount();
+                const duplicate = await prisma.paperOrder.findFirst({
+                    where: { accountId: account.id, clientOrderId: params.clientOrderId, status: "NEW" },
+                });
+                if (duplicate) {
+                    throw new Error(`Paper exchange error: -4116 ClientOrderId is duplicated. (${params.clientOrderId})`);
+                }
+            }
+
+            const baseOrder = {
+                clientOrderId: params.clientOrderId,
+                symbol,
+                side: params.side,
+                positionSide,
+                type: params.type,
+                price: params.price ?? 0,
+                stopPrice: params.stopPrice ?? 0,
+                origQty: params.quantity ?? 0,
+                reduceOnly: !!params.reduceOnly,
+                closePosition: !!params.closePosition,
+            };
+
+            // 条件单和限价单挂单，等待 sync() 触发
+            if (params.type !== "MARKET") {
+                const account = await getAccount();
+
+                // GTX（只做 maker）限价单会立即成交时直接过期
+                if (params.type === "LIMIT" && params.timeInForce === "GTX") {
+                    const lastPrice = await getLastPrice(symbol);
+                    const crosses = params.side === "BUY" ? params.price! >= lastPrice : params.price! <= lastPrice;
+                    if (crosses) {
+                        const expired = await prisma.paperOrder.create({
+                            data: { ...baseOrder, accountId: account.id, status: "EXPIRED" },
+                        });
+                        console.log(`🧪 Paper GTX ${params.side} ${symbol} @ $${params.price} would take liquidity (last $${lastPrice}), expired`);
+                        return mapOrder(expired);
+                    }
+                }
+
+                // 限价开仓单下单时按限价检查保证金
+                if (params.type === "LIMIT") {
+                    const state = await computeAccountState(await loadPrices([symbol]));
+                    const margin = checkOrderMargin({
+                        positions: state.positions,
+                        order: baseOrder,
+                        quantity: baseOrder.origQty,
+                        price: params.price!,
+                        leverage: getLeverage(account, symbol),
+                        feeRate: config.makerFeeRate,
+                        availableBalance: state.availableBalance,
+                    });
+                    if (!margin.sufficient) {
+                        await prisma.paperOrder.create({
+                            data: { ...baseOrder, accountId: account.id, status: "REJECTED" },
+                        });
+                        throw new Error(`Paper exchange error: -2019 Margin is insufficient. Required $${margin.required.toFixed(2)}, available $${margin.available.toFixed(2)}`);
+                    }
+                }
+
+                const order = await prisma.paperOrder.create({
+                    data: { ...baseOrder, accountId: account.id, status: "NEW" },
+                });
+                console.log(`🧪 Paper ${params.type} ${params.side} ${symbol} resting @ $${params.stopPrice ?? params.price}`);
+                return mapOrder(order);
+            }
+
+            const prices = await loadPrices([symbol]);
+            const fillPrice = withSlippage(params.side, prices.get(symbol)!);
+
+            const order = await prisma.$transaction(async (tx) => {
+                const state = await computeAccountState(prices, tx);
+                const account = state.account;
+
+                // 开仓前检查保证金（ONE_WAY 反向单只检查平掉反向持仓后剩余的开仓部分）
+                const margin = checkOrderMargin({
+                    positions: state.positions,
+                    order: baseOrder,
+                    quantity: params.quantity ?? 0,
+                    price: fillPrice,
+                    leverage: getLeverage(account, symbol),
+                    feeRate: config.takerFeeRate,
+                    availableBalance: state.availableBalance,
+                });
+                if (!margin.sufficient) {
+                    await tx.paperOrder.create({
+                        data: { ...baseOrder, accountId: account.id, status: "REJECTED" },
+                    });
+                    throw new Error(`Paper exchange error: -2019 Margin is insufficient. Required $${margin.required.toFixed(2)}, available $${margin.available.toFixed(2)}`);
+                }
+
+                const fill = await applyFill(tx, account, { ...baseOrder, side: params.side }, params.quantity ?? 0, fillPrice, config.takerFeeRate);
+                if (fill.executedQty === 0) {
+                    throw new Error(`Paper exchange error: -2022 ReduceOnly Order is rejected (no position to reduce)`);
+                }
+
+                return tx.paperOrder.create({
+                    data: {
+                        ...baseOrder,
+                        accountId: account.id,
+                        status: "FILLED",
+                        executedQty: fill.executedQty,
+                        avgPrice: fillPrice,
+                        fee: fill.fee,
+                        realizedPnl: fill.realizedPnl,
+                    },
+                });
+            }, { timeout: TRANSACTION_TIMEOUT_MS });
+
+            console.log(`🧪 Paper MARKET ${params.side} ${symbol} filled ${order.executedQty} @ $${fillPrice.toFixed(4)} (fee $${order.fee.toFixed(4)})`);
+            return mapOrder(order);
+        },
+
+        async cancelOrder(symbol: string, orderId: string): Promise<void> {
+            const account = await getAccount();
+            const result = await prisma.paperOrder.updateMany({
+                where: { id: Number(orderId), accountId: account.id, symbol: toExchangeSymbol(symbol), status: "NEW" },
+                data: { status: "CANCELED" },
+            });
+            if (result.count === 0) {
+                throw new Error(`Paper exchange error: -2011 Unknown order sent. (${orderId})`);
+            }
+        },
+
+        async getOpenOrders(symbol?: string): Promise<ExchangeOrder[]> {
+            await sync();
+            const account = await getAccount();
+            const orders = await prisma.paperOrder.findMany({
+                where: {
+                    accountId: account.id,
+                    status: "NEW",
+                    ...(symbol ? { symbol: toExchangeSymbol(symbol) } : {}),
+                },
+                orderBy: { id: "asc" },
+            });
+            return orders.map(mapOrder);
+        },
+
+        async getOrder(symbol: string, orderId: string): Promise<ExchangeOrder> {
+            await sync();
+            const account = await getAccount();
+            const order = await prisma.paperOrder.findFirst({
+                where: { id: Number(orderId), accountId: account.id, symbol: toExchangeSymbol(symbol) },
+            });
+            if (!order) {
+                throw new Error(`Paper exchange error: -2013 Order does not exist. (${orderId})`);
+            }
+            return mapOrder(order);
+        },
+
+        async getOrderByClientId(symbol: string, clientOrderId: string): Promise<ExchangeOrder | null> {
+            await sync();
+            const account = await getAccount();
+            const order = await prisma.paperOrder.findFirst({
+                where: { clientOrderId, accountId: account.id, symbol: toExchangeSymbol(symbol) },
+                orderBy: { id: "desc" },
+            });
+            return order ? mapOrder(order) : null;
+        },
+
+        async getPositions(): Promise<Position[]> {
+            await sync();
+            const state = await computeAccountState(await loadPrices());
+            return state.positions;
+        },
+
+        async getBalance(): Promise<ExchangeBalance> {
+            await sync();
+            const state = await computeAccountState(await loadPrices());
+            return {
+                total: state.account.walletBalance,
+                free: state.availableBalance,
+                used: state.totalPositionInitialMargin,
+            };
+        },
+
+        async getAccountInfo(): Promise<ExchangeAccountInfo> {
+            await sync();
+            const state = await computeAccountState(await loadPrices());
+            return {
+                totalWalletBalance: state.account.walletBalance,
+                totalUnrealizedProfit: state.totalUnrealizedProfit,
+                totalMarginBalance: state.totalMarginBalance,
+                totalPositionInitialMargin: state.totalPositionInitialMargin,
+                totalOpenOrderInitialMargin: 0,
+                availableBalance: state.availableBalance,
+                maxWithdrawAmount: state.availableBalance,
+            };
+        },
+
+        async getPositionMode(): Promise<PositionMode> {
+            return config.positionMode;
+        },
+
+        async setLeverage(symbol: string, leverage: number): Promise<void> {
+            const account = await getAccount();
+            const leverages = { ...((account.leverages || {}) as Record<string, number>) };
+            leverages[toExchangeSymbol(symbol)] = Math.round(leverage);
+            await prisma.paperAccount.update({
+                where: { id: account.id },
+                data: { leverages },
+            });
+        },
+
+        async getUserTrades(symbol: string, range?: KlineRange): Promise<ExchangeTrade[]> {
+            await sync();
+            const orders = await findFilledOrders({ symbol: toExchangeSymbol(symbol), ...range });
+            // 模拟盘每个订单一次性成交：一个订单对应一笔成交
+            return orders.map((order) => ({
+                id: String(order.id),
+                orderId: String(order.id),
+                symbol: order.symbol,
+                side: order.side as OrderSide,
+                positionSide: (order.positionSide as ExchangeTrade["positionSide"]) ?? "BOTH",
+                price: order.avgPrice,
+                qty: order.executedQty,
+                realizedPnl: order.realizedPnl,
+                commission: order.fee,
+                commissionAsset: "USDT",
+                maker: order.type === "LIMIT",
+                time: order.updatedAt.getTime(),
+            }));
+        },
+
+        async getIncomeHistory(query: IncomeQuery = {}): Promise<ExchangeIncome[]> {
+            await sync();
+            const orders = await findFilledOrders({
+                ...query,
+                symbol: query.symbol ? toExchangeSymbol(query.symbol) : undefined,
+            });
+            // 由成交记录生成已实现盈亏和手续费流水（模拟盘不收取资金费，持仓资金费由 lib/trading/funding 按费率历史估算）
+            const rows: ExchangeIncome[] = orders.flatMap((order) => [
+                { incomeType: "REALIZED_PNL", income: order.realizedPnl },
+                { incomeType: "COMMISSION", income: -order.fee },
+            ]
+                .filter((row) => row.income !== 0)
+                .map((row) => ({
+                    ...row,
+                    id: `${order.id}-${row.incomeType}`,
+                    symbol: order.symbol,
+                    asset: "USDT",
+                    tradeId: String(order.id),
+                    time: order.updatedAt.getTime(),
+                })));
+            return query.incomeType ? rows.filter((row) => row.incomeType === query.incomeType) : rows;
+        },
+
+        getMarkPrice: (symbol) => getLastPrice(toExchangeSymbol(symbol)),
+        getKlines: (symbol, interval, limit, range) => marketData.getKlines(symbol, interval, limit, range),
+        getOpenInterest: (symbol) => marketData.getOpenInterest(symbol),
+        getFundingRate: (symbol) => marketData.getFundingRate(symbol),
+        getFundingRateHistory: (symbol, range) => marketData.getFundingRateHistory(symbol, range),
+        getFundingSchedule: (symbol) => marketData.getFundingSchedule(symbol),
+
+        // 交易规则沿用交易所公共接口；模拟盘不分档，单一档位使用配置的维持保证金率
+        getSymbolFilters: () => marketData.getSymbolFilters(),
+        async getLeverageBrackets(): Promise<LeverageBracket[]> {
+            return [{
+                bracket: 1,
+                initialLeverage: 125,
+                notionalFloor: 0,
+                notionalCap: Number.MAX_SAFE_INTEGER,
+                maintMarginRatio: config.maintenanceMarginRate,
+            }];
+        },
+    };
+}
@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createPortfolioRiskEngine, updateRiskState, type PortfolioSnapshot, type RiskState } from "./portfolio-risk";
+import type { RiskConfig } from "./risk-control";
+
+const HOUR_MS = 60 * 60 * 1000;
+const NOW = Date.parse("2025-01-02T12:00:00Z");
+
+const config: RiskConfig = {
+    tradingMode: "paper",
+    maxPositionSizeUSDT: 5000,
+    maxLeverage: 20,
+    dailyLossLimitPercent: 5,
+    maxGrossExposure: 3,
+    maxNetExposure: 2,
+    maxSymbolExposure: 1.5,
+    maxGroupExposure: 1.5,
+    correlationGroups: { majors: ["BTC", "ETH"] },
+    maxOpenPositions: 3,
+    maxRiskPerTradePercent: 2,
+    defaultStopLossPercent: 2,
+    maxDrawdownPercent: 10,
+    drawdownCooldownHours: 24,
+};
+
+const state: RiskState = { day: "2025-01-02", dayStartEquity: 1000, peakEquity: 1000, haltedUntil: null, haltReason: null };
+
+function engine(portfolio: Partial<PortfolioSnapshot> = {}, riskState: RiskState = state) {
+    return createPortfolioRiskEngine({
+        config,
+        state: riskState,
+        portfolio: { equity: 1000, availableCash: 1000, positions: [], ...portfolio },
+        now: NOW,
+    });
+}
+
+describe("updateRiskState", () => {
+    it("starts from the current equity", () => {
+        assert.deepEqual(updateRiskState(null, 1000, NOW, config), state);
+    });
+
+    it("rolls the day-start equity at UTC midnight and keeps the peak", () => {
+        const next = updateRiskState({ ...state, peakEquity: 1200 }, 1100, Date.parse("2025-01-03T00:00:01Z"), config);
+        assert.equal(next.day, "2025-01-03");
+        assert.equal(next.dayStartEquity, 1100);
+        assert.equal(next.peakEquity, 1200);
+    });
+
+    it("trips the drawdown breaker at the limit", () => {
+        const next = updateRiskState({ ...state, peakEquity: 1200 }, 1080, NOW, config);
+        assert.equal(next.haltedUntil, NOW + 24 * HOUR_MS);
+        assert.match(next.haltReason ?? "", /Drawdown 10\.00%/);
+    });
+
+    it("restarts the peak from current equity when the cool-down ends", () => {
+        const halted = { ...state, peakEquity: 1200, haltedUntil: NOW - 1, haltReason: "x" };
+        const next = updateRiskState(halted, 1050, NOW, config);
+        assert.equal(next.haltedUntil, null);
+        assert.equal(next.haltReason, null);
+        assert.equal(next.peakEquity, 1050);
+    });
+
+    it("does not mutate the previous state", () => {
+        const previous = { ...state };
+        updateRiskState(previous, 2000, NOW, config);
+        assert.deepEqual(previous, state);
+    });
+});
+
+describe("checkEntry", () => {
+    const btcLong = { symbol: "BTC/USDT", side: "LONG" as const, amount: 0.01, price: 50000, leverage: 5, stopLossPercent: 2 };
+
+    it("allows an entry within every limit", () => {
+        const verdict = engine().checkEntry(btcLong);
+        assert.equal(verdict.allowed, true);
+        assert.equal(verdict.symbol, "BTC");
+        assert.equal(verdict.notional, 500);
+        assert.equal(verdict.metrics.grossExposure, 0.5);
+        assert.equal(verdict.metrics.group, "majors");
+    });
+
+    it("blocks while the drawdown breaker is active", () => {
+        const verdict = engine({}, { ...state, haltedUntil: NOW + HOUR_MS, haltReason: "test" }).checkEntry(btcLong);
+        assert.equal(verdict.rule, "drawdown_halt");
+    });
+
+    it("blocks after the daily loss limit", () => {
+        assert.equal(engine({ equity: 950 }).checkEntry(btcLong).rule, "daily_loss");
+        assert.equal(engine({ equity: 951 }).checkEntry(btcLong).allowed, true);
+    });
+
+    it("blocks entries whose margin exceeds 98% of the available cash", () => {
+        assert.equal(engine({ availableCash: 100 }).checkEntry(btcLong).rule, "margin");
+    });
+
+    it("caps new positions but lets an existing one scale in", () => {
+        const positions = [
+            { symbol: "SOLUSDT", side: "long", notional: 100 },
+            { symbol: "DOGEUSDT", side: "short", notional: 100 },
+            { symbol: "BTCUSDT", side: "long", notional: 100 },
+        ];
+        assert.equal(engine({ positions }).checkEntry(btcLong).allowed, true);
+        assert.equal(engine({ positions }).checkEntry({ ...btcLong, side: "SHORT" }).rule, "max_positions");
+    });
+
+    it("sizes the per-trade risk from the stop distance", () => {
+        const verdict = engine().checkEntry({ ...btcLong, stopLossPercent: 5 });
+        assert.equal(verdict.rule, "risk_per_trade");
+        assert.equal(verdict.metrics.riskAmount, 25);
+    });
+
+    it("blocks concentration in a correlated group but allows the hedge", () => {
+        const positions = [{ symbol: "ETHUSDT", side: "long", notional: 1200 }];
+        const order = { ...btcLong, stopLossPercent: 1, amount: 0.008 };
+        assert.equal(engine({ positions }).checkEntry(order).rule, "group_concentration");
+        assert.equal(engine({ positions }).checkEntry({ ...order, side: "SHORT" }).allowed, true);
+    });
+
+    it("counts committed entries of the same batch", () => {
+        const risk = engine({ availableCash: 150 });
+        assert.equal(risk.checkEntry(btcLong).allowed, true);
+        risk.commitEntry(btcLong);
+        assert.equal(risk.checkEntry({ ...btcLong, symbol: "ETH" }).rule, "margin");
+        assert.equal(risk.verdicts.length, 2);
+    });
+});
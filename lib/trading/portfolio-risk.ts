@@ -0,0 +1,250 @@
+/**
+ * Portfolio risk engine
+ * 组合层面的开仓风控：日亏损（相对日初权益）、回撤熔断、总/净敞口、单币种与相关性分组集中度、
+ * 最大持仓数、单笔止损风险。只拦截开仓，平仓和止盈止损调整不受限制。
+ * 纯内存计算，run() 和回测共用；状态与判定的持久化见 risk-store.ts
+ */
+
+import type { RiskCheckResult, RiskConfig } from "./risk-control";
+import { toBaseSymbol } from "./exchange-adapter";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type RiskRule =
+    | "drawdown_halt"
+    | "daily_loss"
+    | "leverage"
+    | "order_notional"
+    | "margin"
+    | "max_positions"
+    | "risk_per_trade"
+    | "gross_exposure"
+    | "net_exposure"
+    | "symbol_concentration"
+    | "group_concentration";
+
+export interface RiskState {
+    day: string; // UTC 日期 YYYY-MM-DD
+    dayStartEquity: number;
+    peakEquity: number;
+    haltedUntil: number | null; // ms，回撤熔断冷却结束时间
+    haltReason: string | null;
+}
+
+export interface PortfolioSnapshot {
+    equity: number; // 钱包余额 + 未实现盈亏
+    availableCash: number;
+    positions: Array<{ symbol: string; side: string; notional: number }>; // side: long / short
+}
+
+export interface EntryOrder {
+    symbol: string; // "BTC", "BTC/USDT" or "BTCUSDT"
+    side: "LONG" | "SHORT";
+    amount: number;
+    price: number;
+    leverage: number;
+    stopLossPercent?: number;
+}
+
+export interface RiskMetrics {
+    equity: number;
+    dayStartEquity: number;
+    todayPnl: number; // 已实现 + 未实现
+    drawdownPercent: number;
+    openPositions: number;
+    riskAmount: number; // 触发止损时的亏损估算
+    // 以下敞口为加入该订单后的值（权益倍数）
+    grossExposure: number;
+    netExposure: number;
+    symbolExposure: number;
+    group: string | null;
+    groupExposure: number;
+}
+
+export interface RiskVerdict extends RiskCheckResult {
+    rule?: RiskRule;
+    symbol: string; // 不带 USDT，如 BTC
+    side: "LONG" | "SHORT";
+    notional: number;
+    metrics: RiskMetrics;
+}
+
+export interface PortfolioRiskEngine {
+    readonly state: RiskState;
+    checkEntry(order: EntryOrder): RiskVerdict;
+    /** Add an executed entry to the in-memory exposure (later entries in the batch see it) */
+    commitEntry(order: EntryOrder): void;
+    readonly verdicts: RiskVerdict[];
+}
+
+export function getUtcDay(time: number): string {
+    return new Date(time).toISOString().slice(0, 10);
+}
+
+export function getCorrelationGroup(symbol: string, config: RiskConfig): string | null {
+    const base = toBaseSymbol(symbol);
+    const entry = Object.entries(config.correlationGroups).find(([, symbols]) => symbols.includes(base));
+    return entry ? entry[0] : null;
+}
+
+/**
+ * Advance the risk state to `now`: roll the day-start equity at UTC midnight, track the equity peak,
+ * end an expired cool-down (the peak restarts from current equity) and trip the drawdown breaker.
+ */
+export function updateRiskState(
+    previous: RiskState | null,
+    equity: number,
+    now: number,
+    config: RiskConfig,
+    dayStartEquity?: number
+): RiskState {
+    const day = getUtcDay(now);
+    const state: RiskState = previous
+        ? { ...previous }
+        : { day, dayStartEquity: dayStartEquity ?? equity, peakEquity: equity, haltedUntil: null, haltReason: null };
+
+    if (state.day !== day) {
+        state.day = day;
+        state.dayStartEquity = dayStartEquity ?? equity;
+    }
+
+    if (state.haltedUntil !== null && now >= state.haltedUntil) {
+        state.haltedUntil = null;
+        state.haltReason = null;
+        state.peakEquity = equity;
+    }
+
+    state.peakEquity = Math.max(state.peakEquity, equity);
+
+    const drawdownPercent = state.peakEquity > 0 ? ((state.peakEquity - equity) / state.peakEquity) * 100 : 0;
+    if (state.haltedUntil === null && drawdownPercent >= config.maxDrawdownPercent) {
+        state.haltedUntil = now + config.drawdownCooldownHours * HOUR_MS;
+        state.haltReason = `Drawdown ${drawdownPercent.toFixed(2)}% from peak $${state.peakEquity.toFixed(2)} (limit ${config.maxDrawdownPercent}%)`;
+    }
+
+    return state;
+}
+
+/**
+ * Create a risk engine for one decision batch
+ */
+export function createPortfolioRiskEngine(params: {
+    config: RiskConfig;
+    state: RiskState;
+    portfolio: PortfolioSnapshot;
+    now?: number;
+}): PortfolioRiskEngine {
+    const { config, state, portfolio } = params;
+    const now = params.now ?? Date.now();
+    const equity = portfolio.equity;
+    const exposures = portfolio.positions.map((p) => ({
+        symbol: toBaseSymbol(p.symbol),
+        side: p.side.toLowerCase() === "short" ? "SHORT" : "LONG",
+        notional: Math.abs(p.notional),
+    }));
+    let availableCash = portfolio.availableCash;
+    const verdicts: RiskVerdict[] = [];
+
+    const ratio = (notional: number) => (equity > 0 ? notional / equity : Infinity);
+    const signed = (e: { side: string; notional: number }) => (e.side === "LONG" ? e.notional : -e.notional);
+    const sumSigned = (items: Array<{ side: string; notional: number }>) => items.reduce((sum, e) => sum + signed(e), 0);
+
+    const evaluate = (order: EntryOrder): Pick<RiskVerdict, "allowed" | "rule" | "reason" | "metrics"> => {
+        const symbol = toBaseSymbol(order.symbol);
+        const notional = order.amount * order.price;
+        const entry = { side: order.side, notional };
+        const group = getCorrelationGroup(symbol, config);
+        const groupSymbols = group ? config.correlationGroups[group] : [symbol];
+
+        const isNewPosition = !exposures.some((e) => e.symbol === symbol && e.side === order.side);
+        const openPositions = new Set(exposures.map((e) => `${e.symbol}:${e.side}`)).size;
+        const stopLossPercent = order.stopLossPercent ?? config.defaultStopLossPercent;
+        const riskAmount = notional * (stopLossPercent / 100);
+
+        const gross = exposures.reduce((sum, e) => sum + e.notional, 0);
+        const net = sumSigned(exposures);
+        const symbolGross = exposures.filter((e) => e.symbol === symbol).reduce((sum, e) => sum + e.notional, 0);
+        const groupNet = sumSigned(exposures.filter((e) => groupSymbols.includes(e.symbol)));
+
+        const todayPnl = equity - state.dayStartEquity;
+        const metrics: RiskMetrics = {
+            equity,
+            dayStartEquity: state.dayStartEquity,
+            todayPnl,
+            drawdownPercent: state.peakEquity > 0 ? ((state.peakEquity - equity) / state.peakEquity) * 100 : 0,
+            openPositions: openPositions + (isNewPosition ? 1 : 0),
+            riskAmount,
+            grossExposure: ratio(gross + notional),
+            netExposure: ratio(Math.abs(net + signed(entry))),
+            symbolExposure: ratio(symbolGross + notional),
+            group,
+            groupExposure: ratio(Math.abs(groupNet + signed(entry))),
+        };
+        const block = (rule: RiskRule, reason: string) => ({ allowed: false, rule, reason, metrics });
+
+        if (state.haltedUntil !== null && now < state.haltedUntil) {
+            return block("drawdown_halt", `Drawdown circuit breaker active until ${new Date(state.haltedUntil).toISOString()}: ${state.haltReason}`);
+        }
+        const dailyLossPercent = state.dayStartEquity > 0 ? (-todayPnl / state.dayStartEquity) * 100 : 0;
+        if (todayPnl < 0 && dailyLossPercent >= config.dailyLossLimitPercent) {
+            return block("daily_loss", `Daily loss limit reached: -${dailyLossPercent.toFixed(2)}% of day-start equity $${state.dayStartEquity.toFixed(2)} (limit: ${config.dailyLossLimitPercent}%)`);
+        }
+        if (order.leverage > config.maxLeverage) {
+            return block("leverage", `Leverage ${order.leverage}x exceeds maximum ${config.maxLeverage}x`);
+        }
+        if (notional > config.maxPositionSizeUSDT) {
+            return block("order_notional", `Position size $${notional.toFixed(2)} exceeds limit $${config.maxPositionSizeUSDT}`);
+        }
+        // 允许使用 98% 的可用余额（批量开仓时扣除本轮已占用的保证金）
+        const requiredMargin = notional / order.leverage;
+        if (requiredMargin > availableCash * 0.98) {
+            return block("margin", `Insufficient balance. Required margin: $${requiredMargin.toFixed(2)}, Available: $${availableCash.toFixed(2)}`);
+        }
+        if (isNewPosition && openPositions >= config.maxOpenPositions) {
+            return block("max_positions", `Already ${openPositions} open positions (limit ${config.maxOpenPositions})`);
+        }
+        if (riskAmount > equity * (config.maxRiskPerTradePercent / 100)) {
+            return block("risk_per_trade", `Risk at ${stopLossPercent.toFixed(2)}% stop $${riskAmount.toFixed(2)} exceeds ${config.maxRiskPerTradePercent}% of equity $${equity.toFixed(2)}`);
+        }
+        if (metrics.grossExposure > config.maxGrossExposure) {
+            return block("gross_exposure", `Gross exposure would be ${metrics.grossExposure.toFixed(2)}x equity (limit ${config.maxGrossExposure}x)`);
+        }
+        // 净敞口 / 分组敞口只拦截使其扩大的订单（对冲单放行）
+        if (metrics.netExposure > config.maxNetExposure && metrics.netExposure > ratio(Math.abs(net))) {
+            return block("net_exposure", `Net exposure would be ${metrics.netExposure.toFixed(2)}x equity (limit ${config.maxNetExposure}x)`);
+        }
+        if (metrics.symbolExposure > config.maxSymbolExposure) {
+            return block("symbol_concentration", `${symbol} exposure would be ${metrics.symbolExposure.toFixed(2)}x equity (limit ${config.maxSymbolExposure}x)`);
+        }
+        if (group && metrics.groupExposure > config.maxGroupExposure && metrics.groupExposure > ratio(Math.abs(groupNet))) {
+            return block("group_concentration", `Correlated group "${group}" (${groupSymbols.join(", ")}) net exposure would be ${metrics.groupExposure.toFixed(2)}x equity (limit ${config.maxGroupExposure}x)`);
+        }
+
+        return { allowed: true, metrics };
+    };
+
+    return {
+        state,
+        verdicts,
+
+        checkEntry(order: EntryOrder): RiskVerdict {
+            const verdict: RiskVerdict = {
+                ...evaluate(order),
+                symbol: toBaseSymbol(order.symbol),
+                side: order.side,
+                notional: order.amount * order.price,
+            };
+            verdicts.push(verdict);
+            return verdict;
+        },
+
+        commitEntry(order: EntryOrder): void {
+            exposures.push({
+                symbol: toBaseSymbol(order.symbol),
+                side: order.side,
+                notional: order.amount * order.price,
+            });
+            availableCash -= (order.amount * order.price) / order.leverage;
+        },
+    };
+}
@@ -1,22 +1,14 @@
 /**
  * Position Monitor - Automatically tracks position closures and records lessons
  * 
- * This module monitors Binance positions and automatically calls the learning
- * feedback system when positions are closed (either by TP/SL or manual closure).
+ * Closed positions are rebuilt from the exchange's trade / income history by the
+ * closed-trade reconciler, which records a ClosedTrade (real PnL, fees, funding, exit reason)
+ * and calls the learning feedback system for the matching entry decision.
  */
 
+import type { ModelType } from "@prisma/client";
 import { analyzeTradeOutcome } from "../ai/learning-feedback";
-import { getAccountInformationAndPerformance } from "./account-information-and-performance";
-import { prisma } from "../prisma";
-
-interface ClosedPosition {
-    symbol: string;
-    realizedPnl: number;
-    closeReason: string;
-    entryPrice: number;
-    exitPrice: number;
-    quantity: number;
-}
+import { reconcileClosedTrades } from "./closed-trade-reconciler";
 
 /**
  * Check for recently closed positions and record lessons
@@ -24,54 +16,8 @@ interface ClosedPosition {
 export async function checkAndRecordClosedPositions(): Promise<void> {
     try {
         console.log("🔍 Checking for closed positions to record lessons...");
-
-        // Get current positions
-        const accountInfo = await getAccountInformationAndPerformance(20);
-        const currentSymbols = new Set(accountInfo.positions.map(p => p.symbol));
-
-        // Find trades in database that might have been closed
-        const recentTrades = await prisma.trading.findMany({
-            where: {
-                opeartion: "Buy",
-                createdAt: {
-                    gte: new Date(Date.now() - 24 * 60 * 60 * 1000), // Last 24 hours
-                },
-            },
-            orderBy: {
-                createdAt: "desc",
-            },
-            take: 20,
-        });
-
-        for (const trade of recentTrades) {
-            const symbol = `${trade.symbol}USDT`;
-
-            // Check if this trade has already been recorded as a lesson
-            const existingLesson = await prisma.tradingLesson.findFirst({
-                where: {
-                    tradeId: trade.id,
-                },
-            });
-
-            if (existingLesson) {
-                // Already recorded, skip
-                continue;
-            }
-
-            // If the symbol is no longer in current positions, it was closed
-            if (!currentSymbols.has(symbol)) {
-                console.log(`📝 Position ${symbol} was closed, recording lesson...`);
-
-                // Try to determine PnL (simplified - you should get actual PnL from exchange)
-                // For now, we'll mark it as pending and let manual updates fill in the actual PnL
-                const estimatedPnl = 0; // Placeholder - should fetch from exchange history
-                const exitReason = "Position closed (manual or TP/SL triggered)";
-
-                await analyzeTradeOutcome(trade.id, estimatedPnl, exitReason);
-            }
-        }
-
-        console.log("✅ Finished checking closed positions");
+        const result = await reconcileClosedTrades();
+        console.log(`✅ Finished checking closed positions: ${result.closedTrades} closed trades, ${result.lessons} lessons recorded`);
     } catch (error) {
         console.error("❌ Error checking closed positions:", error);
     }
@@ -94,11 +40,11 @@ export async function manuallyRecordTradeLesson(
 /**
  * Get learning summary for display
  */
-export async function getLearingSummary(days: number = 7): Promise<string> {
+export async function getLearingSummary(days: number = 7, model?: ModelType): Promise<string> {
     const { getLearningStats, formatLearningFeedback } = await import("../ai/learning-feedback");
 
     try {
-        const stats = await getLearningStats(days);
+        const stats = await getLearningStats(days, model);
         if (stats.total_trades === 0) {
             return "📊 No trading history available yet. Start trading to build your learning history!";
         }
@@ -3,10 +3,37 @@
  */
 
 export interface RiskConfig {
-    tradingMode: "dry-run" | "live";
-    maxPositionSizeUSDT: number;
+    tradingMode: "dry-run" | "live" | "paper";
+    maxPositionSizeUSDT: number; // 单笔名义价值上限
     maxLeverage: number;
-    dailyLossLimitPercent: number;
+    dailyLossLimitPercent: number; // 相对日初权益（已实现 + 未实现）
+    // 组合风控（见 portfolio-risk.ts），敞口均为 名义价值 / 权益 的倍数
+    maxGrossExposure: number; // 多空名义价值之和
+    maxNetExposure: number; // |多头 - 空头|
+    maxSymbolExposure: number; // 单币种多空名义价值之和
+    maxGroupExposure: number; // 相关性分组内 |多头 - 空头|
+    correlationGroups: Record<string, string[]>; // 分组名 -> 币种（不带 USDT）
+    maxOpenPositions: number;
+    maxRiskPerTradePercent: number; // 止损距离 × 名义价值 / 权益
+    defaultStopLossPercent: number; // 决策未给出止损时用于估算单笔风险
+    maxDrawdownPercent: number; // 相对权益峰值，触发后暂停开仓
+    drawdownCooldownHours: number;
+}
+
+const DEFAULT_CORRELATION_GROUPS: Record<string, string[]> = {
+    majors: ["BTC", "ETH"],
+    layer1: ["SOL", "BNB", "ADA", "DOT", "AVAX", "MATIC"],
+    alts: ["DOGE", "LINK"],
+};
+
+function parseCorrelationGroups(value: string | undefined): Record<string, string[]> {
+    if (!value) return DEFAULT_CORRELATION_GROUPS;
+    try {
+        return JSON.parse(value) as Record<string, string[]>;
+    } catch {
+        console.warn("⚠️ Invalid RISK_CORRELATION_GROUPS JSON, using defaults");
+        return DEFAULT_CORRELATION_GROUPS;
+    }
 }
 
 export interface RiskCheckResult {
@@ -21,77 +48,23 @@ export function getRiskConfig(): RiskConfig {
     const mode = (process.env.TRADING_MODE || "dry-run").toLowerCase();
 
     return {
-        tradingMode: mode === "live" ? "live" : "dry-run",
+        tradingMode: mode === "live" ? "live" : mode === "paper" ? "paper" : "dry-run",
         maxPositionSizeUSDT: Number(process.env.MAX_POSITION_SIZE_USDT || 5000),
         maxLeverage: Number(process.env.MAX_LEVERAGE || 30),
         dailyLossLimitPercent: Number(process.env.DAILY_LOSS_LIMIT_PERCENT || 20),
+        maxGrossExposure: Number(process.env.MAX_GROSS_EXPOSURE || 10),
+        maxNetExposure: Number(process.env.MAX_NET_EXPOSURE || 8),
+        maxSymbolExposure: Number(process.env.MAX_SYMBOL_EXPOSURE || 5),
+        maxGroupExposure: Number(process.env.MAX_GROUP_EXPOSURE || 8),
+        correlationGroups: parseCorrelationGroups(process.env.RISK_CORRELATION_GROUPS),
+        maxOpenPositions: Number(process.env.MAX_OPEN_POSITIONS || 5),
+        maxRiskPerTradePercent: Number(process.env.MAX_RISK_PER_TRADE_PERCENT || 5),
+        defaultStopLossPercent: Number(process.env.DEFAULT_STOP_LOSS_PERCENT || 3),
+        maxDrawdownPercent: Number(process.env.MAX_DRAWDOWN_PERCENT || 30),
+        drawdownCooldownHours: Number(process.env.DRAWDOWN_COOLDOWN_HOURS || 12),
     };
 }
 
-/**
- * Check if a buy order passes risk controls
- */
-export function checkBuyRisk(params: {
-    amount: number;
-    price: number;
-    leverage: number;
-    currentBalance: number;
-    config: RiskConfig;
-}): RiskCheckResult {
-    const { amount, price, leverage, currentBalance, config } = params;
-
-    // Check leverage limit
-    if (leverage > config.maxLeverage) {
-        return {
-            allowed: false,
-            reason: `Leverage ${leverage}x exceeds maximum ${config.maxLeverage}x`,
-        };
-    }
-
-    // Check position size limit
-    const positionValue = amount * price;
-    if (positionValue > config.maxPositionSizeUSDT) {
-        return {
-            allowed: false,
-            reason: `Position size $${positionValue.toFixed(2)} exceeds limit $${config.maxPositionSizeUSDT}`,
-        };
-    }
-
-    // Check if sufficient balance for margin
-    const requiredMargin = positionValue / leverage;
-    if (requiredMargin > currentBalance * 0.98) {
-        // 允许使用 98% 的余额 (更激进的杠杆策略)
-        return {
-            allowed: false,
-            reason: `Insufficient balance. Required margin: $${requiredMargin.toFixed(2)}, Available: $${currentBalance.toFixed(2)}`,
-        };
-    }
-
-    return { allowed: true };
-}
-
-/**
- * Check if daily loss limit has been reached
- */
-export function checkDailyLossLimit(params: {
-    todayPnL: number;
-    initialCapital: number;
-    config: RiskConfig;
-}): RiskCheckResult {
-    const { todayPnL, initialCapital, config } = params;
-
-    const lossPercent = (Math.abs(todayPnL) / initialCapital) * 100;
-
-    if (todayPnL < 0 && lossPercent >= config.dailyLossLimitPercent) {
-        return {
-            allowed: false,
-            reason: `Daily loss limit reached: -${lossPercent.toFixed(2)}% (limit: ${config.dailyLossLimitPercent}%)`,
-        };
-    }
-
-    return { allowed: true };
-}
-
 /**
  * Log trade execution (for audit trail)
  */
@@ -0,0 +1,107 @@
+/**
+ * Risk state / verdict persistence
+ * 每个账户一行 RiskState（日初权益、权益峰值、回撤熔断），每个开仓决策一条 RiskVerdict
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "../prisma";
+import type { MetricsSeries } from "./metrics-history";
+import type { RiskConfig } from "./risk-control";
+import { getUtcDay, updateRiskState, type RiskState, type RiskVerdict } from "./portfolio-risk";
+
+/**
+ * Load the account's risk state and advance it to `now`.
+ * On a new UTC day the day-start equity is the day's first metric snapshot (current equity if none).
+ */
+export async function loadRiskState(
+    series: MetricsSeries,
+    equity: number,
+    config: RiskConfig,
+    now: Date = new Date()
+): Promise<RiskState> {
+    const key = { model: series.model, account: series.series };
+    const row = await prisma.riskState.findUnique({ where: { model_account: key } });
+    const previous: RiskState | null = row
+        ? {
+            day: row.day,
+            dayStartEquity: row.dayStartEquity,
+            peakEquity: row.peakEquity,
+            haltedUntil: row.haltedUntil?.getTime() ?? null,
+            haltReason: row.haltReason,
+        }
+        : null;
+
+    const day = getUtcDay(now.getTime());
+    let dayStartEquity: number | undefined;
+    if (!previous || previous.day !== day) {
+        const firstSnapshot = await prisma.metricSnapshot.findFirst({
+            where: { model: series.model, series: series.series, timestamp: { gte: new Date(`${day}T00:00:00.000Z`) } },
+            orderBy: { timestamp: "asc" },
+            select: { equity: true },
+        });
+        dayStartEquity = firstSnapshot?.equity;
+    }
+
+    const state = updateRiskState(previous, equity, now.getTime(), config, dayStartEquity);
+    if (state.haltedUntil !== null && previous?.haltedUntil !== state.haltedUntil) {
+        console.error(`🚨 [Risk] ${series.series}: ${state.haltReason}, new entries halted until ${new Date(state.haltedUntil).toISOString()}`);
+    }
+
+    const data = {
+        day: state.day,
+        dayStartEquity: state.dayStartEquity,
+        peakEquity: state.peakEquity,
+        haltedUntil: state.haltedUntil !== null ? new Date(state.haltedUntil) : null,
+        haltReason: state.haltReason,
+    };
+    await prisma.riskState.upsert({
+        where: { model_account: key },
+        create: { ...key, ...data },
+        update: data,
+    });
+
+    return state;
+}
+
+/**
+ * Persist the verdicts of one decision batch (tradingId links the verdict to its Trading row)
+ */
+export async function saveRiskVerdicts(
+    series: MetricsSeries,
+    verdicts: Array<RiskVerdict & { tradingId?: string }>
+): Promise<void> {
+    if (verdicts.length === 0) return;
+
+    await prisma.riskVerdict.createMany({
+        data: verdicts.map((verdict) => ({
+            model: series.model,
+            account: series.series,
+            symbol: verdict.symbol,
+            side: verdict.side,
+            notional: verdict.notional,
+            allowed: verdict.allowed,
+            rule: verdict.rule ?? null,
+            reason: verdict.reason ?? null,
+            // 权益为 0 时敞口倍数为 Infinity，JSON 序列化为 null
+            metrics: JSON.parse(JSON.stringify(verdict.metrics)) as Prisma.InputJsonValue,
+            tradingId: verdict.tradingId ?? null,
+        })),
+    });
+}
+
+/**
+ * Current risk state and recent verdicts of an account (for /api/risk)
+ */
+export async function getRiskOverview(series: MetricsSeries, take = 50) {
+    const [state, verdicts] = await Promise.all([
+        prisma.riskState.findUnique({
+            where: { model_account: { model: series.model, account: series.series } },
+        }),
+        prisma.riskVerdict.findMany({
+            where: { model: series.model, account: series.series },
+            orderBy: { createdAt: "desc" },
+            take,
+        }),
+    ]);
+    return { state, verdicts };
+}
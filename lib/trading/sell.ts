@@ -1,11 +1,18 @@
-import { getBinanceInstance, ensureTimeSync } from "./binance-official";
+import { OrderPurpose } from "@prisma/client";
+import { getExchangeAdapter, type PlaceOrderParams } from "./exchange-adapter";
 import { fetchPositions } from "./positions";
+import { recordOrder, type OrderLedgerContext } from "./order-ledger";
+import { createClientOrderId, submitOrder } from "./order-submission";
+import { formatOrderRejections, prepareOrder, type OrderRejection } from "./exchange-filters";
+import { resizeTakeProfitTranches } from "./stop-loss-take-profit-official";
 
 export interface SellParams {
     symbol: string; // e.g., "BTC/USDT"
+    positionSide?: "LONG" | "SHORT"; // 要平的方向；双向持仓同时有多空时必须指定
     percentage?: number; // Percentage of position to close (0-100)
     amount?: number; // Absolute amount to sell (overrides percentage)
     price?: number; // Optional limit price, omit for market order
+    ledger?: OrderLedgerContext; // 写入订单账本时关联的决策
 }
 
 export interface SellResult {
@@ -14,42 +21,17 @@ export interface SellResult {
     executedPrice?: number;
     executedAmount?: number;
     error?: string;
+    rejections?: OrderRejection[]; // 交易所规则校验失败的原因
 }
 
 /**
- * Binance Futures 合约的精度配置
- */
-const SYMBOL_PRECISION: Record<string, { quantity: number; price: number; minNotional: number }> = {
-    "BTCUSDT": { quantity: 3, price: 1, minNotional: 5 },   // 0.001 BTC, 最小$5
-    "ETHUSDT": { quantity: 2, price: 2, minNotional: 5 },   // 0.01 ETH, 最小$5
-    "BNBUSDT": { quantity: 1, price: 2, minNotional: 5 },   // 0.1 BNB, 最小$5
-    "SOLUSDT": { quantity: 1, price: 3, minNotional: 5 },   // 0.1 SOL, 最小$5
-    "ADAUSDT": { quantity: 0, price: 4, minNotional: 5 },   // 1 ADA, 最小$5
-    "DOGEUSDT": { quantity: 0, price: 5, minNotional: 5 },  // 1 DOGE, 最小$5 🐕
-};
-
-/**
- * 调整数量精度
- */
-function adjustPrecision(amount: number, symbol: string): number {
-    const config = SYMBOL_PRECISION[symbol] || { quantity: 3, price: 2, minNotional: 5 };
-    const factor = Math.pow(10, config.quantity);
-    const adjusted = Math.floor(amount * factor) / factor;
-
-    if (adjusted !== amount) {
-        console.log(`⚙️ Precision adjusted: ${amount} → ${adjusted} (${config.quantity} decimals)`);
-    }
-
-    return adjusted;
-}
-
-/**
- * Execute a sell order on Binance Futures to close position using official SDK
+ * Execute a sell order on the exchange to close position
  * @param params Sell order parameters
  * @returns Sell result with order details or error
  */
 export async function sell(params: SellParams): Promise<SellResult> {
-    const { symbol, percentage = 100, amount, price } = params;
+    const { symbol, percentage = 100, amount, price, ledger } = params;
+    const requestedSide = params.positionSide;
 
     // Validate parameters
     if (!symbol || !symbol.includes("/")) {
@@ -64,17 +46,15 @@ export async function sell(params: SellParams): Promise<SellResult> {
     }
 
     try {
-        // 🔄 每次交易前先同步服务器时间
-        await ensureTimeSync();
-
-        const client = await getBinanceInstance();
+        const exchange = await getExchangeAdapter();
 
         // Convert symbol format: "BTC/USDT" -> "BTCUSDT"
         const binanceSymbol = symbol.replace("/", "");
 
         // If amount not provided, calculate from current position
         let sellAmount = amount;
-        let positionSide = "LONG"; // 默认平多仓
+        let positionSide: "LONG" | "SHORT" = requestedSide ?? "LONG"; // 默认平多仓
+        let positionAmount: number | undefined; // 平仓前的持仓数量（按比例平仓时）
 
         if (!sellAmount) {
             // Fetch current position
@@ -95,14 +75,26 @@ export async function sell(params: SellParams): Promise<SellResult> {
                 }
 
                 // 🔧 修复：使用 binanceSymbol（无斜杠）进行匹配
-                const position = positions.find((p) => p.symbol === binanceSymbol && p.contracts !== 0);
+                const matches = positions.filter(
+                    (p) =>
+                        p.symbol === binanceSymbol &&
+                        p.contracts !== 0 &&
+                        (!requestedSide || p.side === requestedSide.toLowerCase())
+                );
+                if (matches.length > 1) {
+                    return {
+                        success: false,
+                        error: `Both LONG and SHORT positions are open for ${symbol}; specify positionSide`,
+                    };
+                }
+                const position = matches[0];
 
                 if (!position || !position.contracts || position.contracts === 0) {
                     console.warn(`⚠️ No open position found for ${symbol}`);
                     console.warn(`   Available positions: ${activePositions.map(p => p.symbol).join(', ') || 'None'}`);
                     return {
                         success: false,
-                        error: `No open position found for ${symbol}. Available: ${activePositions.map(p => p.symbol).join(', ') || 'None'}`,
+                        error: `No open ${requestedSide ? `${requestedSide} ` : ""}position found for ${symbol}. Available: ${activePositions.map(p => p.symbol).join(', ') || 'None'}`,
                     };
                 }
 
@@ -120,7 +112,8 @@ export async function sell(params: SellParams): Promise<SellResult> {
                 console.log(`📍 Position side: ${positionSide}`);
 
                 // Calculate sell amount based on percentage
-                sellAmount = Math.abs(position.contracts) * (percentage / 100);
+                positionAmount = Math.abs(position.contracts);
+                sellAmount = positionAmount * (percentage / 100);
                 console.log(`💰 Calculated sell amount: ${sellAmount} (${percentage}% of ${Math.abs(position.contracts)})`);
             } catch (positionError: any) {
                 console.error("❌ Failed to fetch positions:", positionError.message);
@@ -135,82 +128,77 @@ export async function sell(params: SellParams): Promise<SellResult> {
             return { success: false, error: "Sell amount must be greater than 0" };
         }
 
-        // 调整数量精度
-        const adjustedAmount = adjustPrecision(sellAmount, binanceSymbol);
-
-        if (adjustedAmount === 0) {
-            return {
-                success: false,
-                error: `Amount ${sellAmount} too small. Minimum for ${symbol} is ${Math.pow(10, -(SYMBOL_PRECISION[binanceSymbol]?.quantity || 3))}`
-            };
-        }
-
         // Prepare order parameters
         const orderType = price ? "LIMIT" : "MARKET";
-        const side = positionSide === "LONG" ? "SELL" : "BUY"; // 平多用SELL，平空用BUY
+        const side: PlaceOrderParams["side"] = positionSide === "LONG" ? "SELL" : "BUY"; // 平多用SELL，平空用BUY
 
-        // 🔧 orderParams 只包含额外参数，不包含 symbol/side/type（这些通过函数参数传递）
         // Do NOT send positionSide unless account is in HEDGE mode. Instead, use reduceOnly=true
         // to ensure the order only reduces existing positions in ONE-WAY mode.
-        const orderParams: any = {
-            quantity: adjustedAmount.toString(),
-            reduceOnly: true,
+        // HEDGE (DUAL_SIDE) mode rejects reduceOnly; positionSide + opposite side closes that leg.
+        const positionMode = await exchange.getPositionMode();
+        let orderParams: PlaceOrderParams = {
+            symbol: binanceSymbol,
+            side,
+            type: orderType,
+            quantity: sellAmount,
+            ...(positionMode === "DUAL_SIDE" ? { positionSide } : { reduceOnly: true }),
         };
 
         if (price) {
-            orderParams.price = price.toString();
+            orderParams.price = price;
             orderParams.timeInForce = "GTC"; // Good Till Cancelled
         }
 
-        console.log(`📝 Creating ${orderType} sell order: ${adjustedAmount} ${symbol} at ${price || 'market price'}`);
+        // 按交易所 LOT_SIZE / PRICE_FILTER 取整并校验（平仓单不受最小名义价值限制）
+        const prepared = await prepareOrder({ ...orderParams, reduceOnly: true });
+        if (!prepared.ok) {
+            const error = formatOrderRejections(prepared.rejections);
+            console.warn(`🚫 Close order rejected by exchange filters: ${error}`);
+            return { success: false, error, rejections: prepared.rejections };
+        }
+        orderParams = { ...orderParams, quantity: prepared.params.quantity, price: prepared.params.price };
 
-        let orderResult;
-        let lastError;
+        console.log(`📝 Creating ${orderType} close ${positionSide} order: ${orderParams.quantity} ${symbol} (requested: ${sellAmount}) at ${orderParams.price || 'market price'}`);
 
-        // Retry up to 3 times
-        for (let attempt = 1; attempt <= 3; attempt++) {
-            try {
-                console.log(`🔄 Sell order attempt ${attempt}/3...`);
-
-                // Binance SDK requires: newOrder(symbol, side, type, options)
-                const response = await (client as any).newOrder(
-                    binanceSymbol,
-                    side,
-                    orderType,
-                    orderParams
-                );
+        // 确定性 clientOrderId：重试前先查询，防止重复平仓
+        orderParams.clientOrderId = createClientOrderId(ledger, OrderPurpose.Exit, orderParams.symbol, positionSide, orderParams.type);
+        const ledgerEntry = { context: ledger, purpose: OrderPurpose.Exit, request: orderParams, positionSide };
 
-                // Response is an axios response with data property
-                orderResult = response.data;
-                console.log(`✅ Sell order created successfully on attempt ${attempt}`);
-                break; // Success, exit loop
-            } catch (orderError: any) {
-                lastError = orderError;
-                const errorMsg = orderError?.response?.data?.msg || orderError.message;
-                console.warn(`⚠️ Sell order attempt ${attempt} failed: ${errorMsg}`);
-
-                if (attempt < 3) {
-                    const delay = attempt * 2000; // Increasing delay: 2s, 4s
-                    console.log(`⏳ Retrying in ${delay}ms...`);
-                    await new Promise(resolve => setTimeout(resolve, delay));
-                } else {
-                    throw orderError; // Last attempt failed, throw error
-                }
-            }
-        }
-
-        if (!orderResult) {
-            throw lastError || new Error("Failed to create sell order after 3 attempts");
+        // Retry up to 3 times with increasing delays (2s, 4s)
+        let orderResult;
+        try {
+            orderResult = await submitOrder(exchange, { ...orderParams, clientOrderId: orderParams.clientOrderId }, {
+                attempts: 3,
+                retryDelayMs: (attempt) => attempt * 2000,
+                label: "Sell order",
+            });
+        } catch (orderError: any) {
+            const errorMsg = orderError?.response?.data?.msg || orderError.message;
+            await recordOrder({ ...ledgerEntry, error: errorMsg });
+            throw orderError;
         }
 
         console.log(`✅ Sell order created successfully:`, orderResult);
+        await recordOrder({ ...ledgerEntry, order: orderResult });
+
+        // 部分平仓后按剩余比例缩小分批止盈单，避免 reduce-only 数量超过剩余持仓
+        if (positionAmount && orderResult.executedQty > 0 && orderResult.executedQty < positionAmount) {
+            const resizeResult = await resizeTakeProfitTranches({
+                symbol,
+                positionSide,
+                ratio: (positionAmount - orderResult.executedQty) / positionAmount,
+                ledger,
+            });
+            if (!resizeResult.success) {
+                console.warn(`⚠️ Take profit tranches not resized: ${resizeResult.error}`);
+            }
+        }
 
-        // Extract order details from Binance response
         return {
             success: true,
-            orderId: orderResult.orderId?.toString(),
-            executedPrice: orderResult.avgPrice ? parseFloat(orderResult.avgPrice) : (orderResult.price ? parseFloat(orderResult.price) : 0),
-            executedAmount: orderResult.executedQty ? parseFloat(orderResult.executedQty) : (orderResult.origQty ? parseFloat(orderResult.origQty) : 0),
+            orderId: orderResult.orderId,
+            executedPrice: orderResult.avgPrice || orderResult.price,
+            executedAmount: orderResult.executedQty || orderResult.origQty,
         };
     } catch (error: any) {
         const errorMessage = error?.response?.data?.msg || error.message || "Unknown error occurred during sell";
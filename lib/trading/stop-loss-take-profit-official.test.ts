@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ExchangeOrder } from "./exchange-adapter";
+import { planTakeProfitTranches, selectTakeProfitTranchesToKeep } from "./stop-loss-take-profit-official";
+
+describe("planTakeProfitTranches", () => {
+    const base = { entryPrice: 100, isLong: true, positionAmount: 1, stepSize: 0.01, minQty: 0.01 };
+    // 百分比换算的价格有浮点误差（100 * 1.1 = 110.00000000000001）
+    const plan = (params: Parameters<typeof planTakeProfitTranches>[0]) =>
+        planTakeProfitTranches(params).map((t) => ({ ...t, price: Number(t.price.toFixed(8)) }));
+
+    it("orders tranches from the nearest target and closes the rest on the last", () => {
+        const tranches = plan({
+            ...base,
+            targets: [{ percent: 10, portion: 50 }, { percent: 5, portion: 50 }],
+        });
+        assert.deepEqual(tranches, [
+            { price: 105, portion: 50, quantity: 0.5, closePosition: false },
+            { price: 110, portion: 50, closePosition: true },
+        ]);
+    });
+
+    it("mirrors percent targets for shorts and prefers absolute prices", () => {
+        const tranches = plan({
+            ...base,
+            isLong: false,
+            targets: [{ percent: 5, portion: 30 }, { price: 80, percent: 50, portion: 30 }],
+        });
+        assert.deepEqual(tranches.map((t) => [t.price, t.quantity, t.closePosition]), [
+            [95, 0.3, false],
+            [80, 0.3, false],
+        ]);
+    });
+
+    it("scales portions that add up to more than 100%", () => {
+        const tranches = plan({
+            ...base,
+            targets: [{ percent: 5, portion: 100 }, { percent: 10, portion: 100 }],
+        });
+        assert.deepEqual(tranches, [
+            { price: 105, portion: 50, quantity: 0.5, closePosition: false },
+            { price: 110, portion: 50, closePosition: true },
+        ]);
+    });
+
+    it("carries tranches below the minimum quantity into the next one", () => {
+        const tranches = plan({
+            ...base,
+            positionAmount: 0.03,
+            targets: [{ percent: 2, portion: 20 }, { percent: 4, portion: 30 }, { percent: 6, portion: 10 }],
+        });
+        // 0.006 不足 minQty，并入第二档：0.006 + 0.009 = 0.015 → 0.01
+        assert.deepEqual(tranches.map((t) => [t.price, t.quantity]), [[104, 0.01]]);
+    });
+
+    it("drops targets without a price or portion", () => {
+        const tranches = plan({
+            ...base,
+            targets: [{ portion: 50 }, { percent: 5, portion: 0 }, { percent: 5, portion: 40 }],
+        });
+        assert.deepEqual(tranches.map((t) => [t.price, t.quantity]), [[105, 0.4]]);
+    });
+});
+
+describe("selectTakeProfitTranchesToKeep", () => {
+    function order(type: string, positionSide: ExchangeOrder["positionSide"], closePosition: boolean): ExchangeOrder {
+        return {
+            orderId: `${type}-${positionSide}-${closePosition}`,
+            symbol: "BTCUSDT",
+            side: "SELL",
+            positionSide,
+            type,
+            status: "NEW",
+            price: 0,
+            avgPrice: 0,
+            stopPrice: 110,
+            origQty: closePosition ? 0 : 0.5,
+            executedQty: 0,
+            reduceOnly: !closePosition,
+            closePosition,
+            updateTime: 0,
+        };
+    }
+
+    it("keeps every take-profit when a reduce-only tranche exists", () => {
+        const orders = [
+            order("STOP_MARKET", "BOTH", true),
+            order("TAKE_PROFIT_MARKET", "BOTH", false),
+            order("TAKE_PROFIT_MARKET", "BOTH", true),
+        ];
+        assert.deepEqual(selectTakeProfitTranchesToKeep(orders, "LONG", "ONE_WAY"), orders.slice(1));
+    });
+
+    it("lets a single close-position take-profit be replaced", () => {
+        const orders = [order("STOP_MARKET", "BOTH", true), order("TAKE_PROFIT_MARKET", "BOTH", true)];
+        assert.deepEqual(selectTakeProfitTranchesToKeep(orders, "LONG", "ONE_WAY"), []);
+    });
+
+    it("only looks at the position side in hedge mode", () => {
+        const long = order("TAKE_PROFIT_MARKET", "LONG", false);
+        const short = order("TAKE_PROFIT_MARKET", "SHORT", false);
+        assert.deepEqual(selectTakeProfitTranchesToKeep([long, short], "SHORT", "DUAL_SIDE"), [short]);
+        assert.deepEqual(selectTakeProfitTranchesToKeep([long], "SHORT", "DUAL_SIDE"), []);
+    });
+});
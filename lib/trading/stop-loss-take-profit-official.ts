@@ -1,93 +1,158 @@
 /**
- * 止盈止损逻辑 - 使用官方SDK
+ * 止盈止损逻辑 - 通过 ExchangeAdapter 下单
  * 支持自动设置和智能调整
  */
 
-import { getBinanceInstance, getBinanceBaseUrl } from "./binance-official";
+import { OrderPurpose } from "@prisma/client";
+import { getExchangeAdapter, type ExchangeOrder, type OrderType, type PlaceOrderParams, type PositionMode } from "./exchange-adapter";
 import { fetchPositions } from "./positions";
-import { getCurrentMarketState } from "./current-market-state";
-import crypto from 'crypto';
+import { getCurrentMarketState, type MarketState } from "./current-market-state";
+import { formatOrderRejections, getSymbolFilters, prepareOrder, roundToStep, type OrderRejection } from "./exchange-filters";
+import { recordOrder, type OrderLedgerContext } from "./order-ledger";
+import { createClientOrderId, submitOrder } from "./order-submission";
 
-// Cache for position mode (dual side or one-way)
-let positionModeCache: "ONE_WAY" | "DUAL_SIDE" | null = null;
-
-/**
- * Get position mode setting from Binance
- * Returns "ONE_WAY" (单向持仓) or "DUAL_SIDE" (双向持仓)
- */
-async function getPositionMode(): Promise<"ONE_WAY" | "DUAL_SIDE"> {
-    if (positionModeCache) {
-        return positionModeCache;
-    }
-
-    try {
-        const client = await getBinanceInstance();
-
-        // Try SDK methods first
-        try {
-            if (typeof (client as any).positionMode === 'function') {
-                const resp = await (client as any).positionMode();
-                const dualSidePosition = resp.data?.dualSidePosition ?? resp?.dualSidePosition ?? false;
-                positionModeCache = dualSidePosition ? "DUAL_SIDE" : "ONE_WAY";
-                console.log(`📋 Position mode: ${positionModeCache} (dualSidePosition: ${dualSidePosition})`);
-                return positionModeCache;
-            }
-            if (typeof (client as any).getPositionMode === 'function') {
-                const resp = await (client as any).getPositionMode();
-                const dualSidePosition = resp.data?.dualSidePosition ?? resp?.dualSidePosition ?? false;
-                positionModeCache = dualSidePosition ? "DUAL_SIDE" : "ONE_WAY";
-                console.log(`📋 Position mode: ${positionModeCache} (dualSidePosition: ${dualSidePosition})`);
-                return positionModeCache;
-            }
-        } catch (e) {
-            // continue to REST fallback
-        }
-
-        // REST fallback
-        try {
-            const tradingMode = process.env.TRADING_MODE || 'dry-run';
-            const isDryRun = tradingMode === 'dry-run';
-            const apiKey = isDryRun ? (process.env.BINANCE_TESTNET_API_KEY || '') : (process.env.BINANCE_LIVE_API_KEY || '');
-            const apiSecret = isDryRun ? (process.env.BINANCE_TESTNET_API_SECRET || '') : (process.env.BINANCE_LIVE_API_SECRET || '');
-            const baseUrl = getBinanceBaseUrl().replace(/\/$/, '');
-            const timestamp = Date.now();
-            const query = `timestamp=${timestamp}`;
-            const signature = crypto.createHmac('sha256', apiSecret).update(query).digest('hex');
-            const url = `${baseUrl}/fapi/v1/positionSide/dual?${query}&signature=${signature}`;
-            const resp = await fetch(url, { headers: { 'X-MBX-APIKEY': apiKey } });
-            if (resp.ok) {
-                const data = await resp.json();
-                const dualSidePosition = data?.dualSidePosition ?? false;
-                positionModeCache = dualSidePosition ? "DUAL_SIDE" : "ONE_WAY";
-                console.log(`📋 Position mode (REST): ${positionModeCache} (dualSidePosition: ${dualSidePosition})`);
-                return positionModeCache;
-            }
-        } catch (e) {
-            // ignore
-        }
-
-        positionModeCache = "ONE_WAY";
-        return positionModeCache;
-    } catch (error: any) {
-        console.warn(`⚠️ Failed to get position mode, defaulting to ONE_WAY:`, error.message);
-        positionModeCache = "ONE_WAY";
-        return positionModeCache;
-    }
-}
 export interface StopLossTakeProfitParams {
     symbol: string; // e.g., "BTC/USDT"
+    positionSide?: "LONG" | "SHORT"; // 双向持仓同时有多空时必须指定
     stopLoss?: number; // 止损价格
     takeProfit?: number; // 止盈价格
     stopLossPercent?: number; // 止损百分比(相对入场价)
     takeProfitPercent?: number; // 止盈百分比(相对入场价)
+    takeProfitTargets?: TakeProfitTarget[]; // 分批止盈，给出时覆盖 takeProfit / takeProfitPercent
     trailingStopPercent?: number; // 追踪止损百分比
+    ledger?: OrderLedgerContext; // 写入订单账本时关联的决策
+}
+
+/**
+ * One take-profit tranche: trigger (percent from entry or absolute price) and the share of the position it closes
+ */
+export interface TakeProfitTarget {
+    percent?: number; // 相对入场价的距离（%）
+    price?: number; // 触发价，优先于 percent
+    portion: number; // 平掉持仓的比例（%）
+}
+
+export interface TakeProfitTranche {
+    price: number;
+    portion: number;
+    quantity?: number; // closePosition 档为空
+    closePosition: boolean; // 比例合计 100% 时最后一档平掉剩余全部持仓（加仓 / 减仓后仍然覆盖）
 }
 
 export interface StopLossTakeProfitResult {
     success: boolean;
     stopLossOrderId?: string;
-    takeProfitOrderId?: string;
+    takeProfitOrderId?: string; // 第一档止盈
+    takeProfitOrderIds?: string[]; // 分批止盈的全部订单
     error?: string;
+    rejections?: OrderRejection[]; // 交易所规则校验失败的原因
+}
+
+/**
+ * 基于 4H ATR 推导默认止损/止盈百分比（1.5×ATR 止损，3 倍止损作为止盈）
+ * 实盘与回测共用
+ */
+export function getAtrStopLossTakeProfitPercent(
+    marketState: MarketState,
+    fallbackPrice: number
+): { stopLossPercent: number; takeProfitPercent: number } {
+    const refPrice = marketState.current_price || fallbackPrice;
+    const atr14 = marketState.longer_term?.atr_14 || 0;
+    const volPct = refPrice > 0 && atr14 > 0 ? (atr14 / refPrice) * 100 : 2.5; // %
+    // 🔧 完全基于ATR,不限制范围,由市场波动率决定
+    // AI可以通过传入参数覆盖这个默认值
+    const stopLossPercent = volPct * 1.5; // 1.5倍ATR作为止损
+    const takeProfitPercent = stopLossPercent * 3.0; // 3倍止损作为止盈
+    return { stopLossPercent, takeProfitPercent };
+}
+
+/**
+ * 将相对入场价的百分比转换为止损/止盈价格（区分多空方向）
+ */
+export function getStopLossTakeProfitPrices(params: {
+    entryPrice: number;
+    isLong: boolean;
+    stopLossPercent?: number;
+    takeProfitPercent?: number;
+}): { stopLoss?: number; takeProfit?: number } {
+    const { entryPrice, isLong, stopLossPercent, takeProfitPercent } = params;
+    return {
+        stopLoss: stopLossPercent
+            ? isLong
+                ? entryPrice * (1 - stopLossPercent / 100)
+                : entryPrice * (1 + stopLossPercent / 100)
+            : undefined,
+        takeProfit: takeProfitPercent
+            ? isLong
+                ? entryPrice * (1 + takeProfitPercent / 100)
+                : entryPrice * (1 - takeProfitPercent / 100)
+            : undefined,
+    };
+}
+
+/**
+ * Split a position into take-profit tranches ordered from the nearest target
+ * 比例合计超过 100% 时按比例缩放；数量按 stepSize 向下取整，不足 minQty 的档并入下一档
+ */
+export function planTakeProfitTranches(params: {
+    entryPrice: number;
+    isLong: boolean;
+    positionAmount: number;
+    targets: TakeProfitTarget[];
+    stepSize: number;
+    minQty: number;
+}): TakeProfitTranche[] {
+    const { entryPrice, isLong, positionAmount, stepSize, minQty } = params;
+
+    const targets = params.targets
+        .map((t) => ({
+            price: t.price ?? getStopLossTakeProfitPrices({ entryPrice, isLong, takeProfitPercent: t.percent }).takeProfit,
+            portion: t.portion,
+        }))
+        .filter((t): t is { price: number; portion: number } => !!t.price && t.price > 0 && t.portion > 0)
+        .sort((a, b) => (isLong ? a.price - b.price : b.price - a.price));
+    const totalPortion = targets.reduce((sum, t) => sum + t.portion, 0);
+    const scale = totalPortion > 100 ? 100 / totalPortion : 1;
+
+    const tranches: TakeProfitTranche[] = [];
+    let carried = 0; // 被并入下一档的数量
+    let cumulative = 0;
+    targets.forEach((target, index) => {
+        const portion = target.portion * scale;
+        cumulative += portion;
+        if (index === targets.length - 1 && cumulative >= 100 - 1e-6) {
+            tranches.push({ price: target.price, portion, closePosition: true });
+            return;
+        }
+
+        const rawQuantity = positionAmount * (portion / 100) + carried;
+        const quantity = roundToStep(rawQuantity, stepSize);
+        if (quantity < minQty || quantity <= 0) {
+            carried = rawQuantity;
+            return;
+        }
+        carried = 0;
+        tranches.push({ price: target.price, portion, quantity, closePosition: false });
+    });
+
+    return tranches;
+}
+
+/**
+ * Open tiered take-profit orders of a position that a bracket without targets must keep
+ * 只有存在 reduce-only 分批档时才保留（单一 closePosition 止盈照常替换）
+ */
+export function selectTakeProfitTranchesToKeep(
+    openOrders: ExchangeOrder[],
+    positionSide: "LONG" | "SHORT",
+    positionMode: PositionMode
+): ExchangeOrder[] {
+    const takeProfits = openOrders.filter(
+        (order) =>
+            order.type === "TAKE_PROFIT_MARKET" &&
+            (positionMode !== "DUAL_SIDE" || order.positionSide === positionSide)
+    );
+    return takeProfits.some((order) => !order.closePosition) ? takeProfits : [];
 }
 
 /**
@@ -99,71 +164,33 @@ export interface StopLossTakeProfitResult {
  */
 async function cancelStopLossTakeProfitForPosition(
     binanceSymbol: string,
-    positionSide: "LONG" | "SHORT"
+    positionSide: "LONG" | "SHORT",
+    types: OrderType[] = ["STOP_MARKET", "TAKE_PROFIT_MARKET"]
 ): Promise<{ success: boolean; canceledCount: number; error?: string }> {
     try {
-        const client = await getBinanceInstance();
+        const exchange = await getExchangeAdapter();
 
         // Get position mode
-        const positionMode = await getPositionMode();
+        const positionMode = await exchange.getPositionMode();
 
         // 🔧 获取该交易对的所有未成交订单
-        const openOrders = await (async () => {
-            // Try multiple SDK method names first
-            try {
-                if (typeof (client as any).openOrders === 'function') {
-                    const resp = await (client as any).openOrders({ symbol: binanceSymbol });
-                    return resp.data || resp || [];
-                }
-                if (typeof (client as any).getOpenOrders === 'function') {
-                    const resp = await (client as any).getOpenOrders({ symbol: binanceSymbol });
-                    return resp.data || resp || [];
-                }
-                if (typeof (client as any).fetchOpenOrders === 'function') {
-                    const resp = await (client as any).fetchOpenOrders({ symbol: binanceSymbol });
-                    return resp.data || resp || [];
-                }
-            } catch (e) {
-                // fall through to REST fallback
-            }
-
-            // REST fallback: sign request and fetch /fapi/v1/openOrders
-            try {
-                const tradingMode = process.env.TRADING_MODE || 'dry-run';
-                const isDryRun = tradingMode === 'dry-run';
-                const apiKey = isDryRun ? (process.env.BINANCE_TESTNET_API_KEY || '') : (process.env.BINANCE_LIVE_API_KEY || '');
-                const apiSecret = isDryRun ? (process.env.BINANCE_TESTNET_API_SECRET || '') : (process.env.BINANCE_LIVE_API_SECRET || '');
-                const baseUrl = getBinanceBaseUrl().replace(/\/$/, '');
-                const timestamp = Date.now();
-                const query = `symbol=${binanceSymbol}&timestamp=${timestamp}`;
-                const signature = crypto.createHmac('sha256', apiSecret).update(query).digest('hex');
-                const url = `${baseUrl}/fapi/v1/openOrders?${query}&signature=${signature}`;
-                const resp = await fetch(url, { headers: { 'X-MBX-APIKEY': apiKey } });
-                if (!resp.ok) throw new Error(`HTTP ${resp.status} ${resp.statusText}`);
-                const data = await resp.json();
-                return data || [];
-            } catch (e: any) {
-                console.error('�?REST fallback for openOrders failed:', e?.message || e);
-                return [];
-            }
-        })();
+        const openOrders = await exchange.getOpenOrders(binanceSymbol);
 
         console.log(`   📋 Found ${openOrders.length} open orders for ${binanceSymbol} (mode: ${positionMode})`);
 
         // 筛选出止损止盈�?
-        let slTpOrders;
+        let slTpOrders: ExchangeOrder[];
         if (positionMode === "DUAL_SIDE") {
             // 双向持仓模式：需要匹�?positionSide
             slTpOrders = openOrders.filter(
-                (order: any) =>
-                    (order.type === "STOP_MARKET" || order.type === "TAKE_PROFIT_MARKET") &&
+                (order) =>
+                    (types as string[]).includes(order.type) &&
                     order.positionSide === positionSide
             );
         } else {
             // 单向持仓模式：只需要匹配订单类型（不检�?positionSide�?
             slTpOrders = openOrders.filter(
-                (order: any) =>
-                    order.type === "STOP_MARKET" || order.type === "TAKE_PROFIT_MARKET"
+                (order) => (types as string[]).includes(order.type)
             );
         }
 
@@ -177,40 +204,11 @@ async function cancelStopLossTakeProfitForPosition(
         let canceledCount = 0;
         for (const order of slTpOrders) {
             try {
-                // Try SDK cancel methods
-                let canceled = false;
-                if (typeof (client as any).cancelOrder === 'function') {
-                    await (client as any).cancelOrder(binanceSymbol, { orderId: order.orderId });
-                    canceled = true;
-                } else if (typeof (client as any).cancel === 'function') {
-                    await (client as any).cancel(binanceSymbol, { orderId: order.orderId });
-                    canceled = true;
-                } else {
-                    // REST fallback cancel via API
-                    try {
-                        const tradingMode = process.env.TRADING_MODE || 'dry-run';
-                        const isDryRun = tradingMode === 'dry-run';
-                        const apiKey = isDryRun ? (process.env.BINANCE_TESTNET_API_KEY || '') : (process.env.BINANCE_LIVE_API_KEY || '');
-                        const apiSecret = isDryRun ? (process.env.BINANCE_TESTNET_API_SECRET || '') : (process.env.BINANCE_LIVE_API_SECRET || '');
-                        const baseUrl = getBinanceBaseUrl().replace(/\/$/, '');
-                        const timestamp = Date.now();
-                        const query = `symbol=${binanceSymbol}&orderId=${order.orderId}&timestamp=${timestamp}`;
-                        const signature = crypto.createHmac('sha256', apiSecret).update(query).digest('hex');
-                        const url = `${baseUrl}/fapi/v1/order?${query}&signature=${signature}`;
-                        const resp = await fetch(url, { method: 'DELETE', headers: { 'X-MBX-APIKEY': apiKey } });
-                        if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
-                        canceled = true;
-                    } catch (e2: any) {
-                        console.error(`  �?REST cancel failed for ${order.orderId}:`, e2?.message || e2);
-                    }
-                }
-
-                if (canceled) {
-                    canceledCount++;
-                    console.log(`  �?Canceled ${order.type} order: ${order.orderId} (stopPrice: $${order.stopPrice || 'N/A'})`);
-                }
+                await exchange.cancelOrder(binanceSymbol, order.orderId);
+                canceledCount++;
+                console.log(`  �?Canceled ${order.type} order: ${order.orderId} (stopPrice: $${order.stopPrice || 'N/A'})`);
             } catch (e: any) {
-                console.error(`  �?Failed to cancel order ${order.orderId}:`, e?.response?.data?.msg || e.message);
+                console.error(`  �?Failed to cancel order ${order.orderId}:`, e.message);
             }
         }
 
@@ -231,7 +229,7 @@ async function cancelStopLossTakeProfitForPosition(
 export async function setStopLossTakeProfit(
     params: StopLossTakeProfitParams
 ): Promise<StopLossTakeProfitResult> {
-    const { symbol, stopLoss, takeProfit, stopLossPercent, takeProfitPercent } = params;
+    const { symbol, positionSide, stopLoss, takeProfit, stopLossPercent, takeProfitPercent, takeProfitTargets, ledger } = params;
 
     if (!symbol || !symbol.includes("/")) {
         return { success: false, error: "Invalid symbol format. Use 'BTC/USDT'" };
@@ -240,21 +238,33 @@ export async function setStopLossTakeProfit(
     // 允许无参数调用：若未提供百分�?价格，将基于ATR动态计�?
 
     try {
-        const client = await getBinanceInstance();
+        const exchange = await getExchangeAdapter();
         const binanceSymbol = symbol.replace("/", "");
 
         // 获取当前持仓
         console.log(`🔍 Fetching position for ${symbol}...`);
         const positions = await fetchPositions();
         // 🔧 修复：使�?binanceSymbol（无斜杠）进行匹�?
-        const position = positions.find((p) => p.symbol === binanceSymbol);
+        const candidates = positions.filter(
+            (p) =>
+                p.symbol === binanceSymbol &&
+                p.contracts !== 0 &&
+                (!positionSide || p.side === positionSide.toLowerCase())
+        );
 
-        if (!position || position.contracts === 0) {
+        if (candidates.length === 0) {
             return {
                 success: false,
-                error: `No open position found for ${symbol}`,
+                error: `No open ${positionSide ? `${positionSide} ` : ""}position found for ${symbol}`,
             };
         }
+        if (candidates.length > 1) {
+            return {
+                success: false,
+                error: `Both LONG and SHORT positions are open for ${symbol}; specify positionSide`,
+            };
+        }
+        const position = candidates[0];
 
         const positionAmount = Math.abs(position.contracts);
         const isLong = position.side === "long";
@@ -271,17 +281,15 @@ export async function setStopLossTakeProfit(
         let effectiveSLPercent = stopLossPercent;
         let effectiveTPPercent = takeProfitPercent;
 
+        const hasTargets = !!takeProfitTargets && takeProfitTargets.length > 0;
+
         // 若未提供任何参数，使�?H ATR动态推导百分比
-        if (!finalStopLoss && !finalTakeProfit && !effectiveSLPercent && !effectiveTPPercent) {
+        if (!finalStopLoss && !finalTakeProfit && !effectiveSLPercent && !effectiveTPPercent && !hasTargets) {
             try {
                 const ms = await getCurrentMarketState(symbol);
-                const refPrice = ms.current_price || entryPrice;
-                const atr14 = ms.longer_term?.atr_14 || 0;
-                const volPct = refPrice > 0 && atr14 > 0 ? (atr14 / refPrice) * 100 : 2.5; // %
-                // 🔧 完全基于ATR,不限制范�?由市场波动率决定
-                // AI可以通过传入参数覆盖这个默认�?
-                effectiveSLPercent = volPct * 1.5;  // 1.5倍ATR作为止损
-                effectiveTPPercent = effectiveSLPercent * 3.0;  // 3倍止损作为止�?
+                ({ stopLossPercent: effectiveSLPercent, takeProfitPercent: effectiveTPPercent } =
+                    getAtrStopLossTakeProfitPercent(ms, entryPrice));
+                const volPct = effectiveSLPercent / 1.5;
                 console.log(`🧮 Dynamic SL/TP from ATR: vol%=${volPct.toFixed(2)} �?SL=${effectiveSLPercent.toFixed(2)}% TP=${effectiveTPPercent.toFixed(2)}%`);
             } catch (e: any) {
                 // 回退到默认�?
@@ -291,24 +299,48 @@ export async function setStopLossTakeProfit(
             }
         }
 
-        if (effectiveSLPercent && !finalStopLoss) {
-            finalStopLoss = isLong
-                ? entryPrice * (1 - effectiveSLPercent / 100)
-                : entryPrice * (1 + effectiveSLPercent / 100);
+        const percentPrices = getStopLossTakeProfitPrices({
+            entryPrice,
+            isLong,
+            stopLossPercent: effectiveSLPercent,
+            takeProfitPercent: effectiveTPPercent,
+        });
+
+        if (percentPrices.stopLoss && !finalStopLoss) {
+            finalStopLoss = percentPrices.stopLoss;
             console.log(`📉 Calculated stop loss from ${effectiveSLPercent}%: $${finalStopLoss.toFixed(2)}`);
         }
 
-        if (effectiveTPPercent && !finalTakeProfit) {
-            finalTakeProfit = isLong
-                ? entryPrice * (1 + effectiveTPPercent / 100)
-                : entryPrice * (1 - effectiveTPPercent / 100);
+        if (percentPrices.takeProfit && !finalTakeProfit) {
+            finalTakeProfit = percentPrices.takeProfit;
             console.log(`📈 Calculated take profit from ${effectiveTPPercent}%: $${finalTakeProfit.toFixed(2)}`);
         }
 
+        // 没有给出分批止盈（如加仓决策）时保留现有的分批止盈档，只替换止损；加仓部分由 closePosition 档 / 止损覆盖
+        let keptTakeProfits: ExchangeOrder[] = [];
+        if (!hasTargets) {
+            try {
+                keptTakeProfits = selectTakeProfitTranchesToKeep(
+                    await exchange.getOpenOrders(binanceSymbol),
+                    isLong ? "LONG" : "SHORT",
+                    await exchange.getPositionMode()
+                );
+            } catch (error) {
+                console.warn(`⚠️ Failed to load existing take profit tranches:`, error instanceof Error ? error.message : error);
+            }
+            if (keptTakeProfits.length > 0) {
+                console.log(`🎯 Keeping ${keptTakeProfits.length} existing take profit tranches (no new targets given)`);
+            }
+        }
+
         // 🆕 先清理该持仓的旧止损/止盈订单,避免达到订单上限
         console.log(`🧹 Cleaning up old SL/TP orders for ${symbol}...`);
         try {
-            const cancelResult = await cancelStopLossTakeProfitForPosition(binanceSymbol, isLong ? "LONG" : "SHORT");
+            const cancelResult = await cancelStopLossTakeProfitForPosition(
+                binanceSymbol,
+                isLong ? "LONG" : "SHORT",
+                keptTakeProfits.length > 0 ? ["STOP_MARKET"] : undefined
+            );
             if (cancelResult.canceledCount > 0) {
                 console.log(`�?Cleared ${cancelResult.canceledCount} old orders`);
                 // 🔧 等待订单系统完全处理取消请求（增加到 5 秒）
@@ -324,10 +356,10 @@ export async function setStopLossTakeProfit(
         }
 
         let stopLossOrderId: string | undefined;
-        let takeProfitOrderId: string | undefined;
+        const takeProfitOrderIds: string[] = keptTakeProfits.map((order) => order.orderId);
 
         // Get position mode
-        const positionMode = await getPositionMode();
+        const positionMode = await exchange.getPositionMode();
 
         // 创建止损�?(STOP_MARKET)
         if (finalStopLoss) {
@@ -346,9 +378,12 @@ export async function setStopLossTakeProfit(
             }
 
             // 准备止损订单参数（在外层定义，以便错误处理时可以访问�?
-            const stopLossParams: any = {
-                stopPrice: finalStopLoss.toFixed(2),
-                closePosition: "true",
+            const stopLossParams: PlaceOrderParams = {
+                symbol: binanceSymbol,
+                side: isLong ? "SELL" : "BUY",
+                type: "STOP_MARKET",
+                stopPrice: finalStopLoss,
+                closePosition: true,
             };
 
             // Only set positionSide for DUAL_SIDE mode
@@ -356,49 +391,84 @@ export async function setStopLossTakeProfit(
                 stopLossParams.positionSide = isLong ? "LONG" : "SHORT";
             }
 
-            try {
-                console.log(`🛑 Creating stop loss order at $${finalStopLoss.toFixed(2)} (mode: ${positionMode})...`);
+            // 触发价按 PRICE_FILTER 的 tickSize 取整（DOGE 等低价币不能固定保留两位小数）
+            const prepared = await prepareOrder(stopLossParams);
+            if (!prepared.ok) {
+                return {
+                    success: false,
+                    error: `Invalid stop loss: ${formatOrderRejections(prepared.rejections)}`,
+                    rejections: prepared.rejections,
+                };
+            }
+            const clientOrderId = createClientOrderId(ledger, OrderPurpose.StopLoss, binanceSymbol, isLong ? "LONG" : "SHORT", prepared.params.stopPrice);
+            prepared.params.clientOrderId = clientOrderId;
 
-                const response = await (client as any).newOrder(
-                    binanceSymbol,
-                    isLong ? "SELL" : "BUY",
-                    "STOP_MARKET",
-                    stopLossParams
-                );
+            try {
+                console.log(`🛑 Creating stop loss order at $${prepared.params.stopPrice} (mode: ${positionMode})...`);
 
-                stopLossOrderId = response.data.orderId?.toString();
+                const order = await submitOrder(exchange, { ...prepared.params, clientOrderId }, { label: "Stop loss order" });
+                stopLossOrderId = order.orderId;
                 console.log(`�?Stop loss order created: ${stopLossOrderId}`);
+                await recordOrder({ context: ledger, purpose: OrderPurpose.StopLoss, request: prepared.params, positionSide: isLong ? "LONG" : "SHORT", order });
             } catch (error: any) {
-                console.error(`�?Failed to create stop loss:`, error?.response?.data || error.message);
+                console.error(`�?Failed to create stop loss:`, error.message);
+                await recordOrder({ context: ledger, purpose: OrderPurpose.StopLoss, request: prepared.params, positionSide: isLong ? "LONG" : "SHORT", error: error.message });
                 return {
                     success: false,
-                    error: `Failed to create stop loss: ${error?.response?.data?.msg || error.message}`,
+                    error: `Failed to create stop loss: ${error.message}`,
                 };
             }
         }
 
-        // 创建止盈�?(TAKE_PROFIT_MARKET)
-        if (finalTakeProfit) {
-            // 验证止盈价格合理�?
-            if (isLong && finalTakeProfit <= entryPrice) {
-                return {
-                    success: false,
-                    error: `Take profit price (${finalTakeProfit}) must be above entry price (${entryPrice}) for long position`,
-                };
-            }
-            if (!isLong && finalTakeProfit >= entryPrice) {
+        // 创建止盈�?(TAKE_PROFIT_MARKET)：单一止盈为一档 100% 的 closePosition 单，分批止盈每档一个 reduce-only 单
+        const targets: TakeProfitTarget[] = hasTargets
+            ? takeProfitTargets!
+            : finalTakeProfit && keptTakeProfits.length === 0 ? [{ price: finalTakeProfit, portion: 100 }] : [];
+        if (targets.length > 0) {
+            const filters = await getSymbolFilters(binanceSymbol);
+            const tranches = planTakeProfitTranches({
+                entryPrice,
+                isLong,
+                positionAmount,
+                targets,
+                stepSize: filters?.marketStepSize ?? 0,
+                minQty: filters?.marketMinQty ?? 0,
+            });
+            if (tranches.length === 0) {
                 return {
                     success: false,
-                    error: `Take profit price (${finalTakeProfit}) must be below entry price (${entryPrice}) for short position`,
+                    error: `Position ${positionAmount} is too small to split into take profit tranches`,
+                    stopLossOrderId,
                 };
             }
 
-            try {
-                console.log(`🎯 Creating take profit order at $${finalTakeProfit.toFixed(2)} (mode: ${positionMode})...`);
+            for (const [index, tranche] of tranches.entries()) {
+                // 验证止盈价格合理�?
+                if (isLong && tranche.price <= entryPrice) {
+                    return {
+                        success: false,
+                        error: `Take profit price (${tranche.price}) must be above entry price (${entryPrice}) for long position`,
+                        stopLossOrderId,
+                        takeProfitOrderIds,
+                    };
+                }
+                if (!isLong && tranche.price >= entryPrice) {
+                    return {
+                        success: false,
+                        error: `Take profit price (${tranche.price}) must be below entry price (${entryPrice}) for short position`,
+                        stopLossOrderId,
+                        takeProfitOrderIds,
+                    };
+                }
 
-                const takeProfitParams: any = {
-                    stopPrice: finalTakeProfit.toFixed(2),
-                    closePosition: "true", // 平仓整个持仓
+                const takeProfitParams: PlaceOrderParams = {
+                    symbol: binanceSymbol,
+                    side: isLong ? "SELL" : "BUY",
+                    type: "TAKE_PROFIT_MARKET",
+                    stopPrice: tranche.price,
+                    ...(tranche.closePosition
+                        ? { closePosition: true } // 平仓整个持仓
+                        : { quantity: tranche.quantity, ...(positionMode === "DUAL_SIDE" ? {} : { reduceOnly: true }) }),
                 };
 
                 // Only set positionSide for DUAL_SIDE mode
@@ -406,28 +476,51 @@ export async function setStopLossTakeProfit(
                     takeProfitParams.positionSide = isLong ? "LONG" : "SHORT";
                 }
 
-                const response = await (client as any).newOrder(
-                    binanceSymbol,
-                    isLong ? "SELL" : "BUY",
-                    "TAKE_PROFIT_MARKET",
-                    takeProfitParams
-                );
-
-                takeProfitOrderId = response.data.orderId?.toString();
-                console.log(`�?Take profit order created: ${takeProfitOrderId}`);
-            } catch (error: any) {
-                console.error(`�?Failed to create take profit:`, error?.response?.data || error.message);
-                return {
-                    success: false,
-                    error: `Failed to create take profit: ${error?.response?.data?.msg || error.message}`,
+                // 平仓单不受最小名义价值限制
+                const prepared = await prepareOrder({ ...takeProfitParams, reduceOnly: true });
+                if (!prepared.ok) {
+                    return {
+                        success: false,
+                        error: `Invalid take profit: ${formatOrderRejections(prepared.rejections)}`,
+                        stopLossOrderId,
+                        takeProfitOrderIds,
+                        rejections: prepared.rejections,
+                    };
+                }
+                const request: PlaceOrderParams = {
+                    ...takeProfitParams,
+                    stopPrice: prepared.params.stopPrice,
+                    quantity: prepared.params.quantity,
                 };
+                const clientOrderId = createClientOrderId(ledger, OrderPurpose.TakeProfit, binanceSymbol, isLong ? "LONG" : "SHORT", request.stopPrice, index, request.quantity);
+                request.clientOrderId = clientOrderId;
+                const label = tranches.length > 1 ? `take profit ${index + 1}/${tranches.length}` : "take profit";
+
+                try {
+                    console.log(`🎯 Creating ${label} order at $${request.stopPrice} for ${tranche.closePosition ? "the remaining position" : request.quantity} (mode: ${positionMode})...`);
+
+                    const order = await submitOrder(exchange, { ...request, clientOrderId }, { label: "Take profit order" });
+                    takeProfitOrderIds.push(order.orderId);
+                    console.log(`�?Take profit order created: ${order.orderId}`);
+                    await recordOrder({ context: ledger, purpose: OrderPurpose.TakeProfit, request, positionSide: isLong ? "LONG" : "SHORT", order });
+                } catch (error: any) {
+                    console.error(`�?Failed to create ${label}:`, error.message);
+                    await recordOrder({ context: ledger, purpose: OrderPurpose.TakeProfit, request, positionSide: isLong ? "LONG" : "SHORT", error: error.message });
+                    return {
+                        success: false,
+                        error: `Failed to create ${label}: ${error.message}`,
+                        stopLossOrderId,
+                        takeProfitOrderIds,
+                    };
+                }
             }
         }
 
         return {
             success: true,
             stopLossOrderId,
-            takeProfitOrderId,
+            takeProfitOrderId: takeProfitOrderIds[0],
+            takeProfitOrderIds,
         };
     } catch (error: any) {
         console.error("�?Failed to set stop-loss/take-profit:", error);
@@ -470,6 +563,7 @@ export async function setAutoStopLossTakeProfitForAll(params?: {
 
             const result = await setStopLossTakeProfit({
                 symbol: position.symbol,
+                positionSide: position.side === "long" ? "LONG" : "SHORT",
                 stopLossPercent,
                 takeProfitPercent,
             });
@@ -500,53 +594,16 @@ export async function cancelStopLossTakeProfit(
     symbol: string
 ): Promise<{ success: boolean; canceledCount: number; error?: string }> {
     try {
-        const client = await getBinanceInstance();
+        const exchange = await getExchangeAdapter();
         const binanceSymbol = symbol.replace("/", "");
 
         // 获取所有未成交订单
         console.log(`🔍 Fetching open orders for ${symbol}...`);
-        const openOrders = await (async () => {
-            try {
-                if (typeof (client as any).openOrders === 'function') {
-                    const resp = await (client as any).openOrders({ symbol: binanceSymbol });
-                    return resp.data || resp || [];
-                }
-                if (typeof (client as any).getOpenOrders === 'function') {
-                    const resp = await (client as any).getOpenOrders({ symbol: binanceSymbol });
-                    return resp.data || resp || [];
-                }
-                if (typeof (client as any).fetchOpenOrders === 'function') {
-                    const resp = await (client as any).fetchOpenOrders({ symbol: binanceSymbol });
-                    return resp.data || resp || [];
-                }
-            } catch (e) {
-                // fall through
-            }
-
-            // REST fallback
-            try {
-                const tradingMode = process.env.TRADING_MODE || 'dry-run';
-                const isDryRun = tradingMode === 'dry-run';
-                const apiKey = isDryRun ? (process.env.BINANCE_TESTNET_API_KEY || '') : (process.env.BINANCE_LIVE_API_KEY || '');
-                const apiSecret = isDryRun ? (process.env.BINANCE_TESTNET_API_SECRET || '') : (process.env.BINANCE_LIVE_API_SECRET || '');
-                const baseUrl = getBinanceBaseUrl().replace(/\/$/, '');
-                const timestamp = Date.now();
-                const query = `symbol=${binanceSymbol}&timestamp=${timestamp}`;
-                const signature = crypto.createHmac('sha256', apiSecret).update(query).digest('hex');
-                const url = `${baseUrl}/fapi/v1/openOrders?${query}&signature=${signature}`;
-                const resp = await fetch(url, { headers: { 'X-MBX-APIKEY': apiKey } });
-                if (!resp.ok) throw new Error(`HTTP ${resp.status} ${resp.statusText}`);
-                const data = await resp.json();
-                return data || [];
-            } catch (e: any) {
-                console.error('�?REST fallback for openOrders failed:', e?.message || e);
-                return [];
-            }
-        })();
+        const openOrders = await exchange.getOpenOrders(binanceSymbol);
 
         // 筛选出止损止盈�?
         const slTpOrders = openOrders.filter(
-            (order: any) =>
+            (order) =>
                 order.type === "STOP_MARKET" || order.type === "TAKE_PROFIT_MARKET"
         );
 
@@ -555,13 +612,11 @@ export async function cancelStopLossTakeProfit(
         let canceledCount = 0;
         for (const order of slTpOrders) {
             try {
-                await (client as any).cancelOrder(binanceSymbol, {
-                    orderId: order.orderId,
-                });
+                await exchange.cancelOrder(binanceSymbol, order.orderId);
                 canceledCount++;
                 console.log(`�?Canceled order: ${order.orderId}`);
             } catch (e: any) {
-                console.error(`�?Failed to cancel order ${order.orderId}:`, e?.response?.data || e.message);
+                console.error(`�?Failed to cancel order ${order.orderId}:`, e.message);
             }
         }
 
@@ -577,29 +632,201 @@ export async function cancelStopLossTakeProfit(
     }
 }
 
+/**
+ * Scale the open take-profit tranches of a position after it was partly closed
+ * ratio: 剩余持仓 / 原持仓。closePosition 档和止损单随持仓自动覆盖，不需要调整
+ */
+export async function resizeTakeProfitTranches(params: {
+    symbol: string; // e.g., "BTC/USDT"
+    positionSide: "LONG" | "SHORT";
+    ratio: number;
+    ledger?: OrderLedgerContext;
+}): Promise<{ success: boolean; resized: number; error?: string }> {
+    const { symbol, positionSide, ratio, ledger } = params;
+    if (!(ratio > 0) || ratio >= 1) {
+        return { success: true, resized: 0 };
+    }
+
+    try {
+        const exchange = await getExchangeAdapter();
+        const binanceSymbol = symbol.replace("/", "");
+        const positionMode = await exchange.getPositionMode();
+        const openOrders = await exchange.getOpenOrders(binanceSymbol);
+        const tranches = openOrders.filter(
+            (order) =>
+                order.type === "TAKE_PROFIT_MARKET" &&
+                !order.closePosition &&
+                (positionMode !== "DUAL_SIDE" || order.positionSide === positionSide)
+        );
+        if (tranches.length === 0) {
+            return { success: true, resized: 0 };
+        }
+
+        const filters = await getSymbolFilters(binanceSymbol);
+        let resized = 0;
+        for (const order of tranches) {
+            const quantity = roundToStep((order.origQty - order.executedQty) * ratio, filters?.marketStepSize ?? 0);
+            await exchange.cancelOrder(binanceSymbol, order.orderId);
+
+            // 缩小后低于最小数量的档直接撤销，剩余部分由后面的档 / 止损覆盖
+            if (quantity <= 0 || quantity < (filters?.marketMinQty ?? 0)) {
+                console.log(`   🗑️ Dropped take profit tranche ${order.orderId} at $${order.stopPrice} (resized quantity ${quantity} below minimum)`);
+                continue;
+            }
+
+            const request: PlaceOrderParams = {
+                symbol: binanceSymbol,
+                side: order.side,
+                type: "TAKE_PROFIT_MARKET",
+                stopPrice: order.stopPrice,
+                quantity,
+                ...(positionMode === "DUAL_SIDE" ? { positionSide } : { reduceOnly: true }),
+            };
+            const clientOrderId = createClientOrderId(ledger, OrderPurpose.TakeProfit, binanceSymbol, positionSide, request.stopPrice, "resize", order.orderId, quantity);
+            request.clientOrderId = clientOrderId;
+            try {
+                const replacement = await submitOrder(exchange, { ...request, clientOrderId }, { label: "Take profit order" });
+                await recordOrder({ context: ledger, purpose: OrderPurpose.TakeProfit, request, positionSide, order: replacement });
+                console.log(`   📐 Take profit tranche at $${order.stopPrice}: ${order.origQty - order.executedQty} → ${quantity}`);
+                resized++;
+            } catch (error) {
+                await recordOrder({ context: ledger, purpose: OrderPurpose.TakeProfit, request, positionSide, error: error instanceof Error ? error.message : String(error) });
+                throw error;
+            }
+        }
+
+        return { success: true, resized };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`�?Failed to resize take profit tranches for ${symbol}:`, message);
+        return { success: false, resized: 0, error: message || "Unknown error occurred" };
+    }
+}
+
+/**
+ * Move the stop-loss of a position without touching its take-profit orders
+ * 只朝有利方向移动（多头上移、空头下移）；改进幅度小于 minStepPercent 时不重挂。
+ * 新止损挂失败时恢复原止损，持仓不会失去保护
+ */
+export async function replaceStopLoss(params: {
+    symbol: string; // e.g., "BTC/USDT"
+    positionSide: "LONG" | "SHORT";
+    stopPrice: number;
+    minStepPercent?: number;
+    ledger?: OrderLedgerContext;
+}): Promise<{ success: boolean; changed: boolean; stopPrice?: number; stopLossOrderId?: string; error?: string }> {
+    const { symbol, positionSide, stopPrice, minStepPercent = 0, ledger } = params;
+    const isLong = positionSide === "LONG";
+
+    try {
+        const exchange = await getExchangeAdapter();
+        const binanceSymbol = symbol.replace("/", "");
+        const positionMode = await exchange.getPositionMode();
+        const openOrders = await exchange.getOpenOrders(binanceSymbol);
+        const currentStops = openOrders.filter(
+            (order) =>
+                order.type === "STOP_MARKET" &&
+                (positionMode !== "DUAL_SIDE" || order.positionSide === positionSide)
+        );
+
+        // 现有止损中最有利的一个
+        const currentStop = currentStops.length > 0
+            ? (isLong ? Math.max : Math.min)(...currentStops.map((order) => order.stopPrice))
+            : undefined;
+        if (currentStop !== undefined) {
+            const improvement = isLong ? stopPrice - currentStop : currentStop - stopPrice;
+            if (improvement <= currentStop * (minStepPercent / 100)) {
+                return { success: true, changed: false, stopPrice: currentStop };
+            }
+        }
+
+        const stopLossParams: PlaceOrderParams = {
+            symbol: binanceSymbol,
+            side: isLong ? "SELL" : "BUY",
+            type: "STOP_MARKET",
+            stopPrice,
+            closePosition: true,
+            ...(positionMode === "DUAL_SIDE" ? { positionSide } : {}),
+        };
+        const prepared = await prepareOrder(stopLossParams);
+        if (!prepared.ok) {
+            return { success: false, changed: false, error: `Invalid stop loss: ${formatOrderRejections(prepared.rejections)}` };
+        }
+        const request = prepared.params;
+        if (currentStop !== undefined && request.stopPrice === currentStop) {
+            return { success: true, changed: false, stopPrice: currentStop }; // 取整后与现有止损相同
+        }
+
+        // 同方向只能有一个 closePosition 止损单，先撤旧单（止盈单保留）
+        for (const order of currentStops) {
+            await exchange.cancelOrder(binanceSymbol, order.orderId);
+        }
+
+        const clientOrderId = createClientOrderId(ledger, OrderPurpose.StopLoss, binanceSymbol, positionSide, request.stopPrice);
+        request.clientOrderId = clientOrderId;
+        try {
+            const order = await submitOrder(exchange, { ...request, clientOrderId }, { label: "Stop loss order" });
+            await recordOrder({ context: ledger, purpose: OrderPurpose.StopLoss, request, positionSide, order });
+            console.log(`🪜 ${symbol} ${positionSide} stop moved ${currentStop !== undefined ? `$${currentStop} → ` : ""}$${request.stopPrice}`);
+            return { success: true, changed: true, stopPrice: request.stopPrice, stopLossOrderId: order.orderId };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            await recordOrder({ context: ledger, purpose: OrderPurpose.StopLoss, request, positionSide, error: message });
+
+            if (currentStop !== undefined) {
+                const restore: PlaceOrderParams = { ...stopLossParams, stopPrice: currentStop };
+                const restoreId = createClientOrderId(undefined, OrderPurpose.StopLoss, binanceSymbol, positionSide, currentStop);
+                try {
+                    await submitOrder(exchange, { ...restore, clientOrderId: restoreId }, { label: "Stop loss restore" });
+                    console.warn(`⚠️ Restored previous stop at $${currentStop} for ${symbol} ${positionSide}`);
+                } catch (restoreError) {
+                    console.error(`🚨 ${symbol} ${positionSide} has NO stop loss: restore failed:`, restoreError instanceof Error ? restoreError.message : restoreError);
+                }
+            }
+            return { success: false, changed: false, error: `Failed to move stop loss: ${message}` };
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`�?Failed to move stop loss for ${symbol}:`, message);
+        return { success: false, changed: false, error: message || "Unknown error occurred" };
+    }
+}
+
 /**
  * 追踪止损逻辑
- * 当价格向有利方向移动时，自动调整止损价格
+ * 当价格向有利方向移动时，把止损上移到当前价下方 trailingPercent（空头相反），止盈单保留
  */
 export async function updateTrailingStop(
     symbol: string,
-    trailingPercent: number = 2 // 默认追踪2%
+    trailingPercent: number = 2, // 默认追踪2%
+    positionSide?: "LONG" | "SHORT"
 ): Promise<{ success: boolean; newStopLoss?: number; error?: string }> {
     try {
         const binanceSymbol = symbol.replace("/", "");
         const positions = await fetchPositions();
         // 🔧 修复：使�?binanceSymbol（无斜杠）进行匹�?
-        const position = positions.find((p) => p.symbol === binanceSymbol);
+        const candidates = positions.filter(
+            (p) =>
+                p.symbol === binanceSymbol &&
+                p.contracts !== 0 &&
+                (!positionSide || p.side === positionSide.toLowerCase())
+        );
 
-        if (!position || position.contracts === 0) {
+        if (candidates.length === 0) {
             return {
                 success: false,
-                error: `No open position found for ${symbol}`,
+                error: `No open ${positionSide ? `${positionSide} ` : ""}position found for ${symbol}`,
             };
         }
+        if (candidates.length > 1) {
+            return {
+                success: false,
+                error: `Both LONG and SHORT positions are open for ${symbol}; specify positionSide`,
+            };
+        }
+        const position = candidates[0];
 
         const isLong = position.side === "long";
-        const entryPrice = position.entryPrice;
         const currentPrice = position.markPrice;
         const unrealizedPnL = position.unrealizedPnl;
 
@@ -614,21 +841,21 @@ export async function updateTrailingStop(
             ? currentPrice * (1 - trailingPercent / 100)
             : currentPrice * (1 + trailingPercent / 100);
 
-        // 取消现有止损�?
-        await cancelStopLossTakeProfit(symbol);
-
-        // 设置新的止损�?
-        const result = await setStopLossTakeProfit({
+        // 只替换止损单，新止损不如现有止损时保持不动
+        const result = await replaceStopLoss({
             symbol,
-            stopLoss: newStopLoss,
+            positionSide: isLong ? "LONG" : "SHORT",
+            stopPrice: newStopLoss,
         });
 
         if (result.success) {
-            console.log(`�?Trailing stop updated to $${newStopLoss.toFixed(2)}`);
-            return { success: true, newStopLoss };
+            if (result.changed) {
+                console.log(`�?Trailing stop updated to $${result.stopPrice}`);
+            }
+            return { success: true, newStopLoss: result.stopPrice };
         }
 
-        return result;
+        return { success: false, error: result.error };
     } catch (error: any) {
         console.error("�?Failed to update trailing stop:", error);
         return {
@@ -0,0 +1,124 @@
+/**
+ * Tradable symbol registry
+ * TradingSymbol 表是可交易币种的唯一来源（行情拉取、提示词、决策 schema、前端卡片、下单精度）；
+ * 表为空时写入默认币种，数据库不可用时退回默认列表。新增币种只需插入一行，无需改 schema
+ */
+
+import { prisma } from "../prisma";
+import { toBaseSymbol } from "./exchange-adapter";
+
+const CACHE_TTL_MS = 30_000;
+
+export interface SymbolSpec {
+    symbol: string; // 不带 USDT，如 BTC
+    name: string;
+    enabled: boolean;
+    quantityPrecision: number;
+    pricePrecision: number;
+    minNotional: number;
+    sortOrder: number;
+}
+
+export const DEFAULT_SYMBOL_SPECS: SymbolSpec[] = [
+    { symbol: "BTC", name: "Bitcoin", enabled: true, quantityPrecision: 3, pricePrecision: 1, minNotional: 5, sortOrder: 0 },
+    { symbol: "ETH", name: "Ethereum", enabled: true, quantityPrecision: 2, pricePrecision: 2, minNotional: 5, sortOrder: 1 },
+    { symbol: "SOL", name: "Solana", enabled: true, quantityPrecision: 0, pricePrecision: 3, minNotional: 5, sortOrder: 2 }, // 测试网精度
+    { symbol: "BNB", name: "BNB", enabled: true, quantityPrecision: 1, pricePrecision: 2, minNotional: 5, sortOrder: 3 },
+    { symbol: "DOGE", name: "Dogecoin", enabled: true, quantityPrecision: 0, pricePrecision: 5, minNotional: 5, sortOrder: 4 },
+    { symbol: "ADA", name: "Cardano", enabled: false, quantityPrecision: 0, pricePrecision: 4, minNotional: 5, sortOrder: 5 },
+];
+
+let cache: { specs: SymbolSpec[]; loadedAt: number } | null = null;
+
+function toSymbolSpec(row: SymbolSpec): SymbolSpec {
+    return {
+        symbol: row.symbol,
+        name: row.name,
+        enabled: row.enabled,
+        quantityPrecision: row.quantityPrecision,
+        pricePrecision: row.pricePrecision,
+        minNotional: row.minNotional,
+        sortOrder: row.sortOrder,
+    };
+}
+
+/**
+ * All registered symbols ordered by sortOrder (seeds the defaults into an empty table)
+ */
+export async function listSymbols(): Promise<SymbolSpec[]> {
+    if (cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) {
+        return cache.specs;
+    }
+
+    let specs: SymbolSpec[];
+    try {
+        const rows = await prisma.tradingSymbol.findMany({ orderBy: [{ sortOrder: "asc" }, { symbol: "asc" }] });
+        if (rows.length === 0) {
+            await prisma.tradingSymbol.createMany({ data: DEFAULT_SYMBOL_SPECS, skipDuplicates: true });
+            specs = DEFAULT_SYMBOL_SPECS;
+        } else {
+            specs = rows.map(toSymbolSpec);
+        }
+    } catch (error) {
+        console.warn("⚠️ Symbol registry unavailable, using default symbols:", error instanceof Error ? error.message : error);
+        specs = DEFAULT_SYMBOL_SPECS;
+    }
+
+    cache = { specs, loadedAt: Date.now() };
+    return specs;
+}
+
+/**
+ * Enabled base symbols, e.g. ["BTC", "ETH"]
+ */
+export async function getEnabledSymbols(): Promise<string[]> {
+    return (await listSymbols()).filter((s) => s.enabled).map((s) => s.symbol);
+}
+
+/**
+ * "BTC" -> "BTC/USDT"
+ */
+export function toTradingPair(symbol: string): string {
+    return `${toBaseSymbol(symbol)}/USDT`;
+}
+
+/**
+ * Spec of a symbol in any format ("BTC", "BTC/USDT", "BTCUSDT"); unregistered symbols get a conservative default
+ */
+export async function getSymbolSpec(symbol: string): Promise<SymbolSpec> {
+    const base = toBaseSymbol(symbol);
+    const spec = (await listSymbols()).find((s) => s.symbol === base);
+    return spec ?? {
+        symbol: base,
+        name: base,
+        enabled: false,
+        quantityPrecision: 3,
+        pricePrecision: 2,
+        minNotional: 5,
+        sortOrder: Number.MAX_SAFE_INTEGER,
+    };
+}
+
+/**
+ * Add a symbol or update its fields (e.g. enable / disable)
+ */
+export async function upsertSymbol(input: Partial<SymbolSpec> & { symbol: string }): Promise<SymbolSpec> {
+    const symbol = toBaseSymbol(input.symbol.toUpperCase());
+    const fields = {
+        name: input.name,
+        enabled: input.enabled,
+        quantityPrecision: input.quantityPrecision,
+        pricePrecision: input.pricePrecision,
+        minNotional: input.minNotional,
+        sortOrder: input.sortOrder,
+    };
+
+    const row = await prisma.tradingSymbol.upsert({
+        where: { symbol },
+        create: { ...fields, symbol, name: input.name ?? symbol },
+        update: fields,
+    });
+    cache = null;
+
+    return toSymbolSpec(row);
+}
@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { TrailingMethod } from "@prisma/client";
+import type { KlineData, MarketState } from "./current-market-state";
+import { computeTrailingStopPrice, getNextTrailingStop, isTrailingActivated } from "./trailing-stop";
+
+function kline(low: number, high: number): KlineData {
+    return { timestamp: 0, open: low, high, low, close: high, volume: 1, trend: "bullish", change_percent: 0 };
+}
+
+function marketState(atr: number, klines: KlineData[] = []): MarketState {
+    return {
+        longer_term: { atr_14: atr } as MarketState["longer_term"],
+        kline_data: { minute_15: klines } as MarketState["kline_data"],
+    } as MarketState;
+}
+
+type Params = Parameters<typeof getNextTrailingStop>[0];
+
+function step(overrides: Partial<Params> = {}) {
+    return getNextTrailingStop({
+        method: TrailingMethod.Percent,
+        value: 2,
+        activationPercent: null,
+        isLong: true,
+        price: 110,
+        entryPrice: 100,
+        extremePrice: null,
+        currentStop: null,
+        ...overrides,
+    });
+}
+
+describe("computeTrailingStopPrice", () => {
+    it("trails a percentage behind the extreme price", () => {
+        assert.equal(computeTrailingStopPrice({ method: TrailingMethod.Percent, value: 2, isLong: true, extremePrice: 200 }), 196);
+        assert.equal(computeTrailingStopPrice({ method: TrailingMethod.Percent, value: 2, isLong: false, extremePrice: 200 }), 204);
+    });
+
+    it("trails ATR multiples and needs an ATR", () => {
+        const state = marketState(3);
+        assert.equal(computeTrailingStopPrice({ method: TrailingMethod.Atr, value: 2, isLong: true, extremePrice: 200, marketState: state }), 194);
+        assert.equal(computeTrailingStopPrice({ method: TrailingMethod.Atr, value: 2, isLong: false, extremePrice: 200, marketState: state }), 206);
+        assert.equal(computeTrailingStopPrice({ method: TrailingMethod.Atr, value: 2, isLong: true, extremePrice: 200 }), null);
+    });
+
+    it("places structure stops beyond the recent swing with an ATR buffer", () => {
+        const state = marketState(1, [kline(95, 101), kline(97, 104), kline(96, 103)]);
+        assert.equal(computeTrailingStopPrice({ method: TrailingMethod.Structure, value: 0.5, isLong: true, extremePrice: 104, marketState: state }), 94.5);
+        assert.equal(computeTrailingStopPrice({ method: TrailingMethod.Structure, value: 0.5, isLong: false, extremePrice: 95, marketState: state }), 104.5);
+        assert.equal(computeTrailingStopPrice({ method: TrailingMethod.Structure, value: 0.5, isLong: true, extremePrice: 104, marketState: marketState(1) }), null);
+    });
+});
+
+describe("isTrailingActivated", () => {
+    it("waits for the activation profit on either side", () => {
+        assert.equal(isTrailingActivated({ activationPercent: null, isLong: true, price: 90, entryPrice: 100 }), true);
+        assert.equal(isTrailingActivated({ activationPercent: 5, isLong: true, price: 104, entryPrice: 100 }), false);
+        assert.equal(isTrailingActivated({ activationPercent: 5, isLong: true, price: 105, entryPrice: 100 }), true);
+        assert.equal(isTrailingActivated({ activationPercent: 5, isLong: false, price: 95, entryPrice: 100 }), true);
+        assert.equal(isTrailingActivated({ activationPercent: 5, isLong: false, price: 105, entryPrice: 100 }), false);
+    });
+});
+
+describe("getNextTrailingStop", () => {
+    it("ratchets the extreme price and the stop up for a long", () => {
+        const first = step({ price: 110 });
+        assert.deepEqual(first, { extremePrice: 110, stopPrice: 107.8 });
+
+        const higher = step({ price: 120, extremePrice: first.extremePrice, currentStop: first.stopPrice });
+        assert.equal(higher.extremePrice, 120);
+        assert.equal(higher.stopPrice, 117.6);
+    });
+
+    it("never loosens the stop when the price pulls back", () => {
+        const pullback = step({ price: 115, extremePrice: 120, currentStop: 117.6 });
+        assert.equal(pullback.extremePrice, 120);
+        assert.equal(pullback.stopPrice, null);
+
+        // 当前止损已比候选更紧（例如保本止损）时也不动
+        assert.equal(step({ price: 120, extremePrice: 120, currentStop: 118 }).stopPrice, null);
+    });
+
+    it("moves a short's stop down only", () => {
+        const short = { isLong: false, entryPrice: 100 };
+        const first = step({ ...short, price: 90 });
+        assert.deepEqual(first, { extremePrice: 90, stopPrice: 91.8 });
+
+        assert.equal(step({ ...short, price: 95, extremePrice: 90, currentStop: 91.8 }).stopPrice, null);
+        assert.equal(step({ ...short, price: 80, extremePrice: 90, currentStop: 91.8 }).stopPrice, 81.6);
+    });
+
+    it("tracks the extreme but places no stop before activation", () => {
+        const idle = step({ activationPercent: 15, price: 110, extremePrice: 108 });
+        assert.deepEqual(idle, { extremePrice: 110, stopPrice: null });
+        assert.equal(step({ activationPercent: 10, price: 110 }).stopPrice, 107.8);
+    });
+
+    it("skips stops that would trigger immediately", () => {
+        const state = marketState(1, [kline(112, 115)]);
+        assert.equal(step({ method: TrailingMethod.Structure, value: 0, price: 110, marketState: state }).stopPrice, null);
+    });
+
+    it("uses the ATR and structure modes with the market state", () => {
+        assert.equal(step({ method: TrailingMethod.Atr, value: 2, price: 110, marketState: marketState(1.5) }).stopPrice, 107);
+        assert.equal(step({ method: TrailingMethod.Atr, value: 2, price: 110 }).stopPrice, null);
+
+        const state = marketState(1, [kline(104, 108), kline(106, 110)]);
+        assert.equal(step({ method: TrailingMethod.Structure, value: 1, price: 110, marketState: state }).stopPrice, 103);
+    });
+});
@@ -0,0 +1,237 @@
+/**
+ * Server-side trailing stops
+ * 模型在开仓 / Hold 决策里用 trailingStop 开启，配置存在 TrailingStop 表；
+ * 每次 20 秒指标采集时按最新标记价格计算新的止损价，只朝有利方向移动（replaceStopLoss 不动止盈单）。
+ * 支持百分比、ATR 倍数、结构（15m 摆动高低点）三种方式；持仓平掉后自动停用
+ */
+
+import { TrailingMethod, type TrailingStop } from "@prisma/client";
+import { prisma } from "../prisma";
+import { toExchangeSymbol } from "./exchange-adapter";
+import { getCurrentMarketState, type MarketState } from "./current-market-state";
+import type { MetricsSeries } from "./metrics-history";
+import { fetchPositions } from "./positions";
+import { replaceStopLoss } from "./stop-loss-take-profit-official";
+import { toTradingPair } from "./symbol-registry";
+
+const MIN_STEP_PERCENT = 0.1; // 止损改进不足 0.1% 时不重挂，避免频繁撤单
+const STRUCTURE_LOOKBACK = 20; // 结构止损参考最近 20 根 15m K 线
+const PENDING_ENTRY_TTL_MS = 24 * 60 * 60 * 1000; // 限价开仓一直没有持仓时，配置保留 24 小时
+
+export interface TrailingStopConfig {
+    method: "percent" | "atr" | "structure";
+    value: number;
+    activationPercent?: number;
+}
+
+export interface TrailingStopRunResult {
+    checked: number;
+    moved: number;
+    deactivated: number;
+}
+
+const METHODS: Record<TrailingStopConfig["method"], TrailingMethod> = {
+    percent: TrailingMethod.Percent,
+    atr: TrailingMethod.Atr,
+    structure: TrailingMethod.Structure,
+};
+
+/**
+ * Stop price a trail would place right now (null when the inputs are missing)
+ */
+export function computeTrailingStopPrice(params: {
+    method: TrailingMethod;
+    value: number;
+    isLong: boolean;
+    extremePrice: number;
+    marketState?: MarketState;
+}): number | null {
+    const { method, value, isLong, extremePrice, marketState } = params;
+    const atr = marketState?.longer_term?.atr_14 || 0;
+
+    switch (method) {
+        case TrailingMethod.Percent:
+            return isLong ? extremePrice * (1 - value / 100) : extremePrice * (1 + value / 100);
+        case TrailingMethod.Atr:
+            if (!atr) return null;
+            return isLong ? extremePrice - value * atr : extremePrice + value * atr;
+        case TrailingMethod.Structure: {
+            const klines = marketState?.kline_data?.minute_15?.slice(-STRUCTURE_LOOKBACK) ?? [];
+            if (klines.length === 0) return null;
+            // 多头放在最近摆动低点下方，空头放在摆动高点上方，留 value × ATR 的缓冲
+            return isLong
+                ? Math.min(...klines.map((k) => k.low)) - value * atr
+                : Math.max(...klines.map((k) => k.high)) + value * atr;
+        }
+        default:
+            return null;
+    }
+}
+
+/**
+ * Whether the position has reached the trail's activation profit (always active without one)
+ */
+export function isTrailingActivated(params: { activationPercent: number | null; isLong: boolean; price: number; entryPrice: number }): boolean {
+    const { activationPercent, isLong, price, entryPrice } = params;
+    if (activationPercent == null) return true;
+    const profitPercent = ((isLong ? price - entryPrice : entryPrice - price) / entryPrice) * 100;
+    return profitPercent >= activationPercent;
+}
+
+/**
+ * One trailing step: the new extreme price and the stop to place (null: keep the current stop).
+ * The stop is only returned when it tightens the current one and stays on the losing side of the price.
+ */
+export function getNextTrailingStop(params: {
+    method: TrailingMethod;
+    value: number;
+    activationPercent: number | null;
+    isLong: boolean;
+    price: number;
+    entryPrice: number;
+    extremePrice: number | null; // 上次记录的最有利价格
+    currentStop: number | null;
+    marketState?: MarketState;
+}): { extremePrice: number; stopPrice: number | null } {
+    const { isLong, price, currentStop } = params;
+    const extremePrice = params.extremePrice == null
+        ? price
+        : isLong ? Math.max(params.extremePrice, price) : Math.min(params.extremePrice, price);
+    if (!isTrailingActivated(params)) {
+        return { extremePrice, stopPrice: null };
+    }
+
+    const candidate = computeTrailingStopPrice({ ...params, extremePrice });
+    // 候选止损必须在当前价的亏损一侧（否则会立即触发），且只朝有利方向移动
+    if (
+        candidate == null ||
+        candidate <= 0 ||
+        (isLong ? candidate >= price : candidate <= price) ||
+        (currentStop != null && (isLong ? candidate <= currentStop : candidate >= currentStop))
+    ) {
+        return { extremePrice, stopPrice: null };
+    }
+    return { extremePrice, stopPrice: candidate };
+}
+
+/**
+ * Enable (or replace) the trailing stop of a position
+ */
+export async function setTrailingStop(params: {
+    series: MetricsSeries;
+    symbol: string; // "BTC" / "BTC/USDT" / "BTCUSDT"
+    positionSide: "LONG" | "SHORT";
+    config: TrailingStopConfig;
+    tradingId?: string;
+}): Promise<TrailingStop> {
+    const { series, positionSide, config, tradingId } = params;
+    const symbol = toExchangeSymbol(toTradingPair(params.symbol));
+    const data = {
+        method: METHODS[config.method],
+        value: config.value,
+        activationPercent: config.activationPercent ?? null,
+        active: true,
+        entryPrice: null,
+        extremePrice: null,
+        stopPrice: null,
+        lastError: null,
+        tradingId: tradingId ?? null,
+    };
+
+    const row = await prisma.trailingStop.upsert({
+        where: {
+            model_account_symbol_positionSide: { model: series.model, account: series.series, symbol, positionSide },
+        },
+        create: { model: series.model, account: series.series, symbol, positionSide, ...data },
+        update: data,
+    });
+    console.log(`🪜 Trailing stop enabled for ${symbol} ${positionSide}: ${config.method} ${config.value}${config.activationPercent ? ` (after +${config.activationPercent}%)` : ""}`);
+    return row;
+}
+
+/**
+ * Ratchet the stops of every active trail on the account (called on the metrics tick)
+ */
+export async function runTrailingStops(series: MetricsSeries): Promise<TrailingStopRunResult> {
+    const result: TrailingStopRunResult = { checked: 0, moved: 0, deactivated: 0 };
+    const trails = await prisma.trailingStop.findMany({
+        where: { model: series.model, account: series.series, active: true },
+    });
+    if (trails.length === 0) return result;
+
+    const positions = await fetchPositions();
+    const marketStates = new Map<string, MarketState | undefined>();
+
+    for (const trail of trails) {
+        result.checked++;
+        const isLong = trail.positionSide === "LONG";
+        const position = positions.find(
+            (p) => p.symbol === trail.symbol && p.contracts !== 0 && p.side === trail.positionSide.toLowerCase()
+        );
+
+        // 持仓已平（或限价开仓一直没成交）时停用
+        if (!position) {
+            if (trail.entryPrice != null || Date.now() - trail.createdAt.getTime() > PENDING_ENTRY_TTL_MS) {
+                await prisma.trailingStop.update({ where: { id: trail.id }, data: { active: false } });
+                console.log(`🪜 Trailing stop for ${trail.symbol} ${trail.positionSide} deactivated (no position)`);
+                result.deactivated++;
+            }
+            continue;
+        }
+
+        const price = position.markPrice;
+        const entryPrice = position.entryPrice;
+        const tradingSymbol = trail.symbol.replace(/USDT$/, "/USDT");
+
+        let stopPrice = trail.stopPrice;
+        let lastError: string | null = null;
+
+        // 未到激活盈利时不需要 K 线指标
+        const activated = isTrailingActivated({ activationPercent: trail.activationPercent, isLong, price, entryPrice });
+        if (activated && trail.method !== TrailingMethod.Percent && !marketStates.has(tradingSymbol)) {
+            try {
+                marketStates.set(tradingSymbol, await getCurrentMarketState(tradingSymbol));
+            } catch (error) {
+                console.warn(`⚠️ Market state unavailable for trailing ${tradingSymbol}:`, error instanceof Error ? error.message : error);
+                marketStates.set(tradingSymbol, undefined);
+            }
+        }
+
+        const next = getNextTrailingStop({
+            method: trail.method,
+            value: trail.value,
+            activationPercent: trail.activationPercent,
+            isLong,
+            price,
+            entryPrice,
+            extremePrice: trail.extremePrice,
+            currentStop: trail.stopPrice,
+            marketState: marketStates.get(tradingSymbol),
+        });
+        const extremePrice = next.extremePrice;
+
+        if (next.stopPrice != null) {
+            const moved = await replaceStopLoss({
+                symbol: tradingSymbol,
+                positionSide: trail.positionSide as "LONG" | "SHORT",
+                stopPrice: next.stopPrice,
+                minStepPercent: MIN_STEP_PERCENT,
+                ledger: { series, tradingId: trail.tradingId ?? undefined },
+            });
+            if (moved.success) {
+                stopPrice = moved.stopPrice ?? stopPrice;
+                if (moved.changed) result.moved++;
+            } else {
+                lastError = moved.error ?? "Unknown error";
+                console.warn(`⚠️ Trailing stop ${trail.symbol} ${trail.positionSide} not moved: ${lastError}`);
+            }
+        }
+
+        await prisma.trailingStop.update({
+            where: { id: trail.id },
+            data: { entryPrice, extremePrice, stopPrice, lastError },
+        });
+    }
+
+    return result;
+}
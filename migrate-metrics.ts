@@ -0,0 +1,22 @@
+/**
+ * Copy the legacy Metrics Json[] history into MetricSnapshot rows
+ *
+ *   npx prisma db push        # create the MetricSnapshot tables first
+ *   npm run migrate:metrics
+ *
+ * Safe to re-run: points already present (same model, series and timestamp) are skipped.
+ * The old Metrics rows are left untouched.
+ */
+
+import "dotenv/config";
+import { migrateLegacyMetrics } from "./lib/trading/metrics-history";
+
+migrateLegacyMetrics()
+  .then(({ series, inserted, skipped }) => {
+    console.log(`✅ Migrated ${series} series: ${inserted} snapshots inserted, ${skipped} points skipped`);
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("❌ Metrics migration failed:", error);
+    process.exit(1);
+  });
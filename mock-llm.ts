@@ -0,0 +1,43 @@
+/**
+ * Local OpenAI-compatible mock server
+ *
+ *   npm run mock-llm -- --port 8787
+ *   AI_PROVIDER_CHAIN_DEEPSEEK="local" npm run dev
+ *
+ * Options:
+ *   --port      Listen port (default 8787, matches LOCAL_LLM_BASE_URL default)
+ *   --delay     Delay every response by N ms (test provider timeouts)
+ *   --invalid   Return non-JSON content for the first N requests (test schema retry)
+ *   --errors    Return HTTP 500 for the first N requests (test provider fallback)
+ */
+
+import { createMockOpenAIServer } from "./lib/ai/mock-openai-server";
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) continue;
+    const next = argv[i + 1];
+    if (next && !next.startsWith("--")) {
+      args[arg.slice(2)] = next;
+      i++;
+    } else {
+      args[arg.slice(2)] = "true";
+    }
+  }
+  return args;
+}
+
+const args = parseArgs(process.argv.slice(2));
+const port = Number(args.port || 8787);
+
+const server = createMockOpenAIServer({
+  delayMs: Number(args.delay || 0),
+  invalidResponses: Number(args.invalid || 0),
+  errorResponses: Number(args.errors || 0),
+});
+
+server.listen(port, () => {
+  console.log(`🧪 Mock OpenAI-compatible server listening on http://127.0.0.1:${port}/v1`);
+});
@@ -0,0 +1,78 @@
+/**
+ * Local market stream replay
+ *
+ *   npm run backtest -- --symbols BTC --start 2025-01-01 --end 2025-01-20 --sync   (download klines first)
+ *   npm run replay-market -- --symbols BTC --start 2025-01-01 --end 2025-01-20 --port 8790
+ *   MARKET_DATA_STREAM_URL="ws://127.0.0.1:8790" MARKET_DATA_CLOCK="stream" npm run dev
+ *
+ * Options:
+ *   --symbols   Comma separated base symbols (default BTC)
+ *   --start     Start time (ISO date)
+ *   --end       End time (ISO date, default now)
+ *   --warmup    Hours from start delivered immediately as history (default 401, enough for 100 4h candles)
+ *   --delay     Delay between replayed events in ms (default 200)
+ *   --funding   Also emit markPriceUpdate events with this funding rate
+ *   --port      Listen port (default 8790)
+ */
+
+import "dotenv/config";
+import { loadKlines } from "./lib/backtest/kline-store";
+import { buildKlineReplayEvents, createReplayServer, mergeReplayEvents } from "./lib/market-data/replay-server";
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) continue;
+    const next = argv[i + 1];
+    if (next && !next.startsWith("--")) {
+      args[arg.slice(2)] = next;
+      i++;
+    } else {
+      args[arg.slice(2)] = "true";
+    }
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.start) {
+    throw new Error("--start is required");
+  }
+
+  const symbols = (args.symbols || "BTC").split(",").map((s) => s.trim().toUpperCase()).filter(Boolean);
+  const start = new Date(args.start);
+  const end = args.end ? new Date(args.end) : new Date();
+  const port = Number(args.port || 8790);
+  const fundingRate = args.funding !== undefined ? Number(args.funding) : undefined;
+
+  const perSymbol = await Promise.all(
+    symbols.map(async (symbol) => {
+      const rows = await loadKlines(`${symbol}/USDT`, "1m", start, end);
+      if (rows.length === 0) {
+        throw new Error(`No stored 1m klines for ${symbol}, run npm run backtest -- --sync first`);
+      }
+      return buildKlineReplayEvents(`${symbol}/USDT`, rows, { fundingRate });
+    })
+  );
+  const events = mergeReplayEvents(...perSymbol);
+
+  const warmupUntil = start.getTime() + Number(args.warmup || 401) * 60 * 60 * 1000;
+  const warmup = events.findIndex((event) => Number(event.data.E) >= warmupUntil);
+
+  const server = createReplayServer({
+    events,
+    warmup: warmup === -1 ? events.length : warmup,
+    delayMs: Number(args.delay || 200),
+  });
+
+  server.listen(port, () => {
+    console.log(`📼 Replaying ${events.length} events (${symbols.join(", ")}) on ws://127.0.0.1:${port}/stream`);
+  });
+}
+
+main().catch((error) => {
+  console.error("❌ Replay failed:", error);
+  process.exit(1);
+});